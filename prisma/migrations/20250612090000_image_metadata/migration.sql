@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ImageMetadata" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "imageId" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "cameraMake" TEXT,
+    "cameraModel" TEXT,
+    "lensModel" TEXT,
+    "focalLength" REAL,
+    "aperture" REAL,
+    "exposureTime" REAL,
+    "iso" INTEGER,
+    "capturedAt" DATETIME,
+    "latitude" REAL,
+    "longitude" REAL,
+    "altitude" REAL,
+    "artist" TEXT,
+    "copyright" TEXT,
+    "caption" TEXT,
+    "keywords" TEXT,
+    "gpsStripped" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "ImageMetadata_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImageMetadata_imageId_key" ON "ImageMetadata"("imageId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "contentHash" TEXT;
+ALTER TABLE "Image" ADD COLUMN "perceptualHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Image_userId_contentHash_idx" ON "Image"("userId", "contentHash");
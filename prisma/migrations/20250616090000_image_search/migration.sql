@@ -0,0 +1,366 @@
+-- Full-text search index over image text, kept in sync by triggers
+-- Keep in sync with SEARCH_INDEX_STATEMENTS in src/lib/search.ts
+
+CREATE VIRTUAL TABLE IF NOT EXISTS "ImageSearch" USING fts5(
+    "imageId" UNINDEXED,
+    "userId" UNINDEXED,
+    "title",
+    "description",
+    "tags",
+    "galleries",
+    "exif",
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  );
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_image_insert" AFTER INSERT ON "Image" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."id");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."id");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_image_update" AFTER UPDATE OF "title", "description", "userId" ON "Image" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."id");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."id");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_image_delete" AFTER DELETE ON "Image" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" = OLD."id";
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_tag_link" AFTER INSERT ON "_ImageToTag" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."A");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."A");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_tag_unlink" AFTER DELETE ON "_ImageToTag" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (OLD."A");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (OLD."A");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_tag_rename" AFTER UPDATE OF "name" ON "Tag" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (SELECT "A" FROM "_ImageToTag" WHERE "B" = NEW."id");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (SELECT "A" FROM "_ImageToTag" WHERE "B" = NEW."id");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_gallery_link" AFTER INSERT ON "ImageInGallery" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."imageId");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_gallery_link_update" AFTER UPDATE OF "description" ON "ImageInGallery" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."imageId");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_gallery_unlink" AFTER DELETE ON "ImageInGallery" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (OLD."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (OLD."imageId");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_gallery_update" AFTER UPDATE OF "title", "description" ON "Gallery" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (SELECT "imageId" FROM "ImageInGallery" WHERE "galleryId" = NEW."id");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (SELECT "imageId" FROM "ImageInGallery" WHERE "galleryId" = NEW."id");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_metadata_insert" AFTER INSERT ON "ImageMetadata" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."imageId");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_metadata_update" AFTER UPDATE ON "ImageMetadata" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (NEW."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (NEW."imageId");
+  END;
+
+CREATE TRIGGER IF NOT EXISTS "ImageSearch_metadata_delete" AFTER DELETE ON "ImageMetadata" BEGIN
+    DELETE FROM "ImageSearch" WHERE "imageId" IN (OLD."imageId");
+    INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i WHERE i."id" IN (OLD."imageId");
+  END;
+
+INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i;
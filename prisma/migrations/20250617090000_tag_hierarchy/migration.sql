@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "parentId" TEXT REFERENCES "Tag" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Link existing path-style tags ("a/b") to their parent when it exists
+UPDATE "Tag" SET "parentId" = (
+    SELECT p."id" FROM "Tag" p
+    WHERE substr("Tag"."name", 1, length(p."name") + 1) = p."name" || '/'
+      AND instr(substr("Tag"."name", length(p."name") + 2), '/') = 0
+);
+
+-- CreateTable
+CREATE TABLE "TagAlias" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    CONSTRAINT "TagAlias_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Tag_parentId_idx" ON "Tag"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_name_key" ON "TagAlias"("name");
+
+-- CreateIndex
+CREATE INDEX "TagAlias_tagId_idx" ON "TagAlias"("tagId");
@@ -0,0 +1,76 @@
+-- DropIndex
+DROP INDEX "Tag_name_key";
+
+-- DropIndex
+DROP INDEX "TagAlias_name_key";
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "userId" TEXT REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "TagAlias" ADD COLUMN "userId" TEXT;
+
+-- Tags used to be shared by everyone. Every user who uses a tag (directly or
+-- through one of its descendants) gets a private copy of it.
+CREATE TEMP TABLE "_TagUsage" AS
+SELECT DISTINCT t."id" AS "tagId", i."userId" AS "userId"
+FROM "Tag" t
+JOIN "Tag" used ON used."id" = t."id" OR substr(used."name", 1, length(t."name") + 1) = t."name" || '/'
+JOIN "_ImageToTag" it ON it."B" = used."id"
+JOIN "Image" i ON i."id" = it."A";
+
+-- The first user keeps the original tag
+UPDATE "Tag" SET "userId" = (SELECT MIN(u."userId") FROM "_TagUsage" u WHERE u."tagId" = "Tag"."id");
+
+-- Tags nobody uses can't be attributed to an owner
+DELETE FROM "TagAlias" WHERE "tagId" IN (SELECT "id" FROM "Tag" WHERE "userId" IS NULL);
+DELETE FROM "Tag" WHERE "userId" IS NULL;
+
+CREATE TEMP TABLE "_TagCopy" AS
+SELECT u."tagId", u."userId", 'c' || lower(hex(randomblob(12))) AS "copyId"
+FROM "_TagUsage" u
+JOIN "Tag" t ON t."id" = u."tagId"
+WHERE u."userId" <> t."userId";
+
+INSERT INTO "Tag" ("id", "name", "userId")
+SELECT c."copyId", t."name", c."userId"
+FROM "_TagCopy" c
+JOIN "Tag" t ON t."id" = c."tagId";
+
+-- Point every other user's images at their own copy
+UPDATE "_ImageToTag" SET "B" = (
+    SELECT c."copyId" FROM "_TagCopy" c
+    JOIN "Image" i ON i."id" = "_ImageToTag"."A"
+    WHERE c."tagId" = "_ImageToTag"."B" AND c."userId" = i."userId"
+)
+WHERE EXISTS (
+    SELECT 1 FROM "_TagCopy" c
+    JOIN "Image" i ON i."id" = "_ImageToTag"."A"
+    WHERE c."tagId" = "_ImageToTag"."B" AND c."userId" = i."userId"
+);
+
+-- Aliases follow their tags into each namespace
+INSERT INTO "TagAlias" ("id", "name", "tagId", "userId")
+SELECT 'c' || lower(hex(randomblob(12))), a."name", c."copyId", c."userId"
+FROM "TagAlias" a
+JOIN "_TagCopy" c ON c."tagId" = a."tagId";
+
+UPDATE "TagAlias" SET "userId" = (SELECT t."userId" FROM "Tag" t WHERE t."id" = "TagAlias"."tagId")
+WHERE "userId" IS NULL;
+
+-- Rebuild the hierarchy within each owner's tags
+UPDATE "Tag" SET "parentId" = (
+    SELECT p."id" FROM "Tag" p
+    WHERE p."userId" = "Tag"."userId"
+      AND substr("Tag"."name", 1, length(p."name") + 1) = p."name" || '/'
+      AND instr(substr("Tag"."name", length(p."name") + 2), '/') = 0
+);
+
+DROP TABLE "_TagCopy";
+DROP TABLE "_TagUsage";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_userId_name_key" ON "TagAlias"("userId", "name");
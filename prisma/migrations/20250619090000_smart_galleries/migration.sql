@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Gallery" ADD COLUMN "smartRules" TEXT;
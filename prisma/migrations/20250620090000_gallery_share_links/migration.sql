@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "GalleryShareLink" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "galleryId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "passwordHash" TEXT,
+    "expiresAt" DATETIME,
+    "maxViews" INTEGER,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" DATETIME,
+    "lastViewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "GalleryShareLink_galleryId_fkey" FOREIGN KEY ("galleryId") REFERENCES "Gallery" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GalleryShareLink_token_key" ON "GalleryShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "GalleryShareLink_galleryId_idx" ON "GalleryShareLink"("galleryId");
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "ImageInGallery" ADD COLUMN "addedById" TEXT REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Images added so far were all added by the gallery owner
+UPDATE "ImageInGallery" SET "addedById" = (SELECT g."userId" FROM "Gallery" g WHERE g."id" = "ImageInGallery"."galleryId");
+
+-- CreateTable
+CREATE TABLE "GalleryMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "galleryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'VIEWER',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "GalleryMember_galleryId_fkey" FOREIGN KEY ("galleryId") REFERENCES "Gallery" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "GalleryMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "GalleryInvitation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "galleryId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'VIEWER',
+    "token" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "acceptedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "GalleryInvitation_galleryId_fkey" FOREIGN KEY ("galleryId") REFERENCES "Gallery" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "GalleryInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GalleryMember_userId_idx" ON "GalleryMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GalleryMember_galleryId_userId_key" ON "GalleryMember"("galleryId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GalleryInvitation_token_key" ON "GalleryInvitation"("token");
+
+-- CreateIndex
+CREATE INDEX "GalleryInvitation_galleryId_idx" ON "GalleryInvitation"("galleryId");
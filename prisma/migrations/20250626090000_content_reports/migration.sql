@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "hiddenAt" DATETIME;
+ALTER TABLE "Image" ADD COLUMN "moderationReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Gallery" ADD COLUMN "hiddenAt" DATETIME;
+ALTER TABLE "Gallery" ADD COLUMN "moderationReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "Report" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetType" TEXT NOT NULL,
+    "galleryId" TEXT,
+    "imageId" TEXT,
+    "reporterId" TEXT,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "resolution" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Report_galleryId_fkey" FOREIGN KEY ("galleryId") REFERENCES "Gallery" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Report_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Report_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Report_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Report_status_createdAt_idx" ON "Report"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Report_galleryId_idx" ON "Report"("galleryId");
+
+-- CreateIndex
+CREATE INDEX "Report_imageId_idx" ON "Report"("imageId");
+
+-- CreateIndex
+CREATE INDEX "Report_reporterId_idx" ON "Report"("reporterId");
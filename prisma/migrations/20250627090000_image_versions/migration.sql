@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "currentVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ImageVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "imageId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "recipe" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ImageVersion_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImageVersion_imageId_version_key" ON "ImageVersion"("imageId", "version");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "deletedAt" DATETIME;
+ALTER TABLE "Image" ADD COLUMN "trashedLinks" TEXT;
+
+-- AlterTable
+ALTER TABLE "Gallery" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Image_deletedAt_idx" ON "Image"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Gallery_deletedAt_idx" ON "Gallery"("deletedAt");
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourcePath" TEXT,
+    "options" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'AWAITING_UPLOAD',
+    "manifestName" TEXT,
+    "totalItems" INTEGER NOT NULL DEFAULT 0,
+    "processedItems" INTEGER NOT NULL DEFAULT 0,
+    "importedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "heartbeatAt" DATETIME,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ImportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ImportJobItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "path" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "title" TEXT,
+    "description" TEXT,
+    "tags" TEXT,
+    "galleryTitle" TEXT,
+    "caption" TEXT,
+    "imageId" TEXT,
+    "galleryId" TEXT,
+    "message" TEXT,
+    "processedAt" DATETIME,
+    CONSTRAINT "ImportJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_userId_createdAt_idx" ON "ImportJob"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportJobItem_jobId_path_key" ON "ImportJobItem"("jobId", "path");
+
+-- CreateIndex
+CREATE INDEX "ImportJobItem_jobId_status_position_idx" ON "ImportJobItem"("jobId", "status", "position");
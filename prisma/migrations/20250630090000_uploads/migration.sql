@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "result" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Upload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Upload_url_key" ON "Upload"("url");
+
+-- CreateIndex
+CREATE INDEX "Upload_userId_idx" ON "Upload"("userId");
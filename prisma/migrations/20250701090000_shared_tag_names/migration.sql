@@ -0,0 +1,38 @@
+-- Unique indexes treat every NULL owner as distinct, so shared tags and aliases could be
+-- created twice. Keep the oldest shared tag of each name and move everything over to it.
+CREATE TEMP TABLE "_SharedTagDuplicate" AS
+SELECT t."id" AS "duplicateId", k."keptId"
+FROM "Tag" t
+JOIN (SELECT "name", MIN("id") AS "keptId" FROM "Tag" WHERE "userId" IS NULL GROUP BY "name") k ON k."name" = t."name"
+WHERE t."userId" IS NULL AND t."id" <> k."keptId";
+
+-- Images tagged with both copies keep a single link
+DELETE FROM "_ImageToTag"
+WHERE EXISTS (
+    SELECT 1 FROM "_SharedTagDuplicate" d
+    JOIN "_ImageToTag" kept ON kept."B" = d."keptId"
+    WHERE d."duplicateId" = "_ImageToTag"."B" AND kept."A" = "_ImageToTag"."A"
+);
+
+UPDATE "_ImageToTag" SET "B" = (SELECT d."keptId" FROM "_SharedTagDuplicate" d WHERE d."duplicateId" = "_ImageToTag"."B")
+WHERE "B" IN (SELECT "duplicateId" FROM "_SharedTagDuplicate");
+
+UPDATE "Tag" SET "parentId" = (SELECT d."keptId" FROM "_SharedTagDuplicate" d WHERE d."duplicateId" = "Tag"."parentId")
+WHERE "parentId" IN (SELECT "duplicateId" FROM "_SharedTagDuplicate");
+
+UPDATE "TagAlias" SET "tagId" = (SELECT d."keptId" FROM "_SharedTagDuplicate" d WHERE d."duplicateId" = "TagAlias"."tagId")
+WHERE "tagId" IN (SELECT "duplicateId" FROM "_SharedTagDuplicate");
+
+DELETE FROM "Tag" WHERE "id" IN (SELECT "duplicateId" FROM "_SharedTagDuplicate");
+
+DROP TABLE "_SharedTagDuplicate";
+
+DELETE FROM "TagAlias"
+WHERE "userId" IS NULL
+  AND "id" <> (SELECT MIN(k."id") FROM "TagAlias" k WHERE k."userId" IS NULL AND k."name" = "TagAlias"."name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_shared_name_key" ON "Tag"("name") WHERE "userId" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_shared_name_key" ON "TagAlias"("name") WHERE "userId" IS NULL;
@@ -0,0 +1,23 @@
+-- Shared names were kept unique by partial indexes, which "prisma db push" doesn't create.
+-- An owner key that is never null lets a plain unique index cover shared tags as well.
+
+-- DropIndex
+DROP INDEX "Tag_shared_name_key";
+
+-- DropIndex
+DROP INDEX "TagAlias_shared_name_key";
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "ownerKey" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "TagAlias" ADD COLUMN "ownerKey" TEXT NOT NULL DEFAULT '';
+
+UPDATE "Tag" SET "ownerKey" = COALESCE("userId", '');
+UPDATE "TagAlias" SET "ownerKey" = COALESCE("userId", '');
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_ownerKey_name_key" ON "Tag"("ownerKey", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagAlias_ownerKey_name_key" ON "TagAlias"("ownerKey", "name");
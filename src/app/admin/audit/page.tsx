@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { AuditService, type AuditEventFilters } from '@/lib/services/auditService';
+import { AuditActionSchema, type AuditEvent } from '@/lib/schemas';
+
+const ACTION_LABELS: Record<AuditEvent['action'], string> = {
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Failed sign-in',
+  'user.role_changed': 'Role changed',
+  'user.deleted': 'Account deleted',
+  'gallery.visibility_changed': 'Gallery visibility changed',
+  'gallery.deleted': 'Gallery deleted',
+  'image.deleted': 'Image deleted',
+  'image.restored': 'Image restored',
+  'gallery.restored': 'Gallery restored',
+  'content.moderated': 'Content moderated',
+};
+
+function formatDetails(details: AuditEvent['details']): string {
+  if (!details) {
+    return '';
+  }
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(', ');
+}
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Filters live in the URL so filtered views can be shared and survive reloads
+  const action = AuditActionSchema.safeParse(searchParams.get('action'));
+  const filters: AuditEventFilters = {
+    actor: searchParams.get('actor') || undefined,
+    action: action.success ? action.data : undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    page: searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1,
+  };
+  const filterKey = searchParams.toString();
+
+  const [form, setForm] = useState(filters);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [lastPage, setLastPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError('');
+    AuditService.getEvents(filters, controller.signal)
+      .then(result => {
+        setEvents(result.events);
+        setTotal(result.total);
+        setLastPage(result.lastPage);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load audit events');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+    return () => controller.abort();
+    // filterKey captures every filter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterKey]);
+
+  const navigate = (next: AuditEventFilters) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(next)) {
+      if (value !== undefined && value !== '' && !(key === 'page' && value === 1)) {
+        params.set(key, String(value));
+      }
+    }
+    router.push(`/admin/audit?${params.toString()}`);
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate({ ...form, page: 1 });
+  };
+
+  const page = filters.page ?? 1;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "Admin", href: "/admin" },
+          { label: "Audit log", href: "/admin/audit" },
+        ]}
+      />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <a
+            href={AuditService.exportUrl(filters)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition"
+            data-testid="audit-export"
+          >
+            Export CSV
+          </a>
+        </div>
+
+        <form onSubmit={handleFilter} className="mb-6 grid grid-cols-1 md:grid-cols-5 gap-2" data-testid="audit-filters">
+          <input
+            type="text"
+            value={form.actor ?? ''}
+            onChange={(e) => setForm({ ...form, actor: e.target.value })}
+            placeholder="Actor email or user ID"
+            aria-label="Actor"
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+          />
+          <select
+            value={form.action ?? ''}
+            onChange={(e) => {
+              const selected = AuditActionSchema.safeParse(e.target.value);
+              setForm({ ...form, action: selected.success ? selected.data : undefined });
+            }}
+            aria-label="Action"
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+          >
+            <option value="">All actions</option>
+            {AuditActionSchema.options.map(option => (
+              <option key={option} value={option}>{ACTION_LABELS[option]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={form.from ?? ''}
+            onChange={(e) => setForm({ ...form, from: e.target.value || undefined })}
+            aria-label="From"
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+          />
+          <input
+            type="date"
+            value={form.to ?? ''}
+            onChange={(e) => setForm({ ...form, to: e.target.value || undefined })}
+            aria-label="To"
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition"
+          >
+            Filter
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-left">
+              <tr>
+                <th className="px-4 py-3 rounded-tl-lg">Time (UTC)</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">Actor</th>
+                <th className="px-4 py-3">Target</th>
+                <th className="px-4 py-3">IP</th>
+                <th className="px-4 py-3 rounded-tr-lg">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8">
+                    <div className="flex justify-center">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    </div>
+                    <p className="mt-2">Loading audit events...</p>
+                  </td>
+                </tr>
+              ) : events.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8">No audit events found</td>
+                </tr>
+              ) : (
+                events.map(event => (
+                  <tr key={event.id} data-testid="audit-event">
+                    <td className="px-4 py-3 whitespace-nowrap">{event.createdAt.toISOString().replace('T', ' ').slice(0, 19)}</td>
+                    <td className="px-4 py-3">{ACTION_LABELS[event.action]}</td>
+                    <td className="px-4 py-3">{event.actorEmail || event.actorId || '—'}</td>
+                    <td className="px-4 py-3">{event.targetType ? `${event.targetType} ${event.targetId}` : '—'}</td>
+                    <td className="px-4 py-3">{event.ip || '—'}</td>
+                    <td className="px-4 py-3 text-gray-500">{formatDetails(event.details)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {lastPage > 1 && (
+          <div className="mt-6 flex justify-between items-center">
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Page {page} of {lastPage} ({total} events)
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => navigate({ ...filters, page: page - 1 })}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-md border disabled:opacity-50"
+              >
+                &laquo; Newer
+              </button>
+              <button
+                onClick={() => navigate({ ...filters, page: page + 1 })}
+                disabled={page >= lastPage}
+                className="px-3 py-1 rounded-md border disabled:opacity-50"
+              >
+                Older &raquo;
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
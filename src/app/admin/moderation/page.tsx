@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { ModerationService } from '@/lib/services/moderationService';
+import { ReportStatusSchema, type ModerationAction, type Report, type ReportReason, type ReportStatus } from '@/lib/schemas';
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  OPEN: 'Open',
+  ACTIONED: 'Actioned',
+  DISMISSED: 'Dismissed',
+};
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: 'Spam',
+  INAPPROPRIATE: 'Inappropriate',
+  COPYRIGHT: 'Copyright',
+  HARASSMENT: 'Harassment',
+  OTHER: 'Other',
+};
+
+const RESOLUTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Dismissed',
+  hide: 'Hidden',
+  unpublish: 'Unpublished',
+  restore: 'Restored',
+};
+
+function ReportCard({ report, onResolved }: { report: Report; onResolved: () => void }) {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const target = report.image ?? report.gallery;
+  const isModerated = !!target && (!!target.hiddenAt || !!target.moderationReason);
+
+  const resolve = async (action: ModerationAction) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await ModerationService.resolveReport(report.id, { action, reason: reason.trim() || undefined });
+      onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve report');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className="py-4" data-testid="moderation-report">
+      <div className="flex gap-4">
+        {report.image && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={report.image.url} alt={report.image.title} className="w-24 h-24 object-cover rounded-md flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+              {REASON_LABELS[report.reason]}
+            </span>
+            <span className="font-semibold">
+              {report.image ? `Image "${report.image.title}"` : report.gallery ? `Gallery "${report.gallery.title}"` : 'Deleted content'}
+            </span>
+            {report.gallery && (
+              <Link href={`/galleries/${report.gallery.id}`} className="text-sm text-blue-600 hover:underline" target="_blank">
+                {report.image ? `in "${report.gallery.title}"` : 'View'}
+              </Link>
+            )}
+            {target?.hiddenAt && <span className="text-xs text-yellow-700 dark:text-yellow-300">Hidden</span>}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Owner: {target ? target.user.name || target.user.email : '—'} · Reported by{' '}
+            {report.reporter ? report.reporter.name || report.reporter.email : 'a deleted account'} on{' '}
+            {report.createdAt.toLocaleString()}
+          </p>
+          {report.details && <p className="mt-2 whitespace-pre-line">{report.details}</p>}
+          {report.status !== 'OPEN' && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+              {report.resolution ? RESOLUTION_LABELS[report.resolution] : STATUS_LABELS[report.status]}
+              {report.resolvedBy && <> by {report.resolvedBy.name || report.resolvedBy.email}</>}
+              {report.resolvedAt && <> on {report.resolvedAt.toLocaleString()}</>}
+              {target?.moderationReason && <>. Reason given to the owner: {target.moderationReason}</>}
+            </p>
+          )}
+
+          {report.status === 'OPEN' && target && (
+            <div className="mt-3 space-y-2">
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="Reason shown to the owner (required to hide or unpublish)"
+                aria-label="Reason shown to the owner"
+                className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+                data-testid="moderation-reason"
+              />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => resolve('hide')}
+                  disabled={isSaving || !reason.trim()}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50"
+                  data-testid="moderation-hide"
+                >
+                  Hide
+                </button>
+                {!report.image && report.gallery?.isPublic && (
+                  <button
+                    onClick={() => resolve('unpublish')}
+                    disabled={isSaving || !reason.trim()}
+                    className="px-3 py-1 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md disabled:opacity-50"
+                    data-testid="moderation-unpublish"
+                  >
+                    Unpublish
+                  </button>
+                )}
+                <button
+                  onClick={() => resolve('dismiss')}
+                  disabled={isSaving}
+                  className="px-3 py-1 rounded-md border disabled:opacity-50"
+                  data-testid="moderation-dismiss"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+          {report.status === 'ACTIONED' && isModerated && (
+            <button
+              onClick={() => resolve('restore')}
+              disabled={isSaving}
+              className="mt-3 px-3 py-1 rounded-md border disabled:opacity-50"
+              data-testid="moderation-restore"
+            >
+              Restore
+            </button>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export default function AdminModerationPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const parsedStatus = ReportStatusSchema.safeParse(searchParams.get('status'));
+  const status = parsedStatus.success ? parsedStatus.data : 'OPEN';
+  const page = searchParams.get('page') ? parseInt(searchParams.get('page')!, 10) : 1;
+
+  const [reports, setReports] = useState<Report[]>([]);
+  const [total, setTotal] = useState(0);
+  const [lastPage, setLastPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Bumped after resolving a report, to reload the page
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError('');
+    ModerationService.getReports(status, page, controller.signal)
+      .then(result => {
+        setReports(result.reports);
+        setTotal(result.total);
+        setLastPage(result.lastPage);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load reports');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+    return () => controller.abort();
+  }, [status, page, version]);
+
+  const navigate = (nextStatus: ReportStatus, nextPage = 1) => {
+    const params = new URLSearchParams({ status: nextStatus });
+    if (nextPage > 1) {
+      params.set('page', nextPage.toString());
+    }
+    router.push(`/admin/moderation?${params.toString()}`);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "Admin", href: "/admin" },
+          { label: "Moderation", href: "/admin/moderation" },
+        ]}
+      />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h1 className="text-3xl font-bold mb-6">Moderation Queue</h1>
+
+        <div className="flex gap-2 mb-6" role="tablist">
+          {ReportStatusSchema.options.map(option => (
+            <button
+              key={option}
+              role="tab"
+              aria-selected={status === option}
+              onClick={() => navigate(option)}
+              className={`px-4 py-2 rounded-md ${status === option ? 'bg-blue-600 text-white' : 'border border-gray-300 dark:border-gray-600'}`}
+            >
+              {STATUS_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md mb-6">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="flex justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+            <p className="mt-2">Loading reports...</p>
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-center py-8">No {STATUS_LABELS[status].toLowerCase()} reports</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {reports.map(report => (
+              <ReportCard key={report.id} report={report} onResolved={() => setVersion(v => v + 1)} />
+            ))}
+          </ul>
+        )}
+
+        {lastPage > 1 && (
+          <div className="mt-6 flex justify-between items-center">
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Page {page} of {lastPage} ({total} reports)
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => navigate(status, page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-md border disabled:opacity-50"
+              >
+                &laquo; Previous
+              </button>
+              <button
+                onClick={() => navigate(status, page + 1)}
+                disabled={page >= lastPage}
+                className="px-3 py-1 rounded-md border disabled:opacity-50"
+              >
+                Next &raquo;
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ interface User {
   image: string | null;
   role: UserRole;
   emailVerified: Date | null;
+  twoFactorEnabledAt: string | null;
   _count: {
     images: number;
     galleries: number;
@@ -153,6 +154,29 @@ export default function AdminUsersPage() {
     }
   };
   
+  // Turn off two-factor authentication for a user who lost their device and recovery codes
+  const handleResetTwoFactor = async (userId: string) => {
+    if (!confirm('Turn off two-factor authentication for this user? They will be able to sign in with just their password.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/users/${userId}/two-factor`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to reset two-factor authentication');
+      }
+
+      setUsers(users.map(user =>
+        user.id === userId ? { ...user, twoFactorEnabledAt: null } : user
+      ));
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'An error occurred'}`);
+    }
+  };
+  
   // Generate pagination links
   const generatePaginationLinks = () => {
     const links = [];
@@ -233,7 +257,17 @@ export default function AdminUsersPage() {
       />
 
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <h1 className="text-3xl font-bold mb-6">User Management</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">User Management</h1>
+          <div className="flex gap-4">
+            <Link href="/admin/moderation" className="text-blue-600 hover:underline" data-testid="moderation-link">
+              Moderation queue
+            </Link>
+            <Link href="/admin/audit" className="text-blue-600 hover:underline" data-testid="audit-log-link">
+              Audit log
+            </Link>
+          </div>
+        </div>
         
         {/* Search Form */}
         <div className="mb-6">
@@ -271,13 +305,14 @@ export default function AdminUsersPage() {
                 <th className="px-4 py-3">Images</th>
                 <th className="px-4 py-3">Galleries</th>
                 <th className="px-4 py-3">Role</th>
+                <th className="px-4 py-3">2FA</th>
                 <th className="px-4 py-3 rounded-tr-lg">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
               {isLoading ? (
                 <tr>
-                  <td colSpan={6} className="text-center py-8">
+                  <td colSpan={7} className="text-center py-8">
                     <div className="flex justify-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                     </div>
@@ -286,7 +321,7 @@ export default function AdminUsersPage() {
                 </tr>
               ) : users.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="text-center py-8">
+                  <td colSpan={7} className="text-center py-8">
                     <p>No users found</p>
                     {urlSearchTerm && (
                       <p className="mt-2">
@@ -343,6 +378,20 @@ export default function AdminUsersPage() {
                         </span>
                       )}
                     </td>
+                    <td className="px-4 py-3" data-testid="user-two-factor">
+                      {user.twoFactorEnabledAt ? (
+                        <span
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                          title={`Enabled ${new Date(user.twoFactorEnabledAt).toLocaleDateString()}`}
+                        >
+                          On
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                          Off
+                        </span>
+                      )}
+                    </td>
                     <td className="px-4 py-3">
                       <div className="flex space-x-2">
                         <Link
@@ -361,6 +410,14 @@ export default function AdminUsersPage() {
                         >
                           {user.role === UserRole.ADMIN ? 'Demote' : 'Promote'}
                         </button>
+                        {user.twoFactorEnabledAt && (
+                          <button
+                            onClick={() => handleResetTwoFactor(user.id)}
+                            className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 rounded-md hover:bg-yellow-200 dark:hover:bg-yellow-800/40 transition"
+                          >
+                            Reset 2FA
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteUser(user.id)}
                           className="px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-md hover:bg-red-200 dark:hover:bg-red-800/40 transition"
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { getServerSession } from 'next-auth';
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { GET as getAuditEvents } from '@/app/api/audit/route';
+import { PUT as updateRole } from '@/app/api/users/[id]/admin/route';
+
+jest.mock('next-auth', () => ({ getServerSession: jest.fn() }));
+jest.mock('@/lib/auth', () => ({ authOptions: {} }));
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    auditEvent: { createMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/config', () => {
+  const actual = jest.requireActual('@/lib/config');
+  return { ...actual, twoFactor: { ...actual.twoFactor, requireForAdmins: true } };
+});
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock };
+};
+
+describe('admin routes with two-factor authentication required', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getServerSession as jest.Mock).mockResolvedValue({ user: { id: 'admin-1', email: 'admin@example.com' } });
+  });
+
+  it('should turn away admins who have not set up two-factor authentication', async () => {
+    mockedPrisma.user.findUnique.mockResolvedValue({ role: UserRole.ADMIN, twoFactorEnabledAt: null });
+
+    const audit = await getAuditEvents(new Request('http://localhost/api/audit'));
+    expect(audit.status).toBe(403);
+    expect((await audit.json()).error).toMatch(/two-factor/);
+
+    const role = await updateRole(
+      new Request('http://localhost/api/users/user-2/admin', { method: 'PUT', body: JSON.stringify({ role: UserRole.ADMIN }) }),
+      { params: Promise.resolve({ id: 'user-2' }) }
+    );
+    expect(role.status).toBe(403);
+    expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should let admins with two-factor authentication through', async () => {
+    mockedPrisma.user.findUnique
+      .mockResolvedValueOnce({ role: UserRole.ADMIN, twoFactorEnabledAt: new Date() })
+      .mockResolvedValueOnce({ role: UserRole.USER });
+    mockedPrisma.user.update.mockResolvedValue({ id: 'user-2', name: null, email: 'user@example.com', role: UserRole.ADMIN });
+
+    const role = await updateRole(
+      new Request('http://localhost/api/users/user-2/admin', { method: 'PUT', body: JSON.stringify({ role: UserRole.ADMIN }) }),
+      { params: Promise.resolve({ id: 'user-2' }) }
+    );
+    expect(role.status).toBe(200);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import { MemoryRateLimitStore, setRateLimitStore } from '@/lib/rateLimit';
+import { GET, POST } from '@/app/api/auth/[...nextauth]/route';
+
+const mockAuthHandler = jest.fn(async () => Response.json({}));
+jest.mock('next-auth', () => ({ __esModule: true, default: () => () => mockAuthHandler() }));
+jest.mock('@/lib/auth', () => ({ authOptions: {} }));
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+const request = (path: string, method = 'GET') => new Request(`http://localhost/api/auth/${path}`, { method });
+
+async function statuses(send: () => Promise<Response>, times: number): Promise<number[]> {
+  const result: number[] = [];
+  for (let i = 0; i < times; i++) {
+    result.push((await send()).status);
+  }
+  return result;
+}
+
+describe('NextAuth route rate limits', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    mockAuthHandler.mockClear();
+  });
+
+  afterAll(() => {
+    setRateLimitStore(null);
+  });
+
+  it('should limit OAuth sign-ins and callbacks with the auth policy', async () => {
+    expect(await statuses(() => GET(request('callback/github?code=abc')), 21)).toEqual([...Array(20).fill(200), 429]);
+    expect((await POST(request('signin/github', 'POST'))).status).toBe(429);
+  });
+
+  it('should limit password sign-ins with the login policy', async () => {
+    expect(await statuses(() => POST(request('callback/credentials', 'POST')), 11)).toEqual([...Array(10).fill(200), 429]);
+    // The auth policy has room left for other sign-ins
+    expect((await GET(request('signin/github'))).status).toBe(200);
+  });
+
+  it('should not limit session lookups', async () => {
+    await statuses(() => GET(request('callback/github')), 21);
+    expect(await statuses(() => GET(request('session')), 30)).not.toContain(429);
+    expect(mockAuthHandler).toHaveBeenCalledTimes(50);
+  });
+});
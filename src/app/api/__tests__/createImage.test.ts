@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getApiSession } from '@/lib/apiAuth';
+import { POST as createImage } from '@/app/api/images/route';
+
+jest.mock('@/lib/apiAuth', () => ({ getApiSession: jest.fn() }));
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    image: { create: jest.fn() },
+    upload: { findFirst: jest.fn(), delete: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  image: { create: jest.Mock };
+  upload: { findFirst: jest.Mock; delete: jest.Mock };
+};
+
+const thumb = { name: 'thumb', format: 'webp', width: 320, height: 240, size: 1000, url: '/uploads/123-photo-thumb.webp' };
+
+const request = (body: object) => new NextRequest('http://localhost/api/images', { method: 'POST', body: JSON.stringify(body) });
+
+describe('POST /api/images', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getApiSession as jest.Mock).mockResolvedValue({ user: { id: 'user-1' } });
+    mockedPrisma.$transaction.mockImplementation(queries => Promise.all(queries));
+    mockedPrisma.image.create.mockImplementation(async ({ data }) => ({ id: 'image-1', ...data }));
+  });
+
+  it('should refuse files that were not uploaded by the user', async () => {
+    mockedPrisma.upload.findFirst.mockResolvedValue(null);
+
+    const response = await createImage(request({ title: 'Stolen', url: '/uploads/someone-elses.jpg' }));
+
+    expect(response.status).toBe(400);
+    expect(mockedPrisma.upload.findFirst).toHaveBeenCalledWith({ where: { userId: 'user-1', url: '/uploads/someone-elses.jpg' } });
+    expect(mockedPrisma.image.create).not.toHaveBeenCalled();
+  });
+
+  it('should take variants and fingerprints from the upload, not the request', async () => {
+    mockedPrisma.upload.findFirst.mockResolvedValue({
+      id: 'upload-1',
+      result: JSON.stringify({ url: '/uploads/123-photo.jpg', variants: [thumb], contentHash: 'a'.repeat(64), perceptualHash: '0123456789abcdef' }),
+    });
+
+    const response = await createImage(request({
+      title: 'Photo',
+      url: '/uploads/123-photo.jpg',
+      variants: [{ ...thumb, url: '/uploads/someone-elses.jpg' }],
+      contentHash: 'b'.repeat(64),
+      perceptualHash: 'ffffffffffffffff',
+    }));
+
+    expect(response.status).toBe(201);
+    expect(mockedPrisma.image.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        url: '/uploads/123-photo.jpg',
+        variants: { create: [thumb] },
+        contentHash: 'a'.repeat(64),
+        perceptualHash: '0123456789abcdef',
+      }),
+    }));
+    expect(mockedPrisma.upload.delete).toHaveBeenCalledWith({ where: { id: 'upload-1' } });
+  });
+});
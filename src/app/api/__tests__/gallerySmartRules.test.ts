@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { getApiSession } from '@/lib/apiAuth';
+import { PATCH as updateGallery } from '@/app/api/galleries/[id]/route';
+
+jest.mock('@/lib/apiAuth', () => ({ getApiSession: jest.fn() }));
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    gallery: { findUnique: jest.fn(), update: jest.fn() },
+    galleryMember: { findUnique: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  gallery: { findUnique: jest.Mock; update: jest.Mock };
+  galleryMember: { findUnique: jest.Mock };
+};
+
+const patch = (body: object) => updateGallery(
+  new Request('http://localhost/api/galleries/gallery-1', { method: 'PATCH', body: JSON.stringify(body) }),
+  { params: Promise.resolve({ id: 'gallery-1' }) }
+);
+
+describe('PATCH /api/galleries/[id] smart rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getApiSession as jest.Mock).mockResolvedValue({ user: { id: 'editor-1' } });
+    mockedPrisma.gallery.findUnique.mockResolvedValue({
+      id: 'gallery-1',
+      userId: 'owner-1',
+      title: 'Trip',
+      description: null,
+      isPublic: true,
+      smartRules: null,
+      deletedAt: null,
+      images: [],
+    });
+    mockedPrisma.galleryMember.findUnique.mockResolvedValue({ role: 'EDITOR' });
+  });
+
+  it("should not let editors set rules that pull in the owner's other images", async () => {
+    const response = await patch({ id: 'gallery-1', title: 'Trip', isPublic: true, smartRules: { anyTags: ['private'] } });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toMatch(/Only the owner/);
+    expect(mockedPrisma.gallery.update).not.toHaveBeenCalled();
+  });
+
+  it('should let editors save the details form with the rules unchanged', async () => {
+    mockedPrisma.gallery.update.mockRejectedValue(new Error('stop after the access check'));
+
+    const response = await patch({ id: 'gallery-1', title: 'Renamed', isPublic: true, smartRules: null });
+
+    expect(response.status).not.toBe(403);
+    expect(mockedPrisma.gallery.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ title: 'Renamed' }),
+    }));
+  });
+});
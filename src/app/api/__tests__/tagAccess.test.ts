@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getApiSession } from '@/lib/apiAuth';
+import { ensureTags, renameTag, setTagAliases, TagOperationError } from '@/lib/tags';
+import { GET as listTags, POST as createTag } from '@/app/api/tags/route';
+import { DELETE as deleteTag, PATCH as updateTag } from '@/app/api/tags/[id]/route';
+
+jest.mock('@/lib/apiAuth', () => ({ getApiSession: jest.fn() }));
+jest.mock('@/lib/tags', () => ({
+  ...jest.requireActual('@/lib/tags'),
+  ensureTags: jest.fn(),
+  renameTag: jest.fn(),
+  setTagAliases: jest.fn(),
+}));
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    tag: { findMany: jest.fn(), findUnique: jest.fn(), findUniqueOrThrow: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  tag: { findMany: jest.Mock; findUnique: jest.Mock; findUniqueOrThrow: jest.Mock };
+};
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+const patch = (body: object) => new NextRequest('http://localhost/api/tags/tag-1', { method: 'PATCH', body: JSON.stringify(body) });
+
+describe('tag access control', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getApiSession as jest.Mock).mockResolvedValue({ user: { id: 'user-1', role: UserRole.USER } });
+  });
+
+  it("should report other users' tags as missing", async () => {
+    mockedPrisma.tag.findUnique.mockResolvedValue({ id: 'tag-1', name: 'travel', userId: 'user-2', parentId: null });
+
+    const updated = await updateTag(patch({ name: 'trips' }), params('tag-1'));
+    expect(updated.status).toBe(404);
+    const deleted = await deleteTag(new NextRequest('http://localhost/api/tags/tag-1', { method: 'DELETE' }), params('tag-1'));
+    expect(deleted.status).toBe(404);
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should only let admins change shared tags', async () => {
+    mockedPrisma.tag.findUnique.mockResolvedValue({ id: 'tag-1', name: 'travel', userId: null, parentId: null });
+
+    const updated = await updateTag(patch({ aliases: ['trips'] }), params('tag-1'));
+    expect(updated.status).toBe(403);
+    expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should rename a tag and replace its aliases in one transaction', async () => {
+    const tx = { name: 'transaction' };
+    mockedPrisma.tag.findUnique.mockResolvedValue({ id: 'tag-1', name: 'travel', userId: 'user-1', parentId: null });
+    mockedPrisma.$transaction.mockImplementation(async (run: (client: object) => Promise<unknown>) => run(tx));
+    (setTagAliases as jest.Mock).mockRejectedValue(new TagOperationError('"journeys" is already used by another tag', 409));
+
+    const response = await updateTag(patch({ name: 'trips', aliases: ['journeys'] }), params('tag-1'));
+
+    expect(response.status).toBe(409);
+    expect(mockedPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(renameTag).toHaveBeenCalledWith('tag-1', 'trips', tx);
+    expect(setTagAliases).toHaveBeenCalledWith('tag-1', ['journeys'], tx);
+  });
+
+  it("should list the user's own tags and shared tags only", async () => {
+    mockedPrisma.tag.findMany.mockResolvedValue([
+      { id: 'tag-1', name: 'travel', parentId: null, userId: 'user-1', aliases: [], _count: { images: 2 } },
+      { id: 'tag-2', name: 'events', parentId: null, userId: null, aliases: [], _count: { images: 1 } },
+    ]);
+
+    const response = await listTags(new Request('http://localhost/api/tags'));
+
+    expect(mockedPrisma.tag.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { OR: [{ userId: 'user-1' }, { userId: null }] },
+    }));
+    const { data } = await response.json();
+    expect(data.map((tag: { name: string; isShared: boolean }) => [tag.name, tag.isShared])).toEqual([['travel', false], ['events', true]]);
+  });
+
+  it("should only count the user's own images on the shared tags they add", async () => {
+    (ensureTags as jest.Mock).mockResolvedValue([{ id: 'tag-2', name: 'events' }]);
+    mockedPrisma.tag.findUniqueOrThrow.mockResolvedValue({ id: 'tag-2', name: 'events', parentId: null, userId: null, aliases: [], _count: { images: 1 } });
+    const create = () => createTag(new Request('http://localhost/api/tags', { method: 'POST', body: JSON.stringify({ name: 'events' }) }));
+
+    expect((await create()).status).toBe(201);
+    expect(mockedPrisma.tag.findUniqueOrThrow.mock.calls[0][0].select._count).toEqual({
+      select: { images: { where: { userId: 'user-1', deletedAt: null } } },
+    });
+
+    (getApiSession as jest.Mock).mockResolvedValue({ user: { id: 'admin-1', role: UserRole.ADMIN } });
+    await create();
+    expect(mockedPrisma.tag.findUniqueOrThrow.mock.calls[1][0].select._count).toEqual({
+      select: { images: { where: { deletedAt: null } } },
+    });
+  });
+});
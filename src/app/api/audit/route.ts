@@ -0,0 +1,56 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { AuditEventQuerySchema } from "@/lib/schemas";
+import { exportAuditEventsCsv, listAuditEvents } from "@/lib/audit";
+import { formatPaginatedResponse } from "@/lib/dataFetching";
+
+/**
+ * GET /api/audit - Audit events, newest first (admin only)
+ * Filters: actor (user ID or part of an address), action, from and to (YYYY-MM-DD, UTC).
+ * With format=csv, every matching event is returned as a CSV download instead of a page.
+ */
+export async function GET(req: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const forbidden = await adminAccessError(session.user.id);
+  if (forbidden) {
+    return forbidden;
+  }
+
+  const { searchParams } = new URL(req.url);
+  const result = AuditEventQuerySchema.safeParse({
+    actor: searchParams.get("actor") || undefined,
+    action: searchParams.get("action") || undefined,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+    page: searchParams.get("page") || undefined,
+    limit: searchParams.get("limit") || undefined,
+  });
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    if (searchParams.get("format") === "csv") {
+      const csv = await exportAuditEventsCsv(result.data);
+      return new Response(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const { events, total } = await listAuditEvents(result.data);
+    return apiSuccess(formatPaginatedResponse(events, total, result.data));
+  } catch (error) {
+    logger.error("Error fetching audit events:", error);
+    return apiError("Failed to fetch audit events");
+  }
+}
@@ -1,6 +1,28 @@
 import NextAuth from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { withRateLimit } from "@/lib/rateLimit";
+import { SIGN_IN_RATE_LIMITED } from "@/lib/utils/signIn";
 
 const handler = NextAuth(authOptions);
 
-export { handler as GET, handler as POST };
\ No newline at end of file
+const isCredentialsSignIn = (req: Request) => new URL(req.url).pathname.endsWith("/callback/credentials");
+// Session, CSRF and provider lookups are made by every open page, so only sign-in and sign-out count
+const isSignInFlow = (req: Request) => /\/api\/auth\/(signin|callback|signout)(\/|$)/.test(new URL(req.url).pathname);
+
+// OAuth redirects and callbacks share the limit of the other unauthenticated auth endpoints
+const limitSignInFlow = (authHandler: typeof handler) => withRateLimit("auth", authHandler, {
+  skip: (req: Request) => !isSignInFlow(req) || isCredentialsSignIn(req),
+});
+
+const GET = limitSignInFlow(handler);
+
+// Password sign-ins are limited per address; signIn() on the login page reads the error from the URL
+const POST = withRateLimit("login", limitSignInFlow(handler), {
+  skip: (req: Request) => !isCredentialsSignIn(req),
+  limitedResponse: (req) => Response.json(
+    { url: new URL(`/auth/error?error=${SIGN_IN_RATE_LIMITED}`, req.url).toString() },
+    { status: 429 }
+  ),
+});
+
+export { GET, POST };
@@ -0,0 +1,30 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { ConnectedAccountError, unlinkAccount } from "@/lib/oauthProviders";
+
+/**
+ * DELETE /api/auth/accounts/[provider] - Disconnect a provider from the logged-in user
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { provider } = await params;
+    await unlinkAccount(session.user.id, provider);
+    return apiSuccess({ provider });
+  } catch (error) {
+    if (error instanceof ConnectedAccountError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error disconnecting account:", error);
+    return apiError("Failed to disconnect account");
+  }
+}
@@ -0,0 +1,22 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { getConnectedAccounts } from "@/lib/oauthProviders";
+
+/**
+ * GET /api/auth/accounts - Sign-in providers and which of them the logged-in user connected
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await getConnectedAccounts(session.user.id));
+  } catch (error) {
+    logger.error("Error fetching connected accounts:", error);
+    return apiError("Failed to fetch connected accounts");
+  }
+}
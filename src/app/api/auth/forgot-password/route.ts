@@ -0,0 +1,28 @@
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiValidationError } from "@/lib/apiResponse";
+import { ForgotPasswordSchema } from "@/lib/schemas";
+import { PasswordResetError, requestPasswordReset } from "@/lib/passwordReset";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/auth/forgot-password - Email a password reset link
+ * Responds the same way whether or not the address has an account.
+ */
+export const POST = withRateLimit("auth", async (req: Request) => {
+  try {
+    const result = ForgotPasswordSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    await requestPasswordReset(result.data.email);
+
+    return apiSuccess({ message: "If an account exists with that email, a reset link is on its way" });
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error requesting password reset:", error);
+    return apiError("Failed to send reset instructions");
+  }
+});
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import bcrypt from 'bcrypt';
 import { prisma } from '@/lib/db';
 import { auth } from '@/lib/config';
+import { sendVerificationEmail } from '@/lib/emailVerification';
+import { withRateLimit } from '@/lib/rateLimit';
 
 // Validation schema for registration request
 const registerSchema = z.object({
@@ -11,7 +13,7 @@ const registerSchema = z.object({
   password: z.string().min(8, { message: 'Password must be at least 8 characters' }),
 });
 
-export async function POST(req: NextRequest) {
+export const POST = withRateLimit('register', async (req: NextRequest) => {
   try {
     const body = await req.json();
     
@@ -50,6 +52,13 @@ export async function POST(req: NextRequest) {
         password: hashedPassword, // Store the hashed password
       },
     });
+
+    // The account works without it; the user can ask for another link later
+    try {
+      await sendVerificationEmail({ id: user.id, email });
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
     
     return NextResponse.json({ 
       message: 'User registered successfully',
@@ -62,4 +71,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
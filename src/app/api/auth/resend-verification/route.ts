@@ -0,0 +1,27 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { EmailVerificationError, resendVerificationEmail } from "@/lib/emailVerification";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/auth/resend-verification - Email a new verification link to the logged-in user
+ */
+export const POST = withRateLimit("auth", async () => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    await resendVerificationEmail(session.user.id);
+    return apiSuccess({ message: "A new verification link is on its way" });
+  } catch (error) {
+    if (error instanceof EmailVerificationError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error resending verification email:", error);
+    return apiError("Failed to send verification email");
+  }
+});
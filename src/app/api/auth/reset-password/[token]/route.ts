@@ -0,0 +1,32 @@
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiValidationError } from "@/lib/apiResponse";
+import { ResetPasswordSchema } from "@/lib/schemas";
+import { PasswordResetError, resetPassword } from "@/lib/passwordReset";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/auth/reset-password/[token] - Set a new password with an emailed reset link
+ */
+export const POST = withRateLimit("auth", async (
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    const { token } = await params;
+
+    const result = ResetPasswordSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    await resetPassword(token, result.data.password);
+
+    return apiSuccess({ message: "Your password has been reset" });
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error resetting password:", error);
+    return apiError("Failed to reset password");
+  }
+});
@@ -0,0 +1,30 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { ApiTokenError, revokeApiToken } from "@/lib/apiTokens";
+
+/**
+ * DELETE /api/auth/tokens/[id] - Revoke one of the logged-in user's tokens
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    await revokeApiToken(session.user.id, id);
+    return apiSuccess({ id });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error revoking API token:", error);
+    return apiError("Failed to revoke API token");
+  }
+}
@@ -0,0 +1,50 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { CreateApiTokenSchema } from "@/lib/schemas";
+import { ApiTokenError, createApiToken, listApiTokens } from "@/lib/apiTokens";
+
+// Token management needs a browser session: a token can't be used to create more tokens
+
+/**
+ * GET /api/auth/tokens - The logged-in user's personal API tokens
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await listApiTokens(session.user.id));
+  } catch (error) {
+    logger.error("Error fetching API tokens:", error);
+    return apiError("Failed to fetch API tokens");
+  }
+}
+
+/**
+ * POST /api/auth/tokens - Create a token; the response is the only time it is shown
+ */
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const result = CreateApiTokenSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    return apiSuccess(await createApiToken(session.user.id, result.data), 201);
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error creating API token:", error);
+    return apiError("Failed to create API token");
+  }
+}
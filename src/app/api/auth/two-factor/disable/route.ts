@@ -0,0 +1,33 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { TwoFactorCodeSchema } from "@/lib/schemas";
+import { disableTwoFactor, getTwoFactorStatus, TwoFactorError } from "@/lib/twoFactor";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/auth/two-factor/disable - Turn two-factor authentication off with a current code
+ */
+export const POST = withRateLimit("auth", async (req: Request) => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const result = TwoFactorCodeSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    await disableTwoFactor(session.user.id, result.data.code);
+    return apiSuccess(await getTwoFactorStatus(session.user.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error disabling two-factor authentication:", error);
+    return apiError("Failed to disable two-factor authentication");
+  }
+});
@@ -0,0 +1,46 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { getTwoFactorStatus, startTwoFactorSetup, TwoFactorError } from "@/lib/twoFactor";
+
+/**
+ * GET /api/auth/two-factor - Two-factor status of the logged-in user
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await getTwoFactorStatus(session.user.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error fetching two-factor status:", error);
+    return apiError("Failed to fetch two-factor status");
+  }
+}
+
+/**
+ * POST /api/auth/two-factor - Start setting up two-factor authentication
+ * Returns a new secret and its QR code; nothing changes at sign-in until it's confirmed.
+ */
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await startTwoFactorSetup(session.user.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error starting two-factor setup:", error);
+    return apiError("Failed to start two-factor setup");
+  }
+}
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
 import logger from "@/lib/logger";
+import { withRateLimit } from "@/lib/rateLimit";
 import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
 
 /**
@@ -15,7 +16,7 @@ import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
  * Query parameters:
  * - deleteUser: if "true", also deletes the user account (default: false)
  */
-export async function DELETE(req: Request) {
+export const DELETE = withRateLimit("auth", async (req: Request) => {
   try {
     const session = await getServerSession(authOptions);
 
@@ -110,4 +111,4 @@ export async function DELETE(req: Request) {
     logger.error("Error during E2E test data cleanup:", error);
     return apiError("Internal Server Error during E2E test data cleanup");
   }
-}
+});
@@ -2,11 +2,12 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
 import { apiSuccess, apiUnauthorized, withApiHandler } from "@/lib/apiResponse";
+import { withRateLimit } from "@/lib/rateLimit";
 
 /**
  * Debug endpoint to check what images exist in the database
  */
-export const GET = withApiHandler(async () => {
+export const GET = withRateLimit("auth", withApiHandler(async () => {
   const session = await getServerSession(authOptions);
   if (!session?.user.id) {
     return apiUnauthorized();
@@ -35,4 +36,4 @@ export const GET = withApiHandler(async () => {
     totalImagesCount: totalImages,
     recentImages: allImages
   });
-});
+}));
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import logger from "@/lib/logger";
+import { withRateLimit } from "@/lib/rateLimit";
 import { apiSuccess, apiError, apiValidationError } from "@/lib/apiResponse";
 
 /**
@@ -15,7 +16,7 @@ const deleteUserSchema = z.object({
   email: z.string().email(),
 });
 
-export async function DELETE(req: Request) {
+export const DELETE = withRateLimit("auth", async (req: Request) => {
   try {
     // Only allow this in development/test environment
     if (process.env.NODE_ENV === 'production' && process.env.NEXT_PUBLIC_ENABLE_E2E_TEST_FEATURES !== 'true') {
@@ -110,7 +111,7 @@ export async function DELETE(req: Request) {
     logger.error("Error in E2E delete-user endpoint:", error);
     return apiError("Internal Server Error");
   }
-}
+});
 
 // Also support POST method for compatibility
 export const POST = DELETE;
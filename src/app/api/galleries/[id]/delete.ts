@@ -1,8 +1,8 @@
-import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
+import { getApiSession } from "@/lib/apiAuth";
 import logger from "@/lib/logger";
 import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+import { trashGallery } from "@/lib/trash";
 
 export async function DELETE(
   req: Request,
@@ -12,7 +12,7 @@ export async function DELETE(
     // Await params to solve the Next.js dynamic route parameters issue
     const { id } = await params;
     
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'galleries:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
@@ -21,7 +21,7 @@ export async function DELETE(
       where: { id: id },
     });
 
-    if (!gallery) {
+    if (!gallery || gallery.deletedAt) {
       return apiNotFound("Gallery not found");
     }
 
@@ -29,17 +29,10 @@ export async function DELETE(
       return apiUnauthorized();
     }
 
-    // Delete all image associations first
-    await prisma.imageInGallery.deleteMany({
-      where: { galleryId: id },
-    });
-
-    // Then delete the gallery
-    await prisma.gallery.delete({
-      where: { id: id },
-    });
+    // Move the gallery to the trash; its images stay attached until it's purged
+    await trashGallery(id);
 
-    return apiSuccess({ message: "Gallery deleted successfully" });
+    return apiSuccess({ message: "Gallery moved to the trash" });
   } catch (error) {
     logger.error("Error deleting gallery:", error);
     return apiError("Internal Server Error");
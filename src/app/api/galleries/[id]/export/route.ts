@@ -0,0 +1,49 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiError, apiValidationError } from "@/lib/apiResponse";
+import { GalleryExportQuerySchema } from "@/lib/schemas";
+import { exportArchiveName, galleryExportEntries, GalleryExportError, loadExportableGallery } from "@/lib/galleryExport";
+import { createZipStream } from "@/lib/zip";
+import { withRateLimit } from "@/lib/rateLimit";
+
+// Quoted file name for old clients, with the UTF-8 name for everyone else
+function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * GET /api/galleries/[id]/export - Download a gallery as a ZIP of its images with a manifest.json
+ * `xmp=true` adds an XMP sidecar per image. Viewers need the same access as for the gallery
+ * itself; public visitors only when GALLERY_EXPORT_PUBLIC is on.
+ */
+export const GET = withRateLimit("export", async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const { searchParams } = new URL(req.url);
+  const query = GalleryExportQuerySchema.safeParse({ xmp: searchParams.get("xmp") || undefined });
+  if (!query.success) {
+    return apiValidationError(query.error);
+  }
+
+  const session = await getApiSession(req, 'images:read');
+
+  try {
+    const gallery = await loadExportableGallery(id, session?.user);
+    return new Response(createZipStream(galleryExportEntries(gallery, query.data)), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": contentDisposition(exportArchiveName(gallery.title)),
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof GalleryExportError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error exporting gallery:", error);
+    return apiError("Failed to export gallery");
+  }
+});
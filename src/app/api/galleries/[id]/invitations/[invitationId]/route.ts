@@ -0,0 +1,34 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+
+/**
+ * DELETE /api/galleries/[id]/invitations/[invitationId] - Cancel a pending invitation (owner only)
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const { count } = await prisma.galleryInvitation.deleteMany({
+      where: { id: invitationId, galleryId: id, acceptedAt: null, gallery: { userId: session.user.id } },
+    });
+    if (count === 0) {
+      return apiNotFound("Invitation not found");
+    }
+
+    logger.log(`Cancelled invitation ${invitationId} to gallery ${id}`);
+    return apiSuccess({ id: invitationId });
+  } catch (error) {
+    logger.error("Error cancelling invitation:", error);
+    return apiError("Failed to cancel invitation");
+  }
+}
@@ -0,0 +1,85 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound, apiValidationError } from "@/lib/apiResponse";
+import { UpdateGalleryMemberSchema } from "@/lib/schemas";
+import { GALLERY_MEMBER_INCLUDE } from "@/lib/galleryMembers";
+
+/**
+ * PATCH /api/galleries/[id]/members/[memberId] - Change a member's role (owner only)
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const member = await prisma.galleryMember.findFirst({
+      where: { id: memberId, galleryId: id, gallery: { userId: session.user.id } },
+    });
+    if (!member) {
+      return apiNotFound("Member not found");
+    }
+
+    const result = UpdateGalleryMemberSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const updated = await prisma.galleryMember.update({
+      where: { id: memberId },
+      data: { role: result.data.role },
+      include: GALLERY_MEMBER_INCLUDE,
+    });
+
+    logger.log(`Changed role of member ${memberId} in gallery ${id} to ${updated.role}`);
+    return apiSuccess(updated);
+  } catch (error) {
+    logger.error("Error updating gallery member:", error);
+    return apiError("Failed to update member");
+  }
+}
+
+/**
+ * DELETE /api/galleries/[id]/members/[memberId] - Remove a member
+ * The owner can remove anyone; members can remove themselves to leave the gallery.
+ * Images they added stay in the gallery.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const member = await prisma.galleryMember.findFirst({
+      where: {
+        id: memberId,
+        galleryId: id,
+        OR: [{ userId: session.user.id }, { gallery: { userId: session.user.id } }],
+      },
+    });
+    if (!member) {
+      return apiNotFound("Member not found");
+    }
+
+    await prisma.galleryMember.delete({ where: { id: memberId } });
+
+    logger.log(`Removed member ${memberId} from gallery ${id}`);
+    return apiSuccess({ id: memberId });
+  } catch (error) {
+    logger.error("Error removing gallery member:", error);
+    return apiError("Failed to remove member");
+  }
+}
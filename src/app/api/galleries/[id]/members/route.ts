@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound, apiValidationError } from "@/lib/apiResponse";
+import { InviteGalleryMemberSchema } from "@/lib/schemas";
+import { GalleryMemberError, inviteGalleryMember, listGalleryMembers } from "@/lib/galleryMembers";
+
+// Members are managed by the gallery owner only
+async function findOwnedGallery(galleryId: string, userId: string) {
+  const gallery = await prisma.gallery.findUnique({
+    where: { id: galleryId, deletedAt: null },
+    select: { id: true, title: true, userId: true },
+  });
+  return gallery && gallery.userId === userId ? gallery : null;
+}
+
+/**
+ * GET /api/galleries/[id]/members - List a gallery's members and pending invitations
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getApiSession(req, 'images:read');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    if (!await findOwnedGallery(id, session.user.id)) {
+      return apiNotFound("Gallery not found");
+    }
+
+    return apiSuccess(await listGalleryMembers(id));
+  } catch (error) {
+    logger.error("Error fetching gallery members:", error);
+    return apiError("Failed to fetch gallery members");
+  }
+}
+
+/**
+ * POST /api/galleries/[id]/members - Invite someone by email with a role
+ * The invitation is emailed; they become a member once they accept it.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const gallery = await findOwnedGallery(id, session.user.id);
+    if (!gallery) {
+      return apiNotFound("Gallery not found");
+    }
+
+    const result = InviteGalleryMemberSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const invitation = await inviteGalleryMember(gallery, session.user, result.data);
+    logger.log(`Invited ${invitation.email} to gallery ${id} as ${invitation.role}`);
+
+    return apiSuccess(invitation, 201);
+  } catch (error) {
+    if (error instanceof GalleryMemberError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error inviting gallery member:", error);
+    return apiError("Failed to send invitation");
+  }
+}
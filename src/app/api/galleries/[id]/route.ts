@@ -1,12 +1,18 @@
-import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
+import { getApiSession } from "@/lib/apiAuth";
 import logger from "@/lib/logger";
 import { apiSuccess, apiError, apiValidationError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
 import { UpdateGallerySchema } from "@/lib/schemas";
 
-import { ImageInGallery, Image, Prisma } from "@prisma/client";
+import { ImageInGallery, Image, Prisma, UserRole } from "@prisma/client";
+import { GALLERY_ENTRY_INCLUDE, resolveGalleryImages, serializeSmartRules } from "@/lib/smartGalleries";
+import { findForbiddenGalleryChange, getGalleryRole } from "@/lib/galleryMembers";
+import { canInGallery } from "@/lib/utils/galleryRoles";
+import { canPublishGalleries, UNVERIFIED_PUBLISH_MESSAGE } from "@/lib/emailVerification";
+import { recordAuditEvent } from "@/lib/audit";
+import { isGalleryVisible, withoutHiddenImages } from "@/lib/moderation";
+import { trashGallery } from "@/lib/trash";
 
 type ImageInGalleryWithImage = ImageInGallery & {
   image: Image;
@@ -39,7 +45,7 @@ export async function GET(
     }
     const imageFilters = queryValidation.data;
 
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:read');
 
     // Build the where clause for images within the gallery
     const imagesWhere: Prisma.ImageInGalleryWhereInput = {}; 
@@ -70,13 +76,7 @@ export async function GET(
       include: {
         images: {
           where: Object.keys(imagesWhere).length > 0 ? imagesWhere : undefined, // Apply filters only if they exist
-          include: {
-            image: {
-              include: {
-                tags: true,
-              },
-            },
-          },
+          include: GALLERY_ENTRY_INCLUDE,
           orderBy: {
             order: 'asc',
           },
@@ -91,14 +91,24 @@ export async function GET(
       },
     });
 
-    if (!gallery) {
+    if (!gallery || gallery.deletedAt) {
       return apiNotFound("Gallery not found");
     }
 
-    if (!gallery.isPublic && gallery.userId !== session?.user.id) {
+    // Members can see private and hidden galleries; everyone else only public ones.
+    // Admins see everything, to review reported content.
+    const viewerRole = await getGalleryRole(gallery, session?.user.id);
+    const isAdmin = session?.user.role === UserRole.ADMIN;
+    if (!isGalleryVisible(gallery, viewerRole, isAdmin)) {
       return apiUnauthorized();
     }
 
+    // Smart galleries add the images matching their rules (filtered the same way)
+    const resolvedGallery = withoutHiddenImages(await resolveGalleryImages(
+      gallery,
+      Object.keys(imageSubQuery).length > 0 ? imageSubQuery : undefined
+    ), session?.user.id, isAdmin);
+
     // If coverImageId exists, fetch the cover image separately
     let coverImage = null;
     if (gallery.coverImageId) {
@@ -113,14 +123,15 @@ export async function GET(
           where: { id: gallery.id },
           data: { coverImageId: null }
         });
-        gallery.coverImageId = null;
+        resolvedGallery.coverImageId = null;
       }
     }
 
     // Add the cover image to the response if it exists
     const responseData = {
-      ...gallery,
-      coverImage
+      ...resolvedGallery,
+      coverImage,
+      viewerRole
     };
 
     return apiSuccess(responseData);
@@ -134,7 +145,7 @@ export async function PATCH(
   req: Request,
   { params }: { params: Promise<{ id: string }> } // Corrected type for params
 ) {
-  const session = await getServerSession(authOptions);
+  const session = await getApiSession(req, 'galleries:write');
   const { id } = await params; // Added await here
 
   if (!session?.user.id) {
@@ -228,7 +239,8 @@ export async function PATCH(
       accentColor,
       fontFamily,
       displayMode,
-      layoutType
+      layoutType,
+      smartRules
     } = validation.data;
 
     const gallery = await prisma.gallery.findUnique({
@@ -238,18 +250,31 @@ export async function PATCH(
       },
     });
 
-    if (!gallery) {
+    if (!gallery || gallery.deletedAt) {
       return apiNotFound("Gallery not found");
     }
 
-    if (gallery.userId !== session.user.id) {
+    const role = await getGalleryRole(gallery, session.user.id);
+    if (!role) {
       return apiUnauthorized();
     }
 
+    const forbiddenChange = findForbiddenGalleryChange(role, session.user.id, gallery, validation.data);
+    if (forbiddenChange) {
+      return apiError(forbiddenChange, 403);
+    }
+
+    // Only the owner can change visibility, so this checks the owner's address
+    if (isPublic && !gallery.isPublic && !await canPublishGalleries(session.user.id)) {
+      return apiError(UNVERIFIED_PUBLISH_MESSAGE, 403);
+    }
+
     const dataToUpdate: Prisma.GalleryUpdateInput = {};
     if (title !== undefined) dataToUpdate.title = title;
     if (description !== undefined) dataToUpdate.description = description;
     if (isPublic !== undefined) dataToUpdate.isPublic = isPublic;
+    // Republishing after a moderator unpublished the gallery; hidden galleries keep their reason
+    if (isPublic && !gallery.isPublic && !gallery.hiddenAt) dataToUpdate.moderationReason = null;
 
     // Handle coverImage relation update based on coverImageId
     if (coverImageId !== undefined) {
@@ -270,6 +295,7 @@ export async function PATCH(
     if (fontFamily !== undefined) dataToUpdate.fontFamily = fontFamily;
     if (displayMode !== undefined) dataToUpdate.displayMode = displayMode;
     if (layoutType !== undefined) dataToUpdate.layoutType = layoutType;
+    if (smartRules !== undefined) dataToUpdate.smartRules = serializeSmartRules(smartRules);
     
     // Perform the update for gallery fields (including theming and coverImage relation)
     await prisma.gallery.update({
@@ -277,6 +303,16 @@ export async function PATCH(
       data: dataToUpdate, 
     });
 
+    if (isPublic !== undefined && isPublic !== gallery.isPublic) {
+      await recordAuditEvent({
+        action: "gallery.visibility_changed",
+        actor: session.user,
+        target: { type: "gallery", id },
+        req,
+        details: { title: gallery.title, isPublic },
+      });
+    }
+
     // Handle image updates, additions, reordering, and removals using validated data
     if (imagesDataFromValidation) {
       const imageUpdates: Prisma.Prisma__ImageInGalleryClient<ImageInGallery, never>[] = [];
@@ -342,12 +378,27 @@ export async function PATCH(
       }
 
       if (tempImageMap.size > 0) {
+        // Everyone, owner included, can only add their own images
+        const ownImageIds = new Set((await prisma.image.findMany({
+          where: {
+            id: { in: Array.from(tempImageMap.values(), data => data.imageId) },
+            userId: session.user.id,
+            deletedAt: null,
+          },
+          select: { id: true },
+        })).map(img => img.id));
+
         tempImageMap.forEach(data => {
+          if (!ownImageIds.has(data.imageId)) {
+            logger.warn(`Skipping image ${data.imageId}: not found or doesn't belong to the user.`);
+            return;
+          }
           newImageLinks.push({
             galleryId: id,
             imageId: data.imageId,
             description: data.description,
             order: data.order,
+            addedById: session.user.id,
           });
         });
       }
@@ -367,6 +418,7 @@ export async function PATCH(
         where: {
           id: { in: addImagesFromValidation }, // Use validated data
           userId: session.user.id,
+          deletedAt: null,
         },
       });
 
@@ -384,6 +436,7 @@ export async function PATCH(
         galleryId: id,
         imageId: img.id,
         order: nextOrder++,
+        addedById: session.user.id,
       }));
 
       if (newImagesInGalleryData.length > 0) {
@@ -425,13 +478,7 @@ export async function PATCH(
           orderBy: {
             order: 'asc'
           },
-          include: {
-            image: {
-              include: {
-                tags: true,
-              }
-            }
-          }
+          include: GALLERY_ENTRY_INCLUDE
         },
         user: {
           select: {
@@ -443,8 +490,12 @@ export async function PATCH(
       },
     });
 
+    if (!fullUpdatedGallery) {
+      return apiNotFound("Gallery not found");
+    }
+
     logger.log("Gallery updated successfully");
-    return apiSuccess(fullUpdatedGallery);
+    return apiSuccess({ ...await resolveGalleryImages(fullUpdatedGallery), viewerRole: role });
   } catch (err) {
     if (err instanceof z.ZodError) {
       logger.error("Validation error updating gallery:", err.errors);
@@ -464,7 +515,7 @@ export async function DELETE(
     // Await params to solve the Next.js dynamic route parameters issue
     const { id } = await params;
     
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'galleries:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
@@ -473,7 +524,7 @@ export async function DELETE(
       where: { id: id },
     });
 
-    if (!gallery) {
+    if (!gallery || gallery.deletedAt) {
       return apiNotFound("Gallery not found");
     }
 
@@ -481,8 +532,14 @@ export async function DELETE(
       return apiUnauthorized();
     }
 
-    await prisma.gallery.delete({
-      where: { id: id },
+    // Move the gallery to the trash; its images stay attached until it's purged
+    await trashGallery(id);
+    await recordAuditEvent({
+      action: "gallery.deleted",
+      actor: session.user,
+      target: { type: "gallery", id },
+      req,
+      details: { title: gallery.title },
     });
 
     return new Response(null, { status: 204 });
@@ -500,7 +557,7 @@ export async function POST(
     // Await params to solve the Next.js dynamic route parameters issue
     const { id } = await params;
     
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'galleries:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
@@ -516,13 +573,17 @@ export async function POST(
       },
     });
 
-    if (!gallery) {
+    if (!gallery || gallery.deletedAt) {
       return apiNotFound("Gallery not found");
     }
 
-    if (gallery.userId !== session.user.id) {
+    const role = await getGalleryRole(gallery, session.user.id);
+    if (!role) {
       return apiUnauthorized();
     }
+    if (!canInGallery(role, 'addImages')) {
+      return apiError("You can't add images to this gallery", 403);
+    }
 
     const requestBody = await req.json();
     const { imageIds } = requestBody;
@@ -535,7 +596,8 @@ export async function POST(
     const userImages = await prisma.image.findMany({
       where: {
         id: { in: imageIds },
-        userId: session.user.id
+        userId: session.user.id,
+        deletedAt: null
       }
     });
     
@@ -559,6 +621,7 @@ export async function POST(
               galleryId: id,
               imageId: image.id,
               order: maxOrder + index + 1,
+              addedById: session.user.id,
             }
           });
         }
@@ -566,7 +629,7 @@ export async function POST(
     );
 
     // If this is the first image and the gallery has no cover image, set it as the cover
-    if (gallery.images.length === 0 && !gallery.coverImageId && userImages.length > 0) {
+    if (gallery.images.length === 0 && !gallery.coverImageId && userImages.length > 0 && canInGallery(role, 'editImages')) {
       await prisma.gallery.update({
         where: { id: id },
         data: { coverImageId: userImages[0].id }
@@ -581,13 +644,7 @@ export async function POST(
           orderBy: {
             order: 'asc'
           },
-          include: {
-            image: {
-              include: {
-                tags: true
-              }
-            }
-          }
+          include: GALLERY_ENTRY_INCLUDE
         },
         user: {
           select: {
@@ -599,7 +656,7 @@ export async function POST(
       },
     });
 
-    return apiSuccess(updatedGallery);
+    return apiSuccess(updatedGallery && { ...await resolveGalleryImages(updatedGallery), viewerRole: role });
   } catch (error) {
     logger.error("Error adding images to gallery:", error);
     return apiError("Internal Server Error");
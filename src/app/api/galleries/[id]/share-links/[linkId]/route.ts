@@ -0,0 +1,43 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+import { toShareLinkResponse } from "@/lib/shareLinks";
+
+/**
+ * DELETE /api/galleries/[id]/share-links/[linkId] - Revoke a share link
+ * The link is kept (with its view count) so the owner can see it was revoked.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id, linkId } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const link = await prisma.galleryShareLink.findFirst({
+      where: { id: linkId, galleryId: id, gallery: { userId: session.user.id } },
+    });
+    if (!link) {
+      return apiNotFound("Share link not found");
+    }
+
+    const revoked = link.revokedAt
+      ? link
+      : await prisma.galleryShareLink.update({
+          where: { id: linkId },
+          data: { revokedAt: new Date() },
+        });
+
+    logger.log(`Revoked share link ${linkId} for gallery ${id}`);
+    return apiSuccess(toShareLinkResponse(revoked));
+  } catch (error) {
+    logger.error("Error revoking share link:", error);
+    return apiError("Failed to revoke share link");
+  }
+}
@@ -0,0 +1,81 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound, apiValidationError } from "@/lib/apiResponse";
+import { CreateShareLinkSchema } from "@/lib/schemas";
+import { createShareLink, toShareLinkResponse } from "@/lib/shareLinks";
+
+// Share links are managed by the gallery owner only
+async function findOwnedGallery(galleryId: string, userId: string) {
+  const gallery = await prisma.gallery.findUnique({
+    where: { id: galleryId, deletedAt: null },
+    select: { id: true, userId: true },
+  });
+  return gallery && gallery.userId === userId ? gallery : null;
+}
+
+/**
+ * GET /api/galleries/[id]/share-links - List a gallery's share links, newest first
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getApiSession(req, 'images:read');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    if (!await findOwnedGallery(id, session.user.id)) {
+      return apiNotFound("Gallery not found");
+    }
+
+    const links = await prisma.galleryShareLink.findMany({
+      where: { galleryId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiSuccess(links.map(toShareLinkResponse));
+  } catch (error) {
+    logger.error("Error fetching share links:", error);
+    return apiError("Failed to fetch share links");
+  }
+}
+
+/**
+ * POST /api/galleries/[id]/share-links - Create an unlisted link to the gallery
+ * Optional: label, password, expiresAt (ISO date) and maxViews.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getApiSession(req, 'galleries:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    if (!await findOwnedGallery(id, session.user.id)) {
+      return apiNotFound("Gallery not found");
+    }
+
+    const result = CreateShareLinkSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const link = await createShareLink(id, result.data);
+    logger.log(`Created share link ${link.id} for gallery ${id}`);
+
+    return apiSuccess(toShareLinkResponse(link), 201);
+  } catch (error) {
+    logger.error("Error creating share link:", error);
+    return apiError("Failed to create share link");
+  }
+}
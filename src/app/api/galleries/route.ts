@@ -1,16 +1,21 @@
-import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
-import { apiSuccess, withApiHandler } from "@/lib/apiResponse";
-import { CreateGallerySchema } from "@/lib/schemas";
+import { getApiSession } from "@/lib/apiAuth";
+import { apiError, apiSuccess, apiUnauthorized, apiValidationError, withApiHandler } from "@/lib/apiResponse";
+import { CreateGallerySchema, GalleryListQuerySchema } from "@/lib/schemas";
+import { GALLERY_ENTRY_INCLUDE, resolveGalleryImages, serializeSmartRules } from "@/lib/smartGalleries";
+import { canPublishGalleries, UNVERIFIED_PUBLISH_MESSAGE } from "@/lib/emailVerification";
+import { listGallerySummaries } from "@/lib/galleryListing";
 
 export const POST = withApiHandler(async (req) => {
-  const session = await getServerSession(authOptions);
+  const session = await getApiSession(req, 'galleries:write');
   if (!session?.user.id) {
     return apiSuccess(null, 401); // Or import and use apiUnauthorized if you want the helper
   }
   const json = await req.json();
   const body = CreateGallerySchema.parse(json);
+  if (body.isPublic && !await canPublishGalleries(session.user.id)) {
+    return apiError(UNVERIFIED_PUBLISH_MESSAGE, 403);
+  }
   const gallery = await prisma.gallery.create({
     data: {
       title: body.title,
@@ -26,6 +31,7 @@ export const POST = withApiHandler(async (req) => {
       fontFamily: body.fontFamily,
       displayMode: body.displayMode,
       layoutType: body.layoutType,
+      smartRules: serializeSmartRules(body.smartRules),
     },
   });
   if (body.images && body.images.length > 0) {
@@ -36,6 +42,7 @@ export const POST = withApiHandler(async (req) => {
         galleryId: gallery.id,
         description: img.description,
         order: img.order ?? index,
+        addedById: session.user.id,
       })),
     });
   }
@@ -43,9 +50,7 @@ export const POST = withApiHandler(async (req) => {
     where: { id: gallery.id },
     include: {
       images: {
-        include: {
-          image: { include: { tags: true } }
-        }
+        include: GALLERY_ENTRY_INCLUDE
       },
       user: {
         select: {
@@ -56,27 +61,31 @@ export const POST = withApiHandler(async (req) => {
       }
     },
   });
-  return apiSuccess(completeGallery);
+  return apiSuccess(completeGallery && await resolveGalleryImages(completeGallery));
 });
 
+/**
+ * GET /api/galleries - A page of gallery summaries
+ * scope: public (default), accessible (includePrivate=true is the same), owned or shared.
+ * sort: newest (default), oldest, updated or title. Pass meta.nextCursor as cursor for the
+ * next page; limit defaults to 24.
+ */
 export const GET = withApiHandler(async (req) => {
-  const session = await getServerSession(authOptions);
+  const session = await getApiSession(req, 'images:read');
   const { searchParams } = new URL(req.url);
-  const includePrivate = searchParams.get("includePrivate") === "true";
-  const where = includePrivate && session?.user.id
-    ? { OR: [{ isPublic: true }, { userId: session.user.id }] }
-    : { isPublic: true };
-  const galleries = await prisma.gallery.findMany({
-    where,
-    include: {
-      images: {
-        include: {
-          image: { include: { tags: true } }
-        }
-      },
-      user: { select: { id: true, name: true, image: true } }
-    },
-    orderBy: { createdAt: "desc" },
+  const result = GalleryListQuerySchema.safeParse({
+    scope: searchParams.get("scope") || (searchParams.get("includePrivate") === "true" ? "accessible" : undefined),
+    sort: searchParams.get("sort") || undefined,
+    cursor: searchParams.get("cursor") || undefined,
+    limit: searchParams.get("limit") || undefined,
   });
-  return apiSuccess(galleries);
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  const page = await listGallerySummaries(result.data, session?.user.id);
+  if (!page) {
+    return apiUnauthorized();
+  }
+  return apiSuccess(page);
 });
@@ -1,19 +1,12 @@
-import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
-import fs from 'fs';
-import path from 'path';
-import { Gallery } from "@prisma/client";
+import { getApiSession } from "@/lib/apiAuth";
 import logger from "@/lib/logger";
 import { apiSuccess, apiError, apiValidationError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
 import { UpdateImageSchema } from "@/lib/schemas";
-
-interface GalleryWithCoverImage extends Gallery {
-  id: string;
-  title: string;
-  coverImageId: string | null;
-}
+import { recordAuditEvent } from "@/lib/audit";
+import { ensureTags } from "@/lib/tags";
+import { purgeDate, trashImages } from "@/lib/trash";
 
 export async function PATCH(
   req: Request,
@@ -21,12 +14,12 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params;
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
     const image = await prisma.image.findUnique({ where: { id: id } });
-    if (!image) {
+    if (!image || image.deletedAt) {
       return apiNotFound("Image not found");
     }
     if (image.userId !== session.user.id) {
@@ -48,11 +41,7 @@ export async function PATCH(
         title: body.title,
         description: body.description,
         tags: body.tags ? {
-          set: [],
-          connectOrCreate: body.tags.map(tag => ({
-            where: { name: tag },
-            create: { name: tag },
-          })),
+          set: (await ensureTags(session.user.id, body.tags)).map(tag => ({ id: tag.id })),
         } : undefined,
       },
       include: {
@@ -75,23 +64,14 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
     
-    const image = await prisma.image.findUnique({
-      where: { id },
-      include: {
-        inGalleries: {
-          include: {
-            gallery: true
-          }
-        }
-      }
-    });
+    const image = await prisma.image.findUnique({ where: { id } });
     
-    if (!image) {
+    if (!image || image.deletedAt) {
       return apiNotFound("Image not found");
     }
     
@@ -99,43 +79,17 @@ export async function DELETE(
       return apiUnauthorized();
     }
     
-    // Find galleries using this image as cover
-    const galleriesUsingAsCover = await prisma.$queryRaw<GalleryWithCoverImage[]>`
-      SELECT * FROM "Gallery" 
-      WHERE "coverImageId" = ${id} AND "userId" = ${session.user.id}
-    `;
-
-    // Update any galleries using this image as cover to have null coverImageId
-    if (galleriesUsingAsCover.length > 0) {
-      await prisma.$executeRaw`
-        UPDATE "Gallery" 
-        SET "coverImageId" = NULL 
-        WHERE "coverImageId" = ${id}
-      `;
-      logger.log(`Updated ${galleriesUsingAsCover.length} galleries that were using the deleted image as cover`);
-    }
-    
-    // The image might be used in galleries, but we're deleting it anyway
-    // Prisma will automatically remove the ImageInGallery records due to cascading deletion
-    
-    // Delete the image file from the filesystem
-    const urlParts = image.url.split('/');
-    const filename = urlParts[urlParts.length - 1];
-    const uploadPath = path.join(process.cwd(), 'public', 'uploads', filename);
-    
-    // Delete the image from the database
-    await prisma.image.delete({ where: { id } });
-    
-    // Clean up the file
-    try {
-      if (fs.existsSync(uploadPath)) {
-        fs.unlinkSync(uploadPath);
-      }
-    } catch (fileError) {
-      logger.error("Error deleting file:", fileError);
-    }
+    // Move the image to the trash; it leaves its galleries (and cover slots) until restored
+    await prisma.$transaction(tx => trashImages(tx, [id]));
+    await recordAuditEvent({
+      action: "image.deleted",
+      actor: session.user,
+      target: { type: "image", id },
+      req,
+      details: { title: image.title },
+    });
     
-    return apiSuccess({ success: true });
+    return apiSuccess({ success: true, purgeAt: purgeDate(new Date()) });
   } catch (error) {
     logger.error("Error deleting image:", error);
     return apiError("Internal Server Error");
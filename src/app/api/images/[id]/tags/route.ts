@@ -1,9 +1,9 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getApiSession } from '@/lib/apiAuth';
 import { prisma } from '@/lib/db';
 import { apiSuccess, apiError } from '@/lib/apiResponse';
 import { z } from 'zod';
+import { accessibleTagsFilter } from '@/lib/tags';
 
 const UpdateImageTagsSchema = z.object({
   tagIds: z.array(z.string())
@@ -17,7 +17,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:write');
     if (!session?.user?.id) {
       return apiError('Unauthorized', 401);
     }
@@ -31,7 +31,8 @@ export async function PATCH(
     const existingImage = await prisma.image.findFirst({
       where: {
         id: imageId,
-        userId: session.user.id
+        userId: session.user.id,
+        deletedAt: null
       }
     });
 
@@ -39,12 +40,21 @@ export async function PATCH(
       return apiError('Image not found or unauthorized', 404);
     }
 
+    // Only the user's own tags and shared tags can be assigned
+    const uniqueTagIds = [...new Set(tagIds)];
+    const accessibleCount = await prisma.tag.count({
+      where: { id: { in: uniqueTagIds }, ...accessibleTagsFilter(session.user.id) }
+    });
+    if (accessibleCount !== uniqueTagIds.length) {
+      return apiError('Tag not found', 404);
+    }
+
     // Update the image tags
     const updatedImage = await prisma.image.update({
       where: { id: imageId },
       data: {
         tags: {
-          set: tagIds.map(id => ({ id }))
+          set: uniqueTagIds.map(id => ({ id }))
         }
       },
       include: {
@@ -1,8 +1,8 @@
-import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
+import { getApiSession } from "@/lib/apiAuth";
 import { Gallery } from "@prisma/client";
 import logger from "@/lib/logger";
+import { trash } from "@/lib/config";
 import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
 
 interface GalleryWithCoverImage extends Gallery {
@@ -18,7 +18,7 @@ export async function GET(
   try {
     const { id } = await params;
 
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:read');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
@@ -35,7 +35,7 @@ export async function GET(
       }
     });
 
-    if (!image) {
+    if (!image || image.deletedAt) {
       return apiNotFound("Image not found");
     }
 
@@ -64,13 +64,15 @@ export async function GET(
           id: g.id,
           title: g.title,
           isCover: galleriesUsingAsCover.some(cover => cover.id === g.id)
-        }))
+        })),
+        retentionDays: trash.retentionDays
       });
     }
 
     // If not used in any galleries
     return apiSuccess({ 
-      galleries: [] 
+      galleries: [],
+      retentionDays: trash.retentionDays
     });
   } catch (error) {
     logger.error("Error checking image usage:", error);
@@ -0,0 +1,28 @@
+import { getApiSession } from '@/lib/apiAuth';
+import { apiSuccess, apiError, apiUnauthorized } from '@/lib/apiResponse';
+import logger from '@/lib/logger';
+import { ImageVersionError, revertToVersion } from '@/lib/imageVersions';
+
+/**
+ * POST /api/images/[id]/versions/[versionId]/revert - Make a version the one the image shows
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const { id, versionId } = await params;
+    return apiSuccess(await revertToVersion(id, session.user.id, versionId));
+  } catch (error) {
+    if (error instanceof ImageVersionError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error('Error reverting image version:', error);
+    return apiError('Failed to revert image');
+  }
+}
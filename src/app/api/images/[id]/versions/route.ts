@@ -0,0 +1,61 @@
+import { getApiSession } from '@/lib/apiAuth';
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from '@/lib/apiResponse';
+import logger from '@/lib/logger';
+import { ImageEditRecipeSchema } from '@/lib/schemas';
+import { createImageVersion, ImageVersionError, listImageVersions } from '@/lib/imageVersions';
+
+/**
+ * GET /api/images/[id]/versions - The image's version history, oldest first
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(req, 'images:read');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const { id } = await params;
+    return apiSuccess(await listImageVersions(id, session.user.id));
+  } catch (error) {
+    if (error instanceof ImageVersionError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error('Error listing image versions:', error);
+    return apiError('Failed to load image versions');
+  }
+}
+
+/**
+ * POST /api/images/[id]/versions - Apply an edit recipe to the original image
+ * The result is rendered into a new version, which becomes the one the image shows.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const result = ImageEditRecipeSchema.safeParse(await req.json().catch(() => ({})));
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const { id } = await params;
+    const version = await createImageVersion(id, session.user.id, result.data);
+    logger.log(`Rendered version ${version.version} of image ${id}`);
+    return apiSuccess(version, 201);
+  } catch (error) {
+    if (error instanceof ImageVersionError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error('Error editing image:', error);
+    return apiError('Failed to edit image');
+  }
+}
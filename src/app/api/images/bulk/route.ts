@@ -0,0 +1,50 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { BulkImageOperationSchema } from "@/lib/schemas";
+import { applyBulkImageOperation, BulkImageOperationError } from "@/lib/bulkImages";
+import { TagOperationError } from "@/lib/tags";
+import { recordAuditEvent } from "@/lib/audit";
+
+/**
+ * POST /api/images/bulk - Apply one action to several images at once
+ * Actions: addTags, removeTags, setDescription, addToGallery and delete.
+ * All changes happen in one transaction; the response reports the outcome for each image.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const result = BulkImageOperationSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const { imageIds, operation } = result.data;
+    const outcome = await applyBulkImageOperation(session.user.id, imageIds, operation);
+
+    if (operation.action === "delete") {
+      await recordAuditEvent(...outcome.results
+        .filter(item => item.status === "deleted")
+        .map(item => ({
+          action: "image.deleted" as const,
+          actor: session.user,
+          target: { type: "image" as const, id: item.id },
+          req,
+          details: { bulk: true },
+        })));
+    }
+
+    logger.log(`Applied ${operation.action} to ${outcome.results.filter(item => item.status !== 'not_found').length} images for user ${session.user.id}`);
+    return apiSuccess(outcome);
+  } catch (error) {
+    if (error instanceof BulkImageOperationError || error instanceof TagOperationError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error applying bulk image operation:", error);
+    return apiError("Failed to apply bulk operation");
+  }
+}
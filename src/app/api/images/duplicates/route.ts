@@ -0,0 +1,90 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import { uploads } from "@/lib/config";
+import { apiSuccess, apiUnauthorized, apiValidationError, withApiHandler } from "@/lib/apiResponse";
+import { DuplicateCheckSchema } from "@/lib/schemas";
+import { clusterDuplicates, hammingDistance } from "@/lib/utils/imageHashing";
+
+const duplicateImageInclude = { tags: true, variants: true } as const;
+
+/**
+ * POST /api/images/duplicates - Check whether a file about to be uploaded is already in the library
+ * Body: { contentHash, perceptualHash } as computed by the client
+ */
+export const POST = withApiHandler(async (req) => {
+  const session = await getApiSession(req, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const result = DuplicateCheckSchema.safeParse(await req.json());
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+  const { contentHash, perceptualHash } = result.data;
+
+  const exactMatches = await prisma.image.findMany({
+    where: { userId: session.user.id, deletedAt: null, contentHash },
+    include: duplicateImageInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // Near-duplicate search has to compare against every hashed image of the user
+  let similarMatches: { id: string; distance: number }[] = [];
+  if (perceptualHash) {
+    const candidates = await prisma.image.findMany({
+      where: {
+        userId: session.user.id,
+        deletedAt: null,
+        perceptualHash: { not: null },
+        id: { notIn: exactMatches.map(image => image.id) },
+      },
+      select: { id: true, perceptualHash: true },
+    });
+    similarMatches = candidates
+      .map(candidate => ({ id: candidate.id, distance: hammingDistance(perceptualHash, candidate.perceptualHash!) }))
+      .filter(candidate => candidate.distance <= uploads.duplicateThreshold)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  const similarImages = similarMatches.length > 0
+    ? await prisma.image.findMany({
+        where: { id: { in: similarMatches.map(match => match.id) } },
+        include: duplicateImageInclude,
+      })
+    : [];
+  const similarById = new Map(similarImages.map(image => [image.id, image]));
+
+  return apiSuccess([
+    ...exactMatches.map(image => ({ image, exact: true, distance: 0 })),
+    ...similarMatches
+      .filter(match => similarById.has(match.id))
+      .map(match => ({ image: similarById.get(match.id)!, exact: false, distance: match.distance })),
+  ]);
+});
+
+/**
+ * GET /api/images/duplicates - List clusters of identical or near-identical images in the user's library
+ * Images uploaded before fingerprinting was introduced have no hashes and are never reported.
+ */
+export const GET = withApiHandler(async (req) => {
+  const session = await getApiSession(req, 'images:read');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const images = await prisma.image.findMany({
+    where: {
+      userId: session.user.id,
+      deletedAt: null,
+      OR: [{ contentHash: { not: null } }, { perceptualHash: { not: null } }],
+    },
+    include: duplicateImageInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const clusters = clusterDuplicates(images, uploads.duplicateThreshold)
+    .map(cluster => ({ exact: cluster.exact, images: cluster.items }));
+
+  return apiSuccess(clusters);
+});
@@ -1,20 +1,35 @@
-import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
+import { getApiSession } from "@/lib/apiAuth";
 import { apiSuccess, apiUnauthorized, apiError, withApiHandler } from "@/lib/apiResponse";
 import { getPaginationOptions, formatPaginatedResponse } from "@/lib/dataFetching";
 import { Image, Prisma } from "@prisma/client";
 import logger from "@/lib/logger";
 import { CreateImageSchema } from "@/lib/schemas";
+import { buildImageSearchFilter, getImageSearchFacets } from "@/lib/search";
+import { parseListParam } from "@/lib/utils/searchQuery";
+import { ensureTags } from "@/lib/tags";
+import { withRateLimit } from "@/lib/rateLimit";
+import { findUpload } from "@/lib/uploadProcessing";
 
 // Schema validation for query parameters
 const getImagesQuerySchema = z.object({
   page: z.coerce.number().min(1).optional().default(1),
   limit: z.coerce.number().min(1).max(100).optional().default(20),
   tag: z.string().optional(),
-  searchQuery: z.string().optional(), // Added for general search
-  sortBy: z.enum(['createdAt', 'title', 'updatedAt']).optional().default('createdAt'),
+  tags: z.string().optional(), // Comma-separated; images must have all of them
+  anyTags: z.string().optional(), // Comma-separated; images must have at least one
+  excludeTags: z.string().optional(), // Comma-separated; images must have none
+  camera: z.string().optional(),
+  from: z.coerce.date().optional(), // Capture date (or upload date when unknown) range
+  // A bare date includes the whole day
+  to: z.preprocess(
+    value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+    z.coerce.date().optional()
+  ),
+  searchQuery: z.string().optional(), // Full-text search, see parseSearchQuery
+  // Defaults to relevance for text searches and createdAt otherwise
+  sortBy: z.enum(['relevance', 'createdAt', 'title', 'updatedAt']).optional(),
   sortDir: z.enum(['asc', 'desc']).optional().default('desc'),
   ids: z.string().optional(), // Support for comma-separated IDs
 });
@@ -24,7 +39,7 @@ const getImagesQuerySchema = z.object({
  */
 export const POST = withApiHandler(async (req) => {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:write');
     if (!session?.user.id) {
       return apiUnauthorized();
     }
@@ -43,21 +58,37 @@ export const POST = withApiHandler(async (req) => {
     logger.log('POST /api/images - Validated body:', body);
     logger.log('POST /api/images - User ID:', session.user.id);
     
-    const image = await prisma.image.create({
-      data: {
-        title: body.title,
-        description: body.description,
-        url: body.url,
-        userId: session.user.id,
-        tags: body.tags ? {
-          connectOrCreate: body.tags.map(tag => ({
-            where: { name: tag },
-            create: { name: tag },
-          }))
-        } : undefined,
-      },
-      include: { tags: true },
-    });
+    // Only files the upload pipeline stored for this user can become images. Variants,
+    // metadata and fingerprints are taken from what the pipeline recorded, not the request.
+    const upload = await findUpload(session.user.id, body.url);
+    if (!upload) {
+      return apiError('Upload not found; upload the file before creating the image', 400);
+    }
+    const { variants, metadata, contentHash, perceptualHash } = upload.result;
+
+    const [image] = await prisma.$transaction([
+      prisma.image.create({
+        data: {
+          title: body.title,
+          description: body.description,
+          url: body.url,
+          userId: session.user.id,
+          tags: body.tags ? {
+            connect: (await ensureTags(session.user.id, body.tags)).map(tag => ({ id: tag.id })),
+          } : undefined,
+          variants: variants && variants.length > 0 ? {
+            create: variants,
+          } : undefined,
+          metadata: metadata ? {
+            create: metadata,
+          } : undefined,
+          contentHash,
+          perceptualHash,
+        },
+        include: { tags: true, variants: true, metadata: true },
+      }),
+      prisma.upload.delete({ where: { id: upload.id } }),
+    ]);
     
     logger.log(`Image created: ${image.id} by user ${session.user.id}`);
     return apiSuccess(image, 201);
@@ -68,10 +99,12 @@ export const POST = withApiHandler(async (req) => {
 });
 
 /**
- * GET /api/images - Get all images for the current user with pagination and filtering
+ * GET /api/images - Search the current user's images with pagination and filtering
+ * Text queries use the full-text index and sort by relevance unless another sort is requested.
+ * The response includes tag, year and camera facets counted over every match.
  */
-export const GET = withApiHandler(async (req) => {
-  const session = await getServerSession(authOptions);
+export const GET = withRateLimit("search", withApiHandler(async (req) => {
+  const session = await getApiSession(req, 'images:read');
   if (!session?.user.id) {
     return apiUnauthorized();
   }
@@ -80,6 +113,12 @@ export const GET = withApiHandler(async (req) => {
     page: searchParams.get("page") ? Number(searchParams.get("page")) : undefined,
     limit: searchParams.get("limit") ? Number(searchParams.get("limit")) : undefined,
     tag: searchParams.get("tag") || undefined,
+    tags: searchParams.get("tags") || undefined,
+    anyTags: searchParams.get("anyTags") || undefined,
+    excludeTags: searchParams.get("excludeTags") || undefined,
+    camera: searchParams.get("camera") || undefined,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
     searchQuery: searchParams.get("searchQuery") || undefined,
     sortBy: searchParams.get("sortBy") || undefined,
     sortDir: searchParams.get("sortDir") || undefined,
@@ -90,20 +129,17 @@ export const GET = withApiHandler(async (req) => {
     logger.log('GET /api/images query params:', queryParams);
     logger.log('GET /api/images session userId:', session.user.id);
   }
-  const where: Prisma.ImageWhereInput = { userId: session.user.id };
-  
-  // Filter by tag if provided
-  if (queryParams.tag) {
-    where.tags = { some: { name: queryParams.tag } };
-  }
-  
-  // Filter by search query if provided
-  if (queryParams.searchQuery) {
-    where.OR = [
-      { title: { contains: queryParams.searchQuery } },
-      { description: { contains: queryParams.searchQuery } },
-    ];
-  }
+
+  const { where: searchWhere, ranks, filtered } = await buildImageSearchFilter(session.user.id, {
+    query: queryParams.searchQuery,
+    allTags: [...(queryParams.tag ? [queryParams.tag] : []), ...parseListParam(queryParams.tags)],
+    anyTags: parseListParam(queryParams.anyTags),
+    excludeTags: parseListParam(queryParams.excludeTags),
+    camera: queryParams.camera,
+    from: queryParams.from,
+    to: queryParams.to,
+  });
+  const where: Prisma.ImageWhereInput = { ...searchWhere };
   
   // Filter by IDs if provided (comma-separated list)
   if (queryParams.ids) {
@@ -114,18 +150,41 @@ export const GET = withApiHandler(async (req) => {
       queryParams.limit = imageIds.length; 
     }
   }
+
+  const include = { tags: true, variants: true, metadata: true } as const;
+  const sortBy = queryParams.sortBy ?? (ranks ? 'relevance' : 'createdAt');
+  const pagination = getPaginationOptions({ page: queryParams.page, limit: queryParams.limit });
   const total = await prisma.image.count({ where });
-  const images = await prisma.image.findMany({
-    where,
-    include: { tags: true },
-    orderBy: { [queryParams.sortBy]: queryParams.sortDir },
-    ...getPaginationOptions({ page: queryParams.page, limit: queryParams.limit }),
-  });
+  let images: Image[];
+
+  if (sortBy === 'relevance' && ranks) {
+    // Order the matching ids by rank, then load just the requested page
+    const matchingIds = (await prisma.image.findMany({ where, select: { id: true } }))
+      .map(image => image.id)
+      .sort((a, b) => (ranks.get(a) ?? Infinity) - (ranks.get(b) ?? Infinity));
+    const pageIds = matchingIds.slice(pagination.skip, pagination.skip + pagination.take);
+    const pageImages = await prisma.image.findMany({ where: { id: { in: pageIds } }, include });
+    images = pageIds
+      .map(id => pageImages.find(image => image.id === id))
+      .filter((image): image is (typeof pageImages)[number] => image !== undefined);
+  } else {
+    images = await prisma.image.findMany({
+      where,
+      include,
+      orderBy: { [sortBy === 'relevance' ? 'createdAt' : sortBy]: queryParams.sortDir },
+      ...pagination,
+    });
+  }
+
+  const facets = queryParams.ids ? undefined : await getImageSearchFacets(session.user.id, where, filtered);
   
   if (process.env.NODE_ENV === 'development') {
     logger.log('GET /api/images result - total:', total, 'images count:', images.length);
   }
   
   const response = formatPaginatedResponse<Image>(images, total, { page: queryParams.page, limit: queryParams.limit });
-  return apiSuccess(response);
+  return apiSuccess({ ...response, facets });
+}), {
+  // Listing and filtering without a text query is cheap; only full-text searches count
+  skip: (req) => !new URL(req.url).searchParams.get("searchQuery"),
 });
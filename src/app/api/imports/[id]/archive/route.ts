@@ -0,0 +1,36 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { imports as importsConfig } from "@/lib/config";
+import { getImportJob, ImportError, receiveImportArchive } from "@/lib/imports";
+
+/**
+ * PUT /api/imports/[id]/archive - Upload the ZIP archive of an import and start it
+ * Body: the raw archive bytes, streamed to disk as they arrive
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getApiSession(req, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const contentLength = Number(req.headers.get("Content-Length"));
+  if (contentLength > importsConfig.maxArchiveSize) {
+    return apiError("The archive is too large", 413);
+  }
+
+  try {
+    const { id } = await params;
+    const job = await getImportJob(id, session.user.id);
+    return apiSuccess(await receiveImportArchive(job, req.body));
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error receiving import archive:", error);
+    return apiError("Upload failed");
+  }
+}
@@ -0,0 +1,42 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { ImportItemQuerySchema } from "@/lib/schemas";
+import { getImportJob, ImportError, listImportItems } from "@/lib/imports";
+import { formatPaginatedResponse } from "@/lib/dataFetching";
+
+/**
+ * GET /api/imports/[id]/items - What became of each file of an import, optionally filtered by status
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getApiSession(req, 'images:read');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const { searchParams } = new URL(req.url);
+  const result = ImportItemQuerySchema.safeParse({
+    status: searchParams.get("status") || undefined,
+    page: searchParams.get("page") || undefined,
+    limit: searchParams.get("limit") || undefined,
+  });
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    const { id } = await params;
+    await getImportJob(id, session.user.id);
+    const { items, total } = await listImportItems(id, result.data);
+    return apiSuccess(formatPaginatedResponse(items, total, result.data));
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error fetching import items:", error);
+    return apiError("Failed to fetch import results");
+  }
+}
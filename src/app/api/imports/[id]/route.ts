@@ -0,0 +1,53 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { cancelImportJob, getImportJob, ImportError, serializeImportJob } from "@/lib/imports";
+
+function handleImportError(error: unknown, action: string) {
+  if (error instanceof ImportError) {
+    return apiError(error.message, error.status);
+  }
+  logger.error(`Error ${action} import job:`, error);
+  return apiError("Internal Server Error");
+}
+
+/**
+ * GET /api/imports/[id] - The progress of an import
+ * Also resumes the import if it stalled, e.g. because the server restarted.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getApiSession(req, 'images:read');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    return apiSuccess(serializeImportJob(await getImportJob(id, session.user.id)));
+  } catch (error) {
+    return handleImportError(error, "reading");
+  }
+}
+
+/**
+ * DELETE /api/imports/[id] - Cancel an import; images imported so far are kept
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getApiSession(req, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    return apiSuccess(await cancelImportJob(await getImportJob(id, session.user.id)));
+  } catch (error) {
+    return handleImportError(error, "cancelling");
+  }
+}
@@ -0,0 +1,56 @@
+import { prisma } from "@/lib/db";
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { CreateImportJobSchema } from "@/lib/schemas";
+import { createImportJob, ImportError, listImportJobs } from "@/lib/imports";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * GET /api/imports - The user's most recent import jobs
+ */
+export async function GET(req: Request) {
+  const session = await getApiSession(req, 'images:read');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await listImportJobs(session.user.id));
+  } catch (error) {
+    logger.error("Error fetching import jobs:", error);
+    return apiError("Failed to fetch imports");
+  }
+}
+
+/**
+ * POST /api/imports - Start a bulk import
+ * ZIP imports wait for the archive at PUT /api/imports/[id]/archive; folder imports
+ * (admins only) start right away.
+ */
+export const POST = withRateLimit("upload", async (req: Request) => {
+  const session = await getApiSession(req, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const result = CreateImportJobSchema.safeParse(await req.json().catch(() => ({})));
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    // The role is read fresh, so a demoted admin can't keep importing server folders
+    const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { id: true, role: true } });
+    if (!user) {
+      return apiUnauthorized();
+    }
+    return apiSuccess(await createImportJob(user, result.data), 201);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error creating import job:", error);
+    return apiError("Failed to start import");
+  }
+});
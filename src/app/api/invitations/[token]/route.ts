@@ -0,0 +1,34 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { acceptGalleryInvitation, GalleryMemberError } from "@/lib/galleryMembers";
+
+/**
+ * POST /api/invitations/[token] - Accept a gallery invitation as the logged-in user
+ * The user's email must match the invited address.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const galleryId = await acceptGalleryInvitation(token, session.user);
+    logger.log(`User ${session.user.id} joined gallery ${galleryId}`);
+
+    return apiSuccess({ galleryId });
+  } catch (error) {
+    if (error instanceof GalleryMemberError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error accepting invitation:", error);
+    return apiError("Failed to accept invitation");
+  }
+}
@@ -0,0 +1,43 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { ResolveReportSchema } from "@/lib/schemas";
+import { ModerationError, resolveReport } from "@/lib/moderation";
+
+/**
+ * PATCH /api/reports/[id] - Dismiss a report, hide or unpublish the reported content,
+ * or restore content hidden earlier (admin only)
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const forbidden = await adminAccessError(session.user.id);
+  if (forbidden) {
+    return forbidden;
+  }
+
+  const result = ResolveReportSchema.safeParse(await req.json().catch(() => ({})));
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    const { id } = await params;
+    const report = await resolveReport(id, session.user, result.data, req);
+    return apiSuccess(report);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error resolving report:", error);
+    return apiError("Failed to resolve report");
+  }
+}
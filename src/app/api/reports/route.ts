@@ -0,0 +1,67 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { CreateReportSchema, ReportQuerySchema } from "@/lib/schemas";
+import { createReport, listReports, ModerationError } from "@/lib/moderation";
+import { formatPaginatedResponse } from "@/lib/dataFetching";
+
+/**
+ * POST /api/reports - Report a public gallery, or an image in one, to the moderators
+ */
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const result = CreateReportSchema.safeParse(await req.json().catch(() => ({})));
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    const report = await createReport(session.user.id, result.data);
+    return apiSuccess({ id: report.id, status: report.status }, 201);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error creating report:", error);
+    return apiError("Failed to submit report");
+  }
+}
+
+/**
+ * GET /api/reports - Reports with a status (OPEN by default) for the moderation queue (admin only)
+ */
+export async function GET(req: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const forbidden = await adminAccessError(session.user.id);
+  if (forbidden) {
+    return forbidden;
+  }
+
+  const { searchParams } = new URL(req.url);
+  const result = ReportQuerySchema.safeParse({
+    status: searchParams.get("status") || undefined,
+    page: searchParams.get("page") || undefined,
+    limit: searchParams.get("limit") || undefined,
+  });
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    const { reports, total } = await listReports(result.data);
+    return apiSuccess(formatPaginatedResponse(reports, total, result.data));
+  } catch (error) {
+    logger.error("Error fetching reports:", error);
+    return apiError("Failed to fetch reports");
+  }
+}
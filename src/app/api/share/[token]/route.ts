@@ -0,0 +1,41 @@
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiValidationError } from "@/lib/apiResponse";
+import { UnlockShareLinkSchema } from "@/lib/schemas";
+import { openShareLink, shareLinkPath, ShareLinkError, SHARE_ACCESS_COOKIE } from "@/lib/shareLinks";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/share/[token] - Open a share link, with its password if it has one
+ * Counts a view and sets an access cookie for /s/[token]; no login required.
+ */
+export const POST = withRateLimit("auth", async (
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) => {
+  try {
+    const { token } = await params;
+
+    const result = UnlockShareLinkSchema.safeParse(await req.json().catch(() => ({})));
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const access = await openShareLink(token, result.data.password);
+
+    const response = apiSuccess({ url: shareLinkPath(token) });
+    response.cookies.set(SHARE_ACCESS_COOKIE, access.value, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: shareLinkPath(token),
+      maxAge: access.maxAge,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error opening share link:", error);
+    return apiError("Failed to open share link");
+  }
+});
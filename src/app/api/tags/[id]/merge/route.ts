@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getApiSession } from '@/lib/apiAuth';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/apiResponse';
+import logger from '@/lib/logger';
+import { MergeTagSchema } from '@/lib/schemas';
+import { getManageableTag, mergeTags, TagOperationError } from '@/lib/tags';
+
+/**
+ * POST /api/tags/[id]/merge - Merge this tag into another
+ * Every image, alias and child tag moves to the target in one transaction,
+ * and this tag's name becomes an alias of the target.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user?.id) {
+      return apiError('Unauthorized', 401);
+    }
+
+    const { id: sourceId } = await params;
+    const result = MergeTagSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    const { targetId } = result.data;
+    await getManageableTag(sourceId, session.user);
+    await getManageableTag(targetId, session.user);
+
+    const target = await mergeTags(sourceId, targetId);
+    logger.log(`Merged tag ${sourceId} into ${target.name} for user ${session.user.id}`);
+    return apiSuccess(target);
+  } catch (error) {
+    if (error instanceof TagOperationError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error('Error merging tags:', error);
+    return apiError('Failed to merge tags', 500);
+  }
+}
@@ -1,48 +1,94 @@
 import { NextRequest } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getApiSession } from '@/lib/apiAuth';
 import { prisma } from '@/lib/db';
-import { apiSuccess, apiError } from '@/lib/apiResponse';
+import { apiSuccess, apiError, apiValidationError } from '@/lib/apiResponse';
+import logger from '@/lib/logger';
+import { UpdateTagSchema } from '@/lib/schemas';
+import {
+  deleteTag,
+  getManageableTag,
+  renameTag,
+  serializeTagDetails,
+  setTagAliases,
+  TAG_DETAILS_SELECT,
+  TagOperationError,
+} from '@/lib/tags';
+
+function handleTagError(error: unknown, action: string) {
+  if (error instanceof TagOperationError) {
+    return apiError(error.message, error.status);
+  }
+  logger.error(`Failed to ${action}:`, error);
+  return apiError(`Failed to ${action}`, 500);
+}
 
 /**
- * DELETE /api/tags/[id] - Delete a tag
+ * PATCH /api/tags/[id] - Rename or move a tag and/or replace its aliases
  */
-export async function DELETE(
-  req: NextRequest, 
+export async function PATCH(
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getApiSession(req, 'images:write');
     if (!session?.user?.id) {
       return apiError('Unauthorized', 401);
     }
 
     const { id: tagId } = await params;
+    const result = UpdateTagSchema.safeParse(await req.json());
+    if (!result.success) {
+      return apiValidationError(result.error);
+    }
+
+    await getManageableTag(tagId, session.user);
 
-    // Check if the tag exists and belongs to user's images
-    const tag = await prisma.tag.findFirst({
-      where: {
-        id: tagId,
-        images: {
-          some: {
-            userId: session.user.id
-          }
-        }
+    // A rejected alias must not leave the tag renamed
+    const { name, aliases } = result.data;
+    await prisma.$transaction(async (tx) => {
+      if (name !== undefined) {
+        await renameTag(tagId, name, tx);
       }
+      if (aliases !== undefined) {
+        await setTagAliases(tagId, aliases, tx);
+      }
+    });
+
+    const tag = await prisma.tag.findUniqueOrThrow({
+      where: { id: tagId },
+      select: TAG_DETAILS_SELECT,
     });
 
-    if (!tag) {
-      return apiError('Tag not found or unauthorized', 404);
+    logger.log(`Updated tag ${tag.name} for user ${session.user.id}`);
+    return apiSuccess(serializeTagDetails(tag));
+  } catch (error) {
+    return handleTagError(error, 'update tag');
+  }
+}
+
+/**
+ * DELETE /api/tags/[id] - Delete a tag
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user?.id) {
+      return apiError('Unauthorized', 401);
     }
 
+    const { id: tagId } = await params;
+
+    // Check the tag belongs to the user (or is shared and the user is an admin)
+    await getManageableTag(tagId, session.user);
+
     // Delete the tag
-    await prisma.tag.delete({
-      where: { id: tagId }
-    });
+    await deleteTag(tagId);
 
     return apiSuccess({ message: 'Tag deleted successfully' });
   } catch (error) {
-    console.error('Error deleting tag:', error);
-    return apiError('Failed to delete tag', 500);
+    return handleTagError(error, 'delete tag');
   }
 }
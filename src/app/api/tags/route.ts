@@ -1,85 +1,72 @@
-import { getServerSession } from "next-auth";
+import { UserRole } from "@prisma/client";
 import { prisma } from "@/lib/db";
-import { authOptions } from "@/lib/auth";
-import { apiSuccess, apiUnauthorized, withApiHandler } from "@/lib/apiResponse";
+import { getApiSession } from "@/lib/apiAuth";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError, withApiHandler } from "@/lib/apiResponse";
 import logger from "@/lib/logger";
+import { CreateTagSchema } from "@/lib/schemas";
+import { accessibleTagsFilter, ensureTags, serializeTagDetails, TAG_DETAILS_SELECT } from "@/lib/tags";
+
+// Only count the user's own images, even on shared tags
+const ownImagesTagDetailsSelect = (userId: string) => ({
+  ...TAG_DETAILS_SELECT,
+  _count: {
+    select: {
+      images: { where: { userId, deletedAt: null } }
+    }
+  }
+});
 
 /**
- * GET /api/tags - Get all tags used by the current user
+ * GET /api/tags - Get the current user's tags plus shared tags
  */
-export const GET = withApiHandler(async () => {
-  const session = await getServerSession(authOptions);
+export const GET = withApiHandler(async (req) => {
+  const session = await getApiSession(req, 'images:read');
   if (!session?.user.id) {
     return apiUnauthorized();
   }
 
-  // Get all distinct tags used by images owned by the current user
   const tags = await prisma.tag.findMany({
-    where: {
-      images: {
-        some: {
-          userId: session.user.id
-        }
-      }
-    },
+    where: accessibleTagsFilter(session.user.id),
     orderBy: {
       name: 'asc'
     },
-    select: {
-      id: true,
-      name: true,
-      _count: {
-        select: {
-          images: true
-        }
-      }
-    }
+    select: ownImagesTagDetailsSelect(session.user.id)
   });
 
   logger.log(`Retrieved ${tags.length} tags for user ${session.user.id}`);
-  return apiSuccess(tags);
+  return apiSuccess(tags.map(serializeTagDetails));
 });
 
 /**
  * POST /api/tags - Create a new tag
+ * Path names ("travel/japan") create any missing parents; aliases return their canonical tag.
+ * Admins can pass `shared: true` to create a tag available to everyone.
  */
 export const POST = withApiHandler(async (req) => {
-  const session = await getServerSession(authOptions);
+  const session = await getApiSession(req, 'images:write');
   if (!session?.user.id) {
     return apiUnauthorized();
   }
 
-  const { name } = await req.json();
-  
-  if (!name || typeof name !== 'string' || name.trim().length === 0) {
-    return apiSuccess(null, 400);
+  const result = CreateTagSchema.safeParse(await req.json());
+  if (!result.success) {
+    return apiValidationError(result.error);
   }
 
-  const tagName = name.trim();
-
-  // Check if tag already exists
-  const existingTag = await prisma.tag.findUnique({
-    where: { name: tagName }
-  });
-
-  if (existingTag) {
-    return apiSuccess(existingTag);
+  if (result.data.shared && session.user.role !== UserRole.ADMIN) {
+    return apiError('Only admins can create shared tags', 403);
   }
 
-  // Create new tag
-  const newTag = await prisma.tag.create({
-    data: { name: tagName },
-    select: {
-      id: true,
-      name: true,
-      _count: {
-        select: {
-          images: true
-        }
-      }
-    }
+  const [tag] = await ensureTags(result.data.shared ? null : session.user.id, [result.data.name]);
+  if (!tag) {
+    return apiError('Tag name is required', 400);
+  }
+  const created = await prisma.tag.findUniqueOrThrow({
+    where: { id: tag.id },
+    // Existing shared tags may already be on other users' images, which only admins get to count
+    select: session.user.role === UserRole.ADMIN ? TAG_DETAILS_SELECT : ownImagesTagDetailsSelect(session.user.id)
   });
 
-  logger.log(`Created new tag: ${newTag.name} by user ${session.user.id}`);
-  return apiSuccess(newTag, 201);
+  logger.log(`Ensured ${result.data.shared ? 'shared ' : ''}tag: ${created.name} for user ${session.user.id}`);
+  return apiSuccess(serializeTagDetails(created), 201);
 });
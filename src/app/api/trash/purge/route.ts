@@ -0,0 +1,31 @@
+import { timingSafeEqual } from "crypto";
+import logger from "@/lib/logger";
+import { trash } from "@/lib/config";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { purgeTrash } from "@/lib/trash";
+
+function isAuthorized(req: Request): boolean {
+  if (!trash.cronSecret) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${trash.cronSecret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST /api/trash/purge - Permanently delete everything past the retention period
+ * Meant for a scheduler (e.g. a daily cron job) sending "Authorization: Bearer $CRON_SECRET".
+ */
+export async function POST(req: Request) {
+  if (!isAuthorized(req)) {
+    return apiUnauthorized();
+  }
+
+  try {
+    return apiSuccess(await purgeTrash());
+  } catch (error) {
+    logger.error("Error purging trash:", error);
+    return apiError("Failed to purge trash");
+  }
+}
@@ -0,0 +1,31 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError } from "@/lib/apiResponse";
+import { TrashTargetSchema } from "@/lib/schemas";
+import { restoreFromTrash, TrashError } from "@/lib/trash";
+
+/**
+ * POST /api/trash/restore - Take an image or gallery out of the trash
+ * Restored images rejoin the galleries they were in and get back the covers nobody replaced.
+ */
+export async function POST(req: Request) {
+  const session = await getApiSession(req, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const result = TrashTargetSchema.safeParse(await req.json().catch(() => ({})));
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    return apiSuccess(await restoreFromTrash(session.user, result.data, req));
+  } catch (error) {
+    if (error instanceof TrashError) {
+      return apiError(error.message, error.status);
+    }
+    logger.error("Error restoring from trash:", error);
+    return apiError("Failed to restore from trash");
+  }
+}
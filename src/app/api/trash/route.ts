@@ -0,0 +1,36 @@
+import { getApiSession } from "@/lib/apiAuth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { listTrash, purgeTrash } from "@/lib/trash";
+
+/**
+ * GET /api/trash - The user's deleted images and galleries, most recently deleted first
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getApiSession(req, 'images:read');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+    return apiSuccess(await listTrash(session.user.id));
+  } catch (error) {
+    logger.error("Error loading trash:", error);
+    return apiError("Failed to load trash");
+  }
+}
+
+/**
+ * DELETE /api/trash - Empty the user's trash, permanently deleting everything in it
+ */
+export async function DELETE(req: Request) {
+  try {
+    const session = await getApiSession(req, 'images:write');
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+    return apiSuccess(await purgeTrash({ userId: session.user.id, before: new Date() }));
+  } catch (error) {
+    logger.error("Error emptying trash:", error);
+    return apiError("Failed to empty trash");
+  }
+}
@@ -1,25 +1,41 @@
-import { writeFile } from 'fs/promises';
-import { join } from 'path';
 import logger from '@/lib/logger';
-import { apiSuccess, apiError } from '@/lib/apiResponse';
+import { apiSuccess, apiError, apiUnauthorized } from '@/lib/apiResponse';
+import { getApiSession } from '@/lib/apiAuth';
+import { uploads } from '@/lib/config';
+import { processUpload, recordUpload } from '@/lib/uploadProcessing';
+import { withRateLimit } from '@/lib/rateLimit';
+
+/**
+ * POST /api/upload - Upload a file in a single request
+ * Large files should use the resumable /api/upload/sessions flow instead.
+ */
+export const POST = withRateLimit('upload', async (request: Request) => {
+  const session = await getApiSession(request, 'images:write');
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
 
-export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
     if (!file) {
       return apiError('No file uploaded', 400);
     }
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const uploadsDir = join(process.cwd(), 'public', 'uploads');
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const filename = uniqueSuffix + '-' + file.name.replace(/[^a-zA-Z0-9.-]/g, '');
-    const filepath = join(uploadsDir, filename);
-    await writeFile(filepath, buffer);
-    return apiSuccess({ url: `/uploads/${filename}` });
+    if (file.size > uploads.maxFileSize) {
+      return apiError('File is too large', 413);
+    }
+
+    const result = await processUpload({
+      data: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      mimeType: file.type,
+      stripGps: formData.get('stripGps') === 'true',
+    });
+    await recordUpload(session.user.id, result);
+
+    return apiSuccess(result);
   } catch (error) {
     logger.error('Upload error:', error);
     return apiError('Upload failed');
   }
-}
+});
@@ -0,0 +1,52 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import { processUpload, recordUpload } from "@/lib/uploadProcessing";
+import {
+  deleteUploadSession,
+  getUploadSession,
+  readCompletedUpload,
+  UploadSessionError,
+} from "@/lib/uploadSessions";
+
+/**
+ * POST /api/upload/sessions/[id]/complete - Finish a chunked upload
+ * Runs the same processing as /api/upload and returns the same payload.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    const uploadSession = await getUploadSession(id, session.user.id);
+    const data = await readCompletedUpload(uploadSession);
+
+    const result = await processUpload({
+      data,
+      fileName: uploadSession.fileName,
+      mimeType: uploadSession.mimeType,
+      stripGps: uploadSession.stripGps,
+    });
+    await recordUpload(session.user.id, result);
+
+    await deleteUploadSession(uploadSession.id);
+    return apiSuccess(result);
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return apiError(
+        error.message,
+        error.status,
+        error.receivedBytes !== undefined ? { receivedBytes: error.receivedBytes } : undefined
+      );
+    }
+    logger.error("Error completing upload session:", error);
+    return apiError("Upload failed");
+  }
+}
@@ -0,0 +1,102 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized } from "@/lib/apiResponse";
+import {
+  appendUploadChunk,
+  deleteUploadSession,
+  getUploadSession,
+  parseChecksumHeader,
+  serializeUploadSession,
+  UploadSessionError,
+} from "@/lib/uploadSessions";
+
+function handleSessionError(error: unknown, action: string) {
+  if (error instanceof UploadSessionError) {
+    return apiError(
+      error.message,
+      error.status,
+      error.receivedBytes !== undefined ? { receivedBytes: error.receivedBytes } : undefined
+    );
+  }
+  logger.error(`Error ${action} upload session:`, error);
+  return apiError("Internal Server Error");
+}
+
+/**
+ * GET /api/upload/sessions/[id] - Get the progress of an upload, used to resume it
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    const uploadSession = await getUploadSession(id, session.user.id);
+    return apiSuccess(serializeUploadSession(uploadSession));
+  } catch (error) {
+    return handleSessionError(error, "reading");
+  }
+}
+
+/**
+ * PUT /api/upload/sessions/[id] - Append a chunk
+ * Body: raw chunk bytes
+ * Headers: `Upload-Offset` (byte position of the chunk) and `Upload-Checksum: sha256 <hex>`
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const offset = Number(req.headers.get("Upload-Offset"));
+  if (!Number.isInteger(offset) || offset < 0) {
+    return apiError("Missing or invalid Upload-Offset header", 400);
+  }
+
+  try {
+    const { id } = await params;
+    const uploadSession = await getUploadSession(id, session.user.id);
+    const chunk = Buffer.from(await req.arrayBuffer());
+    const updated = await appendUploadChunk(
+      uploadSession,
+      offset,
+      chunk,
+      parseChecksumHeader(req.headers.get("Upload-Checksum"))
+    );
+    return apiSuccess(serializeUploadSession(updated));
+  } catch (error) {
+    return handleSessionError(error, "appending to");
+  }
+}
+
+/**
+ * DELETE /api/upload/sessions/[id] - Abandon an upload and discard the received bytes
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  try {
+    const { id } = await params;
+    await getUploadSession(id, session.user.id);
+    await deleteUploadSession(id);
+    return apiSuccess({ success: true });
+  } catch (error) {
+    return handleSessionError(error, "deleting");
+  }
+}
@@ -0,0 +1,32 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { apiSuccess, apiError, apiUnauthorized, apiValidationError, withApiHandler } from "@/lib/apiResponse";
+import { CreateUploadSessionSchema } from "@/lib/schemas";
+import { createUploadSession, serializeUploadSession, UploadSessionError } from "@/lib/uploadSessions";
+import { withRateLimit } from "@/lib/rateLimit";
+
+/**
+ * POST /api/upload/sessions - Start a resumable chunked upload
+ * Body: { fileName, mimeType, size, fingerprint, stripGps? }
+ */
+export const POST = withRateLimit("upload", withApiHandler(async (req) => {
+  const session = await getServerSession(authOptions);
+  if (!session?.user.id) {
+    return apiUnauthorized();
+  }
+
+  const result = CreateUploadSessionSchema.safeParse(await req.json());
+  if (!result.success) {
+    return apiValidationError(result.error);
+  }
+
+  try {
+    const uploadSession = await createUploadSession(session.user.id, result.data);
+    return apiSuccess(serializeUploadSession(uploadSession), 201);
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return apiError(error.message, error.status);
+    }
+    throw error;
+  }
+}));
@@ -1,18 +1,27 @@
 import { createUploadthing } from "uploadthing/next";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { storage } from "@/lib/config";
+import { recordUpload } from "@/lib/uploadProcessing";
  
 const f = createUploadthing();
  
 export const ourFileRouter = {
-  imageUploader: f({ image: { maxFileSize: "4MB", maxFileCount: 1 } })
+  imageUploader: f({ image: { maxFileSize: "128MB", maxFileCount: 1 } })
     .middleware(async () => {
+      // Direct browser uploads bypass /api/upload, so only allow them when
+      // UploadThing is the configured storage backend
+      if (storage.driver !== 'uploadthing') {
+        throw new Error("Direct uploads require the UploadThing storage driver");
+      }
+
       const session = await getServerSession(authOptions);
       if (!session) throw new Error("Unauthorized");
  
       return { userId: session.user.id };
     })
     .onUploadComplete(async ({ metadata, file }) => {
-      return { uploadedBy: metadata.userId, url: file.url };
+      await recordUpload(metadata.userId, { url: file.ufsUrl });
+      return { uploadedBy: metadata.userId, url: file.ufsUrl };
     }),
 };
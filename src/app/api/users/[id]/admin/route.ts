@@ -2,9 +2,11 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
 import logger from "@/lib/logger";
 import { UserRole } from "@prisma/client";
-import { apiSuccess, apiError, apiValidationError, apiUnauthorized } from "@/lib/apiResponse";
+import { apiSuccess, apiError, apiValidationError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+import { recordAuditEvent } from "@/lib/audit";
 
 const updateUserRoleSchema = z.object({
   role: z.enum([UserRole.USER, UserRole.ADMIN]),
@@ -27,15 +29,10 @@ export async function PUT(
       return apiUnauthorized();
     }
     
-    // Get the current user to check if they're an admin
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true },
-    });
-    
     // Only admins can change user roles
-    if (currentUser?.role !== UserRole.ADMIN) {
-      return apiError("Forbidden: Admin access required", 403);
+    const forbidden = await adminAccessError(session.user.id);
+    if (forbidden) {
+      return forbidden;
     }
     
     // Parse request body
@@ -50,6 +47,14 @@ export async function PUT(
       throw err;
     }
     
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { role: true },
+    });
+    if (!targetUser) {
+      return apiNotFound("User not found");
+    }
+
     // Update the target user's role
     const updatedUser = await prisma.user.update({
       where: { id: targetUserId },
@@ -67,6 +72,13 @@ export async function PUT(
       : `User ${updatedUser.email} demoted to regular user`;
     
     logger.log(`${message} by admin ${session.user.id}`);
+    await recordAuditEvent({
+      action: "user.role_changed",
+      actor: session.user,
+      target: { type: "user", id: targetUserId },
+      req,
+      details: { email: updatedUser.email, from: targetUser.role, to: body.role },
+    });
     
     return apiSuccess({
       message,
@@ -2,9 +2,11 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { hasAdminAccess } from "@/lib/adminAccess";
 import logger from "@/lib/logger";
-import { UserRole } from "@prisma/client";
 import { apiSuccess, apiError, apiValidationError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+import { sendVerificationEmail } from "@/lib/emailVerification";
+import { recordAuditEvent } from "@/lib/audit";
 
 const updateUserSchema = z.object({
   name: z.string().min(1).optional(),
@@ -25,12 +27,8 @@ export async function GET(
     if (!session?.user.id) {
       return apiUnauthorized();
     }
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true },
-    });
     const isOwnProfile = session.user.id === id;
-    const isAdmin = currentUser?.role === UserRole.ADMIN;
+    const isAdmin = await hasAdminAccess(session.user.id);
     if (!isOwnProfile && !isAdmin) {
       return apiError("Forbidden", 403);
     }
@@ -74,12 +72,8 @@ export async function PATCH(
     if (!session?.user.id) {
       return apiUnauthorized();
     }
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true },
-    });
     const isOwnProfile = session.user.id === id;
-    const isAdmin = currentUser?.role === UserRole.ADMIN;
+    const isAdmin = await hasAdminAccess(session.user.id);
     if (!isOwnProfile && !isAdmin) {
       return apiError("Forbidden", 403);
     }
@@ -93,11 +87,17 @@ export async function PATCH(
       }
       throw err;
     }
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+      select: { email: true },
+    });
+    // A new address has to be verified again
+    const emailChanged = !!body.email && body.email !== existingUser?.email;
     const updatedUser = await prisma.user.update({
       where: { id },
       data: {
         ...(body.name && { name: body.name }),
-        ...(body.email && { email: body.email }),
+        ...(emailChanged && { email: body.email, emailVerified: null }),
         ...(body.image !== undefined && { image: body.image }),
       },
       select: {
@@ -110,6 +110,13 @@ export async function PATCH(
       }
     });
     logger.log(`User updated: ${updatedUser.id}`);
+    if (emailChanged && updatedUser.email) {
+      try {
+        await sendVerificationEmail({ id: updatedUser.id, email: updatedUser.email });
+      } catch (err) {
+        logger.error("Failed to send verification email:", err);
+      }
+    }
     return apiSuccess(updatedUser);
   } catch (err) {
     logger.error("Error updating user:", err);
@@ -133,12 +140,8 @@ export async function DELETE(
     if (!session?.user.id) {
       return apiUnauthorized();
     }
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true },
-    });
     const isOwnAccount = session.user.id === id;
-    const isAdmin = currentUser?.role === UserRole.ADMIN;
+    const isAdmin = await hasAdminAccess(session.user.id);
     if (!isOwnAccount && !isAdmin) {
       return apiError("Forbidden", 403);
     }
@@ -152,6 +155,14 @@ export async function DELETE(
       where: { id },
     });
     logger.log(`User deleted: ${id}${isOwnAccount ? " (self-deletion)" : ""}`);
+    await recordAuditEvent({
+      action: "user.deleted",
+      // The account is gone, so self-deletions keep only the address
+      actor: { id: isOwnAccount ? null : session.user.id, email: session.user.email },
+      target: { type: "user", id },
+      req,
+      details: { email: user.email, self: isOwnAccount },
+    });
     return apiSuccess({ message: "User successfully deleted" });
   } catch (err) {
     logger.error("Error deleting user:", err);
@@ -0,0 +1,45 @@
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
+import logger from "@/lib/logger";
+import { apiSuccess, apiError, apiUnauthorized, apiNotFound } from "@/lib/apiResponse";
+import { resetTwoFactor } from "@/lib/twoFactor";
+
+/**
+ * DELETE /api/users/[id]/two-factor - Turn off a user's two-factor authentication (admin only)
+ * For users who lost both their authenticator and their recovery codes.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: targetUserId } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user.id) {
+      return apiUnauthorized();
+    }
+
+    const forbidden = await adminAccessError(session.user.id);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true },
+    });
+    if (!targetUser) {
+      return apiNotFound("User not found");
+    }
+
+    await resetTwoFactor(targetUserId);
+    logger.log(`Two-factor authentication of user ${targetUserId} reset by admin ${session.user.id}`);
+    return apiSuccess({ id: targetUserId });
+  } catch (err) {
+    logger.error("Error resetting two-factor authentication:", err);
+    return apiError("Internal Server Error");
+  }
+}
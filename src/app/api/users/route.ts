@@ -2,8 +2,8 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { adminAccessError } from "@/lib/adminAccess";
 import logger from "@/lib/logger";
-import { UserRole } from "@prisma/client";
 import { apiSuccess, apiError, apiValidationError, apiUnauthorized } from "@/lib/apiResponse";
 
 const getUsersQuerySchema = z.object({
@@ -21,12 +21,9 @@ export async function GET(req: Request) {
     if (!session?.user.id) {
       return apiUnauthorized();
     }
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true },
-    });
-    if (currentUser?.role !== UserRole.ADMIN) {
-      return apiError("Forbidden: Admin access required", 403);
+    const forbidden = await adminAccessError(session.user.id);
+    if (forbidden) {
+      return forbidden;
     }
     const { searchParams } = new URL(req.url);
     let queryParams;
@@ -59,6 +56,7 @@ export async function GET(req: Request) {
           image: true,
           emailVerified: true,
           role: true,
+          twoFactorEnabledAt: true,
           _count: {
             select: {
               images: true,
@@ -17,6 +17,15 @@ export default function AuthErrorPage() {
         return 'You do not have permission to access this page.';
       case 'Verification':
         return 'The verification token has expired or has already been used.';
+      case 'OAuthAccountNotLinked':
+        return 'An account with this email already exists. Sign in with your password, then connect this provider from your profile.';
+      case 'TooManySignInAttempts':
+        return 'Too many sign-in attempts. Please wait a minute and try again.';
+      case 'AccountLocked':
+        return 'Too many failed sign-ins. This account is locked for a while; try again later.';
+      case 'OAuthSignin':
+      case 'OAuthCallback':
+        return 'Signing in with this provider failed. Please try again.';
       default:
         return 'An error occurred during authentication. Please try again.';
     }
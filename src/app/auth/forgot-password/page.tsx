@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { fetchApi } from '@/lib/apiUtils';
 
 const forgotPasswordSchema = z.object({
   email: z.string().email({ message: 'Please enter a valid email address' }),
@@ -28,17 +29,18 @@ export default function ForgotPasswordPage() {
     },
   });
   
-  const onSubmit = async () => {
+  const onSubmit = async (data: ForgotPasswordFormValues) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      // This would normally call an API to handle password reset
-      // For now, we'll just simulate a successful submission
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await fetchApi('/api/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, z.object({ message: z.string() }));
       setSubmitted(true);
-    } catch {
-      setError('An error occurred. Please try again.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -1,16 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { signIn } from 'next-auth/react';
+import { getProviders, signIn } from 'next-auth/react';
 import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { TWO_FACTOR_INVALID, TWO_FACTOR_REQUIRED } from '@/lib/utils/twoFactor';
+import { ACCOUNT_LOCKED, SIGN_IN_RATE_LIMITED } from '@/lib/utils/signIn';
 
 const loginSchema = z.object({
   email: z.string().email({ message: 'Please enter a valid email address' }),
   password: z.string().min(8, { message: 'Password must be at least 8 characters' }),
+  // Only asked for once the password turns out to belong to an account with two-factor authentication
+  code: z.string().trim().optional(),
 });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
@@ -18,7 +22,34 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 export default function LoginPage() {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [needsCode, setNeedsCode] = useState(false);
+  const [oauthProviders, setOAuthProviders] = useState<{ id: string; name: string }[]>([]);
   const router = useRouter();
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('reset') === 'true') {
+      setNotice('Your password has been reset. Sign in with your new password.');
+    } else if (params.get('registered') === 'true') {
+      setNotice('Your account is ready. We sent you a link to verify your email address.');
+    }
+  }, []);
+
+  // Buttons for the OAuth providers enabled on the server
+  useEffect(() => {
+    getProviders()
+      .then(providers => setOAuthProviders(
+        Object.values(providers ?? {}).filter(provider => provider.type === 'oauth')
+      ))
+      .catch(() => setOAuthProviders([]));
+  }, []);
+
+  const returnPath = () => {
+    // Return to the page that sent the user here (only paths on this site)
+    const callbackUrl = new URLSearchParams(window.location.search).get('callbackUrl');
+    return callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//') ? callbackUrl : '/';
+  };
   
   const {
     register,
@@ -29,6 +60,7 @@ export default function LoginPage() {
     defaultValues: {
       email: '',
       password: '',
+      code: '',
     },
   });
   
@@ -41,12 +73,21 @@ export default function LoginPage() {
         redirect: false,
         email: data.email,
         password: data.password,
+        ...(needsCode && { code: data.code }),
       });
       
-      if (result?.error) {
+      if (result?.error === TWO_FACTOR_REQUIRED) {
+        setNeedsCode(true);
+      } else if (result?.error === TWO_FACTOR_INVALID) {
+        setError('That code is not valid or was already used');
+      } else if (result?.error === ACCOUNT_LOCKED) {
+        setError('Too many failed sign-ins. This account is locked for a while; try again later.');
+      } else if (result?.error === SIGN_IN_RATE_LIMITED) {
+        setError('Too many sign-in attempts. Please wait a minute and try again.');
+      } else if (result?.error) {
         setError('Invalid email or password');
       } else {
-        router.push('/'); // Redirect to home page after successful login
+        router.push(returnPath());
         router.refresh(); // Refresh to update auth state
       }
     } catch {
@@ -105,8 +146,40 @@ export default function LoginPage() {
                 <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
               )}
             </div>
+
+            {needsCode && (
+              <div className="mb-4">
+                <label htmlFor="code" className="block text-sm font-medium mb-1">
+                  Authentication code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  {...register('code')}
+                  data-testid="login-code"
+                  className="relative block w-full rounded-md border-0 p-2 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+                  placeholder="123456"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
+            )}
           </div>
           
+          {notice && !error && (
+            <div className="rounded-md bg-green-50 p-4" role="status" data-testid="login-notice">
+              <div className="flex">
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-green-800">{notice}</h3>
+                </div>
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-md bg-red-50 p-4" role="alert" data-testid="login-error">
               <div className="flex">
@@ -124,7 +197,7 @@ export default function LoginPage() {
               data-testid="login-submit"
               className="group relative flex w-full justify-center rounded-md bg-indigo-600 py-2 px-3 text-sm font-semibold text-white hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {isLoading ? 'Signing in...' : needsCode ? 'Verify' : 'Sign in'}
             </button>
           </div>
           
@@ -141,6 +214,30 @@ export default function LoginPage() {
             </div>
           </div>
         </form>
+
+        {oauthProviders.length > 0 && (
+          <div className="space-y-3" data-testid="oauth-providers">
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-300" />
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="bg-white dark:bg-gray-900 px-2 text-gray-500">Or continue with</span>
+              </div>
+            </div>
+            {oauthProviders.map(provider => (
+              <button
+                key={provider.id}
+                type="button"
+                onClick={() => signIn(provider.id, { callbackUrl: returnPath() })}
+                data-testid={`oauth-${provider.id}`}
+                className="flex w-full justify-center rounded-md bg-white py-2 px-3 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                Sign in with {provider.name}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
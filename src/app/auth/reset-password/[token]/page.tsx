@@ -0,0 +1,140 @@
+'use client';
+
+import { use, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { fetchApi } from '@/lib/apiUtils';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, { message: 'Password must be at least 8 characters' }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+  
+  const onSubmit = async (data: ResetPasswordFormValues) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      await fetchApi(`/api/auth/reset-password/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        body: JSON.stringify({ password: data.password }),
+      }, z.object({ message: z.string() }));
+      router.push('/auth/login?reset=true');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div>
+          <h1 className="text-center text-3xl font-bold tracking-tight">
+            Reset Password
+          </h1>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Choose a new password for your account.
+          </p>
+        </div>
+        
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div className="mb-4">
+            <label htmlFor="password" className="block text-sm font-medium mb-1">
+              New password
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              {...register('password')}
+              data-testid="reset-password"
+              className="relative block w-full rounded-md border-0 p-2 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+              placeholder="New password"
+            />
+            {errors.password && (
+              <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="confirmPassword" className="block text-sm font-medium mb-1">
+              Confirm new password
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register('confirmPassword')}
+              data-testid="reset-confirm-password"
+              className="relative block w-full rounded-md border-0 p-2 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+              placeholder="Confirm new password"
+            />
+            {errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+          
+          {error && (
+            <div className="rounded-md bg-red-50 p-4" role="alert" data-testid="reset-error">
+              <div className="flex">
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800">{error}</h3>
+                  <p className="mt-1 text-sm text-red-700">
+                    <Link href="/auth/forgot-password" className="font-medium underline">
+                      Request a new link
+                    </Link>
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+          
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              data-testid="reset-submit"
+              className="group relative flex w-full justify-center rounded-md bg-indigo-600 py-2 px-3 text-sm font-semibold text-white hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : 'Set new password'}
+            </button>
+          </div>
+          
+          <div className="text-center text-sm">
+            <Link href="/auth/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Back to login
+            </Link>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
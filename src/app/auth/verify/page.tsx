@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { EmailVerificationError, verifyEmail } from "@/lib/emailVerification";
+import logger from "@/lib/logger";
+
+// Verification links are personal
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  let verifiedEmail: string | null = null;
+  let error = 'This verification link is invalid';
+  if (token) {
+    try {
+      verifiedEmail = await verifyEmail(token);
+    } catch (err) {
+      if (err instanceof EmailVerificationError) {
+        error = err.message;
+      } else {
+        logger.error("Error verifying email:", err);
+        error = 'Something went wrong while verifying your email address';
+      }
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8" data-testid="verify-email">
+        {verifiedEmail ? (
+          <div>
+            <h1 className="text-center text-3xl font-bold tracking-tight">
+              Email verified
+            </h1>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Thanks! {verifiedEmail} is now verified.
+            </p>
+          </div>
+        ) : (
+          <div>
+            <h1 className="text-center text-3xl font-bold tracking-tight">
+              Verification failed
+            </h1>
+            <p className="mt-2 text-center text-sm text-red-600" data-testid="verify-email-error">
+              {error}.
+            </p>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              You can ask for a new link on your profile page.
+            </p>
+          </div>
+        )}
+        <div className="text-center mt-4">
+          <Link href={verifiedEmail ? "/" : "/profile"} className="font-medium text-indigo-600 hover:text-indigo-500">
+            {verifiedEmail ? "Continue to Pic Gallery" : "Go to your profile"}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,14 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { z } from 'zod';
 
 import { Breadcrumbs } from '@/components/Breadcrumbs';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { SelectImagesDialog } from '@/components/SelectImagesDialog';
+import { ShareGalleryDialog } from '@/components/ShareGalleryDialog';
+import { GalleryMembersDialog } from '@/components/GalleryMembersDialog';
 import { ErrorMessage, LoadingSpinner, SuccessMessage } from '@/components/StatusMessages';
 import { useApi } from '@/lib/hooks/useApi';
 import { useEnhancedGalleryImages } from '@/lib/hooks/useEnhancedGallery';
@@ -15,6 +18,7 @@ import { use } from 'react';
 import logger from '@/lib/logger';
 // Import schemas for validation
 import { FullGallerySchema, FullGallery } from '@/lib/schemas'; 
+import { canInGallery, canRemoveGalleryImage } from '@/lib/utils/galleryRoles';
 
 // Import gallery components from feature directory
 import { ImprovedGalleryDetailsForm } from '@/components/GalleryDetails';
@@ -24,6 +28,11 @@ import { GallerySortable, ViewMode } from '@/components/GallerySortable';
 // Import our custom form hook
 import { useGalleryEditForm } from '@/lib/hooks/useGalleryEditForm';
 
+// Only pinned images are edited here; rule matches of smart galleries are resolved by the server
+function pinnedImages(gallery: FullGallery): FullGallery['images'] {
+  return gallery.images.filter(img => img.isPinned !== false);
+}
+
 export default function EditGalleryPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params);
   const galleryId = resolvedParams.id;
@@ -60,7 +69,10 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
   const [originalGalleryData, setOriginalGalleryData] = useState<FullGallery | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('grid'); 
   const [showSelectImagesDialog, setShowSelectImagesDialog] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showMembersDialog, setShowMembersDialog] = useState(false);
   const router = useRouter();
+  const { data: session } = useSession();
 
   // Debug logging for dialog state changes
   useEffect(() => {
@@ -70,6 +82,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
   const {
     reset: resetForm,
     watch,
+    setValue,
     isDirty,
     form
   } = useGalleryEditForm();
@@ -112,6 +125,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
       fontFamily: currentValues.fontFamily,
       displayMode: currentValues.displayMode,
       layoutType: currentValues.layoutType,
+      smartRules: currentValues.smartRules ?? null,
     };
   };
   
@@ -129,7 +143,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
           const data = result.data;
           
           // Set images and cover image
-          setImages(data.images); 
+          setImages(pinnedImages(data)); 
           setCoverImageId(data.coverImageId || '');
           
           // Reset the form with the loaded data
@@ -144,6 +158,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
             fontFamily: data.fontFamily || null,
             displayMode: data.displayMode || null,
             layoutType: data.layoutType || null,
+            smartRules: data.smartRules ?? null,
           });
           
           // Store original data for comparison and restoration
@@ -172,7 +187,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
       
       if (result.success && result.data) {
         setOriginalGalleryData(result.data);
-        setImages(result.data.images);
+        setImages(pinnedImages(result.data));
         setSuccessMessage("Gallery updated successfully");
         
         // Redirect to gallery view after successful save
@@ -213,11 +228,12 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
         fontFamily: originalGalleryData.fontFamily || null,
         displayMode: originalGalleryData.displayMode || null,
         layoutType: originalGalleryData.layoutType || null,
+        smartRules: originalGalleryData.smartRules ?? null,
       });
       
       // Reset other state to original values
       setCoverImageId(originalGalleryData.coverImageId || '');
-      setImages(originalGalleryData.images);
+      setImages(pinnedImages(originalGalleryData));
       
       setShowConfirmDialog(false);
       setSuccessMessage("Changes discarded");
@@ -278,6 +294,19 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
       return <LoadingSpinner size="large" text="Preparing gallery editor..." />;
   }
 
+  // What the current user may change in a collaborative gallery; the server checks the same rules
+  const viewerRole = galleryData.viewerRole ?? null;
+  const isOwner = viewerRole === 'OWNER';
+  const canEditDetails = canInGallery(viewerRole, 'editDetails');
+
+  if (!canInGallery(viewerRole, 'addImages')) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <ErrorMessage error="You don't have permission to edit this gallery." className="mb-4" />
+      </div>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <div className="container mx-auto px-4 py-8">
@@ -289,7 +318,29 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
           ]}
         />
         
-        <h1 className="text-2xl font-bold mb-6">Edit Gallery: {galleryData?.title}</h1>
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold">Edit Gallery: {galleryData?.title}</h1>
+          {isOwner && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setShowMembersDialog(true)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+                data-testid="gallery-members-button"
+              >
+                Members
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowShareDialog(true)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+                data-testid="share-gallery-button"
+              >
+                Share
+              </button>
+            </div>
+          )}
+        </div>
         
         {submitErrorEncountered && (
           <ErrorMessage 
@@ -312,15 +363,22 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
         
         <form onSubmit={onSubmit} className="space-y-6">
           {/* Use the improved user-friendly form component */}
-          <ImprovedGalleryDetailsForm 
-            register={form.register}
-            errors={form.formState.errors}
-            isSubmitting={isSubmitting}
-          />
+          {canEditDetails && (
+            <ImprovedGalleryDetailsForm 
+              register={form.register}
+              errors={form.formState.errors}
+              isSubmitting={isSubmitting}
+              smartRules={watchedValues.smartRules ?? null}
+              onSmartRulesChange={isOwner ? (rules) => setValue('smartRules', rules, { shouldDirty: true }) : undefined}
+              showVisibility={isOwner}
+            />
+          )}
           
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-semibold">Images ({images.length})</h2>
+              <h2 className="text-xl font-semibold">
+                {watchedValues.smartRules ? 'Pinned Images' : 'Images'} ({images.length})
+              </h2>
               <button
                 type="button"
                 onClick={() => {
@@ -336,7 +394,9 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
             
             <div className="flex justify-between items-center mb-4">
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                Drag and drop to reorder images. You can also set a cover image and edit descriptions.
+                {canInGallery(viewerRole, 'editImages')
+                  ? 'Drag and drop to reorder images. You can also set a cover image and edit descriptions.'
+                  : 'Add your own images. You can remove the ones you added.'}
               </p>
               <GalleryViewSelector viewMode={viewMode} setViewMode={setViewMode} />
             </div>
@@ -349,9 +409,13 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
               onDescriptionChange={handleImageDescriptionChange} 
               onSetCoverImage={setCoverImageId}
               onRemoveImage={handleRemoveImage} 
+              canArrange={canInGallery(viewerRole, 'editImages')}
+              // Images added in this session haven't been saved with their contributor yet
+              canRemoveImage={(img) => img.id.startsWith('temp-') || canRemoveGalleryImage(viewerRole, session?.user?.id, img)}
             />
           </div>
 
+          {isOwner && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold mb-4">Danger Zone</h2>
             <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
@@ -369,6 +433,7 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
               {isDeleting ? "Deleting..." : "Delete Gallery"}
             </button>
           </div>
+          )}
           
           <div className="flex justify-between mt-8">
             <button
@@ -419,6 +484,18 @@ export default function EditGalleryPage({ params }: { params: Promise<{ id: stri
           confirmButtonColor="red"
         />
         
+        <ShareGalleryDialog
+          isOpen={showShareDialog}
+          onClose={() => setShowShareDialog(false)}
+          galleryId={galleryId}
+        />
+        
+        <GalleryMembersDialog
+          isOpen={showMembersDialog}
+          onClose={() => setShowMembersDialog(false)}
+          galleryId={galleryId}
+        />
+        
         <SelectImagesDialog
           isOpen={showSelectImagesDialog}
           onClose={() => {
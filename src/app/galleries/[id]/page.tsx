@@ -4,6 +4,12 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { ThemedGalleryView } from "@/components/ThemedGalleryView";
 import { FullGallery } from "@/lib/types"; // Assuming FullGallery is defined here or adjust path
+import { GALLERY_ENTRY_INCLUDE, resolveGalleryImages } from "@/lib/smartGalleries";
+import { getGalleryRole } from "@/lib/galleryMembers";
+import { canInGallery } from "@/lib/utils/galleryRoles";
+import { isGalleryVisible, withoutHiddenImages } from "@/lib/moderation";
+import { canExportGallery } from "@/lib/galleryExport";
+import { UserRole } from "@/lib/types";
 
 export default async function GalleryPage({
   params,
@@ -23,13 +29,7 @@ export default async function GalleryPage({
         orderBy: {
           order: 'asc' // Ensure images are sorted by order field
         },
-        include: {
-          image: {
-            include: {
-              tags: true,
-            },
-          },
-        },
+        include: GALLERY_ENTRY_INCLUDE,
       },
       user: {
         select: {
@@ -41,15 +41,21 @@ export default async function GalleryPage({
     },
   });
 
-  if (!gallery) {
+  if (!gallery || gallery.deletedAt) {
     notFound();
   }
 
-  if (!gallery.isPublic && gallery.userId !== session?.user?.id) {
+  const viewerRole = await getGalleryRole(gallery, session?.user?.id);
+  // Admins can open hidden and private galleries from the moderation queue
+  const isAdmin = session?.user?.role === UserRole.ADMIN;
+  if (!isGalleryVisible(gallery, viewerRole, isAdmin)) {
     notFound();
   }
 
-  const isOwner = gallery.userId === session?.user?.id;
+  const isOwner = viewerRole === 'OWNER';
+
+  // Smart galleries render their rule matches just like hand-picked images
+  const resolvedGallery = withoutHiddenImages(await resolveGalleryImages(gallery), session?.user?.id, isAdmin);
 
   // Create a user object that matches exactly what FullGallery schema expects
   const augmentedUser = {
@@ -60,7 +66,7 @@ export default async function GalleryPage({
   };
 
   const fullGallery: FullGallery = {
-    ...gallery,
+    ...resolvedGallery,
     user: augmentedUser,
     // Ensure all theming fields from the fetched gallery are mapped
     // These should already be on `gallery` if your GET request includes them
@@ -75,5 +81,13 @@ export default async function GalleryPage({
     layoutType: gallery.layoutType || null,
   };
 
-  return <ThemedGalleryView gallery={fullGallery} isOwner={isOwner} />;
+  return (
+    <ThemedGalleryView
+      gallery={fullGallery}
+      isOwner={isOwner}
+      canEdit={canInGallery(viewerRole, 'addImages')}
+      canReport={!!session?.user && !viewerRole}
+      canDownload={canExportGallery(viewerRole, isAdmin)}
+    />
+  );
 }
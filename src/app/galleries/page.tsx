@@ -2,49 +2,60 @@ import { getServerSession } from "next-auth";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import { GalleryGrid } from "@/components/GalleryGrid";
+import { GallerySortSelect } from "@/components/GallerySortSelect";
 import { authOptions } from "@/lib/auth";
-import { prisma } from "@/lib/db";
+import { listGallerySummaries } from "@/lib/galleryListing";
+import { GalleryListQuerySchema, GallerySortSchema } from "@/lib/schemas";
 
-export default async function GalleriesPage() {
+export default async function GalleriesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ sort?: string }>;
+}) {
   const session = await getServerSession(authOptions);
   
   if (!session?.user) {
     redirect("/api/auth/signin");
   }
 
-  const galleries = await prisma.gallery.findMany({
-    where: {
-      userId: session.user.id,
-    },
-    include: {
-      images: {
-        include: {
-          image: {
-            include: {
-              tags: true,
-            },
-          },
-        },
-      },
-    },
-    orderBy: {
-      createdAt: "desc",
-    },
-  });
+  const parsedSort = GallerySortSchema.safeParse((await searchParams).sort);
+  const sort = parsedSort.success ? parsedSort.data : "newest";
+
+  // Only the first page of each list; the grids load the rest as they're scrolled
+  const galleries = await listGallerySummaries(
+    GalleryListQuerySchema.parse({ scope: "owned", sort }),
+    session.user.id
+  );
+  // Galleries other people invited this user to
+  const sharedGalleries = await listGallerySummaries(
+    GalleryListQuerySchema.parse({ scope: "shared", sort }),
+    session.user.id
+  );
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">My Galleries</h1>
-        <Link
-          href="/galleries/create"
-          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
-          data-testid="create-gallery-link"
-        >
-          Create New Gallery
-        </Link>
+        <div className="flex items-center gap-3">
+          <GallerySortSelect value={sort} />
+          <Link
+            href="/galleries/create"
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            data-testid="create-gallery-link"
+          >
+            Create New Gallery
+          </Link>
+        </div>
       </div>
-      <GalleryGrid galleries={galleries} isOwner={true} />
+      {galleries && (
+        <GalleryGrid initialPage={galleries} scope="owned" sort={sort} isOwner={true} />
+      )}
+      {sharedGalleries && sharedGalleries.data.length > 0 && (
+        <section className="mt-12" data-testid="shared-galleries">
+          <h2 className="text-2xl font-bold mb-6">Shared with me</h2>
+          <GalleryGrid initialPage={sharedGalleries} scope="shared" sort={sort} isOwner={false} />
+        </section>
+      )}
     </div>
   );
 }
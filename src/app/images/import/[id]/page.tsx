@@ -0,0 +1,260 @@
+'use client';
+
+import { use, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { IMPORT_STATUS_LABELS } from '@/components/ImportImages';
+import { ImportService } from '@/lib/services/importService';
+import type { ImportItem, ImportItemStatus, ImportJob } from '@/lib/schemas';
+
+// How often the progress of a running import is refreshed (in milliseconds)
+const POLL_INTERVAL = 2000;
+
+const ITEM_STATUS_LABELS: Record<ImportItemStatus, string> = {
+  PENDING: 'Pending',
+  IMPORTED: 'Imported',
+  SKIPPED: 'Skipped',
+  FAILED: 'Failed',
+};
+
+const ITEM_STATUS_CLASSES: Record<ImportItemStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  IMPORTED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  SKIPPED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+function isActive(job: ImportJob | null): boolean {
+  return job?.status === 'PENDING' || job?.status === 'RUNNING';
+}
+
+export default function ImportProgressPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ImportItemStatus | undefined>();
+  const [page, setPage] = useState(1);
+  const [lastPage, setLastPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState('');
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false);
+
+  // Poll the job while it runs
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const load = () => {
+      ImportService.getJob(id, controller.signal)
+        .then(current => {
+          setJob(current);
+          if (isActive(current)) {
+            timer = setTimeout(load, POLL_INTERVAL);
+          }
+        })
+        .catch(err => {
+          if (!controller.signal.aborted) {
+            setError(err instanceof Error ? err.message : 'Failed to load import');
+          }
+        });
+    };
+    load();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [id]);
+
+  // Results are reloaded as files get processed
+  const processedItems = job?.processedItems;
+  useEffect(() => {
+    if (processedItems === undefined) {
+      return;
+    }
+    const controller = new AbortController();
+    ImportService.getItems(id, { status: statusFilter, page }, controller.signal)
+      .then(result => {
+        setItems(result.items);
+        setTotal(result.total);
+        setLastPage(result.lastPage);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load results');
+        }
+      });
+    return () => controller.abort();
+  }, [id, statusFilter, page, processedItems]);
+
+  const cancel = async () => {
+    setError('');
+    try {
+      setJob(await ImportService.cancel(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel import');
+    } finally {
+      setIsConfirmingCancel(false);
+    }
+  };
+
+  const filterBy = (status: ImportItemStatus | undefined) => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  const percent = job && job.totalItems > 0 ? Math.round((job.processedItems / job.totalItems) * 100) : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "My Images", href: "/images" },
+          { label: "Import", href: "/images/import" },
+          { label: "Progress", href: `/images/import/${id}` },
+        ]}
+      />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md mb-6">
+            {error}
+          </div>
+        )}
+
+        {!job ? (
+          !error && (
+            <div className="text-center py-8">
+              <div className="flex justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+              <p className="mt-2">Loading import...</p>
+            </div>
+          )
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+              <h1 className="text-3xl font-bold">{job.folder ? `Import of ${job.folder}` : 'ZIP import'}</h1>
+              {(isActive(job) || job.status === 'AWAITING_UPLOAD' || job.status === 'RECEIVING_UPLOAD') && (
+                <button
+                  onClick={() => setIsConfirmingCancel(true)}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md"
+                  data-testid="cancel-import"
+                >
+                  Cancel import
+                </button>
+              )}
+            </div>
+            <p className="text-gray-500 dark:text-gray-400 mb-4" data-testid="import-status">
+              {IMPORT_STATUS_LABELS[job.status]}
+              {job.manifestName && <> · Details from {job.manifestName}</>}
+              {job.finishedAt && <> · Finished {job.finishedAt.toLocaleString()}</>}
+            </p>
+            {job.error && (
+              <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md mb-4">
+                {job.error}
+              </div>
+            )}
+
+            <div
+              className="w-full h-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2 mb-6">
+              {job.processedItems} of {job.totalItems} files · {job.importedCount} imported, {job.skippedCount} skipped, {job.failedCount} failed
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4" role="tablist">
+              {([undefined, 'IMPORTED', 'SKIPPED', 'FAILED', 'PENDING'] as const).map(option => (
+                <button
+                  key={option ?? 'all'}
+                  role="tab"
+                  aria-selected={statusFilter === option}
+                  onClick={() => filterBy(option)}
+                  className={`px-3 py-1 rounded-md ${statusFilter === option ? 'bg-blue-600 text-white' : 'border border-gray-300 dark:border-gray-600'}`}
+                >
+                  {option ? ITEM_STATUS_LABELS[option] : 'All'}
+                </button>
+              ))}
+            </div>
+
+            {items.length === 0 ? (
+              <p className="text-center py-8">No files to show</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="py-2 pr-4">File</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2 pr-4">Gallery</th>
+                      <th className="py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {items.map(item => (
+                      <tr key={item.id} data-testid="import-item">
+                        <td className="py-2 pr-4 break-all">{item.path}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${ITEM_STATUS_CLASSES[item.status]}`}>
+                            {ITEM_STATUS_LABELS[item.status]}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4">
+                          {item.galleryId ? (
+                            <Link href={`/galleries/${item.galleryId}`} className="text-blue-600 hover:underline">{item.galleryTitle}</Link>
+                          ) : item.galleryTitle ?? '—'}
+                        </td>
+                        <td className="py-2 text-gray-500 dark:text-gray-400">{item.message ?? item.title}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {lastPage > 1 && (
+              <div className="mt-6 flex justify-between items-center">
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Page {page} of {lastPage} ({total} files)
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="px-3 py-1 rounded-md border disabled:opacity-50"
+                  >
+                    &laquo; Previous
+                  </button>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= lastPage}
+                    className="px-3 py-1 rounded-md border disabled:opacity-50"
+                  >
+                    Next &raquo;
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={isConfirmingCancel}
+        onClose={() => setIsConfirmingCancel(false)}
+        onConfirm={cancel}
+        title="Cancel import"
+        message="The files not imported yet will be left out. Images already imported stay in your library."
+        confirmButtonText="Cancel import"
+        confirmButtonColor="red"
+        cancelButtonText="Keep importing"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import { UserRole } from "@prisma/client";
+import { Breadcrumbs } from "@/components/Breadcrumbs";
+import { ImportImages } from "@/components/ImportImages";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { imports as importsConfig } from "@/lib/config";
+
+export default async function ImportImagesPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect("/api/auth/signin");
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { role: true } });
+  // Admins can import from the server's import folder, when one is configured
+  const canImportFolders = user?.role === UserRole.ADMIN && !!importsConfig.folderRoot;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "My Images", href: "/images" },
+          { label: "Import", href: "/images/import" },
+        ]}
+      />
+      <ImportImages canImportFolders={canImportFolders} />
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { ImageGrid } from "@/components/ImageGrid";
 import { z } from 'zod';
-import { PaginatedImagesResponseSchema } from '@/lib/schemas';
+import { PaginatedImagesResponseSchema, type SearchFacets, type FacetCount } from '@/lib/schemas';
 import { Button } from '@/components/ui/Button';
 import { LoadingSpinner, ErrorMessage, EmptyState } from '@/components/StatusMessages';
 import { ImageService } from '@/lib/services/imageService';
@@ -16,6 +16,81 @@ type ImageType = z.infer<typeof PaginatedImagesResponseSchema>['data']['data'][n
 
 const DEBOUNCE_DELAY = 500; // 500ms debounce delay
 
+type SortOption = '' | 'relevance' | 'createdAt' | 'title' | 'updatedAt';
+
+// Filters beyond the free-text search, all kept in the URL
+interface SearchFilters {
+  tag: string;
+  tags: string[];
+  matchAnyTag: boolean;
+  excludeTags: string[];
+  camera: string;
+  from: string;
+  to: string;
+  sortBy: SortOption;
+}
+
+function readFilters(params: URLSearchParams): SearchFilters {
+  const list = (name: string) => (params.get(name) || '').split(',').filter(Boolean);
+  return {
+    tag: params.get('tag') || '',
+    tags: params.has('anyTags') ? list('anyTags') : list('tags'),
+    matchAnyTag: params.has('anyTags'),
+    excludeTags: list('excludeTags'),
+    camera: params.get('camera') || '',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    sortBy: (params.get('sortBy') || '') as SortOption,
+  };
+}
+
+function writeFilters(params: URLSearchParams, filters: SearchFilters) {
+  const set = (name: string, value: string) => value ? params.set(name, value) : params.delete(name);
+  set('tag', filters.tag);
+  set(filters.matchAnyTag ? 'anyTags' : 'tags', filters.tags.join(','));
+  params.delete(filters.matchAnyTag ? 'tags' : 'anyTags');
+  set('excludeTags', filters.excludeTags.join(','));
+  set('camera', filters.camera);
+  set('from', filters.from);
+  set('to', filters.to);
+  set('sortBy', filters.sortBy);
+}
+
+/**
+ * A row of clickable facet values with their match counts
+ */
+function FacetGroup({ label, values, isActive, onSelect, getClassName, testId }: {
+  label: string;
+  values: FacetCount[];
+  isActive: (value: string) => boolean;
+  onSelect: (value: string) => void;
+  getClassName?: (value: string) => string | undefined;
+  testId: string;
+}) {
+  if (values.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid={testId}>
+      <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-16">{label}</span>
+      {values.map(({ value, count }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onSelect(value)}
+          className={`px-3 py-1 rounded-full text-xs transition-colors ${
+            getClassName?.(value) ?? (isActive(value)
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600')
+          }`}
+          aria-pressed={isActive(value)}
+          data-testid={`${testId}-${value}`}
+        >
+          {value} <span className="opacity-70">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function ImagesPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -25,7 +100,8 @@ export default function ImagesPage() {
 
   // State
   const [searchQuery, setSearchQuery] = useState(searchParams.get('searchQuery') || '');
-  const [tag, setTag] = useState(searchParams.get('tag') || '');
+  const [filters, setFilters] = useState<SearchFilters>(() => readFilters(searchParams));
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [images, setImages] = useState<ImageType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -52,7 +128,7 @@ export default function ImagesPage() {
     };
   }, [debounceTimeout]);
 
-  const fetchImages = useCallback(async (page = 1, currentSearch = searchQuery, currentTag = tag) => {
+  const fetchImages = useCallback(async (page = 1, currentSearch = searchQuery, currentFilters = filters) => {
     setIsLoading(true);
     setError(null);
     
@@ -70,13 +146,22 @@ export default function ImagesPage() {
       const paginatedImages = await ImageService.getImages({
         page,
         searchQuery: currentSearch,
-        tag: currentTag
+        tag: currentFilters.tag,
+        tags: currentFilters.matchAnyTag ? undefined : currentFilters.tags,
+        anyTags: currentFilters.matchAnyTag ? currentFilters.tags : undefined,
+        excludeTags: currentFilters.excludeTags,
+        camera: currentFilters.camera,
+        from: currentFilters.from,
+        to: currentFilters.to,
+        sortBy: currentFilters.sortBy || undefined,
+        sortDir: currentFilters.sortBy === 'title' ? 'asc' : undefined
       }, abortController.signal);
       
       // Only process if the request wasn't aborted
       if (!abortController.signal.aborted) {
         // paginatedImages contains { data: Image[], meta: PaginationInfo }
         setImages(paginatedImages.data);
+        setFacets(paginatedImages.facets ?? null);
         setPagination({
           currentPage: paginatedImages.meta.currentPage,
           lastPage: paginatedImages.meta.lastPage,
@@ -87,7 +172,7 @@ export default function ImagesPage() {
         
         const newParams = new URLSearchParams(window.location.search);
         if (currentSearch) newParams.set('searchQuery', currentSearch); else newParams.delete('searchQuery');
-        if (currentTag) newParams.set('tag', currentTag); else newParams.delete('tag');
+        writeFilters(newParams, currentFilters);
         if (page > 1) newParams.set('page', page.toString()); else newParams.delete('page');
         
         // Only push new state if params actually changed to avoid unnecessary history entries
@@ -101,6 +186,7 @@ export default function ImagesPage() {
         const errorMessage = err instanceof Error ? err.message : "Failed to fetch images.";
         setError(errorMessage);
         setImages([]);
+        setFacets(null);
         setPagination(null);
         logger.error('Error fetching images:', err);
       }
@@ -110,21 +196,21 @@ export default function ImagesPage() {
         setIsLoading(false);
       }
     }
-  }, [router, searchParams, searchQuery, tag]);
+  }, [router, searchParams, searchQuery, filters]);
 
   // Effect for initial load and when URL searchParams change (e.g., browser back/forward)
   useEffect(() => {
     const pageFromUrl = parseInt(searchParams.get('page') || '1', 10);
     const searchFromUrl = searchParams.get('searchQuery') || '';
-    const tagFromUrl = searchParams.get('tag') || '';
+    const filtersFromUrl = readFilters(searchParams);
 
     // Update state if URL params differ from local state, then fetch
-    if (searchFromUrl !== searchQuery || tagFromUrl !== tag) {
+    if (searchFromUrl !== searchQuery || JSON.stringify(filtersFromUrl) !== JSON.stringify(filters)) {
       setSearchQuery(searchFromUrl);
-      setTag(tagFromUrl);
+      setFilters(filtersFromUrl);
     }
     
-    fetchImages(pageFromUrl, searchFromUrl, tagFromUrl);
+    fetchImages(pageFromUrl, searchFromUrl, filtersFromUrl);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]); // Only trigger on direct searchParams changes from URL
 
@@ -136,7 +222,7 @@ export default function ImagesPage() {
     
     const timeoutId = setTimeout(() => {
       // Fetch with current state values, reset to page 1 for new filters
-      fetchImages(1, searchQuery, tag);
+      fetchImages(1, searchQuery, filters);
     }, DEBOUNCE_DELAY);
     
     setDebounceTimeout(timeoutId);
@@ -147,12 +233,40 @@ export default function ImagesPage() {
       }
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchQuery, tag]); // Trigger when user types into search or tag inputs
+  }, [searchQuery, filters]); // Trigger when user types into search or changes filters
   
   const handlePageChange = (newPage: number) => {
-    fetchImages(newPage, searchQuery, tag);
+    fetchImages(newPage, searchQuery, filters);
+  };
+
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // Tag facets cycle through: required -> excluded -> not filtered
+  const cycleTagFilter = (name: string) => {
+    if (filters.tags.includes(name)) {
+      updateFilters({ tags: filters.tags.filter(t => t !== name), excludeTags: [...filters.excludeTags, name] });
+    } else if (filters.excludeTags.includes(name)) {
+      updateFilters({ excludeTags: filters.excludeTags.filter(t => t !== name) });
+    } else {
+      updateFilters({ tags: [...filters.tags, name] });
+    }
   };
 
+  const isYearSelected = (year: string) => filters.from === `${year}-01-01` && filters.to === `${year}-12-31`;
+  const toggleYear = (year: string) => {
+    updateFilters(isYearSelected(year) ? { from: '', to: '' } : { from: `${year}-01-01`, to: `${year}-12-31` });
+  };
+
+  // Excluded tags have no matches, so list them alongside the facets to allow clearing them
+  const tagFacets = facets ? [
+    ...facets.tags,
+    ...filters.excludeTags.filter(name => !facets.tags.some(t => t.value === name)).map(value => ({ value, count: 0 })),
+  ] : [];
+
+  const hasFilters = !!(filters.tag || filters.tags.length || filters.excludeTags.length || filters.camera || filters.from || filters.to);
+
   return (
     <div className="container mx-auto px-4 py-8" data-testid="images-page">
       <div className="flex justify-between items-center mb-6">
@@ -170,7 +284,7 @@ export default function ImagesPage() {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
           <div>
             <label htmlFor="searchQuery" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Search by Title/Description
+              Search
             </label>
             <input
               type="text"
@@ -178,9 +292,12 @@ export default function ImagesPage() {
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-              placeholder="e.g., Sunset, Mountains"
+              placeholder='e.g., sunset "golden hour" -night'
               data-testid="search-input"
             />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Searches titles, descriptions, tags, galleries and camera details. Use quotes for phrases, OR for alternatives and - to exclude.
+            </p>
           </div>
           <div>
             <label htmlFor="tag" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -189,18 +306,113 @@ export default function ImagesPage() {
             <input
               type="text"
               id="tag"
-              value={tag}
-              onChange={(e) => setTag(e.target.value)}
+              value={filters.tag}
+              onChange={(e) => updateFilters({ tag: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
               placeholder="e.g., nature, portrait"
               data-testid="tag-input"
             />
           </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Taken From
+              </label>
+              <input
+                type="date"
+                id="from"
+                value={filters.from}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                data-testid="from-date-input"
+              />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Taken To
+              </label>
+              <input
+                type="date"
+                id="to"
+                value={filters.to}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                data-testid="to-date-input"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="sortBy" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Sort By
+            </label>
+            <select
+              id="sortBy"
+              value={filters.sortBy}
+              onChange={(e) => updateFilters({ sortBy: e.target.value as SortOption })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              data-testid="sort-select"
+            >
+              <option value="">{searchQuery ? 'Best match' : 'Newest'}</option>
+              {searchQuery && <option value="createdAt">Newest</option>}
+              <option value="updatedAt">Recently updated</option>
+              <option value="title">Title</option>
+            </select>
+          </div>
         </div>
+
+        {facets && (
+          <div className="mt-4 space-y-2" data-testid="search-facets">
+            <FacetGroup
+              label="Tags"
+              values={tagFacets}
+              isActive={(name) => filters.tags.includes(name) || filters.excludeTags.includes(name)}
+              getClassName={(name) => filters.excludeTags.includes(name)
+                ? 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 line-through'
+                : undefined}
+              onSelect={cycleTagFilter}
+              testId="tag-facet"
+            />
+            {filters.tags.length > 1 && (
+              <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 ml-[4.5rem]">
+                <input
+                  type="checkbox"
+                  checked={filters.matchAnyTag}
+                  onChange={(e) => updateFilters({ matchAnyTag: e.target.checked })}
+                  data-testid="match-any-tag-checkbox"
+                />
+                Match any selected tag instead of all
+              </label>
+            )}
+            <FacetGroup
+              label="Year"
+              values={facets.years}
+              isActive={isYearSelected}
+              onSelect={toggleYear}
+              testId="year-facet"
+            />
+            <FacetGroup
+              label="Camera"
+              values={facets.cameras}
+              isActive={(camera) => filters.camera === camera}
+              onSelect={(camera) => updateFilters({ camera: filters.camera === camera ? '' : camera })}
+              testId="camera-facet"
+            />
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFilters({ ...readFilters(new URLSearchParams()), sortBy: filters.sortBy })}
+                data-testid="clear-filters-button"
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+        )}
       </div>
 
       {isLoading && <LoadingSpinner text="Fetching images..." data-testid="loading-spinner" />}
-      {error && <ErrorMessage error={error} retry={() => fetchImages(1, searchQuery, tag)} data-testid="error-message" />}
+      {error && <ErrorMessage error={error} retry={() => fetchImages(1, searchQuery, filters)} data-testid="error-message" />}
       {!isLoading && !error && images && images.length === 0 && (
         <div data-testid="empty-state">
           <EmptyState title="No Images Found" description="Try adjusting your filters or upload new images." />
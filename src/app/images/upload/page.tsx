@@ -20,6 +20,13 @@ export default async function UploadImagePage() {
         >
           ← Back to Images
         </Link>
+        <Link
+          href="/images/import"
+          className="text-blue-600 hover:underline"
+          data-testid="bulk-import-link"
+        >
+          Importing a whole library? Use bulk import
+        </Link>
       </div>
       <EnhancedUploadImage />
     </div>
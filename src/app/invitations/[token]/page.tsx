@@ -0,0 +1,67 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { findGalleryInvitation } from "@/lib/galleryMembers";
+import { AcceptInvitation } from "@/components/AcceptInvitation";
+import { EmptyState } from "@/components/StatusMessages";
+import { GALLERY_ROLE_DESCRIPTIONS, GALLERY_ROLE_LABELS } from "@/lib/utils/galleryRoles";
+
+// Invitation links are personal
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function InvitationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  const invitation = await findGalleryInvitation(token);
+  if (!invitation) {
+    notFound();
+  }
+
+  if (invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+    return (
+      <div className="max-w-md mx-auto py-16">
+        <EmptyState
+          title="Invitation unavailable"
+          description={invitation.acceptedAt ? 'This invitation has already been used.' : 'This invitation has expired. Ask the gallery owner to send a new one.'}
+        />
+      </div>
+    );
+  }
+
+  const session = await getServerSession(authOptions);
+  const callbackUrl = encodeURIComponent(`/invitations/${token}`);
+
+  return (
+    <div className="max-w-md mx-auto py-16">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4" data-testid="gallery-invitation">
+        <h1 className="text-xl font-semibold">Join &quot;{invitation.gallery.title}&quot;</h1>
+        <p className="text-gray-600 dark:text-gray-300">
+          {invitation.invitedBy.name || 'The owner'} invited {invitation.email} to this gallery
+          as {GALLERY_ROLE_LABELS[invitation.role].toLowerCase()}. {GALLERY_ROLE_DESCRIPTIONS[invitation.role]}.
+        </p>
+        {session?.user ? (
+          <AcceptInvitation token={token} />
+        ) : (
+          <p className="text-sm">
+            <Link href={`/auth/login?callbackUrl=${callbackUrl}`} className="font-medium text-indigo-600 hover:text-indigo-500">
+              Log in
+            </Link>
+            {' '}or{' '}
+            <Link href="/auth/register" className="font-medium text-indigo-600 hover:text-indigo-500">
+              sign up
+            </Link>
+            {' '}with {invitation.email} to accept.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
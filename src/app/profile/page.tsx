@@ -1,11 +1,15 @@
 import { getServerSession } from "next-auth";
 import { redirect } from "next/navigation";
+import Link from "next/link";
 import { Breadcrumbs } from "@/components/Breadcrumbs";
 import { ProfileForm } from "@/components/Profile";
 import { UserStats } from "@/components/UserStats";
 import { DeleteAccountDialog } from "@/components/DeleteAccountDialog";
+import { EmailVerificationNotice } from "@/components/EmailVerificationNotice";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { emailVerification } from "@/lib/config";
+import { getConnectedAccounts } from "@/lib/oauthProviders";
 import { UserRole } from "@/lib/types";
 
 // Extend PrismaUser interface to include the role and _count fields
@@ -47,6 +51,8 @@ export default async function ProfilePage() {
     redirect("/api/auth/signin");
   }
 
+  const connectedAccounts = await getConnectedAccounts(user.id);
+
   return (
     <div className="container mx-auto px-4 py-8">
       <Breadcrumbs
@@ -60,6 +66,12 @@ export default async function ProfilePage() {
         <div className="lg:col-span-2">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
             <h1 className="text-3xl font-bold mb-6">My Profile</h1>
+            {user.email && !user.emailVerified && (
+              <EmailVerificationNotice
+                email={user.email}
+                requiredToPublish={emailVerification.requiredToPublish}
+              />
+            )}
             <ProfileForm 
               initialData={{
                 id: user.id,
@@ -68,6 +80,7 @@ export default async function ProfilePage() {
                 image: user.image || "",
                 role: user.role
               }} 
+              connectedAccounts={connectedAccounts}
             />
           </div>
         </div>
@@ -82,6 +95,24 @@ export default async function ProfilePage() {
               role={user.role}
             />
 
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold mb-3">Security</h3>
+              <Link
+                href="/profile/two-factor"
+                className="block text-blue-600 hover:underline"
+                data-testid="two-factor-link"
+              >
+                Two-factor authentication
+              </Link>
+              <Link
+                href="/profile/tokens"
+                className="block mt-2 text-blue-600 hover:underline"
+                data-testid="api-tokens-link"
+              >
+                API tokens
+              </Link>
+            </div>
+
             <div className="mt-8">
               <h3 className="text-lg font-semibold mb-3">Danger Zone</h3>
               <hr className="border-red-200 dark:border-red-800 mb-4" />
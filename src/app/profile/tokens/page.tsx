@@ -0,0 +1,37 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/Breadcrumbs";
+import { ApiTokenSettings } from "@/components/ApiTokenSettings";
+import { authOptions } from "@/lib/auth";
+import { listApiTokens } from "@/lib/apiTokens";
+
+export default async function ApiTokensPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect("/auth/login?callbackUrl=%2Fprofile%2Ftokens");
+  }
+
+  const tokens = await listApiTokens(session.user.id);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "Profile", href: "/profile" },
+          { label: "API tokens", href: "/profile/tokens" },
+        ]}
+      />
+
+      <div className="max-w-3xl bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h1 className="text-3xl font-bold mb-2">API tokens</h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Scripts can call the image, gallery and tag API with a token instead of signing in. Send it as{" "}
+          <code className="font-mono text-sm">Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+        <ApiTokenSettings initialTokens={tokens} />
+      </div>
+    </div>
+  );
+}
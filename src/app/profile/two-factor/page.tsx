@@ -0,0 +1,43 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import { Breadcrumbs } from "@/components/Breadcrumbs";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { authOptions } from "@/lib/auth";
+import { getTwoFactorStatus } from "@/lib/twoFactor";
+
+export default async function TwoFactorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ required?: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect("/auth/login?callbackUrl=%2Fprofile%2Ftwo-factor");
+  }
+
+  const { required } = await searchParams;
+  const status = await getTwoFactorStatus(session.user.id);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "Profile", href: "/profile" },
+          { label: "Two-factor authentication", href: "/profile/two-factor" },
+        ]}
+      />
+
+      <div className="max-w-2xl bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h1 className="text-3xl font-bold mb-6">Two-factor authentication</h1>
+        {required === "true" && !status.enabled && (
+          <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/30 p-4 mb-6 text-sm text-yellow-800 dark:text-yellow-200" data-testid="two-factor-required">
+            Administrators have to set up two-factor authentication before using the admin pages.
+          </div>
+        )}
+        <TwoFactorSettings initialStatus={status} />
+      </div>
+    </div>
+  );
+}
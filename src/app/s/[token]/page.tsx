@@ -0,0 +1,101 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { ThemedGalleryView } from "@/components/ThemedGalleryView";
+import { ShareLinkGate } from "@/components/ShareLinkGate";
+import { EmptyState } from "@/components/StatusMessages";
+import { FullGallery } from "@/lib/types";
+import { GALLERY_ENTRY_INCLUDE, resolveGalleryImages } from "@/lib/smartGalleries";
+import { getShareLinkStatus, hasShareAccess, SHARE_ACCESS_COOKIE } from "@/lib/shareLinks";
+import { withoutHiddenImages } from "@/lib/moderation";
+
+// Unlisted links shouldn't show up in search results
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+const UNAVAILABLE_MESSAGES = {
+  revoked: 'The owner has turned off this link.',
+  expired: 'This link has expired.',
+  exhausted: 'This link has been opened the maximum number of times.',
+};
+
+export default async function SharedGalleryPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  const link = await prisma.galleryShareLink.findUnique({
+    where: { token },
+    include: {
+      gallery: {
+        include: {
+          images: {
+            orderBy: { order: 'asc' },
+            include: GALLERY_ENTRY_INCLUDE,
+          },
+          user: {
+            select: { id: true, name: true, image: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!link || link.gallery.deletedAt) {
+    notFound();
+  }
+
+  const session = await getServerSession(authOptions);
+  const isOwner = link.gallery.userId === session?.user?.id;
+  const status = getShareLinkStatus(link);
+  const cookieStore = await cookies();
+  // Visitors who already opened the link keep access after it runs out of views
+  const hasAccess = isOwner || hasShareAccess(link, cookieStore.get(SHARE_ACCESS_COOKIE)?.value);
+
+  if (link.gallery.hiddenAt && !isOwner) {
+    return (
+      <div className="max-w-md mx-auto py-16">
+        <EmptyState title="Link unavailable" description="This gallery has been hidden by a moderator." />
+      </div>
+    );
+  }
+
+  if (status === 'revoked' || status === 'expired' || (status === 'exhausted' && !hasAccess)) {
+    return (
+      <div className="max-w-md mx-auto py-16">
+        <EmptyState title="Link unavailable" description={UNAVAILABLE_MESSAGES[status]} />
+      </div>
+    );
+  }
+
+  if (!hasAccess) {
+    return <ShareLinkGate token={token} requiresPassword={link.passwordHash !== null} />;
+  }
+
+  const { gallery } = link;
+  const resolvedGallery = withoutHiddenImages(await resolveGalleryImages(gallery), session?.user?.id);
+
+  const fullGallery: FullGallery = {
+    ...resolvedGallery,
+    user: {
+      id: gallery.user.id,
+      name: gallery.user.name,
+      image: gallery.user.image,
+    },
+    themeColor: gallery.themeColor || null,
+    backgroundColor: gallery.backgroundColor || null,
+    backgroundImageUrl: gallery.backgroundImageUrl || null,
+    accentColor: gallery.accentColor || null,
+    fontFamily: gallery.fontFamily || null,
+    displayMode: gallery.displayMode || null,
+    layoutType: gallery.layoutType || null,
+  };
+
+  return <ThemedGalleryView gallery={fullGallery} isOwner={false} />;
+}
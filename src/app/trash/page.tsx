@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Breadcrumbs } from '@/components/Breadcrumbs';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { TrashService } from '@/lib/services/trashService';
+import type { RestoreResult, TrashItem } from '@/lib/schemas';
+
+function describeItem(item: TrashItem): string {
+  if (item.targetType === 'gallery') {
+    return `Gallery · ${item.count} ${item.count === 1 ? 'image' : 'images'}`;
+  }
+  return item.count > 0 ? `Image · was in ${item.count} ${item.count === 1 ? 'gallery' : 'galleries'}` : 'Image';
+}
+
+function describeRestore(item: TrashItem, result: RestoreResult): string {
+  if (result.targetType === 'gallery' || result.galleriesRestored === 0) {
+    return `"${item.title}" was restored.`;
+  }
+  const galleries = `${result.galleriesRestored} ${result.galleriesRestored === 1 ? 'gallery' : 'galleries'}`;
+  return `"${item.title}" was restored to ${galleries}${result.coversRestored > 0 ? ', cover included' : ''}.`;
+}
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    TrashService.getTrash(controller.signal)
+      .then(trash => {
+        setItems(trash.items);
+        setRetentionDays(trash.retentionDays);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load trash');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  const restore = async (item: TrashItem) => {
+    setRestoringId(item.id);
+    setError('');
+    setNotice('');
+    try {
+      const result = await TrashService.restore({ targetType: item.targetType, id: item.id });
+      setItems(previous => previous.filter(entry => entry.id !== item.id));
+      setNotice(describeRestore(item, result));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const empty = async () => {
+    setError('');
+    setNotice('');
+    try {
+      await TrashService.empty();
+      setItems([]);
+      setNotice('The trash was emptied.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    } finally {
+      setIsConfirmingEmpty(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Breadcrumbs
+        items={[
+          { label: "Home", href: "/" },
+          { label: "Trash", href: "/trash" },
+        ]}
+      />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+          <h1 className="text-3xl font-bold">Trash</h1>
+          {items.length > 0 && (
+            <button
+              onClick={() => setIsConfirmingEmpty(true)}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md"
+              data-testid="empty-trash"
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+        {retentionDays !== null && (
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            Deleted images and galleries can be restored for {retentionDays} {retentionDays === 1 ? 'day' : 'days'}, then they&apos;re deleted for good.
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md mb-6">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 p-4 rounded-md mb-6" role="status">
+            {notice}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="flex justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+            <p className="mt-2">Loading trash...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-center py-8">The trash is empty</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {items.map(item => (
+              <li key={`${item.targetType}-${item.id}`} className="flex items-center gap-4 py-4" data-testid="trash-item">
+                {item.thumbnailUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={item.thumbnailUrl} alt={item.title} className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
+                ) : (
+                  <div className="w-20 h-20 rounded-md flex-shrink-0 bg-gray-100 dark:bg-gray-700" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{item.title}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{describeItem(item)}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Deleted {item.deletedAt.toLocaleDateString()} · Deleted for good on {item.purgeAt.toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => restore(item)}
+                  disabled={!!restoringId}
+                  className="px-3 py-1 rounded-md border disabled:opacity-50"
+                  data-testid="restore-trash-item"
+                >
+                  {restoringId === item.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={isConfirmingEmpty}
+        onClose={() => setIsConfirmingEmpty(false)}
+        onConfirm={empty}
+        title="Empty trash"
+        message="Everything in the trash will be deleted for good. This can't be undone."
+        confirmButtonText="Empty trash"
+        confirmButtonColor="red"
+        cancelButtonText="Cancel"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { GalleryService } from '@/lib/services/galleryService';
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+/**
+ * Accept button on /invitations/[token]; opens the gallery once the user has joined
+ */
+export function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const router = useRouter();
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      const { galleryId } = await GalleryService.acceptInvitation(token);
+      router.push(`/galleries/${galleryId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to accept this invitation');
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <ErrorMessage error={error} />}
+      <Button type="button" onClick={accept} isLoading={isAccepting} className="w-full" data-testid="accept-invitation">
+        Accept invitation
+      </Button>
+    </div>
+  );
+}
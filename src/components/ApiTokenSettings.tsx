@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { UserService } from '@/lib/services/userService';
+import type { ApiToken, ApiTokenScope, CreatedApiToken } from '@/lib/schemas';
+
+interface ApiTokenSettingsProps {
+  initialTokens: ApiToken[];
+}
+
+const SCOPES: { value: ApiTokenScope; label: string }[] = [
+  { value: 'images:read', label: 'Read images, tags and galleries' },
+  { value: 'images:write', label: 'Upload, edit and delete images and tags' },
+  { value: 'galleries:write', label: 'Create, edit and delete galleries' },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'Never' },
+];
+
+/**
+ * Create, list and revoke the current user's personal API tokens
+ */
+export function ApiTokenSettings({ initialTokens }: ApiTokenSettingsProps) {
+  const [tokens, setTokens] = useState(initialTokens);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['images:read']);
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const token = await UserService.createApiToken({
+        name,
+        scopes,
+        expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : null,
+      });
+      setCreated(token);
+      setTokens(current => [token, ...current]);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    setError(null);
+    try {
+      await UserService.revokeApiToken(token.id);
+      setTokens(current => current.filter(t => t.id !== token.id));
+      if (created?.id === token.id) {
+        setCreated(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    }
+  };
+
+  return (
+    <div className="space-y-6" data-testid="api-token-settings">
+      {error && <ErrorMessage error={error} />}
+
+      {created && (
+        <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 p-4 space-y-2" data-testid="created-api-token">
+          <p className="text-sm font-medium">
+            Copy your new token now. It won&apos;t be shown again.
+          </p>
+          <code className="block font-mono text-sm break-all">{created.token}</code>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <div className="max-w-sm">
+          <label htmlFor="api-token-name" className="block mb-1 text-sm font-medium">Name</label>
+          <Input
+            id="api-token-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Backup script"
+            maxLength={100}
+            data-testid="api-token-name"
+          />
+        </div>
+        <fieldset>
+          <legend className="mb-1 text-sm font-medium">Scopes</legend>
+          {SCOPES.map(scope => (
+            <label key={scope.value} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.value)}
+                onChange={() => toggleScope(scope.value)}
+                data-testid={`api-token-scope-${scope.value}`}
+              />
+              <span className="font-mono">{scope.value}</span>
+              <span className="text-gray-500">{scope.label}</span>
+            </label>
+          ))}
+        </fieldset>
+        <div>
+          <label htmlFor="api-token-expiry" className="block mb-1 text-sm font-medium">Expires after</label>
+          <select
+            id="api-token-expiry"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm"
+            data-testid="api-token-expiry"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" disabled={!name.trim() || scopes.length === 0} isLoading={isBusy} data-testid="create-api-token">
+          Create token
+        </Button>
+      </form>
+
+      {tokens.length === 0 ? (
+        <p className="text-gray-500" data-testid="no-api-tokens">You don&apos;t have any API tokens.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700" data-testid="api-token-list">
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {token.name} <code className="font-mono text-gray-500">{token.prefix}…</code>
+                </p>
+                <p className="text-gray-500">{token.scopes.join(', ')}</p>
+                <p className="text-gray-500">
+                  {token.lastUsedAt ? `Last used ${token.lastUsedAt.toLocaleString()}` : 'Never used'}
+                  {' · '}
+                  {token.expiresAt ? `Expires ${token.expiresAt.toLocaleDateString()}` : 'Never expires'}
+                </p>
+              </div>
+              <Button type="button" variant="danger" size="sm" onClick={() => handleRevoke(token)} data-testid={`revoke-api-token-${token.id}`}>
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
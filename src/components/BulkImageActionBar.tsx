@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TagIcon, TrashIcon, XMarkIcon, PhotoIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ImageService, type BulkImageOutcome } from '@/lib/services/imageService';
+import { GalleryService } from '@/lib/services/galleryService';
+import { normalizeTagName } from '@/lib/utils/tagPaths';
+import type { BulkImageAction } from '@/lib/schemas';
+import logger from '@/lib/logger';
+
+type Panel = 'addTags' | 'removeTags' | 'setDescription' | 'addToGallery' | null;
+
+interface BulkImageActionBarProps {
+  selectedIds: string[];
+  onClearSelection: () => void;
+  onComplete: (outcome: BulkImageOutcome, operation: BulkImageAction) => void;
+}
+
+/**
+ * Summarize per-image results, e.g. "Updated 3 images, 1 unchanged, 1 not found"
+ */
+function describeOutcome(outcome: BulkImageOutcome): string {
+  const count = (status: string) => outcome.results.filter(result => result.status === status).length;
+  const parts: string[] = [];
+  const updated = count('updated');
+  const deleted = count('deleted');
+  if (updated) parts.push(`Updated ${updated} image${updated === 1 ? '' : 's'}`);
+  if (deleted) parts.push(`Deleted ${deleted} image${deleted === 1 ? '' : 's'}`);
+  if (count('unchanged')) parts.push(`${count('unchanged')} unchanged`);
+  if (count('not_found')) parts.push(`${count('not_found')} not found`);
+  return parts.join(', ') || 'Nothing to do';
+}
+
+function parseTagList(value: string): string[] {
+  return value.split(',').map(normalizeTagName).filter(Boolean);
+}
+
+/**
+ * Action bar shown while images are selected in the grid
+ * Runs one bulk operation at a time against POST /api/images/bulk.
+ */
+export function BulkImageActionBar({ selectedIds, onClearSelection, onComplete }: BulkImageActionBarProps) {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [description, setDescription] = useState('');
+  const [galleryId, setGalleryId] = useState('');
+  const [galleries, setGalleries] = useState<{ id: string; title: string }[] | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Load the user's galleries the first time they're needed
+  useEffect(() => {
+    if (panel !== 'addToGallery' || galleries !== null) return;
+    GalleryService.getAllGallerySummaries({ scope: 'owned', sort: 'title' })
+      .then(setGalleries)
+      .catch(error => {
+        logger.error('Failed to load galleries:', error);
+        setGalleries([]);
+      });
+  }, [panel, galleries]);
+
+  const togglePanel = (next: Panel) => {
+    setPanel(current => (current === next ? null : next));
+    setMessage(null);
+  };
+
+  const run = async (operation: BulkImageAction) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const outcome = await ImageService.bulkUpdateImages(selectedIds, operation);
+      setMessage({ text: describeOutcome(outcome), isError: false });
+      setPanel(null);
+      setTagInput('');
+      onComplete(outcome, operation);
+    } catch (error) {
+      logger.error('Bulk image operation failed:', error);
+      setMessage({ text: error instanceof Error ? error.message : 'Bulk operation failed', isError: true });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const tags = parseTagList(tagInput);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 space-y-3"
+      data-testid="bulk-action-bar"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2" data-testid="bulk-selection-count">
+          {selectedIds.length} selected
+        </span>
+        <Button size="sm" variant={panel === 'addTags' ? 'primary' : 'outline'} icon={<TagIcon className="w-4 h-4" />} onClick={() => togglePanel('addTags')} data-testid="bulk-add-tags">
+          Add tags
+        </Button>
+        <Button size="sm" variant={panel === 'removeTags' ? 'primary' : 'outline'} icon={<TagIcon className="w-4 h-4" />} onClick={() => togglePanel('removeTags')} data-testid="bulk-remove-tags">
+          Remove tags
+        </Button>
+        <Button size="sm" variant={panel === 'setDescription' ? 'primary' : 'outline'} icon={<DocumentTextIcon className="w-4 h-4" />} onClick={() => togglePanel('setDescription')} data-testid="bulk-set-description">
+          Description
+        </Button>
+        <Button size="sm" variant={panel === 'addToGallery' ? 'primary' : 'outline'} icon={<PhotoIcon className="w-4 h-4" />} onClick={() => togglePanel('addToGallery')} data-testid="bulk-add-to-gallery">
+          Add to gallery
+        </Button>
+        <Button size="sm" variant="danger" icon={<TrashIcon className="w-4 h-4" />} onClick={() => setConfirmDelete(true)} disabled={isWorking} data-testid="bulk-delete">
+          Delete
+        </Button>
+        <button
+          type="button"
+          onClick={onClearSelection}
+          className="ml-auto p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+          title="Clear selection"
+          data-testid="bulk-clear-selection"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {(panel === 'addTags' || panel === 'removeTags') && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (tags.length > 0) run({ action: panel, tags });
+          }}
+        >
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Tags, separated by commas (e.g. travel/japan, family)"
+            className="flex-1 px-3 py-1.5 text-sm border rounded-md dark:bg-gray-700 dark:border-gray-600"
+            data-testid="bulk-tags-input"
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={tags.length === 0} isLoading={isWorking} data-testid="bulk-apply">
+            {panel === 'addTags' ? 'Add' : 'Remove'}
+          </Button>
+        </form>
+      )}
+
+      {panel === 'setDescription' && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run({ action: 'setDescription', description: description.trim() || null });
+          }}
+        >
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="New description (leave empty to clear)"
+            className="flex-1 px-3 py-1.5 text-sm border rounded-md dark:bg-gray-700 dark:border-gray-600"
+            data-testid="bulk-description-input"
+            autoFocus
+          />
+          <Button type="submit" size="sm" isLoading={isWorking} data-testid="bulk-apply">
+            Apply
+          </Button>
+        </form>
+      )}
+
+      {panel === 'addToGallery' && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (galleryId) run({ action: 'addToGallery', galleryId });
+          }}
+        >
+          <select
+            value={galleryId}
+            onChange={(e) => setGalleryId(e.target.value)}
+            className="flex-1 px-3 py-1.5 text-sm border rounded-md dark:bg-gray-700 dark:border-gray-600"
+            disabled={galleries === null}
+            data-testid="bulk-gallery-select"
+          >
+            <option value="">{galleries === null ? 'Loading galleries...' : 'Choose a gallery'}</option>
+            {galleries?.map(gallery => (
+              <option key={gallery.id} value={gallery.id}>{gallery.title}</option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={!galleryId} isLoading={isWorking} data-testid="bulk-apply">
+            Add
+          </Button>
+        </form>
+      )}
+
+      {message && (
+        <p
+          className={`text-sm ${message.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}
+          data-testid="bulk-result-message"
+        >
+          {message.text}
+        </p>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={() => run({ action: 'delete' })}
+        title="Delete selected images"
+        message={`Permanently delete ${selectedIds.length} image${selectedIds.length === 1 ? '' : 's'}? They will also be removed from any galleries.`}
+        confirmButtonText="Delete"
+        confirmButtonColor="red"
+      />
+    </div>
+  );
+}
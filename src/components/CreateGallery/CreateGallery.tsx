@@ -46,6 +46,7 @@ export function CreateGallery(): React.ReactElement {
       displayMode: 'grid',
       layoutType: 'contained',
       images: [],
+      smartRules: null,
     }
   });
   
@@ -59,6 +60,7 @@ export function CreateGallery(): React.ReactElement {
   const watch = formMethods.watch;
   
   const watchedImages = watch('images');
+  const smartRules = watch('smartRules') ?? null;
   const imageCount = watchedImages ? watchedImages.length : 0;
   
   // Get enhanced image functionality (re-ordering, etc.)
@@ -149,6 +151,7 @@ export function CreateGallery(): React.ReactElement {
         description: data.description,
         isPublic: data.isPublic,
         coverImageId: coverImageId || undefined,
+        smartRules: data.smartRules ?? null,
         images: data.images?.map((image, index) => ({
           id: image.id,
           description: image.description,
@@ -225,11 +228,13 @@ export function CreateGallery(): React.ReactElement {
                 isSubmitting={isSubmitting}
                 showSubmitButton={false}
                 showCancelButton={false}
+                smartRules={smartRules}
+                onSmartRulesChange={(rules) => setValue('smartRules', rules, { shouldDirty: true })}
               />
               
               <div className="border-t pt-6">
                 <div className="flex justify-between items-center mb-4">
-                  <h2 className="text-xl font-semibold">Gallery Images</h2>
+                  <h2 className="text-xl font-semibold">{smartRules ? 'Pinned Images' : 'Gallery Images'}</h2>
                   <Button 
                     onClick={() => setIsImagesDialogOpen(true)}
                     variant="outline"
@@ -261,7 +266,11 @@ export function CreateGallery(): React.ReactElement {
                   </div>
                 ) : (
                   <div className="text-center p-8 border-2 border-dashed rounded-lg">
-                    <p className="text-gray-500 mb-4">No images added to this gallery yet</p>
+                    <p className="text-gray-500 mb-4">
+                      {smartRules
+                        ? 'Matching images will be shown automatically. Add images here to pin them at the top.'
+                        : 'No images added to this gallery yet'}
+                    </p>
                     <Button 
                       onClick={() => setIsImagesDialogOpen(true)}
                       variant="outline"
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { LoadingSpinner, ErrorMessage } from '@/components/StatusMessages';
 import { useApi } from '@/lib/hooks/useApi';
@@ -26,6 +27,7 @@ export function DeleteImageConfirmDialog({
   onDeleted
 }: DeleteImageConfirmDialogProps) {
   const [galleries, setGalleries] = useState<Gallery[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
   const router = useRouter();
   
   // Create AbortController refs for cancelling API requests
@@ -122,6 +124,9 @@ export function DeleteImageConfirmDialog({
           if (data.success && data.data && data.data.galleries) {
             setGalleries(data.data.galleries);
           }
+          if (data.success && typeof data.data?.retentionDays === 'number') {
+            setRetentionDays(data.data.retentionDays);
+          }
         }
       } catch (error) {
         if (!abortController.signal.aborted) {
@@ -187,7 +192,6 @@ export function DeleteImageConfirmDialog({
             />
           ) : galleries.length > 0 ? (
             <>
-              <p className="mb-4 text-amber-500 font-semibold">Warning: This image is used in galleries</p>
               <p className="mb-2">This image is used in the following galleries:</p>
               <ul className="list-disc pl-5 mb-4">
                 {galleries.map(gallery => (
@@ -203,14 +207,23 @@ export function DeleteImageConfirmDialog({
                   </li>
                 ))}
               </ul>
-              <p className="text-amber-500 font-medium">
-                Deleting this image will remove it from all these galleries.
+              <p className="mb-2">
+                Deleting it takes it out of these galleries.
                 {galleries.some(g => g.isCover) && 
-                  " Galleries using this as a cover image will need a new cover image."}
+                  " Galleries using it as their cover will show no cover for now."}
+                {" "}Restoring it puts it back where it was.
               </p>
             </>
-          ) : (
-            <p>Are you sure you want to delete this image? This action cannot be undone.</p>
+          ) : null}
+
+          {!usageApi.isLoading && (
+            <p data-testid="trash-retention-notice">
+              The image will be moved to the{" "}
+              <Link href="/trash" className="text-blue-600 hover:text-blue-800 hover:underline">trash</Link>
+              {retentionDays !== null
+                ? `, where you can restore it for ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'} before it's deleted for good.`
+                : ", where you can restore it until it's deleted for good."}
+            </p>
           )}
           
           {(deleteError || deleteApi.error) && (
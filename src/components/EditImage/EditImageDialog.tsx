@@ -3,6 +3,7 @@
  * 
  * A modal dialog for editing image metadata with Zod schema validation.
  * This is the modern implementation with strong type safety and validation.
+ * Pixel edits (crop, rotate, exposure...) and the version history live in their own tabs.
  */
 
 'use client';
@@ -18,6 +19,9 @@ import { ErrorMessage, SuccessMessage } from '@/components/StatusMessages';
 import { ImageService, type Image as ImageType, type UpdateImageData } from '@/lib/services/imageService';
 import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { ImageAdjustPanel } from '@/components/EditImage/ImageAdjustPanel';
+import { ImageVersionHistory } from '@/components/EditImage/ImageVersionHistory';
+import type { ImageVersion } from '@/lib/schemas';
 import logger from '@/lib/logger';
 
 /**
@@ -36,6 +40,14 @@ const editImageSchema = z.object({
  */
 type EditImageFormData = z.infer<typeof editImageSchema>;
 
+type EditImageTab = 'details' | 'adjust' | 'history';
+
+const TAB_LABELS: Record<EditImageTab, string> = {
+  details: 'Details',
+  adjust: 'Adjust',
+  history: 'History',
+};
+
 /**
  * Props interface for the EditImageDialog component
  */
@@ -60,6 +72,7 @@ interface EditImageDialogProps {
  * - Integration with ImageService
  * - Proper error handling
  * - Abort controller for cancelling pending requests
+ * - Non-destructive pixel edits with a version history
  * 
  * @param props - Component props
  * @returns React component
@@ -68,6 +81,9 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
+  const [tab, setTab] = useState<EditImageTab>('details');
+  // Pixel edits change the URL before the parent has refreshed its copy of the image
+  const [currentUrl, setCurrentUrl] = useState(image.url);
   const router = useRouter();
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -90,6 +106,7 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
       description: image.description || '',
       tags: image.tags?.map(t => t.name) || []
     });
+    setCurrentUrl(image.url);
   }, [image, reset]);
   
   // Clean up any pending requests when the component unmounts
@@ -164,6 +181,14 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
     }
   };
 
+  // Show the version an edit or revert made current, without closing the dialog
+  const handleVersionChange = (version: ImageVersion, message: string) => {
+    setCurrentUrl(version.url);
+    router.refresh();
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 2000);
+  };
+
   // Format tags from array to string for display/editing
   const formatTagsForDisplay = (tags: string[] = []) => tags.join(', ');
   // Parse tags from string to array
@@ -175,9 +200,24 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
   return (
     <>
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-        <Card className="w-full max-w-md">
+        <Card className={`w-full ${tab === 'details' ? 'max-w-md' : 'max-w-2xl'} max-h-full overflow-y-auto`}>
           <CardHeader>
             <h2 className="text-xl font-semibold">Edit Image</h2>
+            <div className="flex gap-2 mt-3" role="tablist">
+              {(Object.keys(TAB_LABELS) as EditImageTab[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === option}
+                  onClick={() => setTab(option)}
+                  className={`px-3 py-1 rounded-md text-sm ${tab === option ? 'bg-blue-600 text-white' : 'border border-gray-300 dark:border-gray-600'}`}
+                  data-testid={`edit-image-tab-${option}`}
+                >
+                  {TAB_LABELS[option]}
+                </button>
+              ))}
+            </div>
           </CardHeader>
           
           <CardContent>
@@ -197,77 +237,92 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
               />
             )}
             
-            {/* Image thumbnail */}
-            <div className="mb-4 flex justify-center">
-              <div className="relative w-40 h-40 rounded-md overflow-hidden">
-                <Image
-                  src={image.url}
-                  alt={image.title}
-                  fill
-                  className="object-cover"
-                  sizes="(max-width: 768px) 100vw, 300px"
-                />
-              </div>
-            </div>
+            {tab === 'adjust' && (
+              <ImageAdjustPanel image={image} onEdited={(version) => handleVersionChange(version, 'Edits applied')} />
+            )}
+
+            {tab === 'history' && (
+              <ImageVersionHistory
+                imageId={image.id}
+                onReverted={(version) => handleVersionChange(version, `Reverted to ${version.version === 1 ? 'the original' : `version ${version.version}`}`)}
+              />
+            )}
+
+            {tab === 'details' && (
+              <>
+                {/* Image thumbnail */}
+                <div className="mb-4 flex justify-center">
+                  <div className="relative w-40 h-40 rounded-md overflow-hidden">
+                    <Image
+                      src={currentUrl}
+                      alt={image.title}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 768px) 100vw, 300px"
+                    />
+                  </div>
+                </div>
             
-            <form id="edit-image-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4" data-testid="edit-image-form">
-              <div>
-                <label className="block text-sm font-medium mb-1">Title</label>
-                <Controller
-                  name="title"
-                  control={control}
-                  render={({ field }) => (
-                    <input
-                      {...field}
-                      type="text"
-                      className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
-                      placeholder="Enter image title"
-                      aria-invalid={errors.title ? 'true' : 'false'}
-                      data-testid="edit-image-title-input"
+                <form id="edit-image-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4" data-testid="edit-image-form">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Title</label>
+                    <Controller
+                      name="title"
+                      control={control}
+                      render={({ field }) => (
+                        <input
+                          {...field}
+                          type="text"
+                          className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+                          placeholder="Enter image title"
+                          aria-invalid={errors.title ? 'true' : 'false'}
+                          data-testid="edit-image-title-input"
+                        />
+                      )}
                     />
-                  )}
-                />
-                {errors.title && (
-                  <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>
-                )}
-              </div>
+                    {errors.title && (
+                      <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>
+                    )}
+                  </div>
               
-              <div>
-                <label className="block text-sm font-medium mb-1">Description</label>
-                <Controller
-                  name="description"
-                  control={control}
-                  render={({ field }) => (
-                    <textarea
-                      {...field}
-                      value={field.value || ''}
-                      className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
-                      placeholder="Enter image description"
-                      rows={3}
-                      data-testid="edit-image-description-input"
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Description</label>
+                    <Controller
+                      name="description"
+                      control={control}
+                      render={({ field }) => (
+                        <textarea
+                          {...field}
+                          value={field.value || ''}
+                          className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+                          placeholder="Enter image description"
+                          rows={3}
+                          data-testid="edit-image-description-input"
+                        />
+                      )}
                     />
-                  )}
-                />
-              </div>
+                  </div>
               
-              <div>
-                <label className="block text-sm font-medium mb-1">Tags</label>
-                <Controller
-                  name="tags"
-                  control={control}
-                  render={({ field }) => (
-                    <input
-                      type="text"
-                      value={formatTagsForDisplay(field.value)}
-                      onChange={(e) => field.onChange(parseTagsFromString(e.target.value))}
-                      className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
-                      placeholder="Enter tags separated by commas"
-                      data-testid="edit-image-tags-input"
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Tags</label>
+                    <Controller
+                      name="tags"
+                      control={control}
+                      render={({ field }) => (
+                        <input
+                          type="text"
+                          value={formatTagsForDisplay(field.value)}
+                          onChange={(e) => field.onChange(parseTagsFromString(e.target.value))}
+                          className="w-full px-3 py-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+                          placeholder="Enter tags separated by commas"
+                          data-testid="edit-image-tags-input"
+                        />
+                      )}
                     />
-                  )}
-                />
-              </div>
-            </form>
+                  </div>
+                </form>
+              </>
+            )}
           </CardContent>
           
           <CardFooter className="flex justify-between">
@@ -289,16 +344,18 @@ export function EditImageDialog({ image, isOpen, onClose }: EditImageDialogProps
               >
                 Cancel
               </Button>
-              <Button
-                variant="primary"
-                type="submit"
-                form="edit-image-form"
-                disabled={!isDirty || isSubmitting}
-                isLoading={isSubmitting}
-                data-testid="edit-image-save-button"
-              >
-                Save Changes
-              </Button>
+              {tab === 'details' && (
+                <Button
+                  variant="primary"
+                  type="submit"
+                  form="edit-image-form"
+                  disabled={!isDirty || isSubmitting}
+                  isLoading={isSubmitting}
+                  data-testid="edit-image-save-button"
+                >
+                  Save Changes
+                </Button>
+              )}
             </div>
           </CardFooter>
         </Card>
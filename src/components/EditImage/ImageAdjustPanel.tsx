@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { ImageService, type Image as ImageType } from '@/lib/services/imageService';
+import { ImageEditRecipeSchema, type ImageEditRecipe, type ImageVersion } from '@/lib/schemas';
+import logger from '@/lib/logger';
+
+interface ImageAdjustPanelProps {
+  image: ImageType;
+  /** Called with the new version once the edit has been rendered */
+  onEdited: (version: ImageVersion) => void;
+}
+
+// Trim from each side of the crop, as fractions of the image
+interface CropInsets {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Leave at least a fifth of the image on each axis
+const MAX_INSET = 0.4;
+
+const DEFAULT_RECIPE = ImageEditRecipeSchema.parse({});
+
+function insetsFromRecipe(recipe: ImageEditRecipe): CropInsets {
+  const crop = recipe.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  return { left: crop.x, top: crop.y, right: 1 - crop.x - crop.width, bottom: 1 - crop.y - crop.height };
+}
+
+function cropFromInsets(insets: CropInsets): ImageEditRecipe['crop'] {
+  if (Object.values(insets).every(inset => inset === 0)) {
+    return null;
+  }
+  return {
+    x: insets.left,
+    y: insets.top,
+    width: 1 - insets.left - insets.right,
+    height: 1 - insets.top - insets.bottom,
+  };
+}
+
+/**
+ * Same maths as the server: the straightened image is cropped to the largest box with its
+ * proportions that the rotation leaves covered
+ */
+function straightenScale(width: number, height: number, degrees: number): number {
+  const radians = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+}
+
+function Slider({ label, value, min, max, step, format, onChange }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block text-sm">
+      <span className="flex justify-between mb-1">
+        <span className="font-medium">{label}</span>
+        <span className="text-gray-500 dark:text-gray-400">{format(value)}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full"
+        aria-label={label}
+      />
+    </label>
+  );
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const signed = (digits: number) => (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/**
+ * Crop, rotate, flip, straighten and exposure/contrast controls with a live preview
+ * Edits always start from the original upload; the recipe of the current version is
+ * loaded so earlier edits can be refined rather than redone.
+ */
+export function ImageAdjustPanel({ image, onEdited }: ImageAdjustPanelProps) {
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [recipe, setRecipe] = useState<ImageEditRecipe>(DEFAULT_RECIPE);
+  const [insets, setInsets] = useState<CropInsets>(insetsFromRecipe(DEFAULT_RECIPE));
+  const [naturalSize, setNaturalSize] = useState({ width: 1, height: 1 });
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    ImageService.getImageVersions(image.id, controller.signal)
+      .then(versions => {
+        const current = versions.find(version => version.isCurrent)?.recipe ?? DEFAULT_RECIPE;
+        setSourceUrl(versions[0]?.url ?? image.url);
+        setRecipe(current);
+        setInsets(insetsFromRecipe(current));
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          logger.error('Error loading image versions:', err);
+          setSourceUrl(image.url);
+        }
+      });
+    return () => controller.abort();
+  }, [image.id, image.url]);
+
+  const update = (changes: Partial<ImageEditRecipe>) => setRecipe(previous => ({ ...previous, ...changes }));
+  const updateInset = (side: keyof CropInsets, value: number) => setInsets(previous => ({ ...previous, [side]: value }));
+
+  const reset = () => {
+    setRecipe(DEFAULT_RECIPE);
+    setInsets(insetsFromRecipe(DEFAULT_RECIPE));
+  };
+
+  const apply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onEdited(await ImageService.editImage(image.id, { ...recipe, crop: cropFromInsets(insets) }));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      logger.error('Error editing image:', err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // The preview frame has the proportions of the straightened image
+  const isQuarterTurned = recipe.rotate % 180 !== 0;
+  const turnedWidth = isQuarterTurned ? naturalSize.height : naturalSize.width;
+  const turnedHeight = isQuarterTurned ? naturalSize.width : naturalSize.height;
+  const scale = straightenScale(turnedWidth, turnedHeight, recipe.straighten);
+  const frameWidth = turnedWidth * scale;
+  const frameHeight = turnedHeight * scale;
+  const isLandscape = frameWidth >= frameHeight;
+
+  return (
+    <div className="space-y-4" data-testid="image-adjust-panel">
+      {error && <ErrorMessage error={error} retry={() => setError(null)} />}
+
+      <div className="flex items-center justify-center h-64 bg-gray-100 dark:bg-gray-900 rounded-md">
+        {sourceUrl ? (
+          <div
+            className="relative overflow-hidden"
+            style={{
+              aspectRatio: `${frameWidth} / ${frameHeight}`,
+              width: isLandscape ? '100%' : 'auto',
+              height: isLandscape ? 'auto' : '100%',
+            }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={sourceUrl}
+              alt={image.title}
+              onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="absolute max-w-none"
+              style={{
+                width: `${(naturalSize.width / frameWidth) * 100}%`,
+                height: `${(naturalSize.height / frameHeight) * 100}%`,
+                left: '50%',
+                top: '50%',
+                // Transforms apply right to left: rotate first, then flip, as on the server
+                transform: `translate(-50%, -50%) scale(${recipe.flipHorizontal ? -1 : 1}, ${recipe.flipVertical ? -1 : 1}) rotate(${recipe.rotate + recipe.straighten}deg)`,
+                filter: `brightness(${Math.pow(2, recipe.exposure)}) contrast(${1 + recipe.contrast})`,
+              }}
+            />
+            {/* Dim what the crop will remove */}
+            <div
+              className="absolute border border-white pointer-events-none"
+              style={{
+                left: percent(insets.left),
+                top: percent(insets.top),
+                right: percent(insets.right),
+                bottom: percent(insets.bottom),
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+            />
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => update({ rotate: ((recipe.rotate + 270) % 360) as ImageEditRecipe['rotate'] })}>
+          Rotate left
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => update({ rotate: ((recipe.rotate + 90) % 360) as ImageEditRecipe['rotate'] })}>
+          Rotate right
+        </Button>
+        <Button variant={recipe.flipHorizontal ? 'secondary' : 'outline'} size="sm" onClick={() => update({ flipHorizontal: !recipe.flipHorizontal })}>
+          Flip horizontal
+        </Button>
+        <Button variant={recipe.flipVertical ? 'secondary' : 'outline'} size="sm" onClick={() => update({ flipVertical: !recipe.flipVertical })}>
+          Flip vertical
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Slider label="Straighten" value={recipe.straighten} min={-45} max={45} step={0.5} format={(value) => `${value}°`} onChange={(straighten) => update({ straighten })} />
+        <Slider label="Exposure" value={recipe.exposure} min={-2} max={2} step={0.1} format={signed(1)} onChange={(exposure) => update({ exposure })} />
+        <Slider label="Contrast" value={recipe.contrast} min={-1} max={1} step={0.05} format={signed(2)} onChange={(contrast) => update({ contrast })} />
+        <Slider label="Crop left" value={insets.left} min={0} max={MAX_INSET} step={0.01} format={percent} onChange={(value) => updateInset('left', value)} />
+        <Slider label="Crop right" value={insets.right} min={0} max={MAX_INSET} step={0.01} format={percent} onChange={(value) => updateInset('right', value)} />
+        <Slider label="Crop top" value={insets.top} min={0} max={MAX_INSET} step={0.01} format={percent} onChange={(value) => updateInset('top', value)} />
+        <Slider label="Crop bottom" value={insets.bottom} min={0} max={MAX_INSET} step={0.01} format={percent} onChange={(value) => updateInset('bottom', value)} />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={reset} disabled={isApplying}>
+          Reset
+        </Button>
+        <Button onClick={apply} isLoading={isApplying} disabled={!sourceUrl} data-testid="apply-image-edits">
+          Apply edits
+        </Button>
+      </div>
+    </div>
+  );
+}
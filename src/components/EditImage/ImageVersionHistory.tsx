@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { ImageService } from '@/lib/services/imageService';
+import type { ImageVersion } from '@/lib/schemas';
+import logger from '@/lib/logger';
+
+interface ImageVersionHistoryProps {
+  imageId: string;
+  /** Called with the version that became current after a revert */
+  onReverted: (version: ImageVersion) => void;
+}
+
+function versionLabel(version: ImageVersion): string {
+  return version.version === 1 ? 'Original' : `Version ${version.version}`;
+}
+
+/**
+ * Lists an image's versions, compares one with the current version side by side,
+ * and makes any of them current again
+ */
+export function ImageVersionHistory({ imageId, onReverted }: ImageVersionHistoryProps) {
+  const [versions, setVersions] = useState<ImageVersion[] | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    ImageService.getImageVersions(imageId, controller.signal)
+      .then(setVersions)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+          logger.error('Error loading image versions:', err);
+        }
+      });
+    return () => controller.abort();
+  }, [imageId]);
+
+  const revert = async (version: ImageVersion) => {
+    setRevertingId(version.id);
+    setError(null);
+    try {
+      const reverted = await ImageService.revertImageVersion(imageId, version.id);
+      setVersions(previous => previous?.map(entry => ({ ...entry, isCurrent: entry.id === reverted.id })) ?? null);
+      setCompareId(null);
+      onReverted(reverted);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      logger.error('Error reverting image version:', err);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (error && !versions) {
+    return <ErrorMessage error={error} />;
+  }
+  if (!versions) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+  if (versions.length === 0) {
+    return <p className="text-center py-8 text-gray-500 dark:text-gray-400">This image hasn&apos;t been edited yet.</p>;
+  }
+
+  const current = versions.find(version => version.isCurrent);
+  const compared = versions.find(version => version.id === compareId);
+
+  return (
+    <div className="space-y-4" data-testid="image-version-history">
+      {error && <ErrorMessage error={error} retry={() => setError(null)} />}
+
+      {compared && current && (
+        <div className="grid grid-cols-2 gap-2" data-testid="image-version-compare">
+          {[compared, current].map(version => (
+            <figure key={version.id} className="text-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={version.url} alt={versionLabel(version)} className="w-full h-40 object-contain bg-gray-100 dark:bg-gray-900 rounded-md" />
+              <figcaption className="text-xs mt-1">
+                {versionLabel(version)}{version.isCurrent && ' (current)'}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-64 overflow-y-auto">
+        {[...versions].reverse().map(version => (
+          <li key={version.id} className="flex items-center gap-3 py-2" data-testid="image-version">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={version.url} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+            <div className="flex-1 min-w-0 text-sm">
+              <p className="font-medium">
+                {versionLabel(version)}
+                {version.isCurrent && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">Current</span>
+                )}
+              </p>
+              <p className="text-gray-500 dark:text-gray-400">
+                {version.createdAt.toLocaleString()}
+                {version.width && version.height && <> · {version.width}×{version.height}</>}
+              </p>
+            </div>
+            {!version.isCurrent && (
+              <>
+                <Button
+                  variant={compareId === version.id ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                >
+                  Compare
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revert(version)}
+                  isLoading={revertingId === version.id}
+                  disabled={!!revertingId}
+                  data-testid="revert-image-version"
+                >
+                  Revert
+                </Button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
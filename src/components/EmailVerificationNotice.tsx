@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { z } from 'zod';
+import { Button } from '@/components/ui/Button';
+import { fetchApi } from '@/lib/apiUtils';
+
+interface EmailVerificationNoticeProps {
+  email: string;
+  // Whether unverified users are kept from making galleries public
+  requiredToPublish: boolean;
+}
+
+/**
+ * Profile banner for users who haven't verified their address, with a resend button
+ */
+export function EmailVerificationNotice({ email, requiredToPublish }: EmailVerificationNoticeProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  const resend = async () => {
+    setIsSending(true);
+    setStatus(null);
+    try {
+      const { message } = await fetchApi('/api/auth/resend-verification', { method: 'POST' }, z.object({ message: z.string() }));
+      setStatus({ message, isError: false });
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to send verification email', isError: true });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/30 p-4 mb-6" data-testid="email-verification-notice">
+      <p className="text-sm text-yellow-800 dark:text-yellow-200">
+        Please verify {email} using the link we emailed you.
+        {requiredToPublish && ' Until then, your galleries stay private.'}
+      </p>
+      <div className="mt-3 flex items-center gap-3">
+        <Button type="button" size="sm" variant="outline" onClick={resend} isLoading={isSending} data-testid="resend-verification">
+          Resend link
+        </Button>
+        {status && (
+          <span className={`text-sm ${status.isError ? 'text-red-600' : 'text-green-700 dark:text-green-400'}`}>
+            {status.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
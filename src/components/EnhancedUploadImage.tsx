@@ -10,9 +10,12 @@ import { DragDropZone } from '@/components/ui/DragDropZone';
 import { TagInput } from '@/components/ui/TagInput';
 import { ProgressBar } from '@/components/ui/ProgressBar';
 import { FileValidator } from '@/lib/utils/fileValidation';
-import { ImageService } from '@/lib/services/imageService';
+import { ImageService, type DuplicateMatch, type Image as LibraryImage } from '@/lib/services/imageService';
+import { UploadSessionService, getFileFingerprint, type PendingUpload } from '@/lib/services/uploadSessionService';
+import { computeFileHashes } from '@/lib/utils/imageHashing';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
 import logger from '@/lib/logger';
-import { SparklesIcon } from '@heroicons/react/24/outline';
+import { SparklesIcon, DocumentDuplicateIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 
 interface FileWithPreview {
   file: File;
@@ -21,17 +24,29 @@ interface FileWithPreview {
   description: string;
   tags: string[];
   id: string;
+  // Images already in the library that match this file
+  duplicates?: DuplicateMatch[];
+  // The user chose to upload despite the duplicate warning
+  keepDuplicate?: boolean;
+  // Bytes already on the server from an interrupted upload of this file
+  resumeFrom?: number;
 }
 
+const hasUnresolvedDuplicates = (fileData: FileWithPreview) =>
+  !!fileData.duplicates?.length && !fileData.keepDuplicate;
+
 export function EnhancedUploadImage() {
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
   const [currentUploadIndex, setCurrentUploadIndex] = useState(-1);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [commonTags, setCommonTags] = useState<string[]>([]);
   const [existingTags, setExistingTags] = useState<string[]>([]);
+  const [stripGps, setStripGps] = useState(false);
   
   const router = useRouter();
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -53,6 +68,21 @@ export function EnhancedUploadImage() {
     loadExistingTags();
   }, []);
 
+  // Uploads interrupted by a reload can be resumed by selecting the same files again
+  useEffect(() => {
+    setPendingUploads(UploadSessionService.getPendingUploads());
+  }, []);
+
+  const discardPendingUpload = useCallback(async (pending: PendingUpload) => {
+    UploadSessionService.removePendingUpload(pending.fingerprint);
+    setPendingUploads(UploadSessionService.getPendingUploads());
+    try {
+      await UploadSessionService.cancelSession(pending.sessionId);
+    } catch (cancelError) {
+      logger.warn('Failed to cancel upload session:', cancelError);
+    }
+  }, []);
+
   // Cleanup function
   useEffect(() => {
     return () => {
@@ -66,12 +96,29 @@ export function EnhancedUploadImage() {
     };
   }, [files]);
 
+  // Warn about files that are already in the library, before anything is uploaded
+  const checkForDuplicates = useCallback(async (newFiles: FileWithPreview[]) => {
+    for (const fileData of newFiles) {
+      try {
+        const hashes = await computeFileHashes(fileData.file);
+        const duplicates = await ImageService.checkDuplicates(hashes);
+        if (duplicates.length > 0) {
+          setFiles(prevFiles =>
+            prevFiles.map(file => file.id === fileData.id ? { ...file, duplicates } : file)
+          );
+        }
+      } catch (checkError) {
+        // Duplicate detection is advisory; never block uploads because of it
+        logger.warn(`Duplicate check failed for ${fileData.file.name}:`, checkError);
+      }
+    }
+  }, []);
+
   const handleFilesSelected = useCallback((fileList: FileList) => {
     setError(null);
     
     // Validate files
     const validation = FileValidator.validateFiles(fileList, {
-      maxFileSize: 4 * 1024 * 1024, // 4MB
       maxFiles: 5, // Allow multiple files
       allowedTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif']
     });
@@ -90,14 +137,17 @@ export function EnhancedUploadImage() {
     const newFiles: FileWithPreview[] = Array.from(fileList).map(file => {
       const preview = URL.createObjectURL(file);
       const title = FileValidator.extractFilenameTitle(file.name);
+      // Restore the details entered before an interrupted upload
+      const pending = UploadSessionService.findPendingUpload(file);
       
       return {
         file,
         preview,
-        title,
-        description: '',
-        tags: [...commonTags], // Apply common tags
-        id: `${Date.now()}-${Math.random()}`
+        title: pending?.title || title,
+        description: pending?.description || '',
+        tags: pending?.tags.length ? pending.tags : [...commonTags], // Apply common tags
+        id: `${Date.now()}-${Math.random()}`,
+        resumeFrom: pending?.receivedBytes
       };
     });
 
@@ -110,7 +160,9 @@ export function EnhancedUploadImage() {
         return [...prevFiles, ...newFiles];
       }
     });
-  }, [commonTags]);
+
+    checkForDuplicates(newFiles);
+  }, [commonTags, checkForDuplicates]);
 
   const removeFile = useCallback((id: string) => {
     setFiles(prevFiles => {
@@ -130,6 +182,32 @@ export function EnhancedUploadImage() {
     );
   }, []);
 
+  const keepDuplicate = useCallback((id: string) => {
+    setFiles(prevFiles =>
+      prevFiles.map(file => file.id === id ? { ...file, keepDuplicate: true } : file)
+    );
+  }, []);
+
+  // Use the existing image instead of uploading a copy, carrying over any new tags
+  const linkExistingImage = useCallback(async (fileData: FileWithPreview, existing: LibraryImage) => {
+    setError(null);
+    try {
+      const currentTags = existing.tags?.map(tag => tag.name) ?? [];
+      const newTags = fileData.tags.filter(tag => !currentTags.includes(tag));
+      if (newTags.length > 0) {
+        await ImageService.updateImage(existing.id, {
+          id: existing.id,
+          tags: [...currentTags, ...newTags]
+        });
+      }
+      removeFile(fileData.id);
+      setSuccessMessage(`Kept existing image "${existing.title}"`);
+    } catch (linkError) {
+      logger.error('Failed to link existing image:', linkError);
+      setError(linkError instanceof Error ? linkError : new Error(String(linkError)));
+    }
+  }, [removeFile]);
+
   const applyCommonTags = useCallback(() => {
     if (commonTags.length === 0) return;
     
@@ -141,6 +219,10 @@ export function EnhancedUploadImage() {
     );
   }, [commonTags]);
 
+  const totalBytes = files.reduce((sum, fileData) => sum + fileData.file.size, 0);
+  const selectedFingerprints = new Set(files.map(fileData => getFileFingerprint(fileData.file)));
+  const unresumedUploads = pendingUploads.filter(pending => !selectedFingerprints.has(pending.fingerprint));
+
   const handleUpload = async () => {
     if (files.length === 0) {
       setError(new Error('Please select at least one file'));
@@ -154,9 +236,15 @@ export function EnhancedUploadImage() {
       return;
     }
 
+    if (files.some(hasUnresolvedDuplicates)) {
+      setError(new Error('Some images are already in your library. Choose whether to upload them anyway.'));
+      return;
+    }
+
     setIsUploading(true);
     setError(null);
     setUploadProgress(0);
+    setUploadedBytes(0);
 
     // Create abort controller
     const abortController = new AbortController();
@@ -164,6 +252,7 @@ export function EnhancedUploadImage() {
 
     const uploadedImages: string[] = [];
     let failedUploads = 0;
+    let finishedBytes = 0;
 
     try {
       for (let i = 0; i < files.length; i++) {
@@ -171,30 +260,40 @@ export function EnhancedUploadImage() {
         const fileData = files[i];
 
         try {
-          // Update progress
-          const baseProgress = (i / files.length) * 100;
-          setUploadProgress(baseProgress);
-
-          // Upload using ImageService
-          const uploadedImage = await ImageService.uploadAndCreateImage(
-            fileData.file,
-            {
+          // Send the file in resumable chunks, reporting bytes confirmed by the server
+          const uploaded = await UploadSessionService.uploadFile(fileData.file, {
+            stripGps,
+            details: {
               title: fileData.title,
-              description: fileData.description || undefined,
+              description: fileData.description,
               tags: fileData.tags
             },
-            abortController.signal
-          );
+            signal: abortController.signal,
+            onProgress: (bytes) => {
+              setUploadedBytes(finishedBytes + bytes);
+              setUploadProgress(((finishedBytes + bytes) / totalBytes) * 100);
+            }
+          });
+
+          const uploadedImage = await ImageService.createImage({
+            title: fileData.title,
+            description: fileData.description || undefined,
+            tags: fileData.tags,
+            url: uploaded.url
+          }, abortController.signal);
 
           uploadedImages.push(uploadedImage.title);
-          
-          // Update progress
-          setUploadProgress(((i + 1) / files.length) * 100);
-          
         } catch (uploadError) {
+          if (uploadError instanceof DOMException && uploadError.name === 'AbortError') {
+            throw uploadError;
+          }
           logger.error(`Failed to upload ${fileData.title}:`, uploadError);
           failedUploads++;
         }
+
+        finishedBytes += fileData.file.size;
+        setUploadedBytes(finishedBytes);
+        setUploadProgress((finishedBytes / totalBytes) * 100);
       }
 
       // Show results
@@ -233,14 +332,18 @@ export function EnhancedUploadImage() {
         setError(errorObj);
       }
     } finally {
+      setPendingUploads(UploadSessionService.getPendingUploads());
       setIsUploading(false);
       setUploadProgress(0);
+      setUploadedBytes(0);
       setCurrentUploadIndex(-1);
       abortControllerRef.current = null;
     }
   };
 
-  const canUpload = files.length > 0 && files.every(file => file.title.trim()) && !isUploading;
+  const canUpload = files.length > 0
+    && files.every(file => file.title.trim() && !hasUnresolvedDuplicates(file))
+    && !isUploading;
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -271,6 +374,42 @@ export function EnhancedUploadImage() {
         />
       )}
 
+      {/* Interrupted uploads that haven't been re-selected yet */}
+      {unresumedUploads.length > 0 && !isUploading && (
+        <div
+          className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20"
+          data-testid="pending-uploads"
+        >
+          <div className="flex items-center gap-2 mb-2 text-blue-900 dark:text-blue-100">
+            <ArrowPathIcon className="w-5 h-5" />
+            <h3 className="font-medium">Interrupted uploads</h3>
+          </div>
+          <p className="text-sm text-blue-800 dark:text-blue-200 mb-3">
+            Select the same files again to continue where you left off.
+          </p>
+          <ul className="space-y-2">
+            {unresumedUploads.map(pending => (
+                <li key={pending.fingerprint} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="truncate">
+                    {pending.fileName}{' '}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      ({FileValidator.formatFileSize(pending.receivedBytes)} of {FileValidator.formatFileSize(pending.size)})
+                    </span>
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => discardPendingUpload(pending)}
+                  >
+                    Discard
+                  </Button>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+
       {/* Step 1: File Selection */}
       <Card>
         <CardHeader>
@@ -332,6 +471,24 @@ export function EnhancedUploadImage() {
               </div>
             )}
 
+            {/* Privacy options */}
+            <label className="flex items-start gap-3 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={stripGps}
+                onChange={(e) => setStripGps(e.target.checked)}
+                disabled={isUploading}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300"
+                data-testid="strip-gps-checkbox"
+              />
+              <span>
+                <span className="font-medium">Remove location data</span>
+                <span className="block text-gray-500 dark:text-gray-400">
+                  Strips GPS coordinates from the stored files. Camera details are kept.
+                </span>
+              </span>
+            </label>
+
             {/* Individual file details */}
             <div className="space-y-4">
               {files.map((fileData, index) => (
@@ -359,6 +516,11 @@ export function EnhancedUploadImage() {
                       <div className="flex justify-between items-start">
                         <h4 className="font-medium text-gray-900 dark:text-gray-100">
                           Image {index + 1}
+                          {!!fileData.resumeFrom && (
+                            <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">
+                              Resumes at {Math.round((fileData.resumeFrom / fileData.file.size) * 100)}%
+                            </span>
+                          )}
                         </h4>
                         <Button
                           type="button"
@@ -410,6 +572,18 @@ export function EnhancedUploadImage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Duplicate warning */}
+                  {hasUnresolvedDuplicates(fileData) && fileData.duplicates && (
+                    <DuplicateWarning
+                      preview={fileData.preview}
+                      match={fileData.duplicates[0]}
+                      otherMatches={fileData.duplicates.length - 1}
+                      disabled={isUploading}
+                      onKeep={() => keepDuplicate(fileData.id)}
+                      onUseExisting={() => linkExistingImage(fileData, fileData.duplicates![0].image)}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -423,7 +597,7 @@ export function EnhancedUploadImage() {
           <CardContent className="pt-6">
             <ProgressBar
               progress={uploadProgress}
-              label={`Uploading ${currentUploadIndex + 1} of ${files.length}`}
+              label={`Uploading ${currentUploadIndex + 1} of ${files.length} · ${FileValidator.formatFileSize(uploadedBytes)} of ${FileValidator.formatFileSize(totalBytes)}`}
               showPercentage
             />
           </CardContent>
@@ -461,3 +635,78 @@ export function EnhancedUploadImage() {
     </div>
   );
 }
+
+interface DuplicateWarningProps {
+  preview: string;
+  match: DuplicateMatch;
+  otherMatches: number;
+  disabled: boolean;
+  onKeep: () => void;
+  onUseExisting: () => void;
+}
+
+function DuplicateWarning({ preview, match, otherMatches, disabled, onKeep, onUseExisting }: DuplicateWarningProps) {
+  return (
+    <div
+      className="mt-4 rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-700 dark:bg-amber-900/20"
+      data-testid="duplicate-warning"
+    >
+      <div className="flex items-center gap-2 mb-3 text-amber-800 dark:text-amber-200">
+        <DocumentDuplicateIcon className="w-5 h-5" />
+        <p className="text-sm font-medium">
+          {match.exact
+            ? 'This exact file is already in your library'
+            : 'A very similar image is already in your library'}
+          {otherMatches > 0 && ` (and ${otherMatches} more)`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <figure>
+          <div className="relative aspect-square rounded-md overflow-hidden bg-gray-100 dark:bg-gray-800">
+            <Image src={preview} alt="New upload" fill className="object-contain" />
+          </div>
+          <figcaption className="mt-1 text-xs text-gray-600 dark:text-gray-400">New upload</figcaption>
+        </figure>
+        <figure>
+          <div className="relative aspect-square rounded-md overflow-hidden bg-gray-100 dark:bg-gray-800">
+            <ResponsiveImage
+              src={match.image.url}
+              variants={match.image.variants}
+              alt={match.image.title}
+              fill
+              sizes="(max-width: 768px) 50vw, 400px"
+              className="object-contain"
+            />
+          </div>
+          <figcaption className="mt-1 text-xs text-gray-600 dark:text-gray-400 truncate">
+            Existing: {match.image.title}
+          </figcaption>
+        </figure>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onKeep}
+          disabled={disabled}
+          data-testid="duplicate-upload-anyway"
+        >
+          Upload Anyway
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          size="sm"
+          onClick={onUseExisting}
+          disabled={disabled}
+          data-testid="duplicate-use-existing"
+        >
+          Use Existing Instead
+        </Button>
+      </div>
+    </div>
+  );
+}
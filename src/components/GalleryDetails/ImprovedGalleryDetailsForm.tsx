@@ -4,6 +4,8 @@ import React, { useState } from 'react';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { UseFormRegister, FieldErrors } from 'react-hook-form';
+import { SmartGalleryRulesEditor } from '@/components/GalleryDetails/SmartGalleryRulesEditor';
+import type { SmartGalleryRules } from '@/lib/schemas';
 
 interface ImprovedGalleryDetailsFormProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -18,6 +20,11 @@ interface ImprovedGalleryDetailsFormProps {
   isSubmitting?: boolean;
   children?: React.ReactNode;
   className?: string;
+  // Smart gallery rules; the section is only shown when onSmartRulesChange is given
+  smartRules?: SmartGalleryRules | null;
+  onSmartRulesChange?: (rules: SmartGalleryRules | null) => void;
+  // Hidden for gallery members, since only the owner decides who can see a gallery
+  showVisibility?: boolean;
 }
 
 /**
@@ -41,6 +48,9 @@ export function ImprovedGalleryDetailsForm({
   isSubmitting = false,
   children,
   className = '',
+  smartRules = null,
+  onSmartRulesChange,
+  showVisibility = true,
 }: ImprovedGalleryDetailsFormProps) {
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [selectedDisplayMode, setSelectedDisplayMode] = useState('grid');
@@ -121,6 +131,7 @@ export function ImprovedGalleryDetailsForm({
             </p>
           </div>
 
+          {showVisibility && (
           <div>
             <label className="flex items-center gap-3 cursor-pointer p-3 border rounded-lg hover:bg-gray-50 transition-colors">
               <input
@@ -141,8 +152,55 @@ export function ImprovedGalleryDetailsForm({
               </div>
             </label>
           </div>
+          )}
         </div>
 
+        {/* Manual or rule-based contents */}
+        {onSmartRulesChange && (
+          <div className="border-t pt-6" data-testid="gallery-contents-section">
+            <h3 className="font-medium mb-3">What goes in this gallery?</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+              <label className={`cursor-pointer p-3 border-2 rounded-lg transition-all ${
+                !smartRules ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+              }`}>
+                <input
+                  type="radio"
+                  name="galleryContents"
+                  checked={!smartRules}
+                  onChange={() => onSmartRulesChange(null)}
+                  className="sr-only"
+                  data-testid="gallery-contents-manual"
+                />
+                <span className="font-medium">Photos I pick</span>
+                <p className="text-xs text-gray-500 mt-1">Add and arrange images by hand</p>
+              </label>
+              <label className={`cursor-pointer p-3 border-2 rounded-lg transition-all ${
+                smartRules ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+              }`}>
+                <input
+                  type="radio"
+                  name="galleryContents"
+                  checked={!!smartRules}
+                  onChange={() => onSmartRulesChange(smartRules ?? {})}
+                  className="sr-only"
+                  data-testid="gallery-contents-smart"
+                />
+                <span className="font-medium">Photos matching rules</span>
+                <p className="text-xs text-gray-500 mt-1">
+                  New uploads that match appear automatically; images you add stay pinned at the top
+                </p>
+              </label>
+            </div>
+            {smartRules && (
+              <SmartGalleryRulesEditor
+                rules={smartRules}
+                onChange={onSmartRulesChange}
+                disabled={isSubmitting}
+              />
+            )}
+          </div>
+        )}
+
         {/* Step 2: How should your gallery look? */}
         <div className="border-t pt-6">
           <div className="flex items-center gap-2 mb-4">
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { TagInput } from '@/components/ui/TagInput';
+import { ImageService } from '@/lib/services/imageService';
+import type { SmartGalleryRules } from '@/lib/schemas';
+import { normalizeTagName } from '@/lib/utils/tagPaths';
+import logger from '@/lib/logger';
+
+interface SmartGalleryRulesEditorProps {
+  rules: SmartGalleryRules;
+  onChange: (rules: SmartGalleryRules) => void;
+  disabled?: boolean;
+}
+
+// Delay before re-counting matches while rules are being edited
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600';
+
+/**
+ * Rule builder for smart galleries
+ * Edits the saved search and shows how many of the user's images currently match it.
+ */
+export function SmartGalleryRulesEditor({ rules, onChange, disabled = false }: SmartGalleryRulesEditorProps) {
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    ImageService.getTags(controller.signal)
+      .then(tags => setTagSuggestions(tags.map(tag => tag.name)))
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          logger.warn('Unable to load tag suggestions:', error);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Preview the rules with the same filters the image search uses
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      ImageService.getImages({
+        searchQuery: rules.query,
+        tags: rules.allTags,
+        anyTags: rules.anyTags,
+        excludeTags: rules.excludeTags,
+        camera: rules.camera,
+        from: rules.from,
+        to: rules.to,
+        limit: 1,
+      }, controller.signal)
+        .then(result => setMatchCount(result.meta.total))
+        .catch(error => {
+          if (!controller.signal.aborted) {
+            logger.warn('Unable to preview smart gallery rules:', error);
+            setMatchCount(null);
+          }
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [rules.query, rules.allTags, rules.anyTags, rules.excludeTags, rules.camera, rules.from, rules.to]);
+
+  // Drop empty values so stored rules only contain what was set
+  const update = <K extends keyof SmartGalleryRules>(key: K, value: SmartGalleryRules[K]) => {
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    const next = { ...rules };
+    if (isEmpty) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const tagField = (key: 'allTags' | 'anyTags' | 'excludeTags', label: string, hint: string) => (
+    <div data-testid={`smart-rules-${key}`}>
+      <label className="block mb-1 text-sm font-medium">{label}</label>
+      <TagInput
+        value={rules[key] ?? []}
+        onChange={(tags) => update(key, tags.map(normalizeTagName).filter(Boolean))}
+        suggestions={tagSuggestions}
+        placeholder="Type a tag and press Enter"
+        maxTags={20}
+        disabled={disabled}
+      />
+      <p className="mt-1 text-xs text-gray-500">{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4" data-testid="smart-rules-editor">
+      <div>
+        <label htmlFor="smart-rules-query" className="block mb-1 text-sm font-medium">
+          Text search
+        </label>
+        <input
+          id="smart-rules-query"
+          type="text"
+          value={rules.query ?? ''}
+          onChange={(e) => update('query', e.target.value)}
+          className={inputClassName}
+          placeholder='e.g. sunset "golden gate" -bridge'
+          disabled={disabled}
+          data-testid="smart-rules-query"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Matches titles, descriptions, tags and camera details
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {tagField('allTags', 'Has all of these tags', 'Nested tags count too')}
+        {tagField('anyTags', 'Has any of these tags', 'At least one must match')}
+        {tagField('excludeTags', 'Has none of these tags', 'Images with these are left out')}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <label htmlFor="smart-rules-camera" className="block mb-1 text-sm font-medium">
+            Camera model
+          </label>
+          <input
+            id="smart-rules-camera"
+            type="text"
+            value={rules.camera ?? ''}
+            onChange={(e) => update('camera', e.target.value)}
+            className={inputClassName}
+            placeholder="e.g. X-T4"
+            disabled={disabled}
+            data-testid="smart-rules-camera"
+          />
+        </div>
+        <div>
+          <label htmlFor="smart-rules-from" className="block mb-1 text-sm font-medium">
+            Taken from
+          </label>
+          <input
+            id="smart-rules-from"
+            type="date"
+            value={rules.from ?? ''}
+            onChange={(e) => update('from', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+            data-testid="smart-rules-from"
+          />
+        </div>
+        <div>
+          <label htmlFor="smart-rules-to" className="block mb-1 text-sm font-medium">
+            Taken until
+          </label>
+          <input
+            id="smart-rules-to"
+            type="date"
+            value={rules.to ?? ''}
+            onChange={(e) => update('to', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+            data-testid="smart-rules-to"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <label htmlFor="smart-rules-sort" className="block mb-1 text-sm font-medium">
+            Order by
+          </label>
+          <select
+            id="smart-rules-sort"
+            value={rules.sortBy ?? 'capturedAt'}
+            onChange={(e) => update('sortBy', e.target.value as SmartGalleryRules['sortBy'])}
+            className={inputClassName}
+            disabled={disabled}
+            data-testid="smart-rules-sort"
+          >
+            <option value="capturedAt">Date taken</option>
+            <option value="createdAt">Date uploaded</option>
+            <option value="title">Title</option>
+            <option value="relevance">Best match (text search)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="smart-rules-direction" className="block mb-1 text-sm font-medium">
+            Direction
+          </label>
+          <select
+            id="smart-rules-direction"
+            value={rules.sortDir ?? 'desc'}
+            onChange={(e) => update('sortDir', e.target.value as SmartGalleryRules['sortDir'])}
+            className={inputClassName}
+            disabled={disabled || rules.sortBy === 'relevance'}
+            data-testid="smart-rules-direction"
+          >
+            <option value="desc">Newest / Z first</option>
+            <option value="asc">Oldest / A first</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="smart-rules-limit" className="block mb-1 text-sm font-medium">
+            Maximum images
+          </label>
+          <input
+            id="smart-rules-limit"
+            type="number"
+            min={1}
+            value={rules.limit ?? ''}
+            onChange={(e) => update('limit', e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined)}
+            className={inputClassName}
+            placeholder="No limit"
+            disabled={disabled}
+            data-testid="smart-rules-limit"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-300" data-testid="smart-rules-preview">
+        {matchCount === null
+          ? 'Checking which images match...'
+          : `${matchCount} ${matchCount === 1 ? 'image currently matches' : 'images currently match'}${rules.limit && matchCount > rules.limit ? ` (showing the first ${rules.limit})` : ''}`}
+      </p>
+    </div>
+  );
+}
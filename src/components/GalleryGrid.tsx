@@ -3,43 +3,72 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
-import { useState, useEffect, useCallback } from 'react';
-import { EmptyState } from './StatusMessages';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { EmptyState, ErrorMessage } from './StatusMessages';
 import { ErrorBoundary } from './ErrorBoundary';
 import { Card, CardImage, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
-import { z } from 'zod';
-import { GallerySchema } from '@/lib/schemas';
-
-// Define type for the gallery grid displays
-type GalleryGridItem = z.infer<typeof GallerySchema> & {
-  images: Array<{
-    id: string;
-    image: {
-      id: string;
-      url: string;
-      title: string;
-    };
-  }>;
-};
+import { GalleryService, type GallerySummaryPage } from '@/lib/services/galleryService';
+import type { GalleryListScope, GallerySort, GallerySummary } from '@/lib/schemas';
 
 interface GalleryGridProps {
-  galleries: GalleryGridItem[];
+  // The first page, loaded by the server
+  initialPage: GallerySummaryPage;
+  // What the following pages are loaded with
+  scope: GalleryListScope;
+  sort: GallerySort;
   isOwner: boolean;
 }
 
-export function GalleryGrid({ galleries, isOwner }: GalleryGridProps) {
+/**
+ * Grid of gallery cards that loads further pages as it's scrolled to the bottom
+ */
+export function GalleryGrid({ initialPage, scope, sort, isOwner }: GalleryGridProps) {
   const [isInitializing, setIsInitializing] = useState(true);
-  const [galleriesData, setGalleriesData] = useState<GalleryGridItem[]>(galleries);
+  const [galleriesData, setGalleriesData] = useState<GallerySummary[]>(initialPage.data);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialPage.meta.nextCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
   
-  // Set initial data
+  // Set initial data, again whenever the server sends a new first page (e.g. another sort)
   useEffect(() => {
-    setGalleriesData(galleries);
+    setGalleriesData(initialPage.data);
+    setNextCursor(initialPage.meta.nextCursor);
+    setLoadError(null);
     // Small delay to prevent flickering of skeleton loader on fast page loads
     const timer = setTimeout(() => setIsInitializing(false), 100);
     return () => clearTimeout(timer);
-  }, [galleries]);
+  }, [initialPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    setLoadError(null);
+    try {
+      const page = await GalleryService.getGallerySummaries({ scope, sort, cursor: nextCursor });
+      setGalleriesData(current => [...current, ...page.data]);
+      setNextCursor(page.meta.nextCursor);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load more galleries');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, scope, sort]);
+
+  // Load the next page once the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadError || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadError, loadMore]);
 
   const handleEditGallery = useCallback((e: React.MouseEvent, galleryId: string) => {
     e.preventDefault(); // Prevent navigation to gallery view
@@ -98,19 +127,10 @@ export function GalleryGrid({ galleries, isOwner }: GalleryGridProps) {
             <Card hover>
               <CardImage>
                 <div className="aspect-[4/3] relative">
-                  {gallery.images.length > 0 && gallery.coverImageId ? (
-                    // Show the cover image if set
-                    <Image
-                      src={gallery.images.find(img => img.image.id === gallery.coverImageId)?.image.url || 
-                          gallery.images[0].image.url}
-                      alt={gallery.title}
-                      fill
-                      className="object-cover group-hover:opacity-90 transition-opacity"
-                    />
-                  ) : gallery.images.length > 0 ? (
-                    // Show the first image if no cover is set
+                  {gallery.coverImage ? (
+                    // The cover image, or the first image if no cover is set
                     <Image
-                      src={gallery.images[0].image.url}
+                      src={gallery.coverImage.thumbnailUrl}
                       alt={gallery.title}
                       fill
                       className="object-cover group-hover:opacity-90 transition-opacity"
@@ -132,8 +152,13 @@ export function GalleryGrid({ galleries, isOwner }: GalleryGridProps) {
                       Private
                     </span>
                   )}
+                  {gallery.smartRules && (
+                    <span className="bg-purple-500 text-white text-xs px-2 py-1 rounded" title="Images are picked by saved rules">
+                      Smart
+                    </span>
+                  )}
                   <span className="bg-gray-900 bg-opacity-75 text-white text-xs px-2 py-1 rounded">
-                    {gallery.images.length} {gallery.images.length === 1 ? 'image' : 'images'}
+                    {gallery.imageCount} {gallery.imageCount === 1 ? 'image' : 'images'}
                   </span>
                 </div>
                 {isOwner && (
@@ -163,6 +188,14 @@ export function GalleryGrid({ galleries, isOwner }: GalleryGridProps) {
           </Link>
         ))}
       </div>
+      {nextCursor && (
+        <div ref={sentinelRef} className="mt-8 flex flex-col items-center gap-2" data-testid="gallery-grid-more">
+          {loadError && <ErrorMessage error={loadError} />}
+          <Button variant="outline" onClick={loadMore} isLoading={isLoadingMore}>
+            {loadError ? 'Try again' : 'Load more'}
+          </Button>
+        </div>
+      )}
     </ErrorBoundary>
   );
 }
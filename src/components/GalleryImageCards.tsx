@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import Image from 'next/image';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { FullImageInGallery } from '@/lib/schemas'; // Import from schemas.ts instead of types.ts
@@ -13,6 +13,9 @@ export interface GalleryCardProps {
   onDescriptionChange: (id: string, description: string) => void;
   setCoverImage: (id: string) => void;
   onRemoveImage: (id: string) => void;
+  // Members without the right role can't arrange/describe images or remove this one
+  canArrange?: boolean;
+  canRemove?: boolean;
 }
 
 // Base sortable card
@@ -20,6 +23,7 @@ function BaseSortableCard(props: {
   galleryImage: FullImageInGallery; // Changed to FullImageInGallery
   isCover: boolean;
   className?: string;
+  disabled?: boolean;
   children: (data: {
     attributes: ReturnType<typeof useSortable>['attributes'];
     listeners: ReturnType<typeof useSortable>['listeners'];
@@ -37,6 +41,7 @@ function BaseSortableCard(props: {
     isOver,
   } = useSortable({
     id: props.galleryImage.id,
+    disabled: props.disabled,
   });
   
   const style = {
@@ -70,7 +75,7 @@ function BaseSortableCard(props: {
 }
 
 // Reusable component for image tags
-function GalleryImageTags({ tags, max = 3 }: { tags: PrismaTag[]; max?: number }) { // Changed to PrismaTag[]
+function GalleryImageTags({ tags, max = 3 }: { tags: Pick<PrismaTag, 'id' | 'name'>[]; max?: number }) { // Changed to PrismaTag[]
   if (!tags.length) return null;
   return (
     <div className="flex flex-wrap gap-1 mb-2 max-h-8 overflow-y-auto">
@@ -101,14 +106,15 @@ function GalleryImageActionButtons({
   compact = false,
 }: {
   isCover: boolean;
-  onSetCover: () => void;
-  onRemove: () => void;
+  onSetCover?: () => void;
+  onRemove?: () => void;
   coverLabel?: string;
   removeLabel?: string;
   compact?: boolean;
 }) {
   return (
     <div className={`flex ${compact ? 'justify-between items-center' : 'space-x-2'}`}>
+      {onSetCover && (
       <button
         type="button"
         onClick={onSetCover}
@@ -127,6 +133,8 @@ function GalleryImageActionButtons({
       >
         {isCover ? 'Cover ✓' : coverLabel}
       </button>
+      )}
+      {onRemove && (
       <button
         type="button"
         onClick={onRemove}
@@ -144,6 +152,7 @@ function GalleryImageActionButtons({
           </svg>
         )}
       </button>
+      )}
     </div>
   );
 }
@@ -156,7 +165,7 @@ export function CompactGalleryCard(props: GalleryCardProps) {
     isDragging: boolean;
     isOver: boolean;
   }) => {
-    const { galleryImage, isCover, onDescriptionChange, setCoverImage, onRemoveImage } = props; // galleryImage is FullImageInGallery
+    const { galleryImage, isCover, onDescriptionChange, setCoverImage, onRemoveImage, canArrange = true, canRemove = true } = props; // galleryImage is FullImageInGallery
     const { attributes, listeners } = data;
     
     return (
@@ -165,10 +174,12 @@ export function CompactGalleryCard(props: GalleryCardProps) {
         <div className="relative flex-shrink-0 w-1/3 mr-4">
           {/* Image */}
           <div className="relative aspect-square overflow-hidden rounded-lg">
-            <Image
+            <ResponsiveImage
               src={galleryImage.image.url}
+              variants={galleryImage.image.variants}
               alt={galleryImage.image.title}
               fill
+              sizes="(max-width: 768px) 33vw, 15vw"
               className="object-cover"
             />
             
@@ -186,6 +197,7 @@ export function CompactGalleryCard(props: GalleryCardProps) {
           </div>
           
           {/* Drag handle */}
+          {canArrange && (
           <div 
             className="absolute -top-2 -left-2 w-8 h-8 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center cursor-move shadow-md border border-gray-300 dark:border-gray-600"
             {...attributes} 
@@ -196,6 +208,7 @@ export function CompactGalleryCard(props: GalleryCardProps) {
               <circle cx="16" cy="6" r="1"/><circle cx="16" cy="12" r="1"/><circle cx="16" cy="18" r="1"/>
             </svg>
           </div>
+          )}
         </div>
         
         {/* Right section with details */}
@@ -213,6 +226,7 @@ export function CompactGalleryCard(props: GalleryCardProps) {
               className="w-full px-2 py-1 border text-xs rounded-md dark:bg-gray-700 dark:border-gray-600"
               placeholder="Add image description..."
               rows={3}
+              readOnly={!canArrange}
             />
           </div>
           
@@ -222,8 +236,8 @@ export function CompactGalleryCard(props: GalleryCardProps) {
           {/* Action buttons */}
           <GalleryImageActionButtons
             isCover={isCover}
-            onSetCover={() => setCoverImage(galleryImage.image.id)}
-            onRemove={() => onRemoveImage(galleryImage.id)}
+            onSetCover={canArrange ? () => setCoverImage(galleryImage.image.id) : undefined}
+            onRemove={canRemove ? () => onRemoveImage(galleryImage.id) : undefined}
             compact
           />
         </div>
@@ -235,6 +249,7 @@ export function CompactGalleryCard(props: GalleryCardProps) {
     <BaseSortableCard
       galleryImage={props.galleryImage}
       isCover={props.isCover}
+      disabled={props.canArrange === false}
       className="transition-all duration-200 hover:shadow-md"
     >
       {renderContent}
@@ -250,7 +265,7 @@ export function GridGalleryCard(props: GalleryCardProps) {
     isDragging: boolean;
     isOver: boolean;
   }) => {
-    const { galleryImage, isCover, onDescriptionChange, setCoverImage, onRemoveImage } = props; // galleryImage is FullImageInGallery
+    const { galleryImage, isCover, onDescriptionChange, setCoverImage, onRemoveImage, canArrange = true, canRemove = true } = props; // galleryImage is FullImageInGallery
     const { attributes, listeners } = data;
     
     return (
@@ -258,10 +273,12 @@ export function GridGalleryCard(props: GalleryCardProps) {
         {/* Image container with large aspect ratio */}
         <div className="relative aspect-[4/3] overflow-hidden group">
           {/* Main image */}
-          <Image
+          <ResponsiveImage
             src={galleryImage.image.url}
+            variants={galleryImage.image.variants}
             alt={galleryImage.image.title}
             fill
+            sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
             className="object-cover transition-transform duration-500 group-hover:scale-105"
           />
           
@@ -284,13 +301,14 @@ export function GridGalleryCard(props: GalleryCardProps) {
           <div className="absolute bottom-0 left-0 right-0 p-3 translate-y-full group-hover:translate-y-0 transition-transform duration-300 ease-out flex justify-between items-center">
             <GalleryImageActionButtons
               isCover={isCover}
-              onSetCover={() => setCoverImage(galleryImage.image.id)}
-              onRemove={() => onRemoveImage(galleryImage.id)}
+              onSetCover={canArrange ? () => setCoverImage(galleryImage.image.id) : undefined}
+              onRemove={canRemove ? () => onRemoveImage(galleryImage.id) : undefined}
               coverLabel="Set Cover"
               removeLabel=""
               compact={false}
             />
             {/* Drag handle */}
+            {canArrange && (
             <button
               type="button"
               {...attributes}
@@ -302,6 +320,7 @@ export function GridGalleryCard(props: GalleryCardProps) {
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 5v14m-7-7h14" />
               </svg>
             </button>
+            )}
           </div>
         </div>
         
@@ -322,6 +341,7 @@ export function GridGalleryCard(props: GalleryCardProps) {
             onChange={(e) => onDescriptionChange(galleryImage.id, e.target.value)}
             className="w-full px-2 py-1.5 text-xs rounded border border-gray-200 dark:border-gray-600 dark:bg-gray-700"
             placeholder="Add quick description..."
+            readOnly={!canArrange}
             data-testid="gallery-image-description-input"
           />
         </div>
@@ -333,6 +353,7 @@ export function GridGalleryCard(props: GalleryCardProps) {
     <BaseSortableCard
       galleryImage={props.galleryImage}
       isCover={props.isCover}
+      disabled={props.canArrange === false}
       className="transition-all duration-300 hover:shadow-lg relative overflow-hidden"
     >
       {renderContent}
@@ -361,10 +382,12 @@ export function DragOverlayCard({ image }: { image: FullImageInGallery }) { // C
 
       <div className="flex gap-2">
         <div className="w-16 h-16 relative flex-shrink-0 rounded-md overflow-hidden">
-          <Image
+          <ResponsiveImage
             src={image.image.url}
+            variants={image.image.variants}
             alt={image.image.title}
             fill
+            sizes="64px"
             className="object-cover"
           />
         </div>
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { EnvelopeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { ErrorMessage, LoadingSpinner } from '@/components/StatusMessages';
+import { GalleryService } from '@/lib/services/galleryService';
+import { GalleryRoleSchema, type GalleryMembersResponse, type GalleryRole } from '@/lib/schemas';
+import { GALLERY_ROLE_DESCRIPTIONS, GALLERY_ROLE_LABELS } from '@/lib/utils/galleryRoles';
+import logger from '@/lib/logger';
+
+interface GalleryMembersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  galleryId: string;
+}
+
+const ROLES = GalleryRoleSchema.options;
+
+function RoleSelect({ value, onChange, id, testId }: { value: GalleryRole; onChange: (role: GalleryRole) => void; id?: string; testId?: string }) {
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value as GalleryRole)}
+      className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-2 text-sm"
+      data-testid={testId}
+    >
+      {ROLES.map(role => (
+        <option key={role} value={role} title={GALLERY_ROLE_DESCRIPTIONS[role]}>
+          {GALLERY_ROLE_LABELS[role]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Dialog for inviting people to a gallery by email and managing their roles
+ */
+export function GalleryMembersDialog({ isOpen, onClose, galleryId }: GalleryMembersDialogProps) {
+  const [data, setData] = useState<GalleryMembersResponse | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<GalleryRole>('VIEWER');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    GalleryService.getMembers(galleryId)
+      .then(setData)
+      .catch(err => {
+        logger.error('Failed to load gallery members:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load members');
+        setData({ members: [], invitations: [] });
+      });
+  }, [isOpen, galleryId]);
+
+  if (!isOpen) return null;
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    setError(null);
+    try {
+      const invitation = await GalleryService.inviteMember(galleryId, { email, role });
+      setData(current => current && {
+        ...current,
+        // A new invitation replaces any pending one for the same address
+        invitations: [...current.invitations.filter(item => item.email !== invitation.email), invitation],
+      });
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: GalleryRole) => {
+    setError(null);
+    try {
+      const updated = await GalleryService.updateMember(galleryId, memberId, newRole);
+      setData(current => current && {
+        ...current,
+        members: current.members.map(member => (member.id === memberId ? updated : member)),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    setError(null);
+    try {
+      await GalleryService.removeMember(galleryId, memberId);
+      setData(current => current && {
+        ...current,
+        members: current.members.filter(member => member.id !== memberId),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  const handleCancelInvitation = async (invitationId: string) => {
+    setError(null);
+    try {
+      await GalleryService.cancelInvitation(galleryId, invitationId);
+      setData(current => current && {
+        ...current,
+        invitations: current.invitations.filter(invitation => invitation.id !== invitationId),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel invitation');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" data-testid="gallery-members-dialog">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Members</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Members can see this gallery while it&apos;s private. Contributors and editors can also add images.
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <form
+            className="flex flex-wrap items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email) handleInvite();
+            }}
+          >
+            <div className="flex-1 min-w-[12rem]">
+              <label htmlFor="member-email" className="block mb-1 text-sm font-medium">Email</label>
+              <Input id="member-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="name@example.com" data-testid="member-invite-email" />
+            </div>
+            <div>
+              <label htmlFor="member-role" className="block mb-1 text-sm font-medium">Role</label>
+              <RoleSelect id="member-role" value={role} onChange={setRole} testId="member-invite-role" />
+            </div>
+            <Button type="submit" disabled={!email} isLoading={isInviting} icon={<EnvelopeIcon className="w-4 h-4" />} data-testid="member-invite-submit">
+              Invite
+            </Button>
+          </form>
+
+          {error && <ErrorMessage error={error} />}
+
+          {data === null ? (
+            <LoadingSpinner text="Loading members..." />
+          ) : (
+            <>
+              {data.members.length === 0 ? (
+                <p className="text-sm text-gray-500">No members yet.</p>
+              ) : (
+                <ul className="divide-y dark:divide-gray-700" data-testid="member-list">
+                  {data.members.map(member => (
+                    <li key={member.id} className="py-3 flex items-center gap-3" data-testid="member-item">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{member.user.name || member.user.email}</p>
+                        {member.user.name && <p className="text-xs text-gray-500 truncate">{member.user.email}</p>}
+                      </div>
+                      <RoleSelect value={member.role} onChange={(newRole) => handleRoleChange(member.id, newRole)} testId="member-role" />
+                      <Button type="button" size="sm" variant="danger" onClick={() => handleRemove(member.id)} data-testid="member-remove">
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {data.invitations.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold mb-2">Pending invitations</h4>
+                  <ul className="divide-y dark:divide-gray-700" data-testid="invitation-list">
+                    {data.invitations.map(invitation => (
+                      <li key={invitation.id} className="py-2 flex items-center gap-3" data-testid="invitation-item">
+                        <div className="flex-1 min-w-0">
+                          <p className="truncate">{invitation.email}</p>
+                          <p className="text-xs text-gray-500">
+                            {GALLERY_ROLE_LABELS[invitation.role]} · expires {invitation.expiresAt.toLocaleString()}
+                          </p>
+                        </div>
+                        <Button type="button" size="sm" variant="outline" onClick={() => handleCancelInvitation(invitation.id)} data-testid="invitation-cancel">
+                          Cancel
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
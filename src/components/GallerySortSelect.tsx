@@ -0,0 +1,40 @@
+'use client';
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { GallerySortSchema, type GallerySort } from '@/lib/schemas';
+
+const SORT_LABELS: Record<GallerySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  updated: 'Recently updated',
+  title: 'Title (A–Z)',
+};
+
+/**
+ * Sort order for gallery listings, kept in the `sort` query parameter
+ */
+export function GallerySortSelect({ value }: { value: GallerySort }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const handleChange = (sort: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('sort', sort);
+    router.push(`${pathname}?${params.toString()}`);
+  };
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => handleChange(e.target.value)}
+      aria-label="Sort galleries"
+      className="px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+      data-testid="gallery-sort"
+    >
+      {GallerySortSchema.options.map(option => (
+        <option key={option} value={option}>{SORT_LABELS[option]}</option>
+      ))}
+    </select>
+  );
+}
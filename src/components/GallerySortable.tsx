@@ -36,6 +36,9 @@ interface GallerySortableProps {
   onDescriptionChange: (id: string, description: string) => void;
   onSetCoverImage: (id: string) => void;
   onRemoveImage: (id: string) => void;
+  // For gallery members: whether images can be arranged and which ones they can remove
+  canArrange?: boolean;
+  canRemoveImage?: (galleryImage: FullImageInGallery) => boolean;
 }
 
 export function GallerySortable({ 
@@ -45,7 +48,9 @@ export function GallerySortable({
   onImagesReordered,
   onDescriptionChange,
   onSetCoverImage,
-  onRemoveImage 
+  onRemoveImage,
+  canArrange = true,
+  canRemoveImage = () => true
 }: GallerySortableProps) {
   const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -162,7 +167,9 @@ export function GallerySortable({
               isCover: coverImageId === galleryImage.image.id,
               onDescriptionChange,
               setCoverImage: onSetCoverImage,
-              onRemoveImage
+              onRemoveImage,
+              canArrange,
+              canRemove: canRemoveImage(galleryImage)
             };
             
             switch (viewMode) {
@@ -1,39 +1,55 @@
 'use client';
 
-import Image from 'next/image';
-import { useMemo, useState, useEffect, useCallback, memo } from 'react';
+import { useMemo, useState, useEffect, useCallback, useRef, memo, type MouseEvent, type PointerEvent } from 'react';
 import { EditImageDialog } from '@/components/EditImage';
+import { BulkImageActionBar } from '@/components/BulkImageActionBar';
 import { EmptyState, SkeletonLoader } from '@/components/StatusMessages';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { ImageViewer } from '@/components/ui/ImageViewer';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
 import logger from '@/lib/logger';
 import { ImageTags } from '@/components/ui/ImageTags';
-import { PencilIcon, EyeIcon } from '@heroicons/react/24/outline';
-import { type Image as ImageType } from '@/lib/services/imageService';
+import { PencilIcon, EyeIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { type Image as ImageType, type BulkImageOutcome } from '@/lib/services/imageService';
+import type { BulkImageAction } from '@/lib/schemas';
+import { getRangeIds, rectFromPoints, rectsIntersect, toggleId, type SelectionRect } from '@/lib/utils/multiSelect';
 
 interface ImageGridProps {
   images: ImageType[];
   'data-testid'?: string;
 }
 
+// Pointer travel (px) before a press on the grid turns into a lasso drag
+const LASSO_THRESHOLD = 5;
+
 // Memoized image card component to prevent unnecessary re-renders
 const ImageCard = memo(({ 
   image, 
+  isSelected,
   onEdit, 
-  onView 
+  onActivate,
+  onToggleSelect
 }: { 
   image: ImageType; 
+  isSelected: boolean;
   onEdit: (image: ImageType) => void;
-  onView: (image: ImageType) => void;
+  onActivate: (image: ImageType, event: MouseEvent) => void;
+  onToggleSelect: (image: ImageType, event: MouseEvent) => void;
 }) => {
   return (
-    <div className="group relative bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden gallery-image" data-testid="gallery-image">
+    <div
+      className={`group relative bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden gallery-image ${isSelected ? 'ring-4 ring-blue-500' : ''}`}
+      data-testid="gallery-image"
+      data-image-id={image.id}
+      aria-selected={isSelected}
+    >
       <div 
         className="aspect-square relative cursor-pointer"
-        onClick={() => onView(image)}
+        onClick={(e) => onActivate(image, e)}
       >
-        <Image
+        <ResponsiveImage
           src={image.url}
+          variants={image.variants}
           alt={image.title}
           fill
           sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
@@ -48,7 +64,7 @@ const ImageCard = memo(({
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onView(image);
+              onActivate(image, e);
             }}
             className="opacity-0 group-hover:opacity-100 bg-white/90 hover:bg-white text-gray-700 p-3 rounded-full transition-all duration-200 transform scale-95 hover:scale-100"
             title="View full image"
@@ -68,6 +84,25 @@ const ImageCard = memo(({
           </button>
         </div>
         
+        {/* Selection toggle; shift-click selects a range */}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSelect(image, e);
+          }}
+          className={`absolute top-2 left-2 w-7 h-7 rounded-full border-2 flex items-center justify-center transition-opacity duration-200 ${
+            isSelected
+              ? 'bg-blue-500 border-blue-500 text-white opacity-100'
+              : 'bg-black/30 border-white text-transparent opacity-0 group-hover:opacity-100 focus:opacity-100'
+          }`}
+          title={isSelected ? 'Deselect image' : 'Select image'}
+          aria-pressed={isSelected}
+          data-testid={`select-image-${image.id}`}
+        >
+          <CheckIcon className="w-4 h-4" />
+        </button>
+
         {/* Click indicator */}
         <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
           <div className="bg-black/50 text-white text-xs px-2 py-1 rounded-full">
@@ -77,7 +112,7 @@ const ImageCard = memo(({
       </div>
       
       <div className="p-4">
-        <h3 className="font-semibold mb-2 cursor-pointer hover:text-blue-600 transition-colors" onClick={() => onView(image)}>
+        <h3 className="font-semibold mb-2 cursor-pointer hover:text-blue-600 transition-colors" onClick={(e) => onActivate(image, e)}>
           {image.title}
         </h3>
         {image.description && (
@@ -124,6 +159,13 @@ export function ImageGrid({ images, 'data-testid': testId }: ImageGridProps) {
   const [selectedTag, setSelectedTag] = useState('');
   const [isInitializing, setIsInitializing] = useState(true);
   const [imagesData, setImagesData] = useState<ImageType[]>(images);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [lassoRect, setLassoRect] = useState<SelectionRect | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Last image clicked without shift, where shift-click ranges start
+  const anchorIdRef = useRef<string | null>(null);
+  // Set when a lasso drag ends so the click that follows doesn't open the viewer
+  const suppressClickRef = useRef(false);
 
   // Set initial data
   useEffect(() => {
@@ -153,15 +195,107 @@ export function ImageGrid({ images, 'data-testid': testId }: ImageGridProps) {
     );
   }, [imagesData, selectedTag]);
 
+  // Drop selected images that are no longer loaded
+  useEffect(() => {
+    setSelectedIds(current => {
+      const loaded = new Set(imagesData.map(image => image.id));
+      const kept = [...current].filter(id => loaded.has(id));
+      return kept.length === current.size ? current : new Set(kept);
+    });
+  }, [imagesData]);
+
   // Memoized callbacks
   const handleImageEdit = useCallback((image: ImageType) => {
     setEditingImage(image);
   }, []);
 
-  const handleImageView = useCallback((image: ImageType) => {
+  const handleToggleSelect = useCallback((image: ImageType, event: MouseEvent) => {
+    if (event.shiftKey) {
+      const range = getRangeIds(filteredImages.map(img => img.id), anchorIdRef.current, image.id);
+      setSelectedIds(current => new Set([...current, ...range]));
+    } else {
+      anchorIdRef.current = image.id;
+      setSelectedIds(current => toggleId(current, image.id));
+    }
+  }, [filteredImages]);
+
+  // Plain clicks open the viewer; while selecting (or with shift/ctrl/cmd) they change the selection
+  const handleImageActivate = useCallback((image: ImageType, event: MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (event.shiftKey || event.metaKey || event.ctrlKey || selectedIds.size > 0) {
+      handleToggleSelect(image, event);
+      return;
+    }
     setViewingImageId(image.id);
+  }, [selectedIds, handleToggleSelect]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorIdRef.current = null;
   }, []);
 
+  // Drag on the grid to lasso images; holding shift adds to the current selection
+  const handleLassoStart = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || (event.target as HTMLElement).closest('button, a, input, select, textarea')) {
+      return;
+    }
+    const start = { x: event.clientX, y: event.clientY };
+    const base = event.shiftKey ? new Set(selectedIds) : new Set<string>();
+    let dragging = false;
+
+    const onMove = (e: globalThis.PointerEvent) => {
+      const current = { x: e.clientX, y: e.clientY };
+      if (!dragging && Math.hypot(current.x - start.x, current.y - start.y) < LASSO_THRESHOLD) {
+        return;
+      }
+      dragging = true;
+      const rect = rectFromPoints(start, current);
+      setLassoRect(rect);
+      const hits = Array.from(gridRef.current?.querySelectorAll<HTMLElement>('[data-image-id]') ?? [])
+        .filter(card => rectsIntersect(rect, card.getBoundingClientRect()))
+        .map(card => card.dataset.imageId as string);
+      setSelectedIds(new Set([...base, ...hits]));
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      if (dragging) {
+        suppressClickRef.current = true;
+        // Pointer-up outside a card doesn't fire a click, so don't swallow the next real one
+        setTimeout(() => { suppressClickRef.current = false; }, 0);
+      }
+      setLassoRect(null);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  }, [selectedIds]);
+
+  // Escape clears the selection
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !viewingImageId && !editingImage) {
+        clearSelection();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedIds, viewingImageId, editingImage, clearSelection]);
+
+  const handleBulkComplete = useCallback((outcome: BulkImageOutcome, operation: BulkImageAction) => {
+    if (operation.action === 'delete') {
+      const deleted = new Set(outcome.results.filter(result => result.status === 'deleted').map(result => result.id));
+      setImagesData(current => current.filter(img => !deleted.has(img.id)));
+      clearSelection();
+      return;
+    }
+    const updated = new Map(outcome.images.map(img => [img.id, img]));
+    setImagesData(current => current.map(img => (updated.has(img.id) ? { ...img, ...updated.get(img.id) } : img)));
+  }, [clearSelection]);
+
   const handleImageUpdated = useCallback((deletedImageId?: string) => {
     setEditingImage(null);
     
@@ -224,18 +358,47 @@ export function ImageGrid({ images, 'data-testid': testId }: ImageGridProps) {
             description="Try selecting a different tag filter."
           />
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6" data-testid={testId}>
+          <div
+            ref={gridRef}
+            className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 select-none"
+            onPointerDown={handleLassoStart}
+            onDragStart={(e) => e.preventDefault()}
+            data-testid={testId}
+          >
             {filteredImages.map(image => (
               <ImageCard 
                 key={image.id} 
                 image={image} 
+                isSelected={selectedIds.has(image.id)}
                 onEdit={handleImageEdit}
-                onView={handleImageView}
+                onActivate={handleImageActivate}
+                onToggleSelect={handleToggleSelect}
               />
             ))}
           </div>
         )}
 
+        {lassoRect && (
+          <div
+            className="fixed z-30 border border-blue-500 bg-blue-500/10 pointer-events-none"
+            style={{
+              left: lassoRect.left,
+              top: lassoRect.top,
+              width: lassoRect.right - lassoRect.left,
+              height: lassoRect.bottom - lassoRect.top,
+            }}
+            data-testid="selection-lasso"
+          />
+        )}
+
+        {selectedIds.size > 0 && (
+          <BulkImageActionBar
+            selectedIds={[...selectedIds]}
+            onClearSelection={clearSelection}
+            onComplete={handleBulkComplete}
+          />
+        )}
+
         {editingImage && (
           <EditImageDialog
             image={editingImage}
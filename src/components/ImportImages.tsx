@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ImportService } from '@/lib/services/importService';
+import type { ImportJob, ImportJobStatus, ImportOptions, ImportSource } from '@/lib/schemas';
+
+export const IMPORT_STATUS_LABELS: Record<ImportJobStatus, string> = {
+  AWAITING_UPLOAD: 'Waiting for upload',
+  RECEIVING_UPLOAD: 'Receiving archive',
+  PENDING: 'Queued',
+  RUNNING: 'Importing',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
+
+const OPTION_LABELS: Record<keyof ImportOptions, string> = {
+  folderGalleries: 'Put images into galleries named after their folder, unless the manifest names one',
+  skipDuplicates: 'Skip images already in my library',
+  stripGps: 'Remove location data from the images',
+};
+
+interface ImportImagesProps {
+  canImportFolders?: boolean;
+}
+
+/**
+ * Start a bulk import from a ZIP archive (or, for admins, a server folder) and list recent imports
+ */
+export function ImportImages({ canImportFolders = false }: ImportImagesProps) {
+  const router = useRouter();
+  const [source, setSource] = useState<ImportSource>('zip');
+  const [archive, setArchive] = useState<File | null>(null);
+  const [folder, setFolder] = useState('');
+  const [options, setOptions] = useState<ImportOptions>({ folderGalleries: true, skipDuplicates: true, stripGps: false });
+  const [progress, setProgress] = useState('');
+  const [error, setError] = useState('');
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    ImportService.getJobs(controller.signal)
+      .then(setJobs)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load imports');
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  const start = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      if (source === 'folder') {
+        setProgress('Starting import...');
+        const job = await ImportService.create({ source: 'folder', folder: folder.trim(), options });
+        router.push(`/images/import/${job.id}`);
+        return;
+      }
+      if (!archive) {
+        return;
+      }
+      setProgress('Starting import...');
+      const job = await ImportService.create({ source: 'zip', options });
+      setProgress(`Uploading ${archive.name}...`);
+      try {
+        await ImportService.uploadArchive(job.id, archive);
+      } catch (uploadError) {
+        // Don't leave a job waiting for an archive that isn't coming
+        await ImportService.cancel(job.id).catch(() => undefined);
+        throw uploadError;
+      }
+      router.push(`/images/import/${job.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start import');
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={start} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+        <h1 className="text-3xl font-bold">Import images</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Import a whole library at once from a ZIP archive. Add a <code>manifest.csv</code> (columns: file, title,
+          description, tags, gallery, caption) or <code>manifest.json</code> at the top of the archive to set titles,
+          tags and galleries; a gallery&apos;s exported ZIP imports as is.
+        </p>
+
+        {canImportFolders && (
+          <div className="flex gap-2" role="tablist">
+            {(['zip', 'folder'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                role="tab"
+                aria-selected={source === option}
+                onClick={() => setSource(option)}
+                className={`px-4 py-2 rounded-md ${source === option ? 'bg-blue-600 text-white' : 'border border-gray-300 dark:border-gray-600'}`}
+              >
+                {option === 'zip' ? 'ZIP archive' : 'Server folder'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {source === 'zip' ? (
+          <div>
+            <label htmlFor="import-archive" className="block text-sm font-medium mb-1">ZIP archive</label>
+            <input
+              id="import-archive"
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setArchive(e.target.files?.[0] ?? null)}
+              data-testid="import-archive-input"
+            />
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="import-folder" className="block text-sm font-medium mb-1">Folder, relative to the import folder</label>
+            <input
+              id="import-folder"
+              type="text"
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              placeholder="e.g. old-gallery/2019"
+              className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+              data-testid="import-folder-input"
+            />
+          </div>
+        )}
+
+        <fieldset className="space-y-2">
+          {(Object.keys(OPTION_LABELS) as (keyof ImportOptions)[]).map(option => (
+            <label key={option} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options[option]}
+                onChange={(e) => setOptions(previous => ({ ...previous, [option]: e.target.checked }))}
+              />
+              {OPTION_LABELS[option]}
+            </label>
+          ))}
+        </fieldset>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-4 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!!progress || (source === 'zip' ? !archive : !folder.trim())}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+          data-testid="start-import"
+        >
+          {progress || 'Start import'}
+        </button>
+      </form>
+
+      {jobs.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-4">Recent imports</h2>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {jobs.map(job => (
+              <li key={job.id} className="flex flex-wrap items-center justify-between gap-2 py-3" data-testid="import-job">
+                <Link href={`/images/import/${job.id}`} className="text-blue-600 hover:underline">
+                  {job.folder ?? 'ZIP archive'} · {job.createdAt.toLocaleString()}
+                </Link>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {IMPORT_STATUS_LABELS[job.status]} · {job.importedCount} imported, {job.skippedCount} skipped, {job.failedCount} failed
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -44,6 +44,13 @@ export function Navigation() {
                 >
                   My Galleries
                 </Link>
+                <Link
+                  href="/trash"
+                  className={getLinkClassName('/trash')}
+                  data-testid="nav-trash-link"
+                >
+                  Trash
+                </Link>
               </div>
             )}
           </div>
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { signIn } from 'next-auth/react';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { Button } from '@/components/ui/Button';
+import { UserService } from '@/lib/services/userService';
+import type { ConnectedAccounts as ConnectedAccountsData } from '@/lib/schemas';
+
+interface ConnectedAccountsProps {
+  initialData: ConnectedAccountsData;
+}
+
+/**
+ * Lists the enabled OAuth providers with buttons to connect or disconnect each one
+ * Connecting signs in with the provider while logged in, which links it to this account.
+ */
+export function ConnectedAccounts({ initialData }: ConnectedAccountsProps) {
+  const [linked, setLinked] = useState(initialData.linked);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Without a password, the last connected account is the only way to sign in
+  const canUnlink = initialData.hasPassword || linked.length > 1;
+
+  const handleUnlink = async (provider: string) => {
+    setPending(provider);
+    setError('');
+    try {
+      await UserService.unlinkAccount(provider);
+      setLinked(current => current.filter(id => id !== provider));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect account');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (initialData.providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="connected-accounts">
+      <div>
+        <h3 className="text-lg font-semibold">Connected accounts</h3>
+        <p className="text-sm text-gray-500">Sign in with these services instead of your password.</p>
+      </div>
+      {error && <ErrorMessage error={error} />}
+      <ul className="divide-y dark:divide-gray-700">
+        {initialData.providers.map(provider => {
+          const isLinked = linked.includes(provider.id);
+          return (
+            <li key={provider.id} className="py-2 flex items-center justify-between" data-testid={`connected-account-${provider.id}`}>
+              <span>
+                {provider.name}
+                {isLinked && <span className="ml-2 text-xs text-green-600 dark:text-green-400">Connected</span>}
+              </span>
+              {isLinked ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleUnlink(provider.id)}
+                  disabled={!canUnlink}
+                  isLoading={pending === provider.id}
+                  title={canUnlink ? undefined : 'Connect another account or set a password first'}
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                <Button type="button" size="sm" variant="outline" onClick={() => signIn(provider.id, { callbackUrl: '/profile' })}>
+                  Connect
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
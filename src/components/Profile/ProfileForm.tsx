@@ -17,6 +17,8 @@ import { ErrorMessage, SuccessMessage } from '@/components/StatusMessages';
 import { UserService, type User } from '@/lib/services/userService';
 import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { ConnectedAccounts } from '@/components/Profile/ConnectedAccounts';
+import type { ConnectedAccounts as ConnectedAccountsData } from '@/lib/schemas';
 import logger from '@/lib/logger';
 
 // Define augmented User type with profile fields
@@ -55,6 +57,8 @@ export interface ProfileFormProps {
   onProfileUpdate?: (user: User) => void;
   className?: string;
   readOnly?: boolean;
+  // Sign-in providers to connect or disconnect; the section is hidden without them
+  connectedAccounts?: ConnectedAccountsData;
 }
 
 // Type for form errors
@@ -67,7 +71,7 @@ type FormErrors = {
 /**
  * ProfileForm component for updating user profiles
  */
-export function ProfileForm({ initialData, onProfileUpdate, className = '', readOnly = false }: ProfileFormProps) {
+export function ProfileForm({ initialData, onProfileUpdate, className = '', readOnly = false, connectedAccounts }: ProfileFormProps) {
   // State for form handling
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState('');
@@ -485,6 +489,12 @@ export function ProfileForm({ initialData, onProfileUpdate, className = '', read
           </Button>
         </CardFooter>
       </form>
+
+      {connectedAccounts && connectedAccounts.providers.length > 0 && (
+        <CardContent className="border-t dark:border-gray-700">
+          <ConnectedAccounts initialData={connectedAccounts} />
+        </CardContent>
+      )}
     </Card>
   );
 }
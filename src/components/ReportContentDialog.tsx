@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { ErrorMessage, SuccessMessage } from '@/components/StatusMessages';
+import { ModerationService } from '@/lib/services/moderationService';
+import { ReportReasonSchema, type ReportReason } from '@/lib/schemas';
+
+interface ReportContentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  galleryId: string;
+  // The image being reported; the gallery itself when omitted
+  image?: { id: string; title: string };
+}
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: 'Spam or advertising',
+  INAPPROPRIATE: 'Inappropriate content',
+  COPYRIGHT: 'Copyright infringement',
+  HARASSMENT: 'Harassment or hate',
+  OTHER: 'Something else',
+};
+
+/**
+ * Dialog for reporting a public gallery, or an image in it, to the moderators
+ */
+export function ReportContentDialog({ isOpen, onClose, galleryId, image }: ReportContentDialogProps) {
+  const [reason, setReason] = useState<ReportReason>('INAPPROPRIATE');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setDetails('');
+    setError(null);
+    setIsSubmitted(false);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await ModerationService.report(image
+        ? { targetType: 'image', targetId: image.id, galleryId, reason, details: details.trim() || undefined }
+        : { targetType: 'gallery', targetId: galleryId, reason, details: details.trim() || undefined });
+      setIsSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" data-testid="report-content-dialog">
+      <Card className="w-full max-w-md">
+        <CardHeader className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">
+            {image ? `Report "${image.title}"` : 'Report gallery'}
+          </h3>
+          <button type="button" onClick={handleClose} className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {isSubmitted ? (
+            <>
+              <SuccessMessage message="Thanks. A moderator will review your report." />
+              <div className="flex justify-end">
+                <Button onClick={handleClose}>Done</Button>
+              </div>
+            </>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSubmit();
+              }}
+            >
+              <div>
+                <label htmlFor="report-reason" className="block mb-1 text-sm font-medium">Reason</label>
+                <select
+                  id="report-reason"
+                  value={reason}
+                  onChange={(e) => setReason(ReportReasonSchema.parse(e.target.value))}
+                  className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+                  data-testid="report-reason"
+                >
+                  {ReportReasonSchema.options.map(option => (
+                    <option key={option} value={option}>{REASON_LABELS[option]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="report-details" className="block mb-1 text-sm font-medium">Details (optional)</label>
+                <textarea
+                  id="report-details"
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+                  data-testid="report-details"
+                />
+              </div>
+              {error && <ErrorMessage error={error} />}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleClose}>Cancel</Button>
+                <Button type="submit" variant="danger" isLoading={isSubmitting} data-testid="submit-report">
+                  Submit report
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
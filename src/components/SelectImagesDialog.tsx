@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/Button';
 import { Card, CardContent } from '@/components/ui/Card';
 import { ImageTags } from '@/components/ui/ImageTags';
 import { SelectableImageResponseSchema, SelectableImage } from '@/lib/utils/imageSelectionMappers';
+import type { FacetCount } from '@/lib/schemas';
 
 interface SelectImagesDialogProps {
   isOpen: boolean;
@@ -26,6 +27,7 @@ export function SelectImagesDialog({
   existingImageIds = [] 
 }: SelectImagesDialogProps) {
   const [images, setImages] = useState<SelectableImage[]>([]);
+  const [tagFacets, setTagFacets] = useState<FacetCount[] | null>(null);
   const [inputValue, setInputValue] = useState(''); // Track the input value for immediate UI updates
   const [currentSearchQuery, setCurrentSearchQuery] = useState('');
   const [currentTagFilter, setCurrentTagFilter] = useState('');
@@ -90,6 +92,7 @@ export function SelectImagesDialog({
       
       // Update state with the validated data
       setImages(validData.data.data);
+      setTagFacets(validData.data.facets?.tags ?? null);
       setIsLoading(false);
     } 
     catch (err: unknown) {
@@ -238,14 +241,17 @@ export function SelectImagesDialog({
     }
   }, [selectedImages, isOpen]);
 
-  // Extract all tags from images for filter options
-  const allTags = Array.from(
-    new Set(
-      images
-        .flatMap(img => img.tags || [])
-        .map(tag => tag.name)
-    )
-  ).sort();
+  // Tag filter options: server facets cover every match, not just the loaded images
+  const tagCounts = new Map(tagFacets?.map(facet => [facet.value, facet.count]));
+  const allTags = tagFacets
+    ? tagFacets.map(facet => facet.value)
+    : Array.from(
+        new Set(
+          images
+            .flatMap(img => img.tags || [])
+            .map(tag => tag.name)
+        )
+      ).sort();
   
   // Filter out images that are already in the gallery
   const availableImages = images.filter(img => !existingImageIds.includes(img.id));
@@ -313,6 +319,7 @@ export function SelectImagesDialog({
                 data-testid={`select-images-tag-filter-${tag}`}
               >
                 {tag}
+                {tagCounts.has(tag) && <span className="ml-1 opacity-70">{tagCounts.get(tag)}</span>}
               </button>
             ))}
           </div>
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LinkIcon, LockClosedIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { ErrorMessage, LoadingSpinner } from '@/components/StatusMessages';
+import { GalleryService } from '@/lib/services/galleryService';
+import type { GalleryShareLink, ShareLinkStatus } from '@/lib/schemas';
+import logger from '@/lib/logger';
+
+interface ShareGalleryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  galleryId: string;
+}
+
+const STATUS_LABELS: Record<ShareLinkStatus, { text: string; className: string }> = {
+  active: { text: 'Active', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  expired: { text: 'Expired', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200' },
+  revoked: { text: 'Revoked', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  exhausted: { text: 'View limit reached', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+};
+
+function absoluteUrl(path: string): string {
+  return typeof window === 'undefined' ? path : `${window.location.origin}${path}`;
+}
+
+/**
+ * Dialog for creating and revoking unlisted share links to a gallery
+ * Links work without logging in and can have a password, an expiry date and a view limit.
+ */
+export function ShareGalleryDialog({ isOpen, onClose, galleryId }: ShareGalleryDialogProps) {
+  const [links, setLinks] = useState<GalleryShareLink[] | null>(null);
+  const [label, setLabel] = useState('');
+  const [password, setPassword] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    GalleryService.getShareLinks(galleryId)
+      .then(setLinks)
+      .catch(err => {
+        logger.error('Failed to load share links:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load share links');
+        setLinks([]);
+      });
+  }, [isOpen, galleryId]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const link = await GalleryService.createShareLink(galleryId, {
+        label: label.trim() || null,
+        password: password || null,
+        // datetime-local values are in the visitor's time zone
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        maxViews: maxViews ? parseInt(maxViews, 10) : null,
+      });
+      setLinks(current => [link, ...(current ?? [])]);
+      setLabel('');
+      setPassword('');
+      setExpiresAt('');
+      setMaxViews('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setError(null);
+    try {
+      const revoked = await GalleryService.revokeShareLink(galleryId, linkId);
+      setLinks(current => current?.map(link => (link.id === linkId ? revoked : link)) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
+  const handleCopy = async (link: GalleryShareLink) => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(link.url));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      logger.warn('Unable to copy share link:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" data-testid="share-gallery-dialog">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Share gallery</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Anyone with a link can view this gallery without an account, even while it&apos;s private.
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" title="Close">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <label htmlFor="share-label" className="block mb-1 text-sm font-medium">Label</label>
+                <Input id="share-label" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g. Client review" maxLength={100} />
+              </div>
+              <div>
+                <label htmlFor="share-password" className="block mb-1 text-sm font-medium">Password</label>
+                <Input id="share-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="No password" autoComplete="new-password" data-testid="share-password" />
+              </div>
+              <div>
+                <label htmlFor="share-expires" className="block mb-1 text-sm font-medium">Expires</label>
+                <Input id="share-expires" type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} data-testid="share-expires" />
+              </div>
+              <div>
+                <label htmlFor="share-max-views" className="block mb-1 text-sm font-medium">View limit</label>
+                <Input id="share-max-views" type="number" min={1} value={maxViews} onChange={(e) => setMaxViews(e.target.value)} placeholder="Unlimited" data-testid="share-max-views" />
+              </div>
+            </div>
+            <Button type="submit" isLoading={isCreating} icon={<LinkIcon className="w-4 h-4" />} data-testid="share-create-link">
+              Create link
+            </Button>
+          </form>
+
+          {error && <ErrorMessage error={error} />}
+
+          {links === null ? (
+            <LoadingSpinner text="Loading share links..." />
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">No share links yet.</p>
+          ) : (
+            <ul className="divide-y dark:divide-gray-700" data-testid="share-link-list">
+              {links.map(link => {
+                const status = STATUS_LABELS[link.status];
+                return (
+                  <li key={link.id} className="py-3 space-y-1" data-testid="share-link-item">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{link.label || 'Untitled link'}</span>
+                      {link.hasPassword && <LockClosedIcon className="w-4 h-4 text-gray-500" title="Password protected" />}
+                      <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>{status.text}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 text-xs truncate bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded">{absoluteUrl(link.url)}</code>
+                      <Button type="button" size="sm" variant="outline" onClick={() => handleCopy(link)} disabled={link.status !== 'active'}>
+                        {copiedId === link.id ? 'Copied' : 'Copy'}
+                      </Button>
+                      {!link.revokedAt && (
+                        <Button type="button" size="sm" variant="danger" onClick={() => handleRevoke(link.id)} data-testid="share-revoke-link">
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {link.viewCount}{link.maxViews !== null ? ` of ${link.maxViews}` : ''} views
+                      {link.expiresAt && ` · expires ${link.expiresAt.toLocaleString()}`}
+                      {link.lastViewedAt && ` · last opened ${link.lastViewedAt.toLocaleString()}`}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
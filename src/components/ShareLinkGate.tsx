@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ErrorMessage, LoadingSpinner } from '@/components/StatusMessages';
+import { GalleryService } from '@/lib/services/galleryService';
+
+interface ShareLinkGateProps {
+  token: string;
+  requiresPassword: boolean;
+}
+
+/**
+ * Shown on /s/[token] until the visitor has opened the link
+ * Links without a password are opened straight away; otherwise the visitor is asked for it.
+ * Once opened, the page is refreshed and the server renders the gallery.
+ */
+export function ShareLinkGate({ token, requiresPassword }: ShareLinkGateProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [isOpening, setIsOpening] = useState(!requiresPassword);
+  const [error, setError] = useState<string | null>(null);
+  // Opening counts a view, so only do it once even if the effect runs twice
+  const hasAutoOpened = useRef(false);
+
+  const open = async (withPassword?: string) => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      await GalleryService.openShareLink(token, withPassword);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to open this link');
+      setIsOpening(false);
+    }
+  };
+
+  useEffect(() => {
+    if (requiresPassword || hasAutoOpened.current) return;
+    hasAutoOpened.current = true;
+    open();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requiresPassword]);
+
+  if (!requiresPassword) {
+    return (
+      <div className="max-w-md mx-auto py-16">
+        {error ? <ErrorMessage error={error} /> : <LoadingSpinner text="Opening gallery..." />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-16">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (password) open(password);
+        }}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4"
+        data-testid="share-link-password-form"
+      >
+        <div className="flex items-center gap-2">
+          <LockClosedIcon className="w-5 h-5 text-gray-500" />
+          <h1 className="text-lg font-semibold">This gallery is password protected</h1>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Enter the password you were given to view it.
+        </p>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoFocus
+          data-testid="share-link-password"
+        />
+        {error && <ErrorMessage error={error} />}
+        <Button type="submit" disabled={!password} isLoading={isOpening} className="w-full" data-testid="share-link-open">
+          View gallery
+        </Button>
+      </form>
+    </div>
+  );
+}
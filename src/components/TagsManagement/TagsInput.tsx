@@ -1,10 +1,13 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useId } from 'react';
 import { z } from 'zod';
 import { useController, Control, FieldValues } from 'react-hook-form';
 import { Badge } from '@/components/ui/Badge';
 import { X } from 'lucide-react';
+import { ImageService } from '@/lib/services/imageService';
+import { normalizeTagName } from '@/lib/utils/tagPaths';
+import logger from '@/lib/logger';
 
 // Define Tag schema
 const TagSchema = z.object({
@@ -22,6 +25,8 @@ type TagsInputProps = {
   className?: string;
   initialTags?: string[];
   maxTags?: number;
+  // Suggest the user's own and shared tags while typing
+  suggestTags?: boolean;
 };
 
 export function TagsInput({
@@ -32,10 +37,27 @@ export function TagsInput({
   disabled = false,
   className = '',
   initialTags = [],
-  maxTags = 20
+  maxTags = 20,
+  suggestTags = true
 }: TagsInputProps) {
   // Local state for the input field
   const [inputValue, setInputValue] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const suggestionsId = useId();
+
+  // Tags are private, so suggestions only ever include the user's own and shared tags
+  useEffect(() => {
+    if (!suggestTags || disabled) return;
+    const controller = new AbortController();
+    ImageService.getTags(controller.signal)
+      .then(tags => setSuggestions(tags.map(tag => tag.name)))
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          logger.warn('Unable to load tag suggestions:', error);
+        }
+      });
+    return () => controller.abort();
+  }, [suggestTags, disabled]);
   
   // Use react-hook-form controller to get field value and methods
   const {
@@ -51,7 +73,7 @@ export function TagsInput({
   const parseTags = (input: string): string[] => {
     return input
       .split(',') // Split by commas
-      .map(tag => tag.trim()) // Trim whitespace
+      .map(normalizeTagName) // Trim whitespace, including around "/" in nested tags
       .filter(tag => tag.length > 0); // Remove empty strings
   };
 
@@ -146,6 +168,7 @@ export function TagsInput({
             onKeyDown={handleKeyDown}
             onBlur={handleInputSubmit}
             placeholder={placeholder}
+            list={suggestions.length > 0 ? suggestionsId : undefined}
             className="flex-grow min-w-[120px] px-2 py-1 border-none focus:outline-none bg-transparent"
             disabled={disabled}
             data-testid="tags-management-input-field"
@@ -153,6 +176,12 @@ export function TagsInput({
         )}
       </div>
 
+      {suggestions.length > 0 && (
+        <datalist id={suggestionsId}>
+          {suggestions.map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      )}
+
       {/* Validation error */}
       {error && <p className="text-red-500 text-xs mt-1">{error.message}</p>}
       
@@ -8,12 +8,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { toast } from '@/components/ui/Toast';
 import { ImageService } from '@/lib/services/imageService';
-import { X } from 'lucide-react';
+import { X, Pencil, GitMerge } from 'lucide-react';
+import { buildTagTree, flattenTagTree, getTagLabel } from '@/lib/utils/tagPaths';
 
 // Import UI components
 import { Button } from '@/components/ui/Button';
@@ -24,7 +26,9 @@ import { Spinner } from '@/components/ui/Spinner';
 
 // Define the schema for tag management
 const TagManagementSchema = z.object({
-  newTagName: z.string().min(1, { message: 'Tag name is required' }).max(30, { message: 'Tag name too long' }),
+  // Paths like "travel/japan" create the parent tags too
+  newTagName: z.string().min(1, { message: 'Tag name is required' }).max(100, { message: 'Tag name too long' }),
+  shared: z.boolean().optional(),
 });
 
 // Define types based on the schema
@@ -33,8 +37,11 @@ type TagManagementFormData = z.infer<typeof TagManagementSchema>;
 // Define tag type
 export type Tag = {
   id: string;
-  name: string;
+  name: string; // Full path, e.g. "travel/japan"
   imageCount?: number;
+  parentId?: string | null;
+  aliases?: string[];
+  isShared?: boolean; // Available to everyone; only admins can change it
 };
 
 // Define component props
@@ -62,6 +69,8 @@ export function TagsManagement({
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(selectedTags);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'ADMIN';
   
   // Form setup with zod validation
   const {
@@ -73,6 +82,7 @@ export function TagsManagement({
     resolver: zodResolver(TagManagementSchema),
     defaultValues: {
       newTagName: '',
+      shared: false,
     },
   });
 
@@ -88,7 +98,7 @@ export function TagsManagement({
     setIsLoading(true);
     try {
       const tags = await ImageService.getTags();
-      setTags(tags);
+      setTags(tags.map(({ _count, ...tag }) => ({ ...tag, imageCount: _count?.images })));
     } catch (error) {
       console.error('Error fetching tags:', error);
       toast.error('Failed to load tags');
@@ -101,8 +111,9 @@ export function TagsManagement({
   const createTag = async (data: TagManagementFormData) => {
     setIsSubmitting(true);
     try {
-      const newTag = await ImageService.createTag(data.newTagName);
-      setTags(prevTags => [...prevTags, newTag]);
+      await ImageService.createTag(data.newTagName, { shared: isAdmin && data.shared });
+      // Reload so any parent tags created along the way show up
+      await fetchTags();
       toast.success('Tag created successfully');
       reset();
     } catch (error) {
@@ -122,10 +133,48 @@ export function TagsManagement({
       toast.success('Tag deleted successfully');
     } catch (error) {
       console.error('Error deleting tag:', error);
-      toast.error('Failed to delete tag');
+      toast.error(error instanceof Error ? error.message : 'Failed to delete tag');
     }
   };
 
+  // Rename or move a tag and update its aliases; descendants move along with it
+  const saveTag = async (tag: Tag, name: string, aliases: string[]) => {
+    try {
+      await ImageService.updateTag(tag.id, {
+        name: name !== tag.name ? name : undefined,
+        aliases,
+      });
+      await fetchTags();
+      toast.success('Tag updated successfully');
+      return true;
+    } catch (error) {
+      console.error('Error updating tag:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update tag');
+      return false;
+    }
+  };
+
+  // Merge a tag into another, re-pointing all of its images
+  const mergeTag = async (source: Tag, targetId: string) => {
+    const target = tags.find(tag => tag.id === targetId);
+    if (!target || !window.confirm(`Merge "${source.name}" into "${target.name}"? All images tagged "${source.name}" will be tagged "${target.name}" instead.`)) {
+      return false;
+    }
+    try {
+      await ImageService.mergeTags(source.id, targetId);
+      setSelectedTagIds(prevSelected => prevSelected.filter(id => id !== source.id));
+      await fetchTags();
+      toast.success(`Merged "${source.name}" into "${target.name}"`);
+      return true;
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge tags');
+      return false;
+    }
+  };
+
+  const tagTree = flattenTagTree(buildTagTree(tags));
+
   // Toggle tag selection
   const toggleTag = async (tagId: string) => {
     const isCurrentlySelected = selectedTagIds.includes(tagId);
@@ -186,6 +235,12 @@ export function TagsManagement({
                     </Button>
                   </div>
                 </div>
+                {isAdmin && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <input type="checkbox" {...register('shared')} />
+                    Shared with all users
+                  </label>
+                )}
                 {errors.newTagName && (
                   <p className="text-sm text-red-500">{errors.newTagName.message}</p>
                 )}
@@ -197,38 +252,40 @@ export function TagsManagement({
                 {mode === 'admin' ? 'All Tags' : 'Available Tags'}
               </h3>
               
-              <div className="flex flex-wrap gap-2">
-                {tags.length === 0 ? (
-                  <p className="text-sm text-gray-500">No tags available</p>
-                ) : (
-                  tags.map((tag) => (
+              {tags.length === 0 ? (
+                <p className="text-sm text-gray-500">No tags available</p>
+              ) : mode === 'admin' ? (
+                <ul className="space-y-1" data-testid="tag-tree">
+                  {tagTree.map((tag) => (
+                    <TagTreeRow
+                      key={tag.id}
+                      tag={tag}
+                      depth={tag.depth}
+                      allTags={tags}
+                      canManage={!tag.isShared || isAdmin}
+                      onSave={saveTag}
+                      onMerge={mergeTag}
+                      onDelete={deleteTag}
+                    />
+                  ))}
+                </ul>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {tagTree.map((tag) => (
                     <Badge
                       key={tag.id}
                       variant={selectedTagIds.includes(tag.id) ? "default" : "outline"}
                       className="cursor-pointer hover:bg-primary/20 h-8"
                       onClick={() => toggleTag(tag.id)}
+                      title={tag.aliases?.length ? `Also known as: ${tag.aliases.join(', ')}` : undefined}
                     >
                       {tag.name}
                       {tag.imageCount !== undefined && ` (${tag.imageCount})`}
-                      
-                      {mode === 'admin' && (
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="h-5 w-5 p-0 ml-1 hover:bg-red-100 hover:text-red-600"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteTag(tag.id);
-                          }}
-                        >
-                          <X className="h-3 w-3" />
-                          <span className="sr-only">Delete tag</span>
-                        </Button>
-                      )}
+                      {tag.isShared && ' · shared'}
                     </Badge>
-                  ))
-                )}
-              </div>
+                  ))}
+                </div>
+              )}
             </div>
           </>
         )}
@@ -244,3 +301,139 @@ export function TagsManagement({
     </Card>
   );
 }
+
+interface TagTreeRowProps {
+  tag: Tag;
+  depth: number;
+  allTags: Tag[];
+  canManage: boolean;
+  onSave: (tag: Tag, name: string, aliases: string[]) => Promise<boolean>;
+  onMerge: (tag: Tag, targetId: string) => Promise<boolean>;
+  onDelete: (tagId: string) => void;
+}
+
+/**
+ * One tag in the admin tree, with inline rename/alias editing and merging
+ */
+function TagTreeRow({ tag, depth, allTags, canManage, onSave, onMerge, onDelete }: TagTreeRowProps) {
+  const [mode, setMode] = useState<'view' | 'edit' | 'merge'>('view');
+  const [name, setName] = useState(tag.name);
+  const [aliases, setAliases] = useState((tag.aliases ?? []).join(', '));
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const startEditing = () => {
+    setName(tag.name);
+    setAliases((tag.aliases ?? []).join(', '));
+    setMode('edit');
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsBusy(true);
+    const succeeded = await action();
+    setIsBusy(false);
+    if (succeeded) setMode('view');
+  };
+
+  // A tag can only be merged into another with the same owner, outside its own subtree
+  const mergeTargets = allTags.filter(other =>
+    other.id !== tag.id &&
+    !!other.isShared === !!tag.isShared &&
+    !other.name.startsWith(`${tag.name}/`)
+  );
+
+  return (
+    <li
+      className="rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2"
+      style={{ marginLeft: `${depth * 1.5}rem` }}
+      data-testid={`tag-row-${tag.name}`}
+    >
+      {mode === 'edit' ? (
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(() => onSave(tag, name, aliases.split(',').map(alias => alias.trim()).filter(Boolean)));
+          }}
+        >
+          <div>
+            <label htmlFor={`tag-name-${tag.id}`} className="text-xs text-gray-500">
+              Name (use / to nest, e.g. travel/japan)
+            </label>
+            <Input id={`tag-name-${tag.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor={`tag-aliases-${tag.id}`} className="text-xs text-gray-500">
+              Aliases (comma-separated)
+            </label>
+            <Input id={`tag-aliases-${tag.id}`} value={aliases} onChange={(e) => setAliases(e.target.value)} />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setMode('view')}>Cancel</Button>
+            <Button type="submit" size="sm" disabled={isBusy}>
+              {isBusy ? <Spinner size="sm" /> : 'Save'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="font-medium" title={tag.name}>{getTagLabel(tag.name)}</span>
+          {tag.imageCount !== undefined && (
+            <span className="text-xs text-gray-500">({tag.imageCount})</span>
+          )}
+          {tag.isShared && (
+            <Badge variant="secondary" className="text-xs">Shared</Badge>
+          )}
+          {tag.aliases && tag.aliases.length > 0 && (
+            <span className="text-xs text-gray-500 truncate">aka {tag.aliases.join(', ')}</span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            {!canManage ? null : mode === 'merge' ? (
+              <>
+                <select
+                  value={mergeTargetId}
+                  onChange={(e) => setMergeTargetId(e.target.value)}
+                  className="text-sm border rounded-md px-2 py-1 dark:bg-gray-700 dark:border-gray-600"
+                  aria-label={`Merge ${tag.name} into`}
+                >
+                  <option value="">Merge into…</option>
+                  {mergeTargets.map(other => (
+                    <option key={other.id} value={other.id}>{other.name}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  disabled={!mergeTargetId || isBusy}
+                  onClick={() => run(() => onMerge(tag, mergeTargetId))}
+                >
+                  {isBusy ? <Spinner size="sm" /> : 'Merge'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setMode('view')}>Cancel</Button>
+              </>
+            ) : (
+              <>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={startEditing}>
+                  <Pencil className="h-3 w-3" />
+                  <span className="sr-only">Rename tag</span>
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setMode('merge')}>
+                  <GitMerge className="h-3 w-3" />
+                  <span className="sr-only">Merge tag</span>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0 hover:bg-red-100 hover:text-red-600"
+                  onClick={() => onDelete(tag.id)}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Delete tag</span>
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -6,6 +6,7 @@ import { motion } from 'framer-motion';
 import { 
   DisplayGallery, 
   DisplayImage,
+  hasOtherContributors,
   mapGalleryImageToDisplayImage,
   mapGalleryImagesToDisplayImages
 } from '@/lib/utils/typeMappers';
@@ -13,19 +14,35 @@ import { EnhancedCarousel } from '@/components/gallery-display/EnhancedCarousel'
 import { EnhancedGalleryGrid } from '@/components/gallery-display/EnhancedGalleryGrid';
 import { EnhancedSlideshow } from '@/components/gallery-display/EnhancedSlideshow';
 import { GalleryFullscreen } from '@/components/gallery-display/GalleryFullscreen';
+import { ReportContentDialog } from '@/components/ReportContentDialog';
 
 interface ThemedGalleryViewProps {
   gallery: DisplayGallery;
   isOwner?: boolean;
+  canEdit?: boolean; // Members who can add images also get the edit button; defaults to isOwner
+  canReport?: boolean; // Signed-in visitors can report public galleries and their images
+  canDownload?: boolean; // Owners and members can download the gallery as a ZIP; visitors too when enabled
 }
 
 
-export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryViewProps) {
+export function ThemedGalleryView({ gallery, isOwner = false, canEdit = isOwner, canReport = false, canDownload = isOwner }: ThemedGalleryViewProps) {
+  // Credit who added each image only once other members have added some
+  const displayOptions = { includeAddedBy: hasOtherContributors(gallery) };
+
   const [fullscreenImageInfo, setFullscreenImageInfo] = React.useState<{ image: DisplayImage, originalIndex: number } | null>(null);
+  // The report dialog is open for the gallery (null image) or an image in it
+  const [reportTarget, setReportTarget] = React.useState<{ image?: { id: string; title: string } } | null>(null);
+  const showReport = canReport && gallery.isPublic;
+  const [includeXmp, setIncludeXmp] = React.useState(false);
+
+  // Moderation notices for the owner
+  const hiddenImages = isOwner
+    ? gallery.images.filter(entry => entry.image?.hiddenAt && entry.image.userId === gallery.userId)
+    : [];
 
   const openFullscreen = (imageInGallery: typeof gallery.images[0], index: number) => {
     setFullscreenImageInfo({ 
-      image: mapGalleryImageToDisplayImage(imageInGallery), 
+      image: mapGalleryImageToDisplayImage(imageInGallery, displayOptions), 
       originalIndex: index 
     });
   };
@@ -43,7 +60,7 @@ export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryVie
     
     const nextImageInGallery = gallery.images[newIndex];
     setFullscreenImageInfo({ 
-      image: mapGalleryImageToDisplayImage(nextImageInGallery), 
+      image: mapGalleryImageToDisplayImage(nextImageInGallery, displayOptions), 
       originalIndex: newIndex 
     });
   };
@@ -67,7 +84,7 @@ export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryVie
   const containerClass = layoutType === 'full-width' ? 'w-full' : 'container mx-auto';
 
   // Prepare images for child components using our fixed utility function
-  const imagesForDisplay = mapGalleryImagesToDisplayImages(gallery.images);
+  const imagesForDisplay = mapGalleryImagesToDisplayImages(gallery.images, displayOptions);
 
   const renderGalleryContent = () => {
     // Handle empty gallery state
@@ -95,7 +112,7 @@ export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryVie
           <p className="text-gray-500 dark:text-gray-500">
             This gallery doesn&apos;t have any images.
           </p>
-          {isOwner && (
+          {canEdit && (
             <button
               onClick={() => window.location.href = `/galleries/${gallery.id}/edit`}
               className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors"
@@ -192,18 +209,70 @@ export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryVie
           <h1 className="text-3xl font-bold" style={{ color: themeColor || undefined }} data-testid="gallery-detail-title">
             {gallery.title}
           </h1>
-          {isOwner && (
-            <div className="flex gap-2">
-              <button
-                onClick={() => window.location.href = `/galleries/${gallery.id}/edit`}
-                className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
-                data-testid="edit-gallery-button"
-              >
-                Edit Gallery
-              </button>
+          {(canEdit || canDownload) && (
+            <div className="flex items-center gap-2">
+              {canDownload && (
+                <>
+                  <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={includeXmp}
+                      onChange={(e) => setIncludeXmp(e.target.checked)}
+                      data-testid="download-gallery-xmp"
+                    />
+                    XMP sidecars
+                  </label>
+                  <a
+                    href={`/api/galleries/${gallery.id}/export${includeXmp ? '?xmp=true' : ''}`}
+                    download
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+                    data-testid="download-gallery-button"
+                  >
+                    Download ZIP
+                  </a>
+                </>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => window.location.href = `/galleries/${gallery.id}/edit`}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                  data-testid="edit-gallery-button"
+                >
+                  Edit Gallery
+                </button>
+              )}
             </div>
           )}
+          {showReport && (
+            <button
+              onClick={() => setReportTarget({})}
+              className="text-sm text-gray-500 hover:text-red-600 hover:underline"
+              data-testid="report-gallery-button"
+            >
+              Report
+            </button>
+          )}
         </div>
+        {isOwner && (gallery.hiddenAt || (gallery.moderationReason && !gallery.isPublic)) && (
+          <div className="mb-4 p-4 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200" data-testid="gallery-moderation-notice">
+            {gallery.hiddenAt
+              ? 'A moderator hid this gallery. Only you and its members can see it.'
+              : 'A moderator unpublished this gallery.'}
+            {gallery.moderationReason && <> Reason: {gallery.moderationReason}</>}
+          </div>
+        )}
+        {hiddenImages.length > 0 && (
+          <div className="mb-4 p-4 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200" data-testid="image-moderation-notice">
+            <p>A moderator hid these images. Only you can see them:</p>
+            <ul className="list-disc ml-6 mt-1">
+              {hiddenImages.map(entry => (
+                <li key={entry.id}>
+                  {entry.image!.title}{entry.image!.moderationReason && <> ({entry.image!.moderationReason})</>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {gallery.description && (
           <p className="text-lg mt-2" style={{ color: themeColor || undefined }} data-testid="gallery-detail-description">
             {gallery.description}
@@ -231,6 +300,20 @@ export function ThemedGalleryView({ gallery, isOwner = false }: ThemedGalleryVie
           onClose={closeFullscreen}
           onNext={() => navigateFullscreen('next')}
           onPrev={() => navigateFullscreen('prev')}
+          onReport={showReport ? () => {
+            const { image } = fullscreenImageInfo;
+            closeFullscreen();
+            setReportTarget({ image: { id: image.id, title: image.title || 'image' } });
+          } : undefined}
+        />
+      )}
+
+      {reportTarget && (
+        <ReportContentDialog
+          isOpen={true}
+          onClose={() => setReportTarget(null)}
+          galleryId={gallery.id}
+          image={reportTarget.image}
         />
       )}
     </div>
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { getSession } from 'next-auth/react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ErrorMessage } from '@/components/StatusMessages';
+import { UserService } from '@/lib/services/userService';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/lib/schemas';
+
+interface TwoFactorSettingsProps {
+  initialStatus: TwoFactorStatus;
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 p-4 space-y-2" data-testid="recovery-codes">
+      <p className="text-sm font-medium">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Set up, manage and turn off two-factor authentication for the current user
+ */
+export function TwoFactorSettings({ initialStatus }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState(initialStatus);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setSetup(await UserService.startTwoFactorSetup());
+    setRecoveryCodes(null);
+  }, 'Failed to start setup');
+
+  const handleEnable = () => run(async () => {
+    const codes = await UserService.enableTwoFactor(code);
+    setRecoveryCodes(codes);
+    setSetup(null);
+    setStatus(current => ({ ...current, enabled: true, enabledAt: new Date(), recoveryCodesLeft: codes.length }));
+    // Refresh the session so policy checks see the new status right away
+    await getSession();
+  }, 'Failed to enable two-factor authentication');
+
+  const handleRegenerate = () => run(async () => {
+    const codes = await UserService.regenerateRecoveryCodes(code);
+    setRecoveryCodes(codes);
+    setStatus(current => ({ ...current, recoveryCodesLeft: codes.length }));
+  }, 'Failed to create new recovery codes');
+
+  const handleDisable = () => run(async () => {
+    setStatus(await UserService.disableTwoFactor(code));
+    setRecoveryCodes(null);
+    await getSession();
+  }, 'Failed to turn off two-factor authentication');
+
+  const codeInput = (
+    <div className="max-w-xs">
+      <label htmlFor="two-factor-code" className="block mb-1 text-sm font-medium">
+        {status.enabled ? 'Current code or recovery code' : 'Code from your app'}
+      </label>
+      <Input
+        id="two-factor-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        inputMode={status.enabled ? undefined : 'numeric'}
+        autoComplete="one-time-code"
+        placeholder="123456"
+        data-testid="two-factor-code"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6" data-testid="two-factor-settings">
+      {error && <ErrorMessage error={error} />}
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+      {status.enabled ? (
+        <div className="space-y-4">
+          <p>
+            Two-factor authentication is <strong>on</strong>
+            {status.enabledAt && <> since {status.enabledAt.toLocaleDateString()}</>}.
+            You have {status.recoveryCodesLeft} unused recovery code{status.recoveryCodesLeft === 1 ? '' : 's'}.
+          </p>
+          {codeInput}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleRegenerate} disabled={!code} isLoading={isBusy} data-testid="regenerate-recovery-codes">
+              New recovery codes
+            </Button>
+            {!status.required && (
+              <Button type="button" variant="danger" onClick={handleDisable} disabled={!code || isBusy} data-testid="disable-two-factor">
+                Turn off
+              </Button>
+            )}
+          </div>
+          {status.required && (
+            <p className="text-sm text-gray-500">Administrators must keep two-factor authentication on.</p>
+          )}
+        </div>
+      ) : setup ? (
+        <div className="space-y-4">
+          <p>Scan this QR code with an authenticator app, then enter the code it shows.</p>
+          <Image src={setup.qrCode} alt="Two-factor QR code" width={200} height={200} unoptimized data-testid="two-factor-qr" />
+          <p className="text-sm text-gray-500">
+            Can&apos;t scan it? Enter this key instead: <code className="font-mono break-all" data-testid="two-factor-secret">{setup.secret}</code>
+          </p>
+          {codeInput}
+          <Button type="button" onClick={handleEnable} disabled={!code} isLoading={isBusy} data-testid="enable-two-factor">
+            Enable
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p>
+            Two-factor authentication is <strong>off</strong>. With it on, signing in also takes a code from an
+            authenticator app on your phone.
+          </p>
+          <Button type="button" onClick={handleStart} isLoading={isBusy} data-testid="start-two-factor">
+            Set up two-factor authentication
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
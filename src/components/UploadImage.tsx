@@ -116,7 +116,7 @@ export function UploadImage() {
       
       // Validate upload response
       const validatedUploadResult = UploadResponseSchema.parse(uploadResult);
-      const url = validatedUploadResult.data.url;
+      const { url } = validatedUploadResult.data;
       
       // Step 2: Create the image record
       const imageController = new AbortController();
@@ -1,6 +1,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ImageGrid } from '@/components/ImageGrid';
+import { ImageService } from '@/lib/services/imageService';
 import '@testing-library/jest-dom';
 
 // Mock Next.js Image component
@@ -64,6 +65,16 @@ jest.mock('@/components/EditImage', () => ({
   }
 }));
 
+jest.mock('next-auth/react', () => ({
+  useSession: () => ({ data: { user: { id: 'user1' } }, status: 'authenticated' })
+}));
+
+jest.mock('@/lib/services/imageService', () => ({
+  ImageService: {
+    bulkUpdateImages: jest.fn()
+  }
+}));
+
 // Mock logger
 jest.mock('@/lib/logger', () => ({
   __esModule: true,
@@ -441,6 +452,99 @@ describe('ImageGrid', () => {
     });
   });
 
+  describe('Multi-select and bulk actions', () => {
+    it('selects a range with shift-click and shows the bulk action bar', async () => {
+      const user = userEvent.setup();
+      render(<ImageGrid images={mockImages} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Image 1')).toBeInTheDocument();
+      });
+      expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+
+      await user.click(screen.getByTestId('select-image-1'));
+      await user.keyboard('{Shift>}');
+      await user.click(screen.getByTestId('select-image-3'));
+      await user.keyboard('{/Shift}');
+
+      expect(screen.getByTestId('bulk-selection-count')).toHaveTextContent('3 selected');
+      expect(screen.getByTestId('select-image-2')).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('toggles selection instead of opening the viewer while selecting', async () => {
+      const user = userEvent.setup();
+      render(<ImageGrid images={mockImages} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Image 1')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByTestId('select-image-1'));
+      await user.click(screen.getByText('Test Image 2'));
+
+      expect(screen.queryByTestId('image-viewer-modal')).not.toBeInTheDocument();
+      expect(screen.getByTestId('bulk-selection-count')).toHaveTextContent('2 selected');
+
+      await user.click(screen.getByTestId('bulk-clear-selection'));
+      expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+    });
+
+    it('applies bulk tag additions and shows the updated tags', async () => {
+      const user = userEvent.setup();
+      (ImageService.bulkUpdateImages as jest.Mock).mockResolvedValue({
+        results: [
+          { id: '1', status: 'updated' },
+          { id: '3', status: 'updated' }
+        ],
+        images: [
+          { ...mockImages[0], tags: [...mockImages[0].tags, { id: 'tag5', name: 'favorites' }] },
+          { ...mockImages[2], tags: [...mockImages[2].tags, { id: 'tag5', name: 'favorites' }] }
+        ]
+      });
+      render(<ImageGrid images={mockImages} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Image 1')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByTestId('select-image-1'));
+      await user.click(screen.getByTestId('select-image-3'));
+      await user.click(screen.getByTestId('bulk-add-tags'));
+      await user.type(screen.getByTestId('bulk-tags-input'), 'favorites');
+      await user.click(screen.getByTestId('bulk-apply'));
+
+      expect(ImageService.bulkUpdateImages).toHaveBeenCalledWith(['1', '3'], { action: 'addTags', tags: ['favorites'] });
+      await waitFor(() => {
+        expect(screen.getByTestId('bulk-result-message')).toHaveTextContent('Updated 2 images');
+      });
+      expect(screen.getByTestId('image-grid-tag-filter-favorites')).toBeInTheDocument();
+    });
+
+    it('removes deleted images and clears the selection', async () => {
+      const user = userEvent.setup();
+      (ImageService.bulkUpdateImages as jest.Mock).mockResolvedValue({
+        results: [{ id: '2', status: 'deleted' }],
+        images: []
+      });
+      render(<ImageGrid images={mockImages} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Test Image 2')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByTestId('select-image-2'));
+      await user.click(screen.getByTestId('bulk-delete'));
+      // The confirmation dialog renders after the bar's own Delete button
+      await user.click(screen.getAllByRole('button', { name: 'Delete' })[1]);
+
+      await waitFor(() => {
+        expect(screen.queryByText('Test Image 2')).not.toBeInTheDocument();
+      });
+      expect(ImageService.bulkUpdateImages).toHaveBeenCalledWith(['2'], { action: 'delete' });
+      expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error Handling', () => {
     it('handles missing tag data gracefully', async () => {
       const imagesWithMissingTags = [
@@ -56,6 +56,7 @@ jest.mock('@heroicons/react/24/outline', () => ({
   ArrowRightIcon: () => <span data-testid="arrow-right-icon">→</span>,
   MagnifyingGlassMinusIcon: () => <span data-testid="zoom-out-icon">-</span>,
   MagnifyingGlassPlusIcon: () => <span data-testid="zoom-in-icon">+</span>,
+  InformationCircleIcon: () => <span data-testid="info-icon">i</span>,
 }));
 
 describe('ImageViewer', () => {
@@ -370,6 +371,25 @@ describe('ImageViewer', () => {
       
       expect(screen.getByText('2 of 3')).toBeInTheDocument();
     });
+
+    it('toggles camera metadata with the info button and I key', async () => {
+      const imagesWithMetadata = [
+        {
+          ...mockImages[0],
+          metadata: { cameraMake: 'Canon', cameraModel: 'EOS R5', iso: 400 }
+        }
+      ];
+
+      render(<ImageViewer {...defaultProps} images={imagesWithMetadata} />);
+      expect(screen.queryByTestId('image-metadata-panel')).not.toBeInTheDocument();
+
+      await userEvent.click(screen.getByTestId('toggle-image-info'));
+      expect(screen.getByText('Canon EOS R5')).toBeInTheDocument();
+      expect(screen.getByText('ISO 400')).toBeInTheDocument();
+
+      fireEvent.keyDown(window, { key: 'i' });
+      expect(screen.queryByTestId('image-metadata-panel')).not.toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
@@ -1,5 +1,6 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { signIn } from 'next-auth/react';
 import { ProfileForm } from '@/components/Profile';
 import { useRouter } from 'next/navigation';
 
@@ -8,6 +9,10 @@ jest.mock('next/navigation', () => ({
   useRouter: jest.fn(),
 }));
 
+jest.mock('next-auth/react', () => ({
+  signIn: jest.fn(),
+}));
+
 // Mock uploadThing directly on window
 const mockStartUpload = jest.fn();
 Object.defineProperty(window, 'uploadThing', {
@@ -188,6 +193,29 @@ describe('ProfileForm', () => {
     });
   });
   
+  test('lists sign-in providers to connect and disconnect', async () => {
+    const connectedAccounts = {
+      providers: [{ id: 'github', name: 'GitHub' }, { id: 'oidc', name: 'Company SSO' }],
+      linked: ['github'],
+      hasPassword: true,
+    };
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ success: true, data: { provider: 'github' } }),
+    });
+
+    render(<ProfileForm initialData={mockInitialData} connectedAccounts={connectedAccounts} />);
+
+    fireEvent.click(within(screen.getByTestId('connected-account-oidc')).getByText('Connect'));
+    expect(signIn).toHaveBeenCalledWith('oidc', { callbackUrl: '/profile' });
+
+    fireEvent.click(within(screen.getByTestId('connected-account-github')).getByText('Disconnect'));
+    await waitFor(() => {
+      expect(within(screen.getByTestId('connected-account-github')).getByText('Connect')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/accounts/github', expect.objectContaining({ method: 'DELETE' }));
+  });
+  
   // Enhanced tests removed to speed up development time
   // These tests were testing advanced functionality like file upload, request abortion,
   // and cleanup on component unmount which are not critical for basic form functionality.
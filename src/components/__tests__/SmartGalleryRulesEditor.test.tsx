@@ -0,0 +1,49 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SmartGalleryRulesEditor } from '@/components/GalleryDetails/SmartGalleryRulesEditor';
+import { ImageService } from '@/lib/services/imageService';
+
+jest.mock('@/lib/services/imageService', () => ({
+  ImageService: {
+    getTags: jest.fn(),
+    getImages: jest.fn(),
+  },
+}));
+
+const mockedImageService = ImageService as jest.Mocked<typeof ImageService>;
+
+describe('SmartGalleryRulesEditor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedImageService.getTags.mockResolvedValue([{ id: 't1', name: 'travel', parentId: null, isShared: false, aliases: [] }]);
+    mockedImageService.getImages.mockResolvedValue({
+      data: [],
+      meta: { total: 12, currentPage: 1, lastPage: 12, perPage: 1, hasNextPage: true, hasPrevPage: false, nextPage: 2, prevPage: null },
+    });
+  });
+
+  it('previews how many images match the rules', async () => {
+    render(<SmartGalleryRulesEditor rules={{ anyTags: ['travel'], camera: 'X-T4' }} onChange={jest.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('smart-rules-preview')).toHaveTextContent('12 images currently match');
+    });
+    expect(mockedImageService.getImages).toHaveBeenCalledWith(
+      expect.objectContaining({ anyTags: ['travel'], camera: 'X-T4', limit: 1 }),
+      expect.anything()
+    );
+  });
+
+  it('drops cleared fields from the rules', async () => {
+    const onChange = jest.fn();
+    render(<SmartGalleryRulesEditor rules={{ query: 'sunset', camera: 'X-T4' }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByTestId('smart-rules-camera'), { target: { value: '' } });
+    expect(onChange).toHaveBeenLastCalledWith({ query: 'sunset' });
+
+    fireEvent.change(screen.getByTestId('smart-rules-sort'), { target: { value: 'title' } });
+    expect(onChange).toHaveBeenLastCalledWith({ query: 'sunset', camera: 'X-T4', sortBy: 'title' });
+
+    await waitFor(() => expect(screen.getByTestId('smart-rules-preview')).toHaveTextContent('12 images'));
+  });
+});
@@ -1,9 +1,9 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import Image from 'next/image';
 import { motion } from 'framer-motion';
 import { DisplayImage } from '@/lib/utils/typeMappers';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
 
 interface EnhancedGalleryGridProps {
   images: DisplayImage[];
@@ -50,6 +50,13 @@ export function EnhancedGalleryGrid({
       
       await Promise.all(
         images.map((img) => {
+          // Variants carry their dimensions, which saves downloading anything
+          const knownVariant = img.variants?.[0];
+          if (knownVariant) {
+            heights[img.id] = (knownVariant.height / knownVariant.width) * 300;
+            return Promise.resolve();
+          }
+
           return new Promise<void>((resolve) => {
             const image = new window.Image();
             image.onload = () => {
@@ -138,8 +145,9 @@ export function EnhancedGalleryGrid({
                 data-testid="gallery-image"
               >
                 <div className="relative h-full overflow-hidden">
-                  <Image
+                  <ResponsiveImage
                     src={image.url}
+                    variants={image.variants}
                     alt={image.title || 'Gallery image'}
                     fill
                     className="object-cover transition-transform duration-700 group-hover:scale-110"
@@ -155,6 +163,9 @@ export function EnhancedGalleryGrid({
                     {image.description && (
                       <p className="text-sm opacity-90 line-clamp-2">{image.description}</p>
                     )}
+                    {image.addedBy && (
+                      <p className="text-xs opacity-75 mt-1" data-testid="image-added-by">Added by {image.addedBy}</p>
+                    )}
                     {image.tags && image.tags.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-2">
                         {image.tags.slice(0, 3).map((tag: { id: string; name: string }) => (
@@ -197,8 +208,9 @@ export function EnhancedGalleryGrid({
         >
           <div className="aspect-square overflow-hidden rounded-2xl bg-white dark:bg-gray-800 shadow-lg hover:shadow-xl transition-all duration-300">
             <div className="relative h-full">
-              <Image
+              <ResponsiveImage
                 src={image.url}
+                variants={image.variants}
                 alt={image.title || 'Gallery image'}
                 fill
                 className="object-cover transition-transform duration-500 group-hover:scale-105"
@@ -211,6 +223,9 @@ export function EnhancedGalleryGrid({
               {/* Floating info card */}
               <div className="absolute bottom-4 left-4 right-4 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-lg p-3 transform translate-y-full opacity-0 group-hover:translate-y-0 group-hover:opacity-100 transition-all duration-300">
                 <h3 className="font-semibold text-sm truncate">{image.title || 'Untitled'}</h3>
+                {image.addedBy && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate" data-testid="image-added-by">Added by {image.addedBy}</p>
+                )}
                 {image.tags && image.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mt-1">
                     {image.tags.slice(0, 2).map((tag: { id: string; name: string }) => (
@@ -254,8 +269,9 @@ export function EnhancedGalleryGrid({
           data-testid="gallery-image"
         >
           <div className="aspect-square overflow-hidden rounded-lg shadow-md hover:shadow-lg transition-all duration-200">
-            <Image
+            <ResponsiveImage
               src={image.url}
+              variants={image.variants}
               alt={image.title || 'Gallery image'}
               width={200}
               height={200}
@@ -296,8 +312,9 @@ export function EnhancedGalleryGrid({
               isFeatured ? 'aspect-[4/3]' : 'aspect-square'
             }`}>
               <div className="relative h-full">
-                <Image
+                <ResponsiveImage
                   src={image.url}
+                  variants={image.variants}
                   alt={image.title || 'Gallery image'}
                   fill
                   className="object-cover transition-transform duration-700 group-hover:scale-105"
@@ -355,8 +372,9 @@ export function EnhancedGalleryGrid({
         >
         <div className="bg-white dark:bg-gray-100 p-4 rounded-lg shadow-lg hover:shadow-2xl transition-all duration-300">
           <div className="aspect-square overflow-hidden rounded-sm mb-4">
-            <Image
+            <ResponsiveImage
               src={image.url}
+              variants={image.variants}
               alt={image.title || 'Gallery image'}
               width={300}
               height={300}
@@ -373,6 +391,9 @@ export function EnhancedGalleryGrid({
                 {image.description}
               </p>
             )}
+            {image.addedBy && (
+              <p className="text-xs text-gray-500 mt-1" data-testid="image-added-by">Added by {image.addedBy}</p>
+            )}
           </div>
         </div>
       </motion.div>
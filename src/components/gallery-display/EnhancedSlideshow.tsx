@@ -12,6 +12,7 @@ import {
   ArrowsPointingOutIcon
 } from '@heroicons/react/24/outline';
 import { DisplayImage } from '@/lib/utils/typeMappers';
+import { ImageMetadataPanel } from '@/components/ui/ImageMetadataPanel';
 
 interface EnhancedSlideshowProps {
   images: DisplayImage[];
@@ -285,7 +286,7 @@ export function EnhancedSlideshow({
 
         {/* Image info overlay */}
         <AnimatePresence>
-          {isInfoVisible && (currentImage.title || currentImage.description || currentImage.tags?.length) && (
+          {isInfoVisible && (currentImage.title || currentImage.description || currentImage.tags?.length || currentImage.metadata) && (
             <motion.div
               initial={{ y: '100%', opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
@@ -316,6 +317,8 @@ export function EnhancedSlideshow({
                     ))}
                   </div>
                 )}
+
+                <ImageMetadataPanel metadata={currentImage.metadata} className="mt-4 max-w-md" hideWhenEmpty />
               </div>
             </motion.div>
           )}
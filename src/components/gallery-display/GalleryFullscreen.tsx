@@ -8,6 +8,7 @@ interface Image {
   url: string;
   title?: string;
   description?: string;
+  addedBy?: string;
 }
 
 interface GalleryFullscreenProps {
@@ -18,6 +19,7 @@ interface GalleryFullscreenProps {
   themeColor?: string | null;
   accentColor?: string | null;
   backgroundColor?: string | null;
+  onReport?: () => void; // Shows a report link for signed-in visitors
 }
 
 export function GalleryFullscreen({
@@ -27,7 +29,8 @@ export function GalleryFullscreen({
   onPrev,
   themeColor,
   accentColor,
-  backgroundColor
+  backgroundColor,
+  onReport
 }: GalleryFullscreenProps) {
   // Add a keyboard event listener for the Escape key
   React.useEffect(() => {
@@ -91,6 +94,18 @@ export function GalleryFullscreen({
         </div>
         {image.title && <h3 style={{ textAlign: 'center', marginTop: '10px' }}>{image.title}</h3>}
         {image.description && <p style={{ textAlign: 'center', marginTop: '5px' }}>{image.description}</p>}
+        {image.addedBy && <p style={{ textAlign: 'center', marginTop: '5px', fontSize: '0.875rem', opacity: 0.75 }}>Added by {image.addedBy}</p>}
+        {onReport && (
+          <p style={{ textAlign: 'center', marginTop: '5px' }}>
+            <button
+              onClick={onReport}
+              style={{ background: 'transparent', border: 'none', fontSize: '0.875rem', opacity: 0.75, color: 'inherit', textDecoration: 'underline', cursor: 'pointer' }}
+              data-testid="report-image-button"
+            >
+              Report image
+            </button>
+          </p>
+        )}
       </div>
     </div>
   );
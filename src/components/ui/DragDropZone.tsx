@@ -2,6 +2,7 @@
 
 import { useState, useCallback, DragEvent, ChangeEvent } from 'react';
 import { CloudArrowUpIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { FileValidator } from '@/lib/utils/fileValidation';
 
 interface DragDropZoneProps {
   onFilesSelected: (files: FileList) => void;
@@ -17,7 +18,7 @@ export function DragDropZone({
   onFilesSelected,
   accept = 'image/*',
   maxFiles = 1,
-  maxFileSize = 4 * 1024 * 1024, // 4MB default
+  maxFileSize = FileValidator.DEFAULT_MAX_SIZE,
   className = '',
   disabled = false,
   children
@@ -0,0 +1,36 @@
+import React from 'react';
+import { getMetadataDisplayRows } from '@/lib/utils/imageMetadata';
+import type { ImageMetadata } from '@/lib/schemas';
+
+interface ImageMetadataPanelProps {
+  metadata: ImageMetadata | null | undefined;
+  className?: string;
+  hideWhenEmpty?: boolean;
+}
+
+/**
+ * Compact definition list of camera/capture details for dark image overlays
+ */
+export function ImageMetadataPanel({ metadata, className = '', hideWhenEmpty = false }: ImageMetadataPanelProps) {
+  const rows = getMetadataDisplayRows(metadata);
+
+  if (rows.length === 0) {
+    if (hideWhenEmpty) return null;
+    return (
+      <p className={`text-sm text-white/60 ${className}`} data-testid="image-metadata-empty">
+        No camera information available
+      </p>
+    );
+  }
+
+  return (
+    <dl className={`grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm ${className}`} data-testid="image-metadata-panel">
+      {rows.map(row => (
+        <React.Fragment key={row.label}>
+          <dt className="text-white/60">{row.label}</dt>
+          <dd className="text-white/90">{row.value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
@@ -3,8 +3,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
-import { XMarkIcon, ArrowLeftIcon, ArrowRightIcon, MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, ArrowLeftIcon, ArrowRightIcon, MagnifyingGlassMinusIcon, MagnifyingGlassPlusIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
 import { ImageTags } from '@/components/ui/ImageTags';
+import { ImageMetadataPanel } from '@/components/ui/ImageMetadataPanel';
 import { type Image as ImageType } from '@/lib/services/imageService';
 
 interface ImageViewerProps {
@@ -20,6 +21,7 @@ export function ImageViewer({ images, currentImageId, isOpen, onClose, onImageCh
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [isZoomed, setIsZoomed] = useState(false);
+  const [showMetadata, setShowMetadata] = useState(false);
 
   const currentIndex = images.findIndex(img => img.id === currentImageId);
   const currentImage = currentIndex >= 0 ? images[currentIndex] : null;
@@ -71,6 +73,10 @@ export function ImageViewer({ images, currentImageId, isOpen, onClose, onImageCh
     }
   }, [scale]);
 
+  const toggleMetadata = useCallback(() => {
+    setShowMetadata(prev => !prev);
+  }, []);
+
   const handleImageClick = useCallback(() => {
     if (!isZoomed) {
       toggleZoom();
@@ -103,12 +109,16 @@ export function ImageViewer({ images, currentImageId, isOpen, onClose, onImageCh
           e.preventDefault();
           toggleZoom();
           break;
+        case 'i':
+        case 'I':
+          toggleMetadata();
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, currentIndex, scale, handleNext, handlePrevious, handleZoomIn, handleZoomOut, onClose, toggleZoom]);
+  }, [isOpen, currentIndex, scale, handleNext, handlePrevious, handleZoomIn, handleZoomOut, onClose, toggleZoom, toggleMetadata]);
 
   if (!isOpen || !currentImage) return null;
 
@@ -166,6 +176,21 @@ export function ImageViewer({ images, currentImageId, isOpen, onClose, onImageCh
                 <MagnifyingGlassPlusIcon className="w-5 h-5" />
               </button>
               
+              {/* Camera info toggle */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleMetadata();
+                }}
+                className={`p-2 rounded-full text-white transition-colors ${showMetadata ? 'bg-white/30 hover:bg-white/40' : 'bg-black/50 hover:bg-black/70'}`}
+                title="Image info (I)"
+                aria-label={showMetadata ? 'Hide image info' : 'Show image info'}
+                aria-pressed={showMetadata}
+                data-testid="toggle-image-info"
+              >
+                <InformationCircleIcon className="w-5 h-5" />
+              </button>
+
               {/* Close button */}
               <button
                 onClick={(e) => {
@@ -266,6 +291,9 @@ export function ImageViewer({ images, currentImageId, isOpen, onClose, onImageCh
                 <ImageTags tags={currentImage.tags} max={5} />
               </div>
             )}
+            {showMetadata && (
+              <ImageMetadataPanel metadata={currentImage.metadata} className="mb-3" />
+            )}
             <div className="text-sm text-white/60">
               Click image or press space to zoom • Use arrow keys to navigate • Press Esc to close
             </div>
@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import Image, { type ImageProps } from 'next/image';
+import { getVariantSources } from '@/lib/utils/imageVariants';
+import type { ImageVariant } from '@/lib/schemas';
+
+export interface ResponsiveImageProps extends ImageProps {
+  variants?: ImageVariant[] | null;
+}
+
+/**
+ * next/image wrapper that lets the browser pick a resized variant via <picture>/srcset
+ * Falls back to a plain next/image (the original file) when no variants exist.
+ */
+export function ResponsiveImage({ variants, sizes, alt, ...props }: ResponsiveImageProps) {
+  const sources = getVariantSources(variants);
+
+  if (sources.length === 0) {
+    return <Image alt={alt} sizes={sizes} {...props} />;
+  }
+
+  return (
+    <picture>
+      {sources.map(source => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+      ))}
+      <Image alt={alt} sizes={sizes} {...props} />
+    </picture>
+  );
+}
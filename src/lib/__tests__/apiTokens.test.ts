@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { getServerSession } from 'next-auth';
+import { prisma } from '@/lib/db';
+import { getApiSession } from '@/lib/apiAuth';
+import { ApiTokenError, authenticateApiToken, createApiToken, revokeApiToken } from '@/lib/apiTokens';
+
+jest.mock('next-auth', () => ({ getServerSession: jest.fn() }));
+jest.mock('@/lib/auth', () => ({ authOptions: {} }));
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    apiToken: { count: jest.fn(), create: jest.fn(), deleteMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  apiToken: { count: jest.Mock; create: jest.Mock; deleteMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+};
+const mockedGetServerSession = getServerSession as jest.Mock;
+
+const user = { id: 'user-1', name: 'Ada', email: 'ada@example.com', image: null, role: 'USER' };
+
+function storedToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    scopes: 'images:read,images:write',
+    expiresAt: null,
+    lastUsedAt: null,
+    user,
+    ...overrides,
+  };
+}
+
+describe('apiTokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the token once and stores only its hash', async () => {
+    mockedPrisma.apiToken.count.mockResolvedValue(0);
+    mockedPrisma.apiToken.create.mockImplementation(({ data }) => Promise.resolve({
+      id: 'token-1',
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...data,
+    }));
+
+    const created = await createApiToken('user-1', { name: 'Backup', scopes: ['images:read'], expiresInDays: 30 });
+
+    expect(created.token).toMatch(/^pgt_[A-Za-z0-9_-]{43}$/);
+    const { data } = mockedPrisma.apiToken.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(createHash('sha256').update(created.token).digest('hex'));
+    expect(data).not.toHaveProperty('token');
+    expect(created.token.startsWith(created.prefix)).toBe(true);
+    expect(created.scopes).toEqual(['images:read']);
+    expect(created.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+  });
+
+  it('only lets users revoke their own tokens', async () => {
+    mockedPrisma.apiToken.deleteMany.mockResolvedValue({ count: 0 });
+
+    await expect(revokeApiToken('user-2', 'token-1')).rejects.toEqual(new ApiTokenError('Token not found', 404));
+    expect(mockedPrisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { id: 'token-1', userId: 'user-2' } });
+  });
+
+  it('authenticates tokens that have the scope and records when they were used', async () => {
+    mockedPrisma.apiToken.findUnique.mockResolvedValue(storedToken());
+
+    await expect(authenticateApiToken('pgt_secret', 'images:write')).resolves.toEqual(user);
+    expect(mockedPrisma.apiToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { tokenHash: createHash('sha256').update('pgt_secret').digest('hex') },
+    }));
+    expect(mockedPrisma.apiToken.update).toHaveBeenCalledWith({
+      where: { id: 'token-1' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('does not record every request of a busy token', async () => {
+    mockedPrisma.apiToken.findUnique.mockResolvedValue(storedToken({ lastUsedAt: new Date(Date.now() - 1000) }));
+
+    await expect(authenticateApiToken('pgt_secret', 'images:read')).resolves.toEqual(user);
+    expect(mockedPrisma.apiToken.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens without the scope, expired tokens and unknown tokens', async () => {
+    mockedPrisma.apiToken.findUnique.mockResolvedValueOnce(storedToken());
+    await expect(authenticateApiToken('pgt_secret', 'galleries:write')).resolves.toBeNull();
+
+    mockedPrisma.apiToken.findUnique.mockResolvedValueOnce(storedToken({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(authenticateApiToken('pgt_secret', 'images:read')).resolves.toBeNull();
+
+    mockedPrisma.apiToken.findUnique.mockResolvedValueOnce(null);
+    await expect(authenticateApiToken('pgt_unknown', 'images:read')).resolves.toBeNull();
+
+    expect(mockedPrisma.apiToken.update).not.toHaveBeenCalled();
+  });
+
+  describe('getApiSession', () => {
+    it('uses the bearer token instead of the browser session', async () => {
+      mockedPrisma.apiToken.findUnique.mockResolvedValue(storedToken());
+      const req = new Request('http://localhost/api/images', { headers: { Authorization: 'Bearer pgt_secret' } });
+
+      await expect(getApiSession(req, 'images:read')).resolves.toEqual({ user });
+      expect(mockedGetServerSession).not.toHaveBeenCalled();
+    });
+
+    it('has no session for a token without the scope', async () => {
+      mockedPrisma.apiToken.findUnique.mockResolvedValue(storedToken());
+      const req = new Request('http://localhost/api/galleries', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer pgt_secret' },
+      });
+
+      await expect(getApiSession(req, 'galleries:write')).resolves.toBeNull();
+    });
+
+    it('falls back to the browser session', async () => {
+      mockedGetServerSession.mockResolvedValue({ user });
+
+      await expect(getApiSession(new Request('http://localhost/api/tags'), 'images:read')).resolves.toEqual({ user });
+    });
+  });
+});
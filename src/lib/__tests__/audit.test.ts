@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { exportAuditEventsCsv, listAuditEvents, recordAuditEvent } from '@/lib/audit';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+    auditEvent: { count: jest.fn(), createMany: jest.fn(), findMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/logger', () => ({ __esModule: true, default: { error: jest.fn() } }));
+
+const mockedPrisma = prisma as unknown as {
+  auditEvent: { count: jest.Mock; createMany: jest.Mock; findMany: jest.Mock };
+};
+
+function storedEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    action: 'gallery.deleted',
+    actorId: 'user-1',
+    actorEmail: 'ada@example.com',
+    targetType: 'gallery',
+    targetId: 'gallery-1',
+    ip: '203.0.113.7',
+    details: null,
+    createdAt: new Date('2025-06-25T10:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('audit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordAuditEvent', () => {
+    it('stores the actor, target and serialized details', async () => {
+      mockedPrisma.auditEvent.createMany.mockResolvedValue({ count: 1 });
+
+      await recordAuditEvent({
+        action: 'user.role_changed',
+        actor: { id: 'admin-1', email: 'admin@example.com' },
+        target: { type: 'user', id: 'user-1' },
+        details: { from: 'USER', to: 'ADMIN' },
+      });
+
+      expect(mockedPrisma.auditEvent.createMany).toHaveBeenCalledWith({
+        data: [{
+          action: 'user.role_changed',
+          actorId: 'admin-1',
+          actorEmail: 'admin@example.com',
+          targetType: 'user',
+          targetId: 'user-1',
+          ip: null,
+          details: '{"from":"USER","to":"ADMIN"}',
+        }],
+      });
+    });
+
+    it('logs instead of throwing when the event cannot be stored', async () => {
+      mockedPrisma.auditEvent.createMany.mockRejectedValue(new Error('database is locked'));
+
+      await expect(recordAuditEvent({ action: 'image.deleted' })).resolves.toBeUndefined();
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('listAuditEvents', () => {
+    it('filters by actor, action and whole UTC days', async () => {
+      mockedPrisma.auditEvent.findMany.mockResolvedValue([storedEvent({ details: '{"title":"Trip"}' })]);
+      mockedPrisma.auditEvent.count.mockResolvedValue(51);
+
+      const result = await listAuditEvents({
+        actor: 'ada',
+        action: 'gallery.deleted',
+        from: '2025-06-01',
+        to: '2025-06-30',
+        page: 2,
+        limit: 50,
+      });
+
+      expect(mockedPrisma.auditEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [{ actorId: 'ada' }, { actorEmail: { contains: 'ada' } }],
+          action: 'gallery.deleted',
+          createdAt: {
+            gte: new Date('2025-06-01T00:00:00.000Z'),
+            lt: new Date('2025-07-01T00:00:00.000Z'),
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 50,
+        take: 50,
+      });
+      expect(result.total).toBe(51);
+      expect(result.events[0].details).toEqual({ title: 'Trip' });
+    });
+  });
+
+  describe('exportAuditEventsCsv', () => {
+    it('quotes fields and defuses spreadsheet formulas', async () => {
+      mockedPrisma.auditEvent.findMany.mockResolvedValue([
+        storedEvent({ actorEmail: '=HYPERLINK("http://evil")', details: '{"title":"a, b"}' }),
+      ]);
+
+      const csv = await exportAuditEventsCsv({});
+      const [header, row] = csv.split('\r\n');
+
+      expect(header).toBe('createdAt,action,actorId,actorEmail,targetType,targetId,ip,details');
+      expect(row).toBe(
+        '2025-06-25T10:00:00.000Z,gallery.deleted,user-1,"\'=HYPERLINK(""http://evil"")",gallery,gallery-1,203.0.113.7,"{""title"":""a, b""}"'
+      );
+      expect(csv.endsWith('\r\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { sendMail } from '@/lib/mail';
+import { emailVerification } from '@/lib/config';
+import {
+  canPublishGalleries,
+  createVerificationToken,
+  resendVerificationEmail,
+  sendVerificationEmail,
+  verifyEmail,
+} from '@/lib/emailVerification';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/mail', () => ({
+  sendMail: jest.fn(),
+  appUrl: (path: string) => `http://localhost:3000${path}`,
+}));
+
+const mockedUsers = (prisma as unknown as { user: { findUnique: jest.Mock; update: jest.Mock } }).user;
+
+describe('emailVerification', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET;
+  const user = { id: 'user-1', email: 'user@example.com' };
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should email a link that verifies the address', async () => {
+    await sendVerificationEmail(user);
+
+    const text = (sendMail as jest.Mock).mock.calls[0][0].text as string;
+    const token = decodeURIComponent(text.match(/\/auth\/verify\?token=(\S+)/)![1]);
+
+    mockedUsers.findUnique.mockResolvedValue({ ...user, emailVerified: null });
+    await expect(verifyEmail(token)).resolves.toBe('user@example.com');
+    expect(mockedUsers.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { emailVerified: expect.any(Date) },
+    });
+  });
+
+  it('should reject tampered and expired links and links for an old address', async () => {
+    const token = createVerificationToken(user);
+    mockedUsers.findUnique.mockImplementation(({ where }) => Promise.resolve({ ...user, id: where.id, emailVerified: null }));
+
+    const [, expires, signature] = token.split('.');
+    await expect(verifyEmail(`user-2.${expires}.${signature}`)).rejects.toMatchObject({ status: 400 });
+    await expect(verifyEmail(`user-1.${Number(expires) + 60}.${signature}`)).rejects.toMatchObject({ status: 400 });
+    await expect(verifyEmail('garbage')).rejects.toMatchObject({ status: 400 });
+
+    const expired = createVerificationToken(user, Date.now() - (emailVerification.tokenTtl + 60) * 1000);
+    await expect(verifyEmail(expired)).rejects.toMatchObject({ status: 410 });
+
+    mockedUsers.findUnique.mockResolvedValue({ ...user, email: 'new@example.com', emailVerified: null });
+    await expect(verifyEmail(token)).rejects.toMatchObject({ status: 400 });
+
+    expect(mockedUsers.update).not.toHaveBeenCalled();
+  });
+
+  it('should not resend links for verified addresses', async () => {
+    mockedUsers.findUnique.mockResolvedValue({ ...user, emailVerified: new Date() });
+
+    await expect(resendVerificationEmail('user-1')).rejects.toMatchObject({ status: 409 });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('should only block publishing when verification is required', async () => {
+    mockedUsers.findUnique.mockResolvedValue({ emailVerified: null });
+
+    await expect(canPublishGalleries('user-1')).resolves.toBe(true);
+
+    emailVerification.requiredToPublish = true;
+    try {
+      await expect(canPublishGalleries('user-1')).resolves.toBe(false);
+      mockedUsers.findUnique.mockResolvedValue({ emailVerified: new Date() });
+      await expect(canPublishGalleries('user-1')).resolves.toBe(true);
+    } finally {
+      emailVerification.requiredToPublish = false;
+    }
+  });
+});
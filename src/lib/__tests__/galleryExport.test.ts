@@ -0,0 +1,164 @@
+/**
+ * @jest-environment node
+ */
+import { inflateRawSync } from 'zlib';
+import { prisma } from '@/lib/db';
+import { readStoredFile } from '@/lib/storage';
+import { buildXmpSidecar, galleryExportEntries, loadExportableGallery, sanitizeFileName } from '@/lib/galleryExport';
+import { zipChunks } from '@/lib/zip';
+import { GalleryExportManifestSchema } from '@/lib/schemas';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    gallery: { findUnique: jest.fn() },
+    galleryMember: { findUnique: jest.fn() },
+  },
+}));
+jest.mock('@/lib/storage', () => ({ readStoredFile: jest.fn() }));
+
+const mockedPrisma = prisma as unknown as {
+  gallery: { findUnique: jest.Mock };
+  galleryMember: { findUnique: jest.Mock };
+};
+
+function entry(order: number, image: Record<string, unknown>, description: string | null = null) {
+  return {
+    id: `entry-${order}`,
+    galleryId: 'gallery-1',
+    imageId: image.id,
+    order,
+    description,
+    addedById: 'owner',
+    addedBy: null,
+    createdAt: new Date(),
+    image: {
+      userId: 'owner',
+      description: null,
+      hiddenAt: null,
+      updatedAt: new Date('2025-06-01T12:00:00'),
+      tags: [],
+      metadata: null,
+      ...image,
+    },
+  };
+}
+
+function storedGallery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'gallery-1',
+    title: 'Summer 2025',
+    description: 'Holidays',
+    userId: 'owner',
+    isPublic: true,
+    hiddenAt: null,
+    deletedAt: null,
+    smartRules: null,
+    images: [
+      entry(0, { id: 'image-1', title: 'Sunset at sea', url: '/uploads/sunset.jpg', tags: [{ name: 'travel/greece' }] }, 'Our last evening'),
+      entry(1, { id: 'image-2', title: '../../etc/passwd', url: '/uploads/gone.png' }),
+      entry(2, { id: 'image-3', title: 'Harbour', url: '/uploads/harbour.PNG', metadata: { width: 40, height: 20, capturedAt: new Date('2025-05-30T08:00:00Z') } }),
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Read an archive back through its central directory
+ */
+async function unzip(entries: Parameters<typeof zipChunks>[0]): Promise<Map<string, Buffer>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of zipChunks(entries)) {
+    chunks.push(chunk);
+  }
+  const archive = Buffer.concat(chunks);
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const files = new Map<string, Buffer>();
+  let offset = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, method === 8 ? inflateRawSync(data) : data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('galleryExport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.galleryMember.findUnique.mockResolvedValue(null);
+    (readStoredFile as jest.Mock).mockImplementation(async (url: string) =>
+      url === '/uploads/gone.png' ? null : Buffer.from(`contents of ${url}`));
+  });
+
+  it('sanitizes titles into safe file names', () => {
+    expect(sanitizeFileName('../../etc/passwd', 'image')).toBe('etcpasswd');
+    expect(sanitizeFileName('  Sunset: "at sea"?  ', 'image')).toBe('Sunset-at-sea');
+    expect(sanitizeFileName('Café\u0000 noir', 'image')).toBe('Café-noir');
+    expect(sanitizeFileName('...', 'image')).toBe('image');
+  });
+
+  it('exports the images in order with a manifest and XMP sidecars', async () => {
+    mockedPrisma.gallery.findUnique.mockResolvedValue(storedGallery());
+    const gallery = await loadExportableGallery('gallery-1', { id: 'owner' });
+
+    const files = await unzip(galleryExportEntries(gallery, { xmp: true }));
+
+    // The image whose file is gone is left out, keeping its place in the numbering
+    expect([...files.keys()]).toEqual([
+      '001-Sunset-at-sea.jpg',
+      '001-Sunset-at-sea.xmp',
+      '003-Harbour.png',
+      '003-Harbour.xmp',
+      'manifest.json',
+    ]);
+    expect(files.get('001-Sunset-at-sea.jpg')!.toString()).toBe('contents of /uploads/sunset.jpg');
+    expect(files.get('001-Sunset-at-sea.xmp')!.toString()).toContain('<rdf:li xml:lang="x-default">Our last evening</rdf:li>');
+
+    const manifest = GalleryExportManifestSchema.parse(JSON.parse(files.get('manifest.json')!.toString()));
+    expect(manifest.gallery).toEqual({ id: 'gallery-1', title: 'Summer 2025', description: 'Holidays' });
+    expect(manifest.images).toEqual([
+      expect.objectContaining({
+        file: '001-Sunset-at-sea.jpg',
+        xmpFile: '001-Sunset-at-sea.xmp',
+        title: 'Sunset at sea',
+        caption: 'Our last evening',
+        tags: ['travel/greece'],
+        order: 0,
+      }),
+      expect.objectContaining({ file: '003-Harbour.png', order: 2, width: 40, height: 20, capturedAt: '2025-05-30T08:00:00.000Z' }),
+    ]);
+  });
+
+  it('writes nested tags as hierarchical keywords and escapes XML', () => {
+    const xmp = buildXmpSidecar({ title: 'Fish & <chips>', description: null, caption: null, tags: ['travel/greece', 'food'] });
+
+    expect(xmp).toContain('<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Fish &amp; &lt;chips&gt;</rdf:li></rdf:Alt></dc:title>');
+    expect(xmp).toContain('<dc:subject><rdf:Bag><rdf:li>travel</rdf:li><rdf:li>greece</rdf:li><rdf:li>food</rdf:li></rdf:Bag></dc:subject>');
+    expect(xmp).toContain('<lr:hierarchicalSubject><rdf:Bag><rdf:li>travel|greece</rdf:li></rdf:Bag></lr:hierarchicalSubject>');
+    expect(xmp).not.toContain('dc:description');
+  });
+
+  it('applies the gallery visibility rules', async () => {
+    mockedPrisma.gallery.findUnique.mockResolvedValue(storedGallery({ isPublic: false }));
+    await expect(loadExportableGallery('gallery-1', { id: 'stranger' })).rejects.toMatchObject({ status: 401 });
+
+    mockedPrisma.gallery.findUnique.mockResolvedValue(storedGallery({ deletedAt: new Date() }));
+    await expect(loadExportableGallery('gallery-1', { id: 'owner' })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('keeps public galleries to their owner and members unless public exports are enabled', async () => {
+    mockedPrisma.gallery.findUnique.mockResolvedValue(storedGallery());
+    await expect(loadExportableGallery('gallery-1')).rejects.toMatchObject({ status: 403 });
+
+    mockedPrisma.galleryMember.findUnique.mockResolvedValue({ role: 'VIEWER' });
+    await expect(loadExportableGallery('gallery-1', { id: 'friend' })).resolves.toMatchObject({ id: 'gallery-1' });
+  });
+});
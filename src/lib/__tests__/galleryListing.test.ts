@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { galleryListFilter, listGallerySummaries } from '@/lib/galleryListing';
+import { GalleryListQuerySchema } from '@/lib/schemas';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    gallery: { findMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/smartGalleries', () => ({
+  parseSmartRules: (stored: string | null) => (stored ? JSON.parse(stored) : null),
+  countSmartGalleryImages: jest.fn(),
+  findSmartGalleryImages: jest.fn(),
+}));
+
+const mockedPrisma = prisma as unknown as { gallery: { findMany: jest.Mock } };
+
+function image(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: `Image ${id}`,
+    url: `/uploads/${id}.jpg`,
+    userId: 'owner',
+    hiddenAt: null,
+    variants: [{ name: 'medium', format: 'webp', width: 640, height: 480, size: 1000, url: `/uploads/${id}-640.webp` }],
+    ...overrides,
+  };
+}
+
+function row(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: `Gallery ${id}`,
+    description: null,
+    isPublic: true,
+    userId: 'owner',
+    coverImageId: null,
+    createdAt: new Date('2025-06-01T00:00:00Z'),
+    updatedAt: new Date('2025-06-01T00:00:00Z'),
+    smartRules: null,
+    hiddenAt: null,
+    moderationReason: null,
+    user: { id: 'owner', name: 'Ada', image: null },
+    coverImage: null,
+    images: [],
+    _count: { images: 0 },
+    ...overrides,
+  };
+}
+
+describe('galleryListing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('galleryListFilter', () => {
+    it('needs a signed-in user for personal scopes', () => {
+      expect(galleryListFilter('public', undefined)).toEqual({ isPublic: true, hiddenAt: null });
+      expect(galleryListFilter('accessible', undefined)).toEqual({ isPublic: true, hiddenAt: null });
+      expect(galleryListFilter('owned', undefined)).toBeNull();
+      expect(galleryListFilter('owned', 'user-1')).toEqual({ userId: 'user-1' });
+      expect(galleryListFilter('shared', 'user-1')).toEqual({ members: { some: { userId: 'user-1' } } });
+    });
+  });
+
+  describe('listGallerySummaries', () => {
+    it('fetches one extra row to find the next cursor', async () => {
+      mockedPrisma.gallery.findMany.mockResolvedValue([row('g3'), row('g2'), row('g1')]);
+
+      const page = await listGallerySummaries(
+        GalleryListQuerySchema.parse({ sort: 'title', cursor: 'g4', limit: 2 }),
+        undefined
+      );
+
+      expect(mockedPrisma.gallery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { isPublic: true, hiddenAt: null, deletedAt: null },
+        orderBy: [{ title: 'asc' }, { id: 'asc' }],
+        take: 3,
+        skip: 1,
+        cursor: { id: 'g4' },
+      }));
+      expect(page!.data.map(gallery => gallery.id)).toEqual(['g3', 'g2']);
+      expect(page!.meta).toEqual({ perPage: 2, hasNextPage: true, nextCursor: 'g2' });
+    });
+
+    it('ends on a short page', async () => {
+      mockedPrisma.gallery.findMany.mockResolvedValue([row('g1')]);
+
+      const page = await listGallerySummaries(GalleryListQuerySchema.parse({}), undefined);
+
+      expect(page!.meta).toEqual({ perPage: 24, hasNextPage: false, nextCursor: null });
+    });
+
+    it('summarizes galleries with a thumbnail of the cover', async () => {
+      mockedPrisma.gallery.findMany.mockResolvedValue([
+        row('g1', { coverImageId: 'cover', coverImage: image('cover'), _count: { images: 12 } }),
+        // A hidden cover falls back to the first visible image
+        row('g2', { coverImage: image('hidden', { hiddenAt: new Date() }), images: [{ image: image('first') }] }),
+      ]);
+
+      const page = await listGallerySummaries(GalleryListQuerySchema.parse({}), 'viewer');
+
+      expect(page!.data[0]).toMatchObject({
+        imageCount: 12,
+        coverImage: { id: 'cover', url: '/uploads/cover.jpg', thumbnailUrl: '/uploads/cover-640.webp' },
+      });
+      expect(page!.data[0]).not.toHaveProperty('images');
+      expect(page!.data[0]).not.toHaveProperty('themeColor');
+      expect(page!.data[1].coverImage?.id).toBe('first');
+    });
+
+    it('tells only the owner why a moderator stepped in', async () => {
+      mockedPrisma.gallery.findMany.mockResolvedValue([row('g1', { isPublic: false, moderationReason: 'Spam' })]);
+
+      const asOwner = await listGallerySummaries(GalleryListQuerySchema.parse({ scope: 'owned' }), 'owner');
+      const asMember = await listGallerySummaries(GalleryListQuerySchema.parse({ scope: 'shared' }), 'member');
+
+      expect(asOwner!.data[0].moderationReason).toBe('Spam');
+      expect(asMember!.data[0].moderationReason).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import type { Gallery, ImageInGallery } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { sendMail } from '@/lib/mail';
+import { acceptGalleryInvitation, findForbiddenGalleryChange, inviteGalleryMember } from '@/lib/galleryMembers';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    galleryMember: { upsert: jest.fn() },
+    galleryInvitation: { findUnique: jest.fn(), update: jest.fn(), deleteMany: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/mail', () => ({
+  sendMail: jest.fn(),
+  appUrl: (path: string) => `http://localhost:3000${path}`,
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  galleryMember: { upsert: jest.Mock };
+  galleryInvitation: { findUnique: jest.Mock; update: jest.Mock; deleteMany: jest.Mock; create: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+function makeGallery(images: Partial<ImageInGallery>[] = []): Gallery & { images: ImageInGallery[] } {
+  return {
+    id: 'gallery-1',
+    title: 'Trip',
+    description: null,
+    isPublic: false,
+    userId: 'owner',
+    coverImageId: null,
+    themeColor: null,
+    backgroundColor: null,
+    backgroundImageUrl: null,
+    accentColor: null,
+    fontFamily: null,
+    displayMode: null,
+    layoutType: null,
+    smartRules: null,
+    hiddenAt: null,
+    moderationReason: null,
+    deletedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    images: images.map((image, index) => ({
+      id: `entry-${index}`,
+      imageId: `image-${index}`,
+      galleryId: 'gallery-1',
+      description: null,
+      order: index,
+      createdAt: new Date(),
+      addedById: 'owner',
+      ...image,
+    })),
+  };
+}
+
+describe('galleryMembers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockImplementation(arg => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)));
+  });
+
+  describe('findForbiddenGalleryChange', () => {
+    // What the edit page sends when nothing but the images changed
+    const unchanged = { id: 'gallery-1', title: 'Trip', description: '', isPublic: false, coverImageId: null, smartRules: null };
+
+    it('should let contributors add images and remove only their own', () => {
+      const gallery = makeGallery([{ addedById: 'owner' }, { addedById: 'contributor' }]);
+      const keep = (index: number) => ({ id: `entry-${index}`, order: index });
+
+      expect(findForbiddenGalleryChange('CONTRIBUTOR', 'contributor', gallery, {
+        ...unchanged,
+        images: [keep(0), { id: 'temp-1', imageId: 'image-9', order: 2 }],
+      })).toBeNull();
+      expect(findForbiddenGalleryChange('CONTRIBUTOR', 'contributor', gallery, {
+        ...unchanged,
+        images: [keep(1)],
+      })).toMatch(/only remove images you added/);
+      expect(findForbiddenGalleryChange('CONTRIBUTOR', 'contributor', gallery, {
+        ...unchanged,
+        images: [{ ...keep(1), order: 0 }, { ...keep(0), order: 1 }],
+      })).toMatch(/reorder/);
+    });
+
+    it('should keep details with editors and visibility and smart rules with the owner', () => {
+      const gallery = makeGallery();
+
+      expect(findForbiddenGalleryChange('CONTRIBUTOR', 'contributor', gallery, { ...unchanged, title: 'Renamed' })).toMatch(/details/);
+      expect(findForbiddenGalleryChange('EDITOR', 'editor', gallery, { ...unchanged, title: 'Renamed' })).toBeNull();
+      expect(findForbiddenGalleryChange('EDITOR', 'editor', gallery, { ...unchanged, isPublic: true })).toMatch(/Only the owner/);
+      expect(findForbiddenGalleryChange('OWNER', 'owner', gallery, { ...unchanged, isPublic: true })).toBeNull();
+      expect(findForbiddenGalleryChange('EDITOR', 'editor', gallery, { ...unchanged, smartRules: { anyTags: ['family'] } })).toMatch(/Only the owner/);
+      expect(findForbiddenGalleryChange('OWNER', 'owner', gallery, { ...unchanged, smartRules: { anyTags: ['family'] } })).toBeNull();
+      expect(findForbiddenGalleryChange('VIEWER', 'viewer', gallery, { ...unchanged, addImages: ['image-9'] })).toMatch(/add images/);
+    });
+  });
+
+  describe('invitations', () => {
+    const invitation = {
+      id: 'invitation-1',
+      galleryId: 'gallery-1',
+      email: 'friend@example.com',
+      role: 'CONTRIBUTOR',
+      token: 'token-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      acceptedAt: null,
+      gallery: { id: 'gallery-1', title: 'Trip', userId: 'owner' },
+      invitedBy: { name: 'Owner' },
+    };
+
+    it('should email a link to the invitation', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(null);
+      mockedPrisma.galleryInvitation.create.mockImplementation(({ data }) => Promise.resolve({ id: 'invitation-1', createdAt: new Date(), ...data }));
+
+      await inviteGalleryMember(makeGallery(), { id: 'owner', name: 'Owner' }, { email: 'friend@example.com', role: 'CONTRIBUTOR' });
+
+      const token = mockedPrisma.galleryInvitation.create.mock.calls[0][0].data.token;
+      expect(mockedPrisma.galleryInvitation.deleteMany).toHaveBeenCalledWith({
+        where: { galleryId: 'gallery-1', email: 'friend@example.com', acceptedAt: null },
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'friend@example.com',
+        text: expect.stringContaining(`http://localhost:3000/invitations/${token}`),
+      }));
+    });
+
+    it('should not invite the owner or existing members', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ id: 'owner', galleryMemberships: [] });
+      await expect(inviteGalleryMember(makeGallery(), { id: 'owner' }, { email: 'owner@example.com', role: 'VIEWER' }))
+        .rejects.toMatchObject({ status: 400 });
+
+      mockedPrisma.user.findUnique.mockResolvedValue({ id: 'friend', galleryMemberships: [{ id: 'member-1' }] });
+      await expect(inviteGalleryMember(makeGallery(), { id: 'owner' }, { email: 'friend@example.com', role: 'VIEWER' }))
+        .rejects.toMatchObject({ status: 409 });
+
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should only be accepted once, before it expires, by the invited address', async () => {
+      mockedPrisma.galleryInvitation.findUnique.mockResolvedValue(invitation);
+      await expect(acceptGalleryInvitation('token-1', { id: 'someone', email: 'someone@example.com' }))
+        .rejects.toMatchObject({ status: 403 });
+
+      mockedPrisma.galleryInvitation.findUnique.mockResolvedValue({ ...invitation, expiresAt: new Date(Date.now() - 1000) });
+      await expect(acceptGalleryInvitation('token-1', { id: 'friend', email: 'friend@example.com' }))
+        .rejects.toMatchObject({ status: 410 });
+
+      mockedPrisma.galleryInvitation.findUnique.mockResolvedValue({ ...invitation, acceptedAt: new Date() });
+      await expect(acceptGalleryInvitation('token-1', { id: 'friend', email: 'friend@example.com' }))
+        .rejects.toMatchObject({ status: 410 });
+      expect(mockedPrisma.galleryMember.upsert).not.toHaveBeenCalled();
+
+      mockedPrisma.galleryInvitation.findUnique.mockResolvedValue(invitation);
+      await expect(acceptGalleryInvitation('token-1', { id: 'friend', email: 'Friend@Example.com' })).resolves.toBe('gallery-1');
+      expect(mockedPrisma.galleryMember.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { galleryId: 'gallery-1', userId: 'friend', role: 'CONTRIBUTOR' },
+      }));
+      expect(mockedPrisma.galleryInvitation.update).toHaveBeenCalledWith({
+        where: { id: 'invitation-1' },
+        data: { acceptedAt: expect.any(Date) },
+      });
+    });
+  });
+});
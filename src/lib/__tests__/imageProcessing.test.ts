@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp';
+import piexif from 'piexifjs';
+import { computeImageHashes, extractImageMetadata, stripGpsMetadata } from '@/lib/imageProcessing';
+import { computePerceptualHash, hammingDistance, HASH_SOURCE_HEIGHT, HASH_SOURCE_WIDTH } from '@/lib/utils/imageHashing';
+
+// XMP as written by photo managers, with location both as attributes and as elements
+const XMP_PACKET = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:exif="http://ns.adobe.com/exif/1.0/"
+        exif:GPSLatitude="35,0.696N"
+        exif:GPSLongitude="135,46.086E">
+      <exif:GPSAltitude>120/1</exif:GPSAltitude>
+      <exif:GPSVersionID>2.3.0.0</exif:GPSVersionID>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Fushimi Inari</rdf:li></rdf:Alt></dc:title>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+function xmpSegment(packet: string): Buffer {
+  const data = Buffer.concat([Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1'), Buffer.from(packet, 'utf8')]);
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+// A JPEG with location data in its EXIF block and its XMP packet
+async function geotaggedJpeg(): Promise<Buffer> {
+  const jpeg = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+  const exif = piexif.dump({
+    '0th': { [piexif.ImageIFD.Make]: 'Canon' },
+    GPS: {
+      [piexif.GPSIFD.GPSLatitudeRef]: 'N',
+      [piexif.GPSIFD.GPSLatitude]: [[35, 1], [0, 1], [4176, 100]],
+      [piexif.GPSIFD.GPSLongitudeRef]: 'E',
+      [piexif.GPSIFD.GPSLongitude]: [[135, 1], [46, 1], [516, 100]],
+    },
+  });
+  const withExif = Buffer.from(piexif.insert(exif, jpeg.toString('binary')), 'binary');
+  return Buffer.concat([withExif.subarray(0, 2), xmpSegment(XMP_PACKET), withExif.subarray(2)]);
+}
+
+describe('stripGpsMetadata', () => {
+  it('should remove location from both the EXIF block and the XMP packet of JPEGs', async () => {
+    const original = await geotaggedJpeg();
+    expect(await extractImageMetadata(original)).toMatchObject({ latitude: expect.any(Number), longitude: expect.any(Number) });
+
+    const stripped = await stripGpsMetadata(original, 'image/jpeg');
+
+    const metadata = await extractImageMetadata(stripped);
+    expect(metadata).toMatchObject({ latitude: null, longitude: null, altitude: null, cameraMake: 'Canon' });
+    const text = stripped.toString('latin1');
+    expect(text).not.toMatch(/GPS/);
+    expect(text).toContain('Fushimi Inari');
+    expect((await sharp(stripped).metadata()).width).toBe(16);
+  });
+
+  it('should strip XMP location from JPEGs without EXIF location', async () => {
+    const jpeg = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+    const original = Buffer.concat([jpeg.subarray(0, 2), xmpSegment(XMP_PACKET), jpeg.subarray(2)]);
+
+    const stripped = await stripGpsMetadata(original, 'image/jpeg');
+
+    expect(stripped.toString('latin1')).not.toMatch(/GPS/);
+    expect(stripped.length).toBeLessThan(original.length);
+  });
+
+  it('should leave JPEGs without location untouched', async () => {
+    const jpeg = await sharp({ create: { width: 16, height: 16, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+
+    expect(await stripGpsMetadata(jpeg, 'image/jpeg')).toBe(jpeg);
+  });
+});
+
+describe('computeImageHashes', () => {
+  // Shapes and a gradient at a size that doesn't divide evenly into the hash thumbnail
+  const fixture = () => sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="317" height="211">
+    <defs><linearGradient id="g"><stop offset="0" stop-color="#123"/><stop offset="1" stop-color="#fd8"/></linearGradient></defs>
+    <rect width="317" height="211" fill="url(#g)"/>
+    <circle cx="90" cy="110" r="60" fill="#c33"/>
+    <rect x="190" y="30" width="90" height="140" fill="#2a6"/>
+  </svg>`)).jpeg({ quality: 90 }).toBuffer();
+
+  it('should match the perceptual hash browsers compute from the decoded pixels', async () => {
+    const jpeg = await fixture();
+    const { perceptualHash } = await computeImageHashes(jpeg);
+
+    // What the upload form reads back from its canvas, resampled differently than on the server
+    const data = await sharp(jpeg)
+      .resize(HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT, { fit: 'fill', kernel: 'mitchell' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer();
+    const browserHash = computePerceptualHash(data, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT, 4);
+
+    expect(perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(perceptualHash!, browserHash)).toBeLessThanOrEqual(2);
+  });
+
+  it('should give re-encoded copies nearly the same perceptual hash', async () => {
+    const jpeg = await fixture();
+    const png = await sharp(jpeg).png().toBuffer();
+    const smaller = await sharp(jpeg).resize(160).webp().toBuffer();
+
+    const [original, copy, resized] = await Promise.all([jpeg, png, smaller].map(computeImageHashes));
+
+    expect(copy.contentHash).not.toBe(original.contentHash);
+    expect(hammingDistance(original.perceptualHash!, copy.perceptualHash!)).toBe(0);
+    expect(hammingDistance(original.perceptualHash!, resized.perceptualHash!)).toBeLessThanOrEqual(2);
+  });
+  it('should hash large photos from a shrunk copy', async () => {
+    const jpeg = await fixture();
+    const large = await sharp(jpeg).resize(7000, 4660, { fit: 'fill' }).jpeg().toBuffer();
+
+    const [original, enlarged] = await Promise.all([jpeg, large].map(computeImageHashes));
+
+    expect(hammingDistance(original.perceptualHash!, enlarged.perceptualHash!)).toBeLessThanOrEqual(2);
+  });
+});
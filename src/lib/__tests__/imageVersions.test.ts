@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp';
+import { prisma } from '@/lib/db';
+import { deleteStoredFiles, readStoredFile } from '@/lib/storage';
+import { storeImageVariants } from '@/lib/uploadProcessing';
+import { renderEditRecipe } from '@/lib/imageProcessing';
+import { createImageVersion, ImageVersionError, revertToVersion } from '@/lib/imageVersions';
+import { ImageEditRecipeSchema } from '@/lib/schemas';
+
+const mockPut = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+    image: { findUnique: jest.fn(), update: jest.fn() },
+    imageVersion: { create: jest.fn(), findUniqueOrThrow: jest.fn() },
+    imageVariant: { deleteMany: jest.fn(), createMany: jest.fn() },
+    imageMetadata: { updateMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/storage', () => ({
+  getStorage: () => ({ put: mockPut }),
+  readStoredFile: jest.fn(),
+  resolveStoredFile: (url: string) => ({ key: url.replace('/uploads/', '') }),
+  deleteStoredFiles: jest.fn(),
+}));
+jest.mock('@/lib/uploadProcessing', () => ({ storeImageVariants: jest.fn() }));
+
+const mockedPrisma = prisma as unknown as {
+  image: { findUnique: jest.Mock; update: jest.Mock };
+  imageVersion: { create: jest.Mock; findUniqueOrThrow: jest.Mock };
+  imageVariant: { deleteMany: jest.Mock; createMany: jest.Mock };
+};
+
+/**
+ * A 40x20 PNG: red on the left half, blue on the right
+ */
+async function twoToneImage(): Promise<Buffer> {
+  const pixels = Buffer.alloc(40 * 20 * 3);
+  for (let y = 0; y < 20; y++) {
+    for (let x = 0; x < 40; x++) {
+      pixels[(y * 40 + x) * 3 + (x < 20 ? 0 : 2)] = 200;
+    }
+  }
+  return sharp(pixels, { raw: { width: 40, height: 20, channels: 3 } }).png().toBuffer();
+}
+
+async function pixelAt(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return [data[offset], data[offset + 1], data[offset + 2]];
+}
+
+function editableImage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'image-1',
+    userId: 'owner',
+    url: '/uploads/photo.png',
+    currentVersion: null,
+    variants: [{ url: '/uploads/photo-thumb.webp' }],
+    metadata: { width: 40, height: 20 },
+    versions: [],
+    ...overrides,
+  };
+}
+
+describe('renderEditRecipe', () => {
+  it('crops the flipped image as it is displayed', async () => {
+    const recipe = ImageEditRecipeSchema.parse({ crop: { x: 0, y: 0, width: 0.25, height: 1 }, flipHorizontal: true });
+    const result = await renderEditRecipe(await twoToneImage(), recipe);
+
+    expect(result).toMatchObject({ format: 'png', width: 10, height: 20 });
+    // The left quarter of the mirrored image is blue
+    expect(await pixelAt(result.data, 2, 2)).toEqual([0, 0, 200]);
+  });
+
+  it('rotates in quarter turns and adjusts exposure', async () => {
+    const recipe = ImageEditRecipeSchema.parse({ rotate: 90, exposure: -1 });
+    const result = await renderEditRecipe(await twoToneImage(), recipe);
+
+    expect(result).toMatchObject({ width: 20, height: 40 });
+    // Turned clockwise, the red half ends up on top, at half the brightness
+    expect(await pixelAt(result.data, 2, 2)).toEqual([100, 0, 0]);
+  });
+
+  it('crops away the corners uncovered by straightening', async () => {
+    const result = await renderEditRecipe(await twoToneImage(), ImageEditRecipeSchema.parse({ straighten: 10 }));
+
+    expect(result.width).toBeLessThan(40);
+    expect(result.width / result.height).toBeCloseTo(2, 0);
+    expect(await pixelAt(result.data, 0, 0)).toEqual([200, 0, 0]);
+  });
+});
+
+describe('image versions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (readStoredFile as jest.Mock).mockResolvedValue(await twoToneImage());
+    (storeImageVariants as jest.Mock).mockResolvedValue([
+      { name: 'thumb', format: 'webp', width: 20, height: 20, size: 100, url: '/uploads/photo-v2-thumb.webp' },
+    ]);
+    mockPut.mockImplementation(async (key: string) => ({ key, url: `/uploads/${key}` }));
+  });
+
+  it('records the original and renders the first edit as version 2', async () => {
+    mockedPrisma.image.findUnique.mockResolvedValue(editableImage());
+    mockedPrisma.imageVersion.findUniqueOrThrow.mockResolvedValue({
+      id: 'version-2', imageId: 'image-1', version: 2, url: '/uploads/photo-v2.png',
+      recipe: '{"rotate":180}', width: 40, height: 20, createdAt: new Date(),
+    });
+
+    const version = await createImageVersion('image-1', 'owner', ImageEditRecipeSchema.parse({ rotate: 180 }));
+
+    expect(readStoredFile).toHaveBeenCalledWith('/uploads/photo.png');
+    expect(mockPut).toHaveBeenCalledWith('photo-v2.png', expect.any(Buffer), { contentType: 'image/png' });
+    expect(mockedPrisma.imageVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 1, url: '/uploads/photo.png', recipe: null, width: 40, height: 20 }),
+    });
+    expect(mockedPrisma.imageVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 2, url: '/uploads/photo-v2.png' }),
+    });
+    expect(mockedPrisma.image.update).toHaveBeenCalledWith({
+      where: { id: 'image-1' },
+      data: { url: '/uploads/photo-v2.png', currentVersion: 2 },
+    });
+    expect(deleteStoredFiles).toHaveBeenCalledWith(['/uploads/photo-thumb.webp']);
+    expect(version).toMatchObject({ version: 2, isCurrent: true, recipe: expect.objectContaining({ rotate: 180 }) });
+  });
+
+  it('renders later edits from the original, not the current version', async () => {
+    mockedPrisma.image.findUnique.mockResolvedValue(editableImage({
+      url: '/uploads/photo-v2.png',
+      currentVersion: 2,
+      versions: [
+        { id: 'version-1', imageId: 'image-1', version: 1, url: '/uploads/photo.png', recipe: null, width: 40, height: 20, createdAt: new Date() },
+        { id: 'version-2', imageId: 'image-1', version: 2, url: '/uploads/photo-v2.png', recipe: '{}', width: 40, height: 20, createdAt: new Date() },
+      ],
+    }));
+    mockedPrisma.imageVersion.findUniqueOrThrow.mockResolvedValue({
+      id: 'version-3', imageId: 'image-1', version: 3, url: '/uploads/photo-v3.png', recipe: '{}', width: 40, height: 20, createdAt: new Date(),
+    });
+
+    await createImageVersion('image-1', 'owner', ImageEditRecipeSchema.parse({ contrast: 0.5 }));
+
+    expect(readStoredFile).toHaveBeenCalledWith('/uploads/photo.png');
+    expect(mockedPrisma.imageVersion.create).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.imageVersion.create).toHaveBeenCalledWith({ data: expect.objectContaining({ version: 3 }) });
+  });
+
+  it('reverts by pointing the image back at an earlier version', async () => {
+    mockedPrisma.image.findUnique.mockResolvedValue(editableImage({
+      url: '/uploads/photo-v2.png',
+      currentVersion: 2,
+      versions: [
+        { id: 'version-1', imageId: 'image-1', version: 1, url: '/uploads/photo.png', recipe: null, width: 40, height: 20, createdAt: new Date() },
+        { id: 'version-2', imageId: 'image-1', version: 2, url: '/uploads/photo-v2.png', recipe: '{}', width: 20, height: 40, createdAt: new Date() },
+      ],
+    }));
+
+    const version = await revertToVersion('image-1', 'owner', 'version-1');
+
+    expect(mockPut).not.toHaveBeenCalled();
+    expect(storeImageVariants).toHaveBeenCalledWith('photo-v1', expect.any(Buffer));
+    expect(mockedPrisma.image.update).toHaveBeenCalledWith({
+      where: { id: 'image-1' },
+      data: { url: '/uploads/photo.png', currentVersion: 1 },
+    });
+    expect(version).toMatchObject({ version: 1, isCurrent: true, recipe: null });
+  });
+
+  it("refuses to edit someone else's image", async () => {
+    mockedPrisma.image.findUnique.mockResolvedValue(editableImage());
+
+    const promise = createImageVersion('image-1', 'intruder', ImageEditRecipeSchema.parse({}));
+    await expect(promise).rejects.toBeInstanceOf(ImageVersionError);
+    await expect(promise).rejects.toMatchObject({ status: 403 });
+    expect(readStoredFile).not.toHaveBeenCalled();
+  });
+});
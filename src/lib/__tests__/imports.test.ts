@@ -0,0 +1,330 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, open, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { prisma } from '@/lib/db';
+import { processUpload } from '@/lib/uploadProcessing';
+import { ensureTags } from '@/lib/tags';
+import { deleteStoredFiles } from '@/lib/storage';
+import { readZipDirectory, readZipEntry, zipChunks, type ZipEntry } from '@/lib/zip';
+import { ImportError, parseImportManifest, planImportItems, receiveImportArchive, runImportJob } from '@/lib/imports';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    importJob: { updateMany: jest.fn(), findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+    importJobItem: { deleteMany: jest.fn(), createMany: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    image: { findFirst: jest.fn(), create: jest.fn() },
+    gallery: { findFirst: jest.fn(), create: jest.fn() },
+    imageInGallery: { aggregate: jest.fn(), findUnique: jest.fn(), create: jest.fn() },
+  },
+}));
+jest.mock('@/lib/config', () => ({
+  imports: {
+    workDirectory: jest.requireActual('path').join(jest.requireActual('os').tmpdir(), 'pic-gallery-import-test'),
+    folderRoot: '',
+    maxArchiveSize: 10 * 1024 * 1024,
+    maxFiles: 100,
+  },
+  uploads: { maxFileSize: 1024 * 1024 },
+}));
+jest.mock('@/lib/uploadProcessing', () => ({ processUpload: jest.fn() }));
+jest.mock('@/lib/tags', () => ({ ensureTags: jest.fn() }));
+jest.mock('@/lib/storage', () => ({ deleteStoredFiles: jest.fn() }));
+
+const workDirectory = join(tmpdir(), 'pic-gallery-import-test');
+
+const mockedPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  importJob: { updateMany: jest.Mock; findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock };
+  importJobItem: { deleteMany: jest.Mock; createMany: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+  image: { findFirst: jest.Mock; create: jest.Mock };
+  gallery: { findFirst: jest.Mock; create: jest.Mock };
+  imageInGallery: { aggregate: jest.Mock; findUnique: jest.Mock; create: jest.Mock };
+};
+
+async function writeZip(path: string, entries: ZipEntry[]): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of zipChunks(entries)) {
+    chunks.push(chunk);
+  }
+  await writeFile(path, Buffer.concat(chunks));
+}
+
+function importJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    userId: 'owner',
+    source: 'zip',
+    sourcePath: null,
+    options: JSON.stringify({ stripGps: false, folderGalleries: true, skipDuplicates: true }),
+    status: 'RUNNING',
+    manifestName: null,
+    totalItems: 0,
+    processedItems: 0,
+    importedCount: 0,
+    skippedCount: 0,
+    failedCount: 0,
+    error: null,
+    heartbeatAt: new Date(),
+    startedAt: null,
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('ZIP reader', () => {
+  it('reads back stored and deflated entries with UTF-8 names', async () => {
+    await mkdir(workDirectory, { recursive: true });
+    const path = join(workDirectory, 'roundtrip.zip');
+    await writeZip(path, [
+      { name: 'Été/photo.jpg', data: Buffer.from('not really a jpeg') },
+      { name: 'notes.txt', data: Buffer.from('hello '.repeat(100)), compress: true },
+    ]);
+
+    const file = await open(path, 'r');
+    try {
+      const entries = await readZipDirectory(file);
+      expect(entries.map(entry => [entry.name, entry.method])).toEqual([['Été/photo.jpg', 0], ['notes.txt', 8]]);
+      expect((await readZipEntry(file, entries[0])).toString()).toBe('not really a jpeg');
+      expect((await readZipEntry(file, entries[1])).toString()).toBe('hello '.repeat(100));
+
+      await expect(readZipEntry(file, { ...entries[0], crc: entries[0].crc ^ 1 })).rejects.toThrow('corrupt');
+    } finally {
+      await file.close();
+      await rm(path, { force: true });
+    }
+  });
+
+  it('refuses entries that are larger than declared or than allowed', async () => {
+    await mkdir(workDirectory, { recursive: true });
+    const path = join(workDirectory, 'bomb.zip');
+    await writeZip(path, [{ name: 'zeros.bin', data: Buffer.alloc(64 * 1024), compress: true }]);
+
+    const file = await open(path, 'r');
+    try {
+      const [entry] = await readZipDirectory(file);
+      await expect(readZipEntry(file, { ...entry, size: 10 })).rejects.toThrow('corrupt');
+      await expect(readZipEntry(file, entry, 1024)).rejects.toThrow('too large');
+      await expect(readZipEntry(file, { ...entry, compressedSize: 1024 * 1024 })).rejects.toThrow('corrupt');
+    } finally {
+      await file.close();
+      await rm(path, { force: true });
+    }
+  });
+
+  it('rejects central directories pointing outside the archive', async () => {
+    await mkdir(workDirectory, { recursive: true });
+    const path = join(workDirectory, 'truncated.zip');
+    const chunks: Buffer[] = [];
+    for await (const chunk of zipChunks([{ name: 'a.txt', data: Buffer.from('a') }])) {
+      chunks.push(chunk);
+    }
+    const archive = Buffer.concat(chunks);
+    // Claim a huge entry count in the end of central directory record
+    archive.writeUInt16LE(0xfffe, archive.length - 12);
+    archive.writeUInt16LE(0xfffe, archive.length - 14);
+    await writeFile(path, archive);
+
+    const file = await open(path, 'r');
+    try {
+      await expect(readZipDirectory(file)).rejects.toThrow('Invalid ZIP central directory');
+    } finally {
+      await file.close();
+      await rm(path, { force: true });
+    }
+  });
+});
+
+describe('import manifests', () => {
+  it('reads CSV manifests with quoted cells and tag lists', () => {
+    const manifest = parseImportManifest('manifest.csv', [
+      '\uFEFFFile,Title,Tags,Gallery,Caption',
+      'a.jpg,"Beach, at dusk","travel;sea",Holidays,"She said ""wow""',
+      'on two lines"',
+      'b.jpg,,,,',
+    ].join('\r\n'));
+
+    expect(manifest.gallery).toBeNull();
+    expect(manifest.entries).toEqual([
+      { file: 'a.jpg', title: 'Beach, at dusk', tags: ['travel', 'sea'], gallery: 'Holidays', caption: 'She said "wow"\r\non two lines' },
+      { file: 'b.jpg' },
+    ]);
+  });
+
+  it('detects semicolon-separated CSV and reports bad rows', () => {
+    expect(parseImportManifest('manifest.csv', 'file;title\nphoto.jpg;Sunset').entries).toEqual([{ file: 'photo.jpg', title: 'Sunset' }]);
+    expect(() => parseImportManifest('manifest.csv', 'title\nSunset')).toThrow('needs a "file" column');
+    expect(() => parseImportManifest('manifest.csv', `file,title\nphoto.jpg,${'x'.repeat(201)}`)).toThrow(/row 2: title/);
+  });
+
+  it('imports gallery export manifests into the exported gallery', () => {
+    const manifest = parseImportManifest('manifest.json', JSON.stringify({
+      version: 1,
+      gallery: { id: 'gallery-1', title: 'Summer 2025', description: null },
+      images: [{ file: '001-Sunset.jpg', title: 'Sunset', caption: 'Last evening', tags: ['travel/greece'], order: 0 }],
+    }));
+
+    expect(manifest).toEqual({
+      gallery: 'Summer 2025',
+      entries: [{ file: '001-Sunset.jpg', title: 'Sunset', caption: 'Last evening', tags: ['travel/greece'] }],
+    });
+    expect(() => parseImportManifest('manifest.json', '{')).toThrow(ImportError);
+  });
+
+  it('plans every file, skipping what is not an image', () => {
+    const items = planImportItems(
+      ['trip/img10.jpg', 'trip/img9.JPG', 'notes.txt', '__MACOSX/trip/._img9.JPG', '.DS_Store', 'trip/img9.xmp', 'manifest.csv'],
+      { gallery: null, entries: [{ file: './trip/img9.JPG', title: 'Nine', tags: ['sea'] }, { file: 'gone.jpg' }] },
+      { folderGalleries: true }
+    );
+
+    expect(items).toEqual([
+      expect.objectContaining({ position: 0, path: 'notes.txt', status: 'SKIPPED', message: 'Not a supported image type' }),
+      expect.objectContaining({ position: 1, path: 'trip/img9.JPG', title: 'Nine', tags: '["sea"]', galleryTitle: 'trip' }),
+      expect.objectContaining({ position: 2, path: 'trip/img10.jpg', title: 'img10', tags: null, galleryTitle: 'trip' }),
+      expect.objectContaining({ position: 3, path: 'gone.jpg', status: 'FAILED', message: 'Listed in the manifest but not found' }),
+    ]);
+  });
+});
+
+describe('import jobs', () => {
+  const archive = join(workDirectory, 'job-1.zip');
+  const known = Buffer.from('already uploaded');
+  let items: Array<Record<string, unknown>>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await mkdir(workDirectory, { recursive: true });
+
+    items = [];
+    mockedPrisma.$transaction.mockImplementation((queries: Promise<unknown>[]) => Promise.all(queries));
+    mockedPrisma.importJob.updateMany.mockResolvedValue({ count: 1 });
+    mockedPrisma.importJob.findUnique.mockResolvedValue({ status: 'RUNNING' });
+    mockedPrisma.importJob.findUniqueOrThrow.mockResolvedValue(importJob());
+    mockedPrisma.importJobItem.createMany.mockImplementation(async ({ data }: { data: Array<Record<string, unknown>> }) => {
+      items.push(...data.map(item => ({ id: `item-${item.position}`, status: 'PENDING', title: null, description: null, tags: null, galleryTitle: null, caption: null, ...item })));
+    });
+    mockedPrisma.importJobItem.findMany.mockImplementation(async () => items.filter(item => item.status === 'PENDING'));
+    mockedPrisma.importJobItem.update.mockImplementation(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      Object.assign(items.find(item => item.id === where.id)!, data);
+    });
+    mockedPrisma.image.findFirst.mockImplementation(async ({ where }: { where: { contentHash: string } }) =>
+      where.contentHash === createHash('sha256').update(known).digest('hex') ? { id: 'image-known' } : null);
+    mockedPrisma.image.create.mockResolvedValue({ id: 'image-new' });
+    mockedPrisma.gallery.findFirst.mockResolvedValue(null);
+    mockedPrisma.gallery.create.mockImplementation(async ({ data }: { data: { title: string } }) => ({ id: `gallery-${data.title}` }));
+    mockedPrisma.imageInGallery.findUnique.mockResolvedValue(null);
+    (processUpload as jest.Mock).mockResolvedValue({ url: '/uploads/beach.jpg', variants: [], metadata: null, contentHash: 'hash', perceptualHash: null });
+    (ensureTags as jest.Mock).mockResolvedValue([{ id: 'tag-travel' }, { id: 'tag-sea' }]);
+  });
+
+  afterAll(async () => {
+    await rm(workDirectory, { recursive: true, force: true });
+  });
+
+  it('imports an archive with a manifest and records what became of each file', async () => {
+    await writeZip(archive, [
+      { name: 'manifest.csv', data: Buffer.from('file,title,tags,gallery,caption\nbeach.jpg,Beach,travel;sea,Holidays,Day one\nghost.jpg,Ghost,,,\n') },
+      { name: 'beach.jpg', data: Buffer.from('new photo') },
+      { name: 'Summer/again.png', data: known },
+      { name: 'readme.txt', data: Buffer.from('hi') },
+    ]);
+
+    await runImportJob('job-1');
+
+    expect(processUpload).toHaveBeenCalledTimes(1);
+    expect(processUpload).toHaveBeenCalledWith(expect.objectContaining({ fileName: 'beach.jpg', mimeType: 'image/jpeg', stripGps: false }));
+    expect(ensureTags).toHaveBeenCalledWith('owner', ['travel', 'sea']);
+    expect(mockedPrisma.image.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ title: 'Beach', userId: 'owner', url: '/uploads/beach.jpg', tags: { connect: [{ id: 'tag-travel' }, { id: 'tag-sea' }] } }),
+    }));
+    expect(mockedPrisma.imageInGallery.create).toHaveBeenCalledWith({
+      data: { imageId: 'image-new', galleryId: 'gallery-Holidays', order: 0, description: 'Day one', addedById: 'owner' },
+    });
+    // Files already in the library are only added to their gallery
+    expect(mockedPrisma.imageInGallery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ imageId: 'image-known', galleryId: 'gallery-Summer' }),
+    });
+
+    expect(items.map(item => [item.path, item.status, item.message ?? null])).toEqual([
+      ['beach.jpg', 'IMPORTED', null],
+      ['readme.txt', 'SKIPPED', 'Not a supported image type'],
+      ['Summer/again.png', 'SKIPPED', 'Already in your library'],
+      ['ghost.jpg', 'FAILED', 'Listed in the manifest but not found'],
+    ]);
+    expect(mockedPrisma.importJob.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ manifestName: 'manifest.csv', totalItems: 4, processedItems: 2, skippedCount: 1, failedCount: 1 }),
+    }));
+    expect(mockedPrisma.importJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'job-1', status: 'RUNNING' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+    expect(existsSync(archive)).toBe(false);
+  });
+
+  it('stops when the job was cancelled', async () => {
+    await writeZip(archive, [{ name: 'beach.jpg', data: Buffer.from('new photo') }]);
+    mockedPrisma.importJob.findUnique.mockResolvedValue({ status: 'CANCELLED' });
+
+    await runImportJob('job-1');
+
+    expect(processUpload).not.toHaveBeenCalled();
+    expect(items).toEqual([expect.objectContaining({ path: 'beach.jpg', status: 'PENDING' })]);
+    expect(existsSync(archive)).toBe(false);
+  });
+
+  it('removes the stored files when the image cannot be saved', async () => {
+    await writeZip(archive, [{ name: 'beach.jpg', data: Buffer.from('new photo') }]);
+    (processUpload as jest.Mock).mockResolvedValue({
+      url: '/uploads/beach.jpg',
+      variants: [{ type: 'THUMBNAIL', url: '/uploads/beach-thumb.webp' }],
+      metadata: null,
+      contentHash: 'hash',
+      perceptualHash: null,
+    });
+    mockedPrisma.image.create.mockRejectedValue(new Error('database is locked'));
+
+    await runImportJob('job-1');
+
+    expect(deleteStoredFiles).toHaveBeenCalledWith(['/uploads/beach.jpg', '/uploads/beach-thumb.webp']);
+    expect(items).toEqual([expect.objectContaining({ path: 'beach.jpg', status: 'FAILED' })]);
+  });
+
+  it('leaves jobs another worker is running alone', async () => {
+    mockedPrisma.importJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await runImportJob('job-1');
+
+    expect(mockedPrisma.importJob.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it('rejects uploads that are not ZIP archives', async () => {
+    const job = importJob({ status: 'AWAITING_UPLOAD' });
+
+    const promise = receiveImportArchive(job as never, new Blob(['just text']).stream());
+    await expect(promise).rejects.toMatchObject({ status: 400 });
+    expect(existsSync(archive)).toBe(false);
+    // The job waits for another archive
+    expect(mockedPrisma.importJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'job-1', status: 'RECEIVING_UPLOAD' },
+      data: { status: 'AWAITING_UPLOAD' },
+    });
+  });
+
+  it('turns away a second upload while the first is still arriving', async () => {
+    mockedPrisma.importJob.updateMany.mockResolvedValue({ count: 0 });
+    const job = importJob({ status: 'AWAITING_UPLOAD' });
+
+    const promise = receiveImportArchive(job as never, new Blob(['PK']).stream());
+    await expect(promise).rejects.toMatchObject({ status: 409 });
+    expect(existsSync(archive)).toBe(false);
+    expect(mockedPrisma.importJob.updateMany).toHaveBeenCalledTimes(1);
+  });
+});
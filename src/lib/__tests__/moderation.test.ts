@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import { createReport, ModerationError, resolveReport, withoutHiddenImages } from '@/lib/moderation';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+    gallery: { findUnique: jest.fn(), update: jest.fn() },
+    image: { findUnique: jest.fn(), update: jest.fn() },
+    report: { create: jest.fn(), findFirst: jest.fn(), findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/audit', () => ({ recordAuditEvent: jest.fn() }));
+
+const mockedPrisma = prisma as unknown as {
+  gallery: { findUnique: jest.Mock; update: jest.Mock };
+  image: { findUnique: jest.Mock; update: jest.Mock };
+  report: { create: jest.Mock; findFirst: jest.Mock; findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; updateMany: jest.Mock };
+};
+
+const publicGallery = { id: 'gallery-1', userId: 'owner', isPublic: true, hiddenAt: null, smartRules: null };
+
+function storedReport(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'report-1',
+    targetType: 'gallery',
+    reason: 'SPAM',
+    details: null,
+    status: 'OPEN',
+    resolution: null,
+    createdAt: new Date(),
+    resolvedAt: null,
+    reporter: null,
+    resolvedBy: null,
+    gallery: null,
+    image: null,
+    ...overrides,
+  };
+}
+
+async function expectModerationError(promise: Promise<unknown>, status: number) {
+  await expect(promise).rejects.toBeInstanceOf(ModerationError);
+  await expect(promise).rejects.toMatchObject({ status });
+}
+
+describe('moderation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createReport', () => {
+    it('reports a public gallery', async () => {
+      mockedPrisma.gallery.findUnique.mockResolvedValue(publicGallery);
+      mockedPrisma.report.findFirst.mockResolvedValue(null);
+      mockedPrisma.report.create.mockResolvedValue(storedReport());
+
+      await createReport('viewer', { targetType: 'gallery', targetId: 'gallery-1', reason: 'SPAM', details: '' });
+
+      expect(mockedPrisma.report.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { targetType: 'gallery', galleryId: 'gallery-1', reporterId: 'viewer', reason: 'SPAM', details: null },
+      }));
+    });
+
+    it('only accepts reports of galleries the reporter can see', async () => {
+      mockedPrisma.gallery.findUnique.mockResolvedValue({ ...publicGallery, isPublic: false });
+      await expectModerationError(createReport('viewer', { targetType: 'gallery', targetId: 'gallery-1', reason: 'SPAM' }), 404);
+
+      mockedPrisma.gallery.findUnique.mockResolvedValue({ ...publicGallery, hiddenAt: new Date() });
+      await expectModerationError(createReport('viewer', { targetType: 'gallery', targetId: 'gallery-1', reason: 'SPAM' }), 404);
+    });
+
+    it('rejects reports of your own content and repeated reports', async () => {
+      mockedPrisma.gallery.findUnique.mockResolvedValue(publicGallery);
+      await expectModerationError(createReport('owner', { targetType: 'gallery', targetId: 'gallery-1', reason: 'SPAM' }), 400);
+
+      mockedPrisma.report.findFirst.mockResolvedValue({ id: 'report-0' });
+      await expectModerationError(createReport('viewer', { targetType: 'gallery', targetId: 'gallery-1', reason: 'SPAM' }), 409);
+    });
+
+    it('accepts image reports for rule matches in smart galleries', async () => {
+      mockedPrisma.gallery.findUnique.mockResolvedValue({ ...publicGallery, smartRules: '{"query":"beach"}' });
+      mockedPrisma.image.findUnique.mockResolvedValue({ userId: 'owner', hiddenAt: null, inGalleries: [] });
+      mockedPrisma.report.findFirst.mockResolvedValue(null);
+      mockedPrisma.report.create.mockResolvedValue(storedReport({ targetType: 'image' }));
+
+      await createReport('viewer', { targetType: 'image', targetId: 'image-1', galleryId: 'gallery-1', reason: 'COPYRIGHT' });
+
+      expect(mockedPrisma.report.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ targetType: 'image', galleryId: 'gallery-1', imageId: 'image-1' }),
+      }));
+    });
+
+    it('rejects image reports for images outside the gallery', async () => {
+      mockedPrisma.gallery.findUnique.mockResolvedValue(publicGallery);
+      mockedPrisma.image.findUnique.mockResolvedValue({ userId: 'someone', hiddenAt: null, inGalleries: [] });
+
+      await expectModerationError(
+        createReport('viewer', { targetType: 'image', targetId: 'image-1', galleryId: 'gallery-1', reason: 'SPAM' }),
+        404
+      );
+    });
+  });
+
+  describe('resolveReport', () => {
+    const moderator = { id: 'admin', email: 'admin@example.com' };
+
+    it('hides the content and resolves every open report of it', async () => {
+      mockedPrisma.report.findUnique.mockResolvedValue({ id: 'report-1', targetType: 'image', galleryId: 'gallery-1', imageId: 'image-1', status: 'OPEN' });
+      mockedPrisma.report.findUniqueOrThrow.mockResolvedValue(storedReport({ targetType: 'image', status: 'ACTIONED', resolution: 'hide' }));
+
+      await resolveReport('report-1', moderator, { action: 'hide', reason: 'Not your photo' });
+
+      expect(mockedPrisma.image.update).toHaveBeenCalledWith({
+        where: { id: 'image-1' },
+        data: { hiddenAt: expect.any(Date), moderationReason: 'Not your photo' },
+      });
+      expect(mockedPrisma.report.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ id: 'report-1' }, { targetType: 'image', imageId: 'image-1', status: 'OPEN' }] },
+        data: expect.objectContaining({ status: 'ACTIONED', resolution: 'hide', resolvedById: 'admin' }),
+      });
+      expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'content.moderated',
+        target: { type: 'image', id: 'image-1' },
+      }));
+    });
+
+    it('unpublishes galleries but not images', async () => {
+      mockedPrisma.report.findUnique.mockResolvedValue({ id: 'report-1', targetType: 'gallery', galleryId: 'gallery-1', imageId: null, status: 'OPEN' });
+      mockedPrisma.report.findUniqueOrThrow.mockResolvedValue(storedReport());
+
+      await resolveReport('report-1', moderator, { action: 'unpublish', reason: 'Spam' });
+      expect(mockedPrisma.gallery.update).toHaveBeenCalledWith({
+        where: { id: 'gallery-1' },
+        data: { isPublic: false, moderationReason: 'Spam' },
+      });
+
+      mockedPrisma.report.findUnique.mockResolvedValue({ id: 'report-2', targetType: 'image', galleryId: 'gallery-1', imageId: 'image-1', status: 'OPEN' });
+      await expectModerationError(resolveReport('report-2', moderator, { action: 'unpublish', reason: 'Spam' }), 400);
+    });
+
+    it('acts on resolved reports only to restore the content', async () => {
+      mockedPrisma.report.findUnique.mockResolvedValue({ id: 'report-1', targetType: 'gallery', galleryId: 'gallery-1', imageId: null, status: 'ACTIONED' });
+      mockedPrisma.report.findUniqueOrThrow.mockResolvedValue(storedReport());
+
+      await expectModerationError(resolveReport('report-1', moderator, { action: 'dismiss' }), 409);
+
+      await resolveReport('report-1', moderator, { action: 'restore' });
+      expect(mockedPrisma.gallery.update).toHaveBeenCalledWith({
+        where: { id: 'gallery-1' },
+        data: { hiddenAt: null, moderationReason: null },
+      });
+    });
+  });
+
+  describe('withoutHiddenImages', () => {
+    const gallery = {
+      images: [
+        { id: 'entry-1', image: { userId: 'owner', hiddenAt: new Date() } },
+        { id: 'entry-2', image: { userId: 'owner', hiddenAt: null } },
+      ],
+    };
+
+    it('shows hidden images only to their owner and admins', () => {
+      expect(withoutHiddenImages(gallery, 'viewer').images.map(entry => entry.id)).toEqual(['entry-2']);
+      expect(withoutHiddenImages(gallery, undefined).images).toHaveLength(1);
+      expect(withoutHiddenImages(gallery, 'owner').images).toHaveLength(2);
+      expect(withoutHiddenImages(gallery, 'viewer', true).images).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { oauth } from '@/lib/config';
+import {
+  buildOAuthProviders,
+  isOAuthSignInAllowed,
+  markEmailVerifiedByProvider,
+  unlinkAccount,
+} from '@/lib/oauthProviders';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    account: { findUnique: jest.fn(), delete: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock };
+  account: { findUnique: jest.Mock; delete: jest.Mock };
+};
+
+// A local mock OIDC issuer
+const settings = {
+  ...oauth,
+  github: { clientId: '', clientSecret: '' },
+  google: { clientId: 'google-id', clientSecret: 'google-secret' },
+  oidc: { issuer: 'http://localhost:9400', clientId: 'gallery', clientSecret: 'secret', name: 'Mock SSO' },
+  linkByEmail: true,
+};
+
+const idToken = (claims: object) => `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+
+describe('oauthProviders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only enable providers with complete settings', () => {
+    const providers = buildOAuthProviders(settings);
+
+    expect(providers.map(provider => provider.id)).toEqual(['google', 'oidc']);
+    const oidc = providers[1];
+    expect(oidc).toMatchObject({
+      name: 'Mock SSO',
+      wellKnown: 'http://localhost:9400/.well-known/openid-configuration',
+      clientId: 'gallery',
+      allowDangerousEmailAccountLinking: true,
+    });
+    if (oidc.type !== 'oauth') {
+      throw new Error('Expected an OAuth provider');
+    }
+    expect(oidc.profile({ sub: 'abc', preferred_username: 'jane', email: 'jane@example.com' }, {})).toEqual({
+      id: 'abc',
+      name: 'jane',
+      email: 'jane@example.com',
+      image: null,
+    });
+
+    expect(buildOAuthProviders({ ...settings, oidc: { ...settings.oidc, issuer: '' } }).map(provider => provider.id)).toEqual(['google']);
+  });
+
+  it('should not sign in to an existing account by an unverified address', async () => {
+    const account = { provider: 'oidc', providerAccountId: 'abc' };
+    mockedPrisma.account.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue({ emailVerified: new Date() });
+
+    await expect(isOAuthSignInAllowed(account, { email: 'jane@example.com', email_verified: false } as never)).resolves.toBe(false);
+    await expect(isOAuthSignInAllowed(account, { email: 'jane@example.com', email_verified: true } as never)).resolves.toBe(true);
+
+    // Already connected, connecting from the profile, or a new account
+    mockedPrisma.account.findUnique.mockResolvedValue({ id: 'account-1' });
+    await expect(isOAuthSignInAllowed(account, { email: 'jane@example.com' })).resolves.toBe(true);
+    mockedPrisma.account.findUnique.mockResolvedValue(null);
+    await expect(isOAuthSignInAllowed(account, { email: 'jane@example.com' }, 'user-1')).resolves.toBe(true);
+    mockedPrisma.account.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(null);
+    await expect(isOAuthSignInAllowed(account, { email: 'jane@example.com' })).resolves.toBe(true);
+  });
+
+  it('should not sign in to an account whose owner never verified the address', async () => {
+    // Someone registered the address first, hoping its real owner signs in with a provider
+    mockedPrisma.account.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue({ emailVerified: null });
+
+    await expect(isOAuthSignInAllowed(
+      { provider: 'oidc', providerAccountId: 'abc' },
+      { email: 'jane@example.com', email_verified: true } as never
+    )).resolves.toBe(false);
+    await expect(isOAuthSignInAllowed({ provider: 'github', providerAccountId: '42' }, { email: 'jane@example.com' })).resolves.toBe(false);
+  });
+
+  it('should mark addresses the provider verified as verified', async () => {
+    const user = { id: 'user-1', email: 'jane@example.com', emailVerified: null };
+    const account = { provider: 'oidc', providerAccountId: 'abc', type: 'oauth' as const };
+
+    await markEmailVerifiedByProvider(user, { ...account, id_token: idToken({ email_verified: false }) }, user);
+    expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+
+    await markEmailVerifiedByProvider(user, { ...account, id_token: idToken({ email_verified: true }) }, user);
+    expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { emailVerified: expect.any(Date) },
+    });
+  });
+
+  it('should keep the last way to sign in connected', async () => {
+    mockedPrisma.user.findUnique.mockResolvedValue({ password: null, accounts: [{ id: 'account-1', provider: 'github' }] });
+    await expect(unlinkAccount('user-1', 'github')).rejects.toMatchObject({ status: 400 });
+    await expect(unlinkAccount('user-1', 'google')).rejects.toMatchObject({ status: 404 });
+    expect(mockedPrisma.account.delete).not.toHaveBeenCalled();
+
+    mockedPrisma.user.findUnique.mockResolvedValue({ password: 'hash', accounts: [{ id: 'account-1', provider: 'github' }] });
+    await unlinkAccount('user-1', 'github');
+    expect(mockedPrisma.account.delete).toHaveBeenCalledWith({ where: { id: 'account-1' } });
+  });
+});
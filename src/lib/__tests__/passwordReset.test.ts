@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+import { sendMail } from '@/lib/mail';
+import { requestPasswordReset, resetPassword } from '@/lib/passwordReset';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    verificationToken: { findUnique: jest.fn(), create: jest.fn(), count: jest.fn(), delete: jest.fn(), deleteMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/mail', () => ({
+  sendMail: jest.fn(),
+  appUrl: (path: string) => `http://localhost:3000${path}`,
+}));
+
+jest.mock('bcrypt', () => ({
+  hash: jest.fn((password: string) => Promise.resolve(`hashed:${password}`)),
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock };
+  verificationToken: { findUnique: jest.Mock; create: jest.Mock; count: jest.Mock; delete: jest.Mock; deleteMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('passwordReset', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockImplementation(arg => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)));
+    mockedPrisma.verificationToken.count.mockResolvedValue(0);
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a link and store only a hash of its token', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ email: 'user@example.com' });
+
+      await requestPasswordReset('user@example.com');
+
+      const text = (sendMail as jest.Mock).mock.calls[0][0].text as string;
+      const token = text.match(/\/auth\/reset-password\/([\w-]+)/)?.[1];
+      expect(token).toBeDefined();
+      expect(mockedPrisma.verificationToken.create).toHaveBeenCalledWith({
+        data: { identifier: 'password-reset:user@example.com', token: sha256(token!), expires: expect.any(Date) },
+      });
+    });
+
+    it('should not send anything for unknown addresses', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+
+      expect(mockedPrisma.verificationToken.create).not.toHaveBeenCalled();
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should stop sending links after too many requests', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ email: 'user@example.com' });
+      mockedPrisma.verificationToken.count.mockResolvedValue(3);
+
+      await expect(requestPasswordReset('user@example.com')).resolves.toBeUndefined();
+
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const stored = {
+      identifier: 'password-reset:user@example.com',
+      token: sha256('token-1'),
+      expires: new Date(Date.now() + 60_000),
+    };
+
+    it('should set the password and use up every reset link of the user', async () => {
+      mockedPrisma.verificationToken.findUnique.mockResolvedValue(stored);
+      mockedPrisma.verificationToken.deleteMany.mockResolvedValue({ count: 1 });
+
+      await resetPassword('token-1', 'new-password');
+
+      expect(mockedPrisma.verificationToken.findUnique).toHaveBeenCalledWith({ where: { token: sha256('token-1') } });
+      expect(mockedPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({ where: { identifier: stored.identifier } });
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({
+        where: { email: 'user@example.com' },
+        data: { password: 'hashed:new-password' },
+      });
+    });
+
+    it('should only work once', async () => {
+      mockedPrisma.verificationToken.findUnique.mockResolvedValue(stored);
+      // Another request used the link between the lookup and the transaction
+      mockedPrisma.verificationToken.deleteMany.mockResolvedValue({ count: 0 });
+      await expect(resetPassword('token-1', 'new-password')).rejects.toMatchObject({ status: 400 });
+
+      mockedPrisma.verificationToken.findUnique.mockResolvedValue(null);
+      await expect(resetPassword('token-1', 'new-password')).rejects.toMatchObject({ status: 400 });
+
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired links', async () => {
+      mockedPrisma.verificationToken.findUnique.mockResolvedValue({ ...stored, expires: new Date(Date.now() - 1000) });
+
+      await expect(resetPassword('token-1', 'new-password')).rejects.toMatchObject({ status: 410 });
+
+      expect(mockedPrisma.verificationToken.delete).toHaveBeenCalledWith({ where: { token: stored.token } });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
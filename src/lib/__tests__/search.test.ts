@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getImageSearchFacets } from '@/lib/search';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    image: { findMany: jest.fn() },
+    imageMetadata: { groupBy: jest.fn() },
+    tag: { findMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  image: { findMany: jest.Mock };
+  imageMetadata: { groupBy: jest.Mock };
+  tag: { findMany: jest.Mock };
+};
+
+// The query $queryRaw was called with, as a tagged template
+const rawQuery = (call: number) => {
+  const [strings, ...values] = mockedPrisma.$queryRaw.mock.calls[call];
+  return Prisma.sql(strings, ...values);
+};
+
+describe('getImageSearchFacets', () => {
+  const where = { AND: [{ userId: 'user-1', deletedAt: null }] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.tag.findMany.mockResolvedValue([]);
+    mockedPrisma.imageMetadata.groupBy.mockResolvedValue([]);
+    mockedPrisma.$queryRaw.mockResolvedValue([
+      { year: '2024', count: BigInt(3) },
+      { year: '2019', count: BigInt(1) },
+    ]);
+  });
+
+  it('should count years in the database without loading the images', async () => {
+    const facets = await getImageSearchFacets('user-1', where, false);
+
+    expect(facets.years).toEqual([{ value: '2024', count: 3 }, { value: '2019', count: 1 }]);
+    expect(mockedPrisma.image.findMany).not.toHaveBeenCalled();
+    const query = rawQuery(0);
+    expect(query.sql).toMatch(/GROUP BY "year"/);
+    expect(query.values).toEqual(['user-1']);
+  });
+
+  it('should only count the images a search matched', async () => {
+    mockedPrisma.image.findMany.mockResolvedValue([{ id: 'image-1' }, { id: 'image-2' }]);
+
+    await getImageSearchFacets('user-1', where, true);
+
+    expect(mockedPrisma.image.findMany).toHaveBeenCalledWith({ where, select: { id: true } });
+    expect(rawQuery(0).values).toEqual(['user-1', '["image-1","image-2"]']);
+  });
+});
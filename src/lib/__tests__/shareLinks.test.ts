@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import bcrypt from 'bcrypt';
+import type { GalleryShareLink } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getShareLinkStatus, hasShareAccess, openShareLink, ShareLinkError } from '@/lib/shareLinks';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    galleryShareLink: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedShareLinks = prisma.galleryShareLink as unknown as {
+  findUnique: jest.Mock;
+  updateMany: jest.Mock;
+};
+
+function makeLink(overrides: Partial<GalleryShareLink> = {}): GalleryShareLink {
+  return {
+    id: 'link-1',
+    galleryId: 'gallery-1',
+    token: 'token-1',
+    label: null,
+    passwordHash: null,
+    expiresAt: null,
+    maxViews: null,
+    viewCount: 0,
+    revokedAt: null,
+    lastViewedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('shareLinks', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET;
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedShareLinks.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should report why a link can no longer be opened', () => {
+    const now = new Date('2025-06-20T12:00:00Z');
+    expect(getShareLinkStatus(makeLink(), now)).toBe('active');
+    expect(getShareLinkStatus(makeLink({ expiresAt: new Date('2025-06-20T11:00:00Z') }), now)).toBe('expired');
+    expect(getShareLinkStatus(makeLink({ maxViews: 3, viewCount: 3 }), now)).toBe('exhausted');
+    expect(getShareLinkStatus(makeLink({ revokedAt: now, maxViews: 1, viewCount: 1 }), now)).toBe('revoked');
+  });
+
+  it('should issue an access cookie that only works for the same link', async () => {
+    const link = makeLink();
+    mockedShareLinks.findUnique.mockResolvedValue(link);
+
+    const access = await openShareLink(link.token);
+
+    expect(mockedShareLinks.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: link.id, revokedAt: null },
+      data: expect.objectContaining({ viewCount: { increment: 1 } }),
+    }));
+    expect(hasShareAccess(link, access.value)).toBe(true);
+    expect(hasShareAccess(makeLink({ id: 'link-2' }), access.value)).toBe(false);
+    expect(hasShareAccess(link, `${access.value}x`)).toBe(false);
+    expect(hasShareAccess(link, access.value, Date.now() + (access.maxAge + 1) * 1000)).toBe(false);
+  });
+
+  it('should require the right password', async () => {
+    const link = makeLink({ passwordHash: await bcrypt.hash('secret', 4) });
+    mockedShareLinks.findUnique.mockResolvedValue(link);
+
+    await expect(openShareLink(link.token)).rejects.toMatchObject({ status: 401, message: 'Password required' });
+    await expect(openShareLink(link.token, 'wrong')).rejects.toMatchObject({ status: 401, message: 'Incorrect password' });
+    expect(mockedShareLinks.updateMany).not.toHaveBeenCalled();
+
+    await expect(openShareLink(link.token, 'secret')).resolves.toHaveProperty('value');
+  });
+
+  it('should stop at the view limit', async () => {
+    const link = makeLink({ maxViews: 2, viewCount: 1 });
+    mockedShareLinks.findUnique.mockResolvedValue(link);
+    // Another visitor used the last view in the meantime
+    mockedShareLinks.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(openShareLink(link.token)).rejects.toBeInstanceOf(ShareLinkError);
+    expect(mockedShareLinks.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: link.id, revokedAt: null, viewCount: { lt: 2 } },
+    }));
+  });
+});
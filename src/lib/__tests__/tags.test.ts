@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { ensureTags, mergeTags, TagOperationError } from '@/lib/tags';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    tag: { findMany: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    tagAlias: { findMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  $transaction: jest.Mock;
+  tag: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  tagAlias: { findMany: jest.Mock };
+};
+
+describe('tags', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.tagAlias.findMany.mockResolvedValue([]);
+    mockedPrisma.$transaction.mockImplementation(callback => callback(mockedPrisma));
+  });
+
+  it("should create missing tags in the caller's namespace, below a shared parent", async () => {
+    // "travel" is shared and another user's "travel/japan" isn't visible to this user
+    mockedPrisma.tag.findMany.mockImplementation(async ({ where }) =>
+      where.name === 'travel' ? [{ id: 'shared-travel', name: 'travel', userId: null, parentId: null }] : []
+    );
+    mockedPrisma.tag.create.mockImplementation(async ({ data }) => ({ id: 'new-tag', ...data }));
+
+    const [tag] = await ensureTags('user-1', ['travel/japan']);
+
+    expect(mockedPrisma.tag.findMany).toHaveBeenCalledWith({
+      where: { name: 'travel/japan', OR: [{ userId: 'user-1' }, { userId: null }] },
+    });
+    expect(mockedPrisma.tag.create).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.tag.create).toHaveBeenCalledWith({
+      data: { name: 'travel/japan', userId: 'user-1', ownerKey: 'user-1', parentId: 'shared-travel' },
+    });
+    expect(tag).toMatchObject({ name: 'travel/japan', userId: 'user-1' });
+  });
+
+  it('should not merge tags with different owners', async () => {
+    mockedPrisma.tag.findUnique.mockImplementation(async ({ where }) => ({
+      id: where.id,
+      name: where.id === 'mine' ? 'trips' : 'travel',
+      userId: where.id === 'mine' ? 'user-1' : null,
+      parentId: null,
+    }));
+
+    const merge = mergeTags('mine', 'shared');
+    await expect(merge).rejects.toThrow(TagOperationError);
+    await expect(merge).rejects.toMatchObject({ status: 400 });
+    expect(mockedPrisma.tag.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/db';
+import { deleteStoredFiles } from '@/lib/storage';
+import { recordAuditEvent } from '@/lib/audit';
+import { purgeTrash, restoreFromTrash, trashImages, TrashError } from '@/lib/trash';
+
+jest.mock('@/lib/db', () => {
+  const mockPrisma = {
+    $transaction: jest.fn(),
+    image: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+    gallery: { findMany: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() },
+    imageInGallery: { findMany: jest.fn(), deleteMany: jest.fn(), createMany: jest.fn() },
+    user: { findMany: jest.fn() },
+  };
+  // Interactive transactions run against the same mocks
+  mockPrisma.$transaction.mockImplementation((arg: unknown) =>
+    typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg as Promise<unknown>[]));
+  return { prisma: mockPrisma };
+});
+jest.mock('@/lib/storage', () => ({ deleteStoredFiles: jest.fn() }));
+jest.mock('@/lib/audit', () => ({ recordAuditEvent: jest.fn() }));
+
+const mockedPrisma = prisma as unknown as {
+  image: { findFirst: jest.Mock; findMany: jest.Mock; update: jest.Mock; deleteMany: jest.Mock };
+  gallery: { findMany: jest.Mock; updateMany: jest.Mock; deleteMany: jest.Mock };
+  imageInGallery: { findMany: jest.Mock; deleteMany: jest.Mock; createMany: jest.Mock };
+  user: { findMany: jest.Mock };
+};
+
+describe('trash', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('takes trashed images out of their galleries and remembers where they were', async () => {
+    mockedPrisma.imageInGallery.findMany.mockResolvedValue([
+      { imageId: 'image-1', galleryId: 'gallery-1', order: 3, description: 'Sunset', addedById: 'owner' },
+    ]);
+    mockedPrisma.gallery.findMany.mockResolvedValue([{ id: 'gallery-1', coverImageId: 'image-1' }]);
+
+    await trashImages(prisma as never, ['image-1']);
+
+    expect(mockedPrisma.gallery.updateMany).toHaveBeenCalledWith({
+      where: { coverImageId: { in: ['image-1'] } },
+      data: { coverImageId: null },
+    });
+    expect(mockedPrisma.imageInGallery.deleteMany).toHaveBeenCalledWith({ where: { imageId: { in: ['image-1'] } } });
+    const { data } = mockedPrisma.image.update.mock.calls[0][0];
+    expect(data.deletedAt).toBeInstanceOf(Date);
+    expect(JSON.parse(data.trashedLinks)).toEqual({
+      galleries: [{ galleryId: 'gallery-1', order: 3, description: 'Sunset', addedById: 'owner' }],
+      covers: ['gallery-1'],
+    });
+  });
+
+  it('restores gallery membership and only the covers nobody replaced', async () => {
+    mockedPrisma.image.findFirst.mockResolvedValue({
+      id: 'image-1',
+      trashedLinks: JSON.stringify({
+        galleries: [
+          { galleryId: 'gallery-1', order: 3, description: null, addedById: 'collaborator' },
+          { galleryId: 'purged', order: 0, description: null, addedById: 'owner' },
+        ],
+        covers: ['gallery-1', 'gallery-2'],
+      }),
+    });
+    mockedPrisma.gallery.findMany.mockResolvedValue([
+      { id: 'gallery-1', coverImageId: null },
+      { id: 'gallery-2', coverImageId: 'other-image' },
+    ]);
+    // The collaborator has since deleted their account
+    mockedPrisma.user.findMany.mockResolvedValue([{ id: 'owner' }]);
+
+    const result = await restoreFromTrash({ id: 'owner' }, { targetType: 'image', id: 'image-1' });
+
+    expect(mockedPrisma.imageInGallery.createMany).toHaveBeenCalledWith({
+      data: [{ imageId: 'image-1', galleryId: 'gallery-1', order: 3, description: null, addedById: null }],
+    });
+    expect(mockedPrisma.gallery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['gallery-1'] } },
+      data: { coverImageId: 'image-1' },
+    });
+    expect(mockedPrisma.image.update).toHaveBeenCalledWith({
+      where: { id: 'image-1' },
+      data: { deletedAt: null, trashedLinks: null },
+    });
+    expect(result).toEqual({ targetType: 'image', id: 'image-1', galleriesRestored: 1, coversRestored: 1 });
+    expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ action: 'image.restored' }));
+  });
+
+  it("refuses to restore what isn't in the user's trash", async () => {
+    mockedPrisma.image.findFirst.mockResolvedValue(null);
+
+    const promise = restoreFromTrash({ id: 'intruder' }, { targetType: 'image', id: 'image-1' });
+    await expect(promise).rejects.toBeInstanceOf(TrashError);
+    await expect(promise).rejects.toMatchObject({ status: 404 });
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('purges expired items and their files', async () => {
+    mockedPrisma.image.findMany.mockResolvedValue([{
+      id: 'image-1',
+      url: '/uploads/photo-v2.png',
+      variants: [{ url: '/uploads/photo-v2-thumb.webp' }],
+      versions: [{ url: '/uploads/photo.png' }, { url: '/uploads/photo-v2.png' }],
+    }]);
+    mockedPrisma.gallery.deleteMany.mockResolvedValue({ count: 2 });
+    mockedPrisma.image.deleteMany.mockResolvedValue({ count: 1 });
+
+    const before = new Date('2025-06-01T00:00:00Z');
+    await expect(purgeTrash({ before })).resolves.toEqual({ images: 1, galleries: 2 });
+
+    expect(mockedPrisma.gallery.deleteMany).toHaveBeenCalledWith({ where: { deletedAt: { lt: before } } });
+    expect(mockedPrisma.image.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['image-1'] } } });
+    expect(deleteStoredFiles).toHaveBeenCalledWith([
+      '/uploads/photo-v2.png',
+      '/uploads/photo.png',
+      '/uploads/photo-v2-thumb.webp',
+    ]);
+  });
+});
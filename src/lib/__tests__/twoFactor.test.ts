@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+import { twoFactor } from '@/lib/config';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  startTwoFactorSetup,
+  totpCode,
+  verifyTwoFactorCode,
+} from '@/lib/twoFactor';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    twoFactorRecoveryCode: { deleteMany: jest.fn(), createMany: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  twoFactorRecoveryCode: { deleteMany: jest.Mock; createMany: jest.Mock; updateMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+describe('twoFactor', () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET;
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockImplementation(arg => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)));
+  });
+
+  // Sets up two-factor authentication and returns the secret and its encrypted form
+  async function setUp() {
+    mockedPrisma.user.findUnique.mockResolvedValue({ email: 'user@example.com', twoFactorEnabledAt: null });
+    const { secret, otpauthUrl, qrCode } = await startTwoFactorSetup('user-1');
+    const stored = mockedPrisma.user.update.mock.calls[0][0].data.twoFactorSecret as string;
+    return { secret, otpauthUrl, qrCode, stored };
+  }
+
+  it('should generate the codes of RFC 6238', () => {
+    // The ASCII secret "12345678901234567890"
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    expect(totpCode(secret, 59 * 1000)).toBe('287082');
+    expect(totpCode(secret, 1111111109 * 1000)).toBe('081804');
+    expect(totpCode(secret, 2000000000 * 1000)).toBe('279037');
+  });
+
+  it('should only enable with a code from the new secret, and issue hashed recovery codes', async () => {
+    const { secret, otpauthUrl, qrCode, stored } = await setUp();
+    expect(stored).not.toContain(secret);
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(qrCode).toMatch(/^data:image\/png;base64,/);
+
+    mockedPrisma.user.findUnique.mockResolvedValue({ twoFactorSecret: stored, twoFactorEnabledAt: null });
+    const wrongCode = totpCode(secret) === '000000' ? '111111' : '000000';
+    await expect(enableTwoFactor('user-1', wrongCode)).rejects.toMatchObject({ status: 400 });
+
+    const codes = await enableTwoFactor('user-1', totpCode(secret));
+    expect(codes).toHaveLength(twoFactor.recoveryCodeCount);
+    const { data } = mockedPrisma.twoFactorRecoveryCode.createMany.mock.calls[0][0];
+    expect(data[0]).toEqual({
+      userId: 'user-1',
+      codeHash: createHash('sha256').update(codes[0].replace('-', '')).digest('hex'),
+    });
+    expect(mockedPrisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-1' },
+      data: { twoFactorEnabledAt: expect.any(Date), twoFactorLastStep: expect.any(Number) },
+    });
+  });
+
+  it('should accept each code only once', async () => {
+    const { secret, stored } = await setUp();
+    mockedPrisma.user.findUnique.mockResolvedValue({ twoFactorSecret: stored, twoFactorEnabledAt: new Date() });
+
+    mockedPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    await expect(verifyTwoFactorCode('user-1', totpCode(secret))).resolves.toBe(true);
+    await expect(verifyTwoFactorCode('user-1', totpCode(secret))).resolves.toBe(false);
+
+    mockedPrisma.twoFactorRecoveryCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    await expect(verifyTwoFactorCode('user-1', 'ABCDE-FGHIJ')).resolves.toBe(true);
+    await expect(verifyTwoFactorCode('user-1', 'abcde-fghij')).resolves.toBe(false);
+    expect(mockedPrisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', codeHash: createHash('sha256').update('abcdefghij').digest('hex'), usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+  });
+
+  it('should keep admins from turning it off when policy requires it', async () => {
+    twoFactor.requireForAdmins = true;
+    try {
+      mockedPrisma.user.findUnique.mockResolvedValue({ role: 'ADMIN' });
+      await expect(disableTwoFactor('admin-1', '123456')).rejects.toMatchObject({ status: 403 });
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    } finally {
+      twoFactor.requireForAdmins = false;
+    }
+  });
+});
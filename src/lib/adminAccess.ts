@@ -0,0 +1,46 @@
+/**
+ * Server-side admin checks for API routes
+ *
+ * The middleware only guards /admin pages, so admin API routes check the caller themselves,
+ * including the policy that admins set up two-factor authentication first.
+ */
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { apiError } from '@/lib/apiResponse';
+import { isTwoFactorRequired } from '@/lib/twoFactor';
+
+type AdminAccess = 'granted' | 'forbidden' | 'two-factor-required';
+
+async function checkAdminAccess(userId: string): Promise<AdminAccess> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, twoFactorEnabledAt: true },
+  });
+  if (user?.role !== UserRole.ADMIN) {
+    return 'forbidden';
+  }
+  return isTwoFactorRequired(user) && !user.twoFactorEnabledAt ? 'two-factor-required' : 'granted';
+}
+
+/**
+ * Whether the user can act as an admin right now
+ * Admins who still have to set up two-factor authentication can't.
+ */
+export async function hasAdminAccess(userId: string): Promise<boolean> {
+  return (await checkAdminAccess(userId)) === 'granted';
+}
+
+/**
+ * Guard for admin-only routes
+ * @returns The 403 response to send, or null when the user may go ahead
+ */
+export async function adminAccessError(userId: string): Promise<Response | null> {
+  switch (await checkAdminAccess(userId)) {
+    case 'forbidden':
+      return apiError('Forbidden: Admin access required', 403);
+    case 'two-factor-required':
+      return apiError('Forbidden: Set up two-factor authentication to use admin features', 403);
+    default:
+      return null;
+  }
+}
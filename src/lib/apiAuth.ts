@@ -0,0 +1,25 @@
+/**
+ * Authentication for API routes that scripts can call
+ *
+ * Requests carrying "Authorization: Bearer <token>" are authenticated by that personal API
+ * token alone; other requests use the browser session as usual.
+ */
+import { getServerSession, type Session } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { authenticateApiToken } from '@/lib/apiTokens';
+import type { ApiTokenScope } from '@/lib/schemas';
+
+export type ApiSession = Pick<Session, 'user'>;
+
+/**
+ * The session of the user making the request
+ * @param scope The scope a token needs for this request; tokens without it get no session
+ */
+export async function getApiSession(req: Request, scope: ApiTokenScope): Promise<ApiSession | null> {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    const user = await authenticateApiToken(authorization.slice('bearer '.length).trim(), scope);
+    return user ? { user } : null;
+  }
+  return getServerSession(authOptions);
+}
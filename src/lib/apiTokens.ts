@@ -0,0 +1,113 @@
+/**
+ * Personal API tokens
+ *
+ * Users create tokens with a set of scopes for scripts that call the API without a browser
+ * session. Only a SHA-256 hash of each token is stored, next to a short prefix that tells
+ * tokens apart in the list. Tokens can expire and record when they were last used.
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { ApiToken as ApiTokenRecord } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { ApiTokenScopeSchema, type ApiToken, type ApiTokenScope, type CreateApiToken, type CreatedApiToken } from '@/lib/schemas';
+
+const TOKEN_PREFIX = 'pgt_';
+// Shown in the token list; long enough to tell tokens apart, far too short to guess the rest
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only written when it's older than this, so busy scripts don't write on every request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+const MAX_TOKENS_PER_USER = 50;
+
+/**
+ * Error thrown when a token can't be created or revoked, carrying the HTTP status to return
+ */
+export class ApiTokenError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiTokenError';
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function parseScopes(scopes: string): ApiTokenScope[] {
+  return scopes.split(',').filter((scope): scope is ApiTokenScope => ApiTokenScopeSchema.safeParse(scope).success);
+}
+
+function toApiToken(record: ApiTokenRecord): ApiToken {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: parseScopes(record.scopes),
+    lastUsedAt: record.lastUsedAt,
+    expiresAt: record.expiresAt,
+    createdAt: record.createdAt,
+  };
+}
+
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  const tokens = await prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return tokens.map(toApiToken);
+}
+
+/**
+ * Create a token
+ * @returns The token record along with the token itself, which can't be retrieved again
+ */
+export async function createApiToken(userId: string, input: CreateApiToken): Promise<CreatedApiToken> {
+  const count = await prisma.apiToken.count({ where: { userId } });
+  if (count >= MAX_TOKENS_PER_USER) {
+    throw new ApiTokenError(`You can have at most ${MAX_TOKENS_PER_USER} tokens; revoke unused ones first`, 400);
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const record = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(input.scopes)].join(','),
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    },
+  });
+  logger.log(`API token ${record.id} created for user ${userId}`);
+  return { ...toApiToken(record), token };
+}
+
+export async function revokeApiToken(userId: string, tokenId: string): Promise<void> {
+  const { count } = await prisma.apiToken.deleteMany({ where: { id: tokenId, userId } });
+  if (count === 0) {
+    throw new ApiTokenError('Token not found', 404);
+  }
+  logger.log(`API token ${tokenId} revoked by user ${userId}`);
+}
+
+/**
+ * Find the user a token belongs to, if the token is valid and has the scope
+ */
+export async function authenticateApiToken(token: string, scope: ApiTokenScope) {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, name: true, email: true, image: true, role: true } } },
+  });
+  const now = new Date();
+  if (!record || (record.expiresAt && record.expiresAt <= now) || !parseScopes(record.scopes).includes(scope)) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    await prisma.apiToken.update({ where: { id: record.id }, data: { lastUsedAt: now } });
+  }
+  return record.user;
+}
@@ -0,0 +1,124 @@
+/**
+ * Audit log
+ *
+ * Security- and content-relevant actions (sign-ins, role changes, deletions, visibility
+ * changes) are recorded as AuditEvents through recordAuditEvent(). Recording never fails
+ * the action itself: errors are logged instead. Admins browse and export the log on
+ * /admin/audit.
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { clientAddress } from '@/lib/rateLimit';
+import type { AuditAction, AuditEvent, AuditEventQuery } from '@/lib/schemas';
+
+// Most rows a single CSV export contains, newest first
+const MAX_EXPORT_ROWS = 10000;
+const CSV_COLUMNS = ['createdAt', 'action', 'actorId', 'actorEmail', 'targetType', 'targetId', 'ip', 'details'] as const;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actor?: { id?: string | null; email?: string | null } | null;
+  target?: { type: 'user' | 'gallery' | 'image'; id: string };
+  // The request that caused the action, for the client address
+  req?: { headers: Headers } | null;
+  details?: Record<string, unknown>;
+}
+
+function toRecord(event: AuditEventInput): Prisma.AuditEventCreateManyInput {
+  return {
+    action: event.action,
+    actorId: event.actor?.id ?? null,
+    actorEmail: event.actor?.email ?? null,
+    targetType: event.target?.type ?? null,
+    targetId: event.target?.id ?? null,
+    ip: event.req ? clientAddress(event.req) : null,
+    details: event.details ? JSON.stringify(event.details) : null,
+  };
+}
+
+/**
+ * Record one or more actions
+ */
+export async function recordAuditEvent(...events: AuditEventInput[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  try {
+    await prisma.auditEvent.createMany({ data: events.map(toRecord) });
+  } catch (error) {
+    logger.error(`Failed to record audit event ${events[0].action}:`, error);
+  }
+}
+
+function auditEventWhere(filter: Omit<AuditEventQuery, 'page' | 'limit'>): Prisma.AuditEventWhereInput {
+  const where: Prisma.AuditEventWhereInput = {};
+  if (filter.actor) {
+    where.OR = [{ actorId: filter.actor }, { actorEmail: { contains: filter.actor } }];
+  }
+  if (filter.action) {
+    where.action = filter.action;
+  }
+  if (filter.from || filter.to) {
+    where.createdAt = {
+      ...(filter.from && { gte: new Date(`${filter.from}T00:00:00.000Z`) }),
+      // Through the end of the "to" day
+      ...(filter.to && { lt: new Date(new Date(`${filter.to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000) }),
+    };
+  }
+  return where;
+}
+
+function parseDetails(details: string | null): Record<string, unknown> | null {
+  if (!details) {
+    return null;
+  }
+  try {
+    return JSON.parse(details);
+  } catch {
+    return { raw: details };
+  }
+}
+
+function serializeAuditEvent(event: Prisma.AuditEventGetPayload<object>): AuditEvent {
+  return { ...event, action: event.action as AuditAction, details: parseDetails(event.details) };
+}
+
+/**
+ * A page of events matching the filters, newest first
+ */
+export async function listAuditEvents(query: AuditEventQuery): Promise<{ events: AuditEvent[]; total: number }> {
+  const where = auditEventWhere(query);
+  const [events, total] = await prisma.$transaction([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.auditEvent.count({ where }),
+  ]);
+  return { events: events.map(serializeAuditEvent), total };
+}
+
+// Quotes fields that need it, and defuses values a spreadsheet would run as a formula
+function csvField(value: unknown): string {
+  let text = value instanceof Date ? value.toISOString() : value == null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The events matching the filters as CSV, newest first
+ */
+export async function exportAuditEventsCsv(filter: Omit<AuditEventQuery, 'page' | 'limit'>): Promise<string> {
+  const events = await prisma.auditEvent.findMany({
+    where: auditEventWhere(filter),
+    orderBy: { createdAt: 'desc' },
+    take: MAX_EXPORT_ROWS,
+  });
+  const rows = events.map(event => CSV_COLUMNS.map(column => csvField(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
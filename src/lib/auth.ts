@@ -1,9 +1,15 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
-import { NextAuthOptions } from "next-auth";
+import { getServerSession, NextAuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
 import { UserRole } from "@prisma/client"; 
 import bcrypt from "bcrypt";
 import { prisma } from "@/lib/db"; // Import the shared PrismaClient instance
+import { buildOAuthProviders, isOAuthSignInAllowed, markEmailVerifiedByProvider } from "@/lib/oauthProviders";
+import { verifyTwoFactorCode } from "@/lib/twoFactor";
+import { clearLoginFailures, isLoginLocked, recordLoginFailure } from "@/lib/loginLockout";
+import { recordAuditEvent } from "@/lib/audit";
+import { TWO_FACTOR_INVALID, TWO_FACTOR_REQUIRED } from "@/lib/utils/twoFactor";
+import { ACCOUNT_LOCKED } from "@/lib/utils/signIn";
 
 declare module 'next-auth' {
   interface Session {
@@ -29,6 +35,7 @@ declare module 'next-auth/jwt' {
   interface JWT {
     sub: string;
     role?: UserRole;
+    twoFactorEnabled?: boolean;
   }
 }
 
@@ -42,19 +49,36 @@ export const authOptions: NextAuthOptions = {
       name: 'Credentials',
       credentials: {
         email: { label: "Email", type: "text" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        // Second step for users with two-factor authentication: a TOTP or recovery code
+        code: { label: "Authentication code", type: "text" }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (credentials?.email && credentials?.password) {
+          const email = credentials.email;
+          // NextAuth passes its own request object, with plain header values
+          const request = { headers: new Headers(req?.headers as Record<string, string> | undefined) };
+          // Records a failed attempt; true once the failures lock the account
+          const recordFailure = async (reason: string, userId?: string) => {
+            await recordAuditEvent({ action: "auth.login_failed", actor: { id: userId, email }, req: request, details: { reason } });
+            return recordLoginFailure(email);
+          };
+
+          if (await isLoginLocked(email)) {
+            await recordAuditEvent({ action: "auth.login_failed", actor: { email }, req: request, details: { reason: "locked" } });
+            throw new Error(ACCOUNT_LOCKED);
+          }
+
           // Find user by email
           const user = await prisma.user.findUnique({
-            where: { email: credentials.email },
+            where: { email },
             select: {
               id: true,
               name: true,
               email: true,
               password: true,
               role: true,
+              twoFactorEnabledAt: true,
             },
           });
           
@@ -64,6 +88,18 @@ export const authOptions: NextAuthOptions = {
             const passwordMatch = await bcrypt.compare(credentials.password, user.password);
             
             if (passwordMatch) {
+              // Asks the login page for the code, which then signs in again with it
+              if (user.twoFactorEnabledAt) {
+                if (!credentials.code) {
+                  throw new Error(TWO_FACTOR_REQUIRED);
+                }
+                if (!await verifyTwoFactorCode(user.id, credentials.code)) {
+                  throw new Error(await recordFailure("invalid_code", user.id) ? ACCOUNT_LOCKED : TWO_FACTOR_INVALID);
+                }
+              }
+
+              await clearLoginFailures(email);
+              await recordAuditEvent({ action: "auth.login", actor: user, req: request, details: { method: "password" } });
               return {
                 id: user.id,
                 email: user.email,
@@ -74,14 +110,29 @@ export const authOptions: NextAuthOptions = {
           }
           
           // If user not found, return null for failed authentication
+          if (await recordFailure(user ? "invalid_password" : "unknown_account", user?.id)) {
+            throw new Error(ACCOUNT_LOCKED);
+          }
           return null;
           
         }
         return null;
       }
     }),
+    // GitHub, Google and OIDC, as configured in the environment
+    ...buildOAuthProviders(),
   ],
   callbacks: {
+    async signIn({ account, profile }) {
+      if (account?.type === "oauth") {
+        // Signed-in users connecting a provider get it linked to their own account
+        const session = await getServerSession(authOptions);
+        if (!await isOAuthSignInAllowed(account, profile, session?.user.id)) {
+          return "/auth/error?error=OAuthAccountNotLinked";
+        }
+      }
+      return true;
+    },
     async jwt({ token, user }) {
       if (user) {
         token.sub = user.id;
@@ -93,11 +144,13 @@ export const authOptions: NextAuthOptions = {
       if (token.sub) {
         const dbUser = await prisma.user.findUnique({
           where: { id: token.sub },
-          select: { role: true }
+          select: { role: true, twoFactorEnabledAt: true }
         });
         
         if (dbUser) {
           token.role = dbUser.role;
+          // Lets the middleware enforce the admin two-factor policy without a database
+          token.twoFactorEnabled = !!dbUser.twoFactorEnabledAt;
         }
       }
       
@@ -111,6 +164,17 @@ export const authOptions: NextAuthOptions = {
       return session;
     },
   },
+  events: {
+    // Password sign-ins are recorded by authorize(), which also sees the failed ones
+    async signIn({ user, account }) {
+      if (account?.type === "oauth") {
+        await recordAuditEvent({ action: "auth.login", actor: user, details: { method: account.provider } });
+      }
+    },
+    async linkAccount({ user, account, profile }) {
+      await markEmailVerifiedByProvider(user, account, profile);
+    },
+  },
   pages: {
     signIn: '/auth/login',
     error: '/auth/error', // Add error page for better CI handling
@@ -0,0 +1,175 @@
+/**
+ * Bulk image operations
+ *
+ * Applies one action to a set of a user's images inside a single transaction and reports
+ * what happened to each image. Images that don't exist or belong to someone else are
+ * reported as not found and skipped; the rest succeed or fail together.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { accessibleTagsFilter, ensureTags, resolveTagNames } from '@/lib/tags';
+import { trashImages } from '@/lib/trash';
+import { canInGallery } from '@/lib/utils/galleryRoles';
+import type { BulkImageAction, BulkImageResult } from '@/lib/schemas';
+
+type Db = Prisma.TransactionClient;
+
+// Interactive transactions default to 5s, which large selections can exceed on SQLite
+const BULK_TRANSACTION_TIMEOUT_MS = 30_000;
+
+/**
+ * Error thrown when a bulk operation can't be applied at all, carrying the HTTP status to return
+ */
+export class BulkImageOperationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BulkImageOperationError';
+  }
+}
+
+const BULK_IMAGE_SELECT = {
+  id: true,
+  description: true,
+  tags: { select: { id: true } },
+} as const satisfies Prisma.ImageSelect;
+
+type BulkImage = Prisma.ImageGetPayload<{ select: typeof BULK_IMAGE_SELECT }>;
+type ActionStatus = Exclude<BulkImageResult['status'], 'not_found'>;
+
+async function addTags(tx: Db, userId: string, images: BulkImage[], names: string[]) {
+  const tags = await ensureTags(userId, names, tx);
+  const statuses = new Map<string, ActionStatus>();
+  for (const image of images) {
+    const missing = tags.filter(tag => !image.tags.some(existing => existing.id === tag.id));
+    if (missing.length > 0) {
+      await tx.image.update({
+        where: { id: image.id },
+        data: { tags: { connect: missing.map(tag => ({ id: tag.id })) } },
+      });
+    }
+    statuses.set(image.id, missing.length > 0 ? 'updated' : 'unchanged');
+  }
+  return statuses;
+}
+
+async function removeTags(tx: Db, userId: string, images: BulkImage[], names: string[]) {
+  const tags = await tx.tag.findMany({
+    where: { name: { in: await resolveTagNames(userId, names, tx) }, ...accessibleTagsFilter(userId) },
+    select: { id: true },
+  });
+  const tagIds = new Set(tags.map(tag => tag.id));
+  const statuses = new Map<string, ActionStatus>();
+  for (const image of images) {
+    const present = image.tags.filter(tag => tagIds.has(tag.id));
+    if (present.length > 0) {
+      await tx.image.update({
+        where: { id: image.id },
+        data: { tags: { disconnect: present } },
+      });
+    }
+    statuses.set(image.id, present.length > 0 ? 'updated' : 'unchanged');
+  }
+  return statuses;
+}
+
+async function setDescription(tx: Db, images: BulkImage[], description: string | null) {
+  const changed = images.filter(image => image.description !== description);
+  if (changed.length > 0) {
+    await tx.image.updateMany({
+      where: { id: { in: changed.map(image => image.id) } },
+      data: { description },
+    });
+  }
+  return new Map<string, ActionStatus>(
+    images.map(image => [image.id, changed.includes(image) ? 'updated' : 'unchanged'])
+  );
+}
+
+async function addToGallery(tx: Db, userId: string, images: BulkImage[], galleryId: string) {
+  const gallery = await tx.gallery.findFirst({
+    where: { id: galleryId, deletedAt: null },
+    select: {
+      userId: true,
+      coverImageId: true,
+      images: { select: { imageId: true, order: true } },
+      members: { where: { userId }, select: { role: true } },
+    },
+  });
+  // Members who can add images use their galleries like their own
+  const role = gallery?.userId === userId ? 'OWNER' : gallery?.members[0]?.role;
+  if (!gallery || !canInGallery(role, 'addImages')) {
+    throw new BulkImageOperationError('Gallery not found', 404);
+  }
+
+  const inGallery = new Set(gallery.images.map(entry => entry.imageId));
+  const added = images.filter(image => !inGallery.has(image.id));
+  const maxOrder = gallery.images.reduce((max, entry) => Math.max(max, entry.order), -1);
+  if (added.length > 0) {
+    await tx.imageInGallery.createMany({
+      data: added.map((image, index) => ({ galleryId, imageId: image.id, order: maxOrder + index + 1, addedById: userId })),
+    });
+    if (!gallery.coverImageId && canInGallery(role, 'editImages')) {
+      await tx.gallery.update({ where: { id: galleryId }, data: { coverImageId: added[0].id } });
+    }
+  }
+  return new Map<string, ActionStatus>(
+    images.map(image => [image.id, inGallery.has(image.id) ? 'unchanged' : 'updated'])
+  );
+}
+
+async function deleteImages(tx: Db, images: BulkImage[]) {
+  const ids = images.map(image => image.id);
+  // Deleted images go to the trash, from where they can be restored into their galleries
+  await trashImages(tx, ids);
+  return new Map<string, ActionStatus>(ids.map(id => [id, 'deleted']));
+}
+
+function applyAction(tx: Db, userId: string, images: BulkImage[], operation: BulkImageAction) {
+  switch (operation.action) {
+    case 'addTags':
+      return addTags(tx, userId, images, operation.tags);
+    case 'removeTags':
+      return removeTags(tx, userId, images, operation.tags);
+    case 'setDescription':
+      return setDescription(tx, images, operation.description);
+    case 'addToGallery':
+      return addToGallery(tx, userId, images, operation.galleryId);
+    case 'delete':
+      return deleteImages(tx, images);
+  }
+}
+
+/**
+ * Apply an action to a set of the user's images
+ * @returns A result per requested image (in request order) and the updated images
+ */
+export async function applyBulkImageOperation(userId: string, imageIds: string[], operation: BulkImageAction) {
+  const ids = [...new Set(imageIds)];
+
+  const statuses = await prisma.$transaction(async (tx) => {
+    // Images already in the trash count as not found
+    const images = await tx.image.findMany({
+      where: { id: { in: ids }, userId, deletedAt: null },
+      select: BULK_IMAGE_SELECT,
+    });
+    return images.length > 0 ? applyAction(tx, userId, images, operation) : new Map<string, ActionStatus>();
+  }, { timeout: BULK_TRANSACTION_TIMEOUT_MS });
+
+  const results: BulkImageResult[] = ids.map(id => {
+    const status = statuses.get(id);
+    return status ? { id, status } : { id, status: 'not_found', error: 'Image not found' };
+  });
+
+  if (operation.action === 'delete') {
+    return { results, images: [] };
+  }
+
+  const updatedIds = results.filter(result => result.status === 'updated').map(result => result.id);
+  const updated = updatedIds.length > 0
+    ? await prisma.image.findMany({
+        where: { id: { in: updatedIds } },
+        include: { tags: true, variants: true },
+      })
+    : [];
+  return { results, images: updated };
+}
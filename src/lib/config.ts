@@ -40,3 +40,222 @@ export const features = {
   enableRegistration: process.env.ENABLE_REGISTRATION !== 'false',
   enablePasswordReset: process.env.ENABLE_PASSWORD_RESET !== 'false',
 };
+
+// File storage settings
+export const storage = {
+  // Where uploaded files are kept: 'local' (disk), 's3' (any S3-compatible store) or 'uploadthing'
+  driver: (process.env.STORAGE_DRIVER || 'local') as 'local' | 's3' | 'uploadthing',
+
+  // Lifetime of signed download URLs (in seconds)
+  signedUrlExpiry: process.env.STORAGE_SIGNED_URL_EXPIRY ? parseInt(process.env.STORAGE_SIGNED_URL_EXPIRY, 10) : 60 * 60, // 1 hour
+
+  local: {
+    // Directory relative to the project root; must be under public/ to be served
+    directory: process.env.STORAGE_LOCAL_DIR || 'public/uploads',
+    publicPath: process.env.STORAGE_LOCAL_PUBLIC_PATH || '/uploads',
+  },
+
+  s3: {
+    bucket: process.env.S3_BUCKET || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    publicUrl: process.env.S3_PUBLIC_URL || undefined,
+  },
+
+  uploadthing: {
+    token: process.env.UPLOADTHING_TOKEN || undefined,
+  },
+};
+
+// Upload processing settings
+export const uploads = {
+  // Responsive renditions generated for every uploaded image
+  // Widths are upper bounds: images smaller than a variant are never upscaled
+  variants: [
+    { name: 'thumb', width: 320 },
+    { name: 'medium', width: 960 },
+    { name: 'large', width: 1920 },
+  ],
+
+  // Output formats for each variant, in order of browser preference
+  variantFormats: (process.env.UPLOAD_VARIANT_FORMATS || 'avif,webp').split(',').map(f => f.trim()).filter(Boolean),
+
+  // Encoder quality (1-100) used for all variant formats
+  variantQuality: process.env.UPLOAD_VARIANT_QUALITY ? parseInt(process.env.UPLOAD_VARIANT_QUALITY, 10) : 80,
+
+  // Largest accepted original (in bytes)
+  maxFileSize: process.env.UPLOAD_MAX_FILE_SIZE ? parseInt(process.env.UPLOAD_MAX_FILE_SIZE, 10) : 128 * 1024 * 1024, // 128MB
+
+  // Chunked uploads: size of each chunk, kept under common serverless body limits
+  chunkSize: process.env.UPLOAD_CHUNK_SIZE ? parseInt(process.env.UPLOAD_CHUNK_SIZE, 10) : 4 * 1024 * 1024, // 4MB
+
+  // Directory (relative to the project root) holding partially uploaded files
+  sessionDirectory: process.env.UPLOAD_SESSION_DIR || '.upload-sessions',
+
+  // How long an interrupted upload can be resumed (in seconds)
+  sessionTtl: process.env.UPLOAD_SESSION_TTL ? parseInt(process.env.UPLOAD_SESSION_TTL, 10) : 24 * 60 * 60, // 24 hours
+
+  // Maximum number of differing perceptual hash bits (out of 64) for two images to count as near-duplicates
+  duplicateThreshold: process.env.UPLOAD_DUPLICATE_THRESHOLD ? parseInt(process.env.UPLOAD_DUPLICATE_THRESHOLD, 10) : 6,
+};
+
+// Image search settings
+export const search = {
+  // Most full-text matches considered per query, in relevance order
+  maxResults: process.env.SEARCH_MAX_RESULTS ? parseInt(process.env.SEARCH_MAX_RESULTS, 10) : 1000,
+
+  // Most values returned per facet (tags, cameras)
+  facetLimit: process.env.SEARCH_FACET_LIMIT ? parseInt(process.env.SEARCH_FACET_LIMIT, 10) : 30,
+};
+
+// Smart (rule-based) gallery settings
+export const smartGalleries = {
+  // Most images a smart gallery's rules can add, on top of its pinned images
+  maxImages: process.env.SMART_GALLERY_MAX_IMAGES ? parseInt(process.env.SMART_GALLERY_MAX_IMAGES, 10) : 500,
+};
+
+// Gallery share link settings
+export const shareLinks = {
+  // How long a visitor stays signed in to a share link after opening it (in seconds)
+  accessTtl: process.env.SHARE_LINK_ACCESS_TTL ? parseInt(process.env.SHARE_LINK_ACCESS_TTL, 10) : 12 * 60 * 60, // 12 hours
+};
+
+// Gallery export (ZIP download) settings
+export const galleryExport = {
+  // Let anyone who can see a public gallery download it, not just its owner and members
+  allowPublic: process.env.GALLERY_EXPORT_PUBLIC === 'true',
+};
+
+// Outgoing email settings
+export const mail = {
+  // "smtp" sends real email, "console" logs messages, "file" writes them to outboxDirectory
+  // (a local mail catcher), "memory" keeps them in the process for tests
+  transport: (process.env.MAIL_TRANSPORT || 'console') as 'smtp' | 'console' | 'file' | 'memory',
+  from: process.env.MAIL_FROM || 'Pic Gallery <no-reply@localhost>',
+  outboxDirectory: process.env.MAIL_OUTBOX_DIR || '.mail-outbox',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : 587,
+    secure: process.env.SMTP_SECURE === 'true', // TLS from the start (port 465); otherwise STARTTLS when offered
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+  },
+  // Public URL of the app, used for links in emails
+  baseUrl: (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+};
+
+// Collaborative gallery settings
+export const galleryMembers = {
+  // How long an emailed invitation can be accepted (in seconds)
+  invitationTtl: process.env.GALLERY_INVITATION_TTL ? parseInt(process.env.GALLERY_INVITATION_TTL, 10) : 7 * 24 * 60 * 60, // 7 days
+};
+
+// Trash settings
+export const trash = {
+  // Days deleted images and galleries can be restored before they're purged for good
+  retentionDays: process.env.TRASH_RETENTION_DAYS ? parseInt(process.env.TRASH_RETENTION_DAYS, 10) : 30,
+  // Bearer token a scheduler sends to POST /api/trash/purge; the endpoint is disabled while unset
+  cronSecret: process.env.CRON_SECRET || '',
+};
+
+// Bulk import settings
+export const imports = {
+  // Directory (relative to the project root) holding uploaded archives until their import finishes
+  workDirectory: process.env.IMPORT_WORK_DIR || '.imports',
+  // Server folder admins can import from, and everything under it; folder imports are off while unset
+  folderRoot: process.env.IMPORT_FOLDER_ROOT || '',
+  // Largest accepted archive (in bytes)
+  maxArchiveSize: process.env.IMPORT_MAX_ARCHIVE_SIZE ? parseInt(process.env.IMPORT_MAX_ARCHIVE_SIZE, 10) : 20 * 1024 * 1024 * 1024, // 20GB
+  // Most files one import can hold
+  maxFiles: process.env.IMPORT_MAX_FILES ? parseInt(process.env.IMPORT_MAX_FILES, 10) : 50000,
+};
+
+// Password reset settings
+export const passwordReset = {
+  // How long an emailed reset link works (in seconds)
+  tokenTtl: process.env.PASSWORD_RESET_TOKEN_TTL ? parseInt(process.env.PASSWORD_RESET_TOKEN_TTL, 10) : 60 * 60, // 1 hour
+  // Reset emails sent to one address per window; further requests are ignored
+  maxRequestsPerEmail: process.env.PASSWORD_RESET_MAX_REQUESTS ? parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS, 10) : 3,
+  requestWindow: process.env.PASSWORD_RESET_WINDOW ? parseInt(process.env.PASSWORD_RESET_WINDOW, 10) : 60 * 60, // 1 hour
+};
+
+// Email verification settings
+export const emailVerification = {
+  // How long an emailed verification link works (in seconds)
+  tokenTtl: process.env.EMAIL_VERIFICATION_TOKEN_TTL ? parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL, 10) : 48 * 60 * 60, // 48 hours
+  // Keep users with unverified addresses from making galleries public
+  requiredToPublish: process.env.REQUIRE_VERIFIED_EMAIL_TO_PUBLISH === 'true',
+};
+
+// OAuth sign-in providers; each one is offered once its client ID and secret are set
+export const oauth = {
+  github: {
+    clientId: process.env.GITHUB_CLIENT_ID || '',
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+  },
+  google: {
+    clientId: process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+  },
+  // Any OpenID Connect issuer (Keycloak, Authentik, Auth0...); also needs the issuer URL
+  oidc: {
+    issuer: (process.env.OIDC_ISSUER || '').replace(/\/+$/, ''),
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    name: process.env.OIDC_NAME || 'Single sign-on',
+  },
+  // Sign in to an existing account with the same address, when both the provider and its owner verified it
+  linkByEmail: process.env.OAUTH_LINK_BY_EMAIL !== 'false',
+};
+
+// Two-factor authentication settings
+export const twoFactor = {
+  // Name shown next to the account in authenticator apps
+  issuer: process.env.TWO_FACTOR_ISSUER || 'Pic Gallery',
+  // Admins have to set up two-factor authentication before they can use the admin pages
+  requireForAdmins: process.env.REQUIRE_ADMIN_2FA === 'true',
+  // One-time recovery codes issued when two-factor authentication is enabled
+  recoveryCodeCount: process.env.TWO_FACTOR_RECOVERY_CODES ? parseInt(process.env.TWO_FACTOR_RECOVERY_CODES, 10) : 10,
+};
+
+// Reads a "<requests>/<seconds>" policy override, e.g. "10/60" for 10 requests a minute
+function ratePolicy(value: string | undefined, limit: number, windowSeconds: number) {
+  const match = value?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  return match
+    ? { limit: parseInt(match[1], 10), windowSeconds: parseInt(match[2], 10) }
+    : { limit, windowSeconds };
+}
+
+// Rate limiting settings
+export const rateLimit = {
+  // Where counters are kept: "memory" (this process only), "database" (shared through Prisma)
+  // or "redis" (any Redis behind an Upstash-compatible REST endpoint)
+  store: (process.env.RATE_LIMIT_STORE || 'memory') as 'memory' | 'database' | 'redis',
+  redis: {
+    url: (process.env.RATE_LIMIT_REDIS_URL || '').replace(/\/+$/, ''),
+    token: process.env.RATE_LIMIT_REDIS_TOKEN || '',
+  },
+  // Proxies in front of the app that append the client address to X-Forwarded-For.
+  // Only the addresses they added are trusted; with 0 the header is ignored and requests are
+  // counted per connection address (X-Real-IP as set by the hosting platform).
+  trustedProxies: process.env.RATE_LIMIT_TRUSTED_PROXIES ? parseInt(process.env.RATE_LIMIT_TRUSTED_PROXIES, 10) : 0,
+  // Requests per client address per window, for each group of routes
+  policies: {
+    login: ratePolicy(process.env.RATE_LIMIT_LOGIN, 10, 60),
+    register: ratePolicy(process.env.RATE_LIMIT_REGISTER, 5, 60 * 60),
+    upload: ratePolicy(process.env.RATE_LIMIT_UPLOAD, 60, 60),
+    search: ratePolicy(process.env.RATE_LIMIT_SEARCH, 60, 60),
+    // Gallery ZIP downloads, which read every file in the gallery
+    export: ratePolicy(process.env.RATE_LIMIT_EXPORT, 10, 60 * 60),
+    // OAuth sign-ins, password reset, email verification, two-factor changes, share link passwords and E2E endpoints
+    auth: ratePolicy(process.env.RATE_LIMIT_AUTH, 20, 60),
+  },
+  // Limit used instead of any lower policy limit while E2E test features are enabled
+  e2eLimit: 200,
+  // Accounts are locked after this many failed sign-ins in a row, for lockoutDuration seconds
+  maxLoginFailures: process.env.LOGIN_MAX_FAILURES ? parseInt(process.env.LOGIN_MAX_FAILURES, 10) : 5,
+  lockoutDuration: process.env.LOGIN_LOCKOUT_DURATION ? parseInt(process.env.LOGIN_LOCKOUT_DURATION, 10) : 15 * 60, // 15 minutes
+};
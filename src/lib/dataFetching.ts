@@ -121,3 +121,24 @@ export function formatPaginatedResponse<T>(
     },
   };
 }
+
+/**
+ * Formats a page fetched with a cursor into a standard format
+ * Fetch one row more than the limit (see getPaginationOptions): it only tells whether
+ * another page follows and is dropped from the response.
+ * @param rows The rows returned from the database, up to limit + 1
+ * @param limit The page size
+ */
+export function formatCursorPaginatedResponse<T extends { id: string }>(rows: T[], limit: number) {
+  const data = rows.slice(0, limit);
+  const hasNextPage = rows.length > limit;
+
+  return {
+    data,
+    meta: {
+      perPage: limit,
+      hasNextPage,
+      nextCursor: hasNextPage ? data[data.length - 1].id : null,
+    },
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Email verification
+ *
+ * Verification links carry a signed token naming the user and an expiry time, so nothing
+ * is stored until the address is verified. The signature also covers the address itself:
+ * changing the email makes earlier links useless.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { emailVerification as verificationConfig } from '@/lib/config';
+import { appUrl, sendMail } from '@/lib/mail';
+
+export const UNVERIFIED_PUBLISH_MESSAGE = 'Verify your email address before making galleries public';
+
+/**
+ * Error thrown when an address can't be verified, carrying the HTTP status to return
+ */
+export class EmailVerificationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'EmailVerificationError';
+  }
+}
+
+function signingSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new EmailVerificationError('Email verification requires NEXTAUTH_SECRET to be set', 500);
+  }
+  return secret;
+}
+
+function sign(userId: string, email: string, expires: number): string {
+  return createHmac('sha256', signingSecret())
+    .update(`email-verification:${userId}:${email}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Create the token for a verification link
+ */
+export function createVerificationToken(user: { id: string; email: string }, now = Date.now()): string {
+  const expires = Math.floor(now / 1000) + verificationConfig.tokenTtl;
+  return `${user.id}.${expires}.${sign(user.id, user.email, expires)}`;
+}
+
+/**
+ * Email a verification link for the user's current address
+ */
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<void> {
+  const token = createVerificationToken(user);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      'Welcome to Pic Gallery! Please confirm that this is your email address.',
+      '',
+      `Verify your address: ${appUrl(`/auth/verify?token=${encodeURIComponent(token)}`)}`,
+      '',
+      `The link works for ${Math.round(verificationConfig.tokenTtl / 3600)} hours. If you didn't create an account, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Send a new verification link to a user who hasn't verified their address yet
+ */
+export async function resendVerificationEmail(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, emailVerified: true },
+  });
+  if (!user?.email) {
+    throw new EmailVerificationError('There is no email address to verify', 400);
+  }
+  if (user.emailVerified) {
+    throw new EmailVerificationError('Your email address is already verified', 409);
+  }
+
+  await sendVerificationEmail({ id: user.id, email: user.email });
+}
+
+/**
+ * Mark the address of a verification link as verified
+ * Using a link again is harmless, as long as the address hasn't changed.
+ * @returns The verified address
+ */
+export async function verifyEmail(token: string, now = Date.now()): Promise<string> {
+  const [userId, expiresPart, signature] = token.split('.');
+  const expires = Number(expiresPart);
+  if (!userId || !signature || !Number.isInteger(expires)) {
+    throw new EmailVerificationError('This verification link is invalid', 400);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, emailVerified: true },
+  });
+  const expected = user?.email ? Buffer.from(sign(user.id, user.email, expires)) : null;
+  const actual = Buffer.from(signature);
+  if (!user?.email || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new EmailVerificationError('This verification link is invalid', 400);
+  }
+  if (expires * 1000 <= now) {
+    throw new EmailVerificationError('This verification link has expired', 410);
+  }
+
+  if (!user.emailVerified) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: new Date(now) },
+    });
+    logger.log(`Email verified for user ${user.id}`);
+  }
+  return user.email;
+}
+
+/**
+ * Whether the user may make galleries public
+ * Always true unless `emailVerification.requiredToPublish` is on.
+ */
+export async function canPublishGalleries(userId: string): Promise<boolean> {
+  if (!verificationConfig.requiredToPublish) {
+    return true;
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerified: true },
+  });
+  return !!user?.emailVerified;
+}
@@ -0,0 +1,218 @@
+/**
+ * Gallery export
+ *
+ * Packs a gallery into a ZIP: its images' full-size files in gallery order, a
+ * manifest.json with titles, descriptions, the gallery's captions and tags, and
+ * optionally an XMP sidecar next to each image so photo managers pick the same details
+ * up. Who can export follows who can view the gallery, except that public visitors
+ * only can when `galleryExport.allowPublic` is on.
+ */
+import sharp from 'sharp';
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { galleryExport as galleryExportConfig } from '@/lib/config';
+import { readStoredFile } from '@/lib/storage';
+import { GALLERY_ENTRY_INCLUDE, resolveGalleryImages } from '@/lib/smartGalleries';
+import { getGalleryRole } from '@/lib/galleryMembers';
+import { isGalleryVisible, withoutHiddenImages } from '@/lib/moderation';
+import type { GalleryExportManifest } from '@/lib/schemas';
+import type { ZipEntry } from '@/lib/zip';
+
+/**
+ * Error thrown when a gallery can't be exported, carrying the HTTP status to return
+ */
+export class GalleryExportError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GalleryExportError';
+  }
+}
+
+const EXPORT_GALLERY_INCLUDE = {
+  images: { orderBy: { order: 'asc' }, include: GALLERY_ENTRY_INCLUDE },
+} as const;
+
+export type ExportableGallery = Awaited<ReturnType<typeof loadExportableGallery>>;
+
+// Longest file name stem kept from a title, before the order prefix and extension
+const MAX_STEM_LENGTH = 80;
+
+/**
+ * Whether a viewer who can see a gallery may also download it
+ * @param viewerRole The viewer's role in the gallery, null for visitors
+ */
+export function canExportGallery(viewerRole: string | null, isAdmin = false): boolean {
+  return isAdmin || !!viewerRole || galleryExportConfig.allowPublic;
+}
+
+/**
+ * Load a gallery with the images the viewer is allowed to export
+ * @throws GalleryExportError when the gallery doesn't exist or the viewer can't export it
+ */
+export async function loadExportableGallery(galleryId: string, viewer?: { id: string; role?: string }) {
+  const gallery = await prisma.gallery.findUnique({ where: { id: galleryId }, include: EXPORT_GALLERY_INCLUDE });
+  if (!gallery || gallery.deletedAt) {
+    throw new GalleryExportError('Gallery not found', 404);
+  }
+
+  const viewerRole = await getGalleryRole(gallery, viewer?.id);
+  const isAdmin = viewer?.role === UserRole.ADMIN;
+  if (!isGalleryVisible(gallery, viewerRole, isAdmin)) {
+    throw new GalleryExportError('Unauthorized', 401);
+  }
+  if (!canExportGallery(viewerRole, isAdmin)) {
+    throw new GalleryExportError("Only the gallery's owner and members can download it", 403);
+  }
+
+  return withoutHiddenImages(await resolveGalleryImages(gallery), viewer?.id, isAdmin);
+}
+
+/**
+ * Turn a title into a file name that's safe on every common file system
+ * Path separators, reserved characters and control characters are dropped, whitespace
+ * becomes dashes, and leading dots are removed so nothing ends up hidden.
+ */
+export function sanitizeFileName(name: string, fallback: string): string {
+  const sanitized = name
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f<>:"/\\|?*]+/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .slice(0, MAX_STEM_LENGTH)
+    .replace(/^[.-]+|[.-]+$/g, '');
+  return sanitized || fallback;
+}
+
+/**
+ * The archive's own file name, for the Content-Disposition header
+ */
+export function exportArchiveName(galleryTitle: string): string {
+  return `${sanitizeFileName(galleryTitle, 'gallery')}.zip`;
+}
+
+async function fileExtension(url: string, data: Buffer): Promise<string> {
+  const path = url.split(/[?#]/)[0];
+  const match = path.match(/\.([a-z0-9]{1,5})$/i);
+  if (match) {
+    return match[1].toLowerCase();
+  }
+  try {
+    const { format } = await sharp(data).metadata();
+    return format === 'jpeg' ? 'jpg' : format ?? 'bin';
+  } catch {
+    return 'bin';
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xmpAlt(tag: string, value: string | null): string {
+  return value
+    ? `   <${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>\n`
+    : '';
+}
+
+function xmpBag(tag: string, values: string[]): string {
+  return values.length > 0
+    ? `   <${tag}><rdf:Bag>${values.map(value => `<rdf:li>${escapeXml(value)}</rdf:li>`).join('')}</rdf:Bag></${tag}>\n`
+    : '';
+}
+
+/**
+ * An XMP sidecar with an image's title, description and tags
+ * The gallery's caption takes the place of the image's own description when there is one.
+ * Nested tags ("travel/japan") become Lightroom's hierarchical keywords, with each level
+ * also listed as a plain keyword.
+ */
+export function buildXmpSidecar(image: { title: string; description: string | null; caption: string | null; tags: string[] }): string {
+  const keywords = [...new Set(image.tags.flatMap(tag => tag.split('/')))];
+  const hierarchical = image.tags.filter(tag => tag.includes('/')).map(tag => tag.split('/').join('|'));
+  return (
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">\n' +
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n' +
+    '  <rdf:Description rdf:about=""\n' +
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"\n' +
+    '    xmlns:lr="http://ns.adobe.com/lightroom/1.0/">\n' +
+    xmpAlt('dc:title', image.title) +
+    xmpAlt('dc:description', image.caption ?? image.description) +
+    xmpBag('dc:subject', keywords) +
+    xmpBag('lr:hierarchicalSubject', hierarchical) +
+    '  </rdf:Description>\n' +
+    ' </rdf:RDF>\n' +
+    '</x:xmpmeta>\n' +
+    '<?xpacket end="w"?>\n'
+  );
+}
+
+/**
+ * The archive entries for a gallery: each image (and sidecar) in order, then the manifest
+ * Files are read one at a time as the archive is written. Images whose file can't be
+ * read are left out, and out of the manifest.
+ */
+export async function* galleryExportEntries(gallery: ExportableGallery, options: { xmp?: boolean } = {}): AsyncGenerator<ZipEntry> {
+  const exportedAt = new Date();
+  const digits = Math.max(3, String(gallery.images.length).length);
+  const manifest: GalleryExportManifest = {
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    gallery: { id: gallery.id, title: gallery.title, description: gallery.description },
+    images: [],
+  };
+
+  for (const [index, entry] of gallery.images.entries()) {
+    const { image } = entry;
+    let data: Buffer | null = null;
+    try {
+      data = await readStoredFile(image.url);
+    } catch (error) {
+      logger.error(`Error reading ${image.url} for gallery export:`, error);
+    }
+    if (!data) {
+      logger.warn(`Leaving image ${image.id} out of the export of gallery ${gallery.id}: its file could not be read`);
+      continue;
+    }
+
+    const stem = `${String(index + 1).padStart(digits, '0')}-${sanitizeFileName(image.title, 'image')}`;
+    const file = `${stem}.${await fileExtension(image.url, data)}`;
+    const tags = image.tags.map(tag => tag.name);
+    const details = {
+      title: image.title,
+      description: image.description,
+      caption: entry.description,
+      tags,
+    };
+    yield { name: file, data, modifiedAt: image.updatedAt };
+
+    let xmpFile: string | undefined;
+    if (options.xmp) {
+      xmpFile = `${stem}.xmp`;
+      yield { name: xmpFile, data: Buffer.from(buildXmpSidecar(details), 'utf8'), modifiedAt: image.updatedAt, compress: true };
+    }
+
+    manifest.images.push({
+      file,
+      ...(xmpFile && { xmpFile }),
+      id: image.id,
+      ...details,
+      order: index,
+      capturedAt: image.metadata?.capturedAt?.toISOString() ?? null,
+      width: image.metadata?.width ?? null,
+      height: image.metadata?.height ?? null,
+    });
+  }
+
+  yield {
+    name: 'manifest.json',
+    data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'),
+    modifiedAt: exportedAt,
+    compress: true,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Gallery listings
+ *
+ * Listings return pages of gallery summaries (details, image count and cover) rather than
+ * whole galleries with every image. Pages are fetched with a cursor, the ID of the last
+ * gallery on the previous page, so they stay consistent while galleries are added. Every
+ * sort ends with the gallery ID, which keeps the order total for the cursor.
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { formatCursorPaginatedResponse, getPaginationOptions } from '@/lib/dataFetching';
+import { accessibleGalleriesFilter } from '@/lib/galleryMembers';
+import { publicGalleriesFilter } from '@/lib/moderation';
+import { countSmartGalleryImages, findSmartGalleryImages, parseSmartRules } from '@/lib/smartGalleries';
+import { pickVariantUrl } from '@/lib/utils/imageVariants';
+import type { GalleryListQuery, GalleryListScope, GallerySort, GallerySummary } from '@/lib/schemas';
+
+// Width gallery cards need from a cover thumbnail
+const THUMBNAIL_WIDTH = 480;
+
+const SORT_ORDER: Record<GallerySort, Prisma.GalleryOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  oldest: [{ createdAt: 'asc' }, { id: 'asc' }],
+  updated: [{ updatedAt: 'desc' }, { id: 'desc' }],
+  title: [{ title: 'asc' }, { id: 'asc' }],
+};
+
+const COVER_SELECT = {
+  id: true,
+  title: true,
+  url: true,
+  userId: true,
+  hiddenAt: true,
+  variants: true,
+} as const satisfies Prisma.ImageSelect;
+
+const SUMMARY_INCLUDE = {
+  user: { select: { id: true, name: true, image: true } },
+  coverImage: { select: COVER_SELECT },
+  // Fallback cover: the first image nobody hid
+  images: {
+    where: { image: { hiddenAt: null } },
+    orderBy: { order: 'asc' },
+    take: 1,
+    select: { image: { select: COVER_SELECT } },
+  },
+  _count: { select: { images: true } },
+} as const satisfies Prisma.GalleryInclude;
+
+type SummaryRow = Prisma.GalleryGetPayload<{ include: typeof SUMMARY_INCLUDE }>;
+type CoverImage = Prisma.ImageGetPayload<{ select: typeof COVER_SELECT }>;
+
+/**
+ * The galleries a listing scope covers
+ * @returns null when the scope needs a signed-in user and there's none
+ */
+export function galleryListFilter(scope: GalleryListScope, userId: string | undefined): Prisma.GalleryWhereInput | null {
+  if (scope === 'public') {
+    return publicGalleriesFilter();
+  }
+  if (!userId) {
+    return scope === 'accessible' ? publicGalleriesFilter() : null;
+  }
+  switch (scope) {
+    case 'accessible':
+      return { OR: [publicGalleriesFilter(), accessibleGalleriesFilter(userId)] };
+    case 'owned':
+      return { userId };
+    case 'shared':
+      return { members: { some: { userId } } };
+  }
+}
+
+async function summarize(row: SummaryRow, viewerId: string | undefined): Promise<GallerySummary> {
+  const smartRules = parseSmartRules(row.smartRules);
+  let imageCount = row._count.images;
+  let cover: CoverImage | null = row.coverImage && (!row.coverImage.hiddenAt || row.coverImage.userId === viewerId)
+    ? row.coverImage
+    : row.images[0]?.image ?? null;
+
+  // Smart galleries also contain their rule matches
+  if (smartRules) {
+    const pinned = await prisma.imageInGallery.findMany({ where: { galleryId: row.id }, select: { imageId: true } });
+    imageCount = await countSmartGalleryImages(row.userId, smartRules, pinned.map(entry => entry.imageId));
+    if (!cover) {
+      cover = (await findSmartGalleryImages(row.userId, { ...smartRules, limit: 1 }, { hiddenAt: null }))[0] ?? null;
+    }
+  }
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    isPublic: row.isPublic,
+    userId: row.userId,
+    coverImageId: row.coverImageId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    smartRules,
+    hiddenAt: row.hiddenAt,
+    // Only the owner is told why a moderator stepped in
+    moderationReason: row.userId === viewerId ? row.moderationReason : null,
+    imageCount,
+    coverImage: cover && {
+      id: cover.id,
+      title: cover.title,
+      url: cover.url,
+      thumbnailUrl: pickVariantUrl(cover.variants, THUMBNAIL_WIDTH, cover.url),
+    },
+    user: row.user,
+  };
+}
+
+/**
+ * A page of gallery summaries
+ * @param viewerId The signed-in user, for the scopes that depend on them
+ * @returns null when the scope needs a signed-in user and there's none
+ */
+export async function listGallerySummaries(query: GalleryListQuery, viewerId: string | undefined) {
+  const where = galleryListFilter(query.scope, viewerId);
+  if (!where) {
+    return null;
+  }
+
+  const rows = await prisma.gallery.findMany({
+    // Trashed galleries only show up in their owner's trash
+    where: { ...where, deletedAt: null },
+    include: SUMMARY_INCLUDE,
+    orderBy: SORT_ORDER[query.sort],
+    // One extra row tells whether another page follows
+    ...getPaginationOptions({ limit: query.limit + 1, cursor: query.cursor }),
+  });
+  const summaries = await Promise.all(rows.map(row => summarize(row, viewerId)));
+  return formatCursorPaginatedResponse(summaries, query.limit);
+}
@@ -0,0 +1,252 @@
+/**
+ * Collaborative galleries
+ *
+ * A gallery has one owner and any number of members, each with a role (see
+ * src/lib/utils/galleryRoles.ts for what each role allows). People are invited by
+ * email and become members when they open the emailed link while logged in with
+ * that address.
+ */
+import { randomBytes } from 'crypto';
+import type { z } from 'zod';
+import type { Gallery, ImageInGallery, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { galleryMembers as memberConfig } from '@/lib/config';
+import { appUrl, sendMail } from '@/lib/mail';
+import { parseSmartRules } from '@/lib/smartGalleries';
+import { canInGallery, canRemoveGalleryImage, GALLERY_ROLE_LABELS } from '@/lib/utils/galleryRoles';
+import type { GalleryAccessRole, GalleryInvitation, GalleryMember, InviteGalleryMember, UpdateGallerySchema } from '@/lib/schemas';
+
+type GalleryUpdate = z.infer<typeof UpdateGallerySchema>;
+
+/**
+ * Error thrown when a membership change isn't allowed, carrying the HTTP status to return
+ */
+export class GalleryMemberError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GalleryMemberError';
+  }
+}
+
+export const GALLERY_MEMBER_INCLUDE = {
+  user: { select: { id: true, name: true, email: true, image: true } },
+} as const satisfies Prisma.GalleryMemberInclude;
+
+const INVITATION_SELECT = {
+  id: true,
+  galleryId: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+} as const satisfies Prisma.GalleryInvitationSelect;
+
+/**
+ * The user's role in a gallery: OWNER for the owner, their member role, or null
+ */
+export async function getGalleryRole(
+  gallery: Pick<Gallery, 'id' | 'userId'>,
+  userId: string | undefined
+): Promise<GalleryAccessRole | null> {
+  if (!userId) return null;
+  if (gallery.userId === userId) return 'OWNER';
+  const membership = await prisma.galleryMember.findUnique({
+    where: { galleryId_userId: { galleryId: gallery.id, userId } },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+/**
+ * Galleries a user owns or is a member of
+ */
+export function accessibleGalleriesFilter(userId: string): Prisma.GalleryWhereInput {
+  return { OR: [{ userId }, { members: { some: { userId } } }] };
+}
+
+const DETAIL_FIELDS = [
+  'title', 'description', 'coverImageId', 'themeColor', 'backgroundColor', 'backgroundImageUrl',
+  'accentColor', 'fontFamily', 'displayMode', 'layoutType',
+] as const satisfies readonly (keyof GalleryUpdate & keyof Gallery)[];
+
+/**
+ * Check a PATCH /api/galleries/[id] body against the user's role
+ * The edit page always sends every field, so only values that actually change count.
+ * @returns Why the update isn't allowed, or null if it is
+ */
+export function findForbiddenGalleryChange(
+  role: GalleryAccessRole,
+  userId: string,
+  gallery: Gallery & { images: ImageInGallery[] },
+  update: GalleryUpdate
+): string | null {
+  if (update.isPublic !== undefined && update.isPublic !== gallery.isPublic && !canInGallery(role, 'manage')) {
+    return 'Only the owner can change who can see this gallery';
+  }
+
+  // Smart rules match the owner's whole library, so they can pull in images nobody else may share
+  if (
+    update.smartRules !== undefined &&
+    JSON.stringify(update.smartRules) !== JSON.stringify(parseSmartRules(gallery.smartRules)) &&
+    !canInGallery(role, 'manage')
+  ) {
+    return 'Only the owner can change which images the smart rules pull in';
+  }
+
+  const detailsChanged = DETAIL_FIELDS.some(field =>
+    update[field] !== undefined && (update[field] ?? null) !== (gallery[field] ?? null) &&
+    // Forms send an empty string for a missing description
+    !(field === 'description' && !update[field] && !gallery[field])
+  );
+  if (detailsChanged && !canInGallery(role, 'editDetails')) {
+    return 'You can\'t change this gallery\'s details';
+  }
+
+  if (update.images) {
+    const kept = new Map(update.images.map(entry => [entry.id, entry]));
+    for (const entry of gallery.images) {
+      const next = kept.get(entry.id);
+      if (!next) {
+        if (!canRemoveGalleryImage(role, userId, entry)) {
+          return 'You can only remove images you added';
+        }
+      } else if (
+        ((next.order !== undefined && next.order !== entry.order) ||
+          (next.description !== undefined && (next.description || null) !== (entry.description || null))) &&
+        !canInGallery(role, 'editImages')
+      ) {
+        return 'You can\'t reorder or caption images in this gallery';
+      }
+    }
+  }
+
+  const adding = (update.addImages?.length ?? 0) > 0 || update.images?.some(entry => entry.id.startsWith('temp-'));
+  if (adding && !canInGallery(role, 'addImages')) {
+    return 'You can\'t add images to this gallery';
+  }
+
+  return null;
+}
+
+/**
+ * Members and pending invitations of a gallery
+ */
+export async function listGalleryMembers(galleryId: string): Promise<{ members: GalleryMember[]; invitations: GalleryInvitation[] }> {
+  const [members, invitations] = await Promise.all([
+    prisma.galleryMember.findMany({
+      where: { galleryId },
+      include: GALLERY_MEMBER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.galleryInvitation.findMany({
+      where: { galleryId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  return { members, invitations };
+}
+
+/**
+ * Invite someone to a gallery by email, replacing any pending invitation for the same address
+ */
+export async function inviteGalleryMember(
+  gallery: Pick<Gallery, 'id' | 'title' | 'userId'>,
+  inviter: { id: string; name?: string | null },
+  { email, role }: InviteGalleryMember
+): Promise<GalleryInvitation> {
+  const existingUser = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, galleryMemberships: { where: { galleryId: gallery.id }, select: { id: true } } },
+  });
+  if (existingUser?.id === gallery.userId) {
+    throw new GalleryMemberError('The owner is already part of this gallery', 400);
+  }
+  if (existingUser && existingUser.galleryMemberships.length > 0) {
+    throw new GalleryMemberError('This person is already a member', 409);
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.galleryInvitation.deleteMany({ where: { galleryId: gallery.id, email, acceptedAt: null } });
+    return tx.galleryInvitation.create({
+      data: {
+        galleryId: gallery.id,
+        email,
+        role,
+        token,
+        invitedById: inviter.id,
+        expiresAt: new Date(Date.now() + memberConfig.invitationTtl * 1000),
+      },
+      select: INVITATION_SELECT,
+    });
+  });
+
+  const link = appUrl(`/invitations/${token}`);
+  const inviterName = inviter.name || 'Someone';
+  await sendMail({
+    to: email,
+    subject: `${inviterName} invited you to "${gallery.title}"`,
+    text: [
+      `${inviterName} invited you to join the gallery "${gallery.title}" as ${GALLERY_ROLE_LABELS[role].toLowerCase()}.`,
+      '',
+      `Accept the invitation: ${link}`,
+      '',
+      `The link works until ${invitation.expiresAt.toUTCString()}. Log in or sign up with ${email} to accept it.`,
+    ].join('\n'),
+  });
+
+  return invitation;
+}
+
+/**
+ * Look up an invitation by the token from its email
+ * @returns null for unknown tokens
+ */
+export async function findGalleryInvitation(token: string) {
+  return prisma.galleryInvitation.findUnique({
+    where: { token },
+    include: {
+      gallery: { select: { id: true, title: true, userId: true } },
+      invitedBy: { select: { name: true } },
+    },
+  });
+}
+
+/**
+ * Accept an invitation as the logged-in user, who must own the invited address
+ * Accepting again (or as an existing member) just updates the member's role.
+ * @returns The gallery joined
+ */
+export async function acceptGalleryInvitation(token: string, user: { id: string; email?: string | null }): Promise<string> {
+  const invitation = await findGalleryInvitation(token);
+  if (!invitation) {
+    throw new GalleryMemberError('Invitation not found', 404);
+  }
+  if (invitation.acceptedAt) {
+    throw new GalleryMemberError('This invitation has already been used', 410);
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new GalleryMemberError('This invitation has expired', 410);
+  }
+  if (user.email?.toLowerCase() !== invitation.email) {
+    throw new GalleryMemberError(`This invitation was sent to ${invitation.email}. Log in with that address to accept it.`, 403);
+  }
+  if (invitation.gallery.userId === user.id) {
+    throw new GalleryMemberError('You already own this gallery', 400);
+  }
+
+  await prisma.$transaction([
+    prisma.galleryMember.upsert({
+      where: { galleryId_userId: { galleryId: invitation.galleryId, userId: user.id } },
+      create: { galleryId: invitation.galleryId, userId: user.id, role: invitation.role },
+      update: { role: invitation.role },
+    }),
+    prisma.galleryInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() },
+    }),
+  ]);
+
+  return invitation.galleryId;
+}
@@ -22,7 +22,8 @@ export function useGalleryEditForm() {
       accentColor: '',
       fontFamily: '',
       displayMode: '',
-      layoutType: ''
+      layoutType: '',
+      smartRules: null
     }
   });
 
@@ -31,6 +32,7 @@ export function useGalleryEditForm() {
     handleSubmit: formMethods.handleSubmit,
     reset: formMethods.reset,
     watch: formMethods.watch,
+    setValue: formMethods.setValue,
     errors: formMethods.formState.errors,
     isDirty: formMethods.formState.isDirty,
     isSubmitting: formMethods.formState.isSubmitting,
@@ -0,0 +1,339 @@
+/**
+ * Server-side image processing utilities
+ * Generates resized renditions of uploaded images using sharp
+ * extracts or strips their embedded metadata, and fingerprints them for duplicate detection
+ */
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import piexif from 'piexifjs';
+import { uploads } from '@/lib/config';
+import logger from '@/lib/logger';
+import { normalizeImageMetadata } from '@/lib/utils/imageMetadata';
+import { computePerceptualHash, HASH_SOURCE_HEIGHT, HASH_SOURCE_WIDTH } from '@/lib/utils/imageHashing';
+import type { ImageEditRecipe, ImageMetadata } from '@/lib/schemas';
+
+// Formats sharp can encode that are worth serving to browsers
+const SUPPORTED_VARIANT_FORMATS = ['avif', 'webp', 'jpeg'] as const;
+type VariantFormat = typeof SUPPORTED_VARIANT_FORMATS[number];
+
+// Edited images keep their format when sharp can write it, and become JPEGs otherwise
+const EDITABLE_OUTPUT_FORMATS = ['jpeg', 'png', 'webp', 'avif'] as const;
+type EditOutputFormat = typeof EDITABLE_OUTPUT_FORMATS[number];
+
+// Edits become the image everything else is rendered from, so they're encoded close to lossless
+const EDIT_QUALITY = 92;
+
+// Animated GIFs would lose their animation when resized, so they are served as-is
+const SKIPPED_MIME_TYPES = ['image/gif'];
+
+export interface RenderedVariant {
+  name: string;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface RenderedEdit {
+  format: EditOutputFormat;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+function isSupportedFormat(format: string): format is VariantFormat {
+  return (SUPPORTED_VARIANT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Check whether variants should be generated for a given MIME type
+ */
+export function shouldGenerateVariants(mimeType: string): boolean {
+  return mimeType.startsWith('image/') && !SKIPPED_MIME_TYPES.includes(mimeType.toLowerCase());
+}
+
+/**
+ * Read pixel dimensions as displayed, honouring the EXIF orientation flag
+ */
+async function getDisplayDimensions(input: Buffer): Promise<{ width?: number; height?: number }> {
+  const metadata = await sharp(input).metadata();
+  const isRotated = !!metadata.orientation && metadata.orientation >= 5;
+  return isRotated
+    ? { width: metadata.height, height: metadata.width }
+    : { width: metadata.width, height: metadata.height };
+}
+
+/**
+ * Render every configured variant/format combination for an image
+ * Variants wider than the original are skipped, except for the smallest one
+ * so that every image has at least one lightweight rendition.
+ * @param input The original image bytes
+ * @returns The encoded variants, or an empty array if the image can't be processed
+ */
+export async function renderImageVariants(input: Buffer): Promise<RenderedVariant[]> {
+  const formats = uploads.variantFormats.filter(isSupportedFormat);
+  if (formats.length === 0) {
+    return [];
+  }
+
+  let originalWidth: number | undefined;
+  try {
+    originalWidth = (await getDisplayDimensions(input)).width;
+  } catch (error) {
+    logger.error('Unable to read image for variant generation:', error);
+    return [];
+  }
+
+  if (!originalWidth) {
+    return [];
+  }
+
+  const sortedVariants = [...uploads.variants].sort((a, b) => a.width - b.width);
+  const variantsToRender = sortedVariants.filter(
+    (variant, index) => index === 0 || variant.width <= originalWidth
+  );
+
+  // sharp drops all input metadata by default, so variants never carry GPS data
+  const rendered: RenderedVariant[] = [];
+  for (const variant of variantsToRender) {
+    for (const format of formats) {
+      const { data, info } = await sharp(input)
+        .rotate()
+        .resize({ width: variant.width, withoutEnlargement: true })
+        .toFormat(format, { quality: uploads.variantQuality })
+        .toBuffer({ resolveWithObject: true });
+
+      rendered.push({
+        name: variant.name,
+        format,
+        width: info.width,
+        height: info.height,
+        data,
+      });
+    }
+  }
+
+  return rendered;
+}
+
+/**
+ * Extract camera, capture and authoring details from EXIF, IPTC and XMP blocks
+ * @param input The original image bytes
+ * @returns Normalized metadata, or null if the file can't be read at all
+ */
+export async function extractImageMetadata(input: Buffer): Promise<ImageMetadata | null> {
+  let dimensions: { width?: number; height?: number };
+  try {
+    dimensions = await getDisplayDimensions(input);
+  } catch (error) {
+    logger.error('Unable to read image for metadata extraction:', error);
+    return null;
+  }
+
+  let raw: Record<string, unknown> | undefined;
+  try {
+    raw = await exifr.parse(input, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      iptc: true,
+      xmp: true,
+    });
+  } catch (error) {
+    // Malformed metadata blocks are common; dimensions alone are still useful
+    logger.warn('Unable to parse image metadata:', error);
+  }
+
+  return normalizeImageMetadata(raw, dimensions);
+}
+
+// JPEG APP1 segments holding an XMP packet, and the continuation of packets too big for one
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+const EXTENDED_XMP_SIGNATURE = 'http://ns.adobe.com/xmp/extension/\0';
+// XMP location properties (exif:GPSLatitude, exif:GPSLongitude, ...), as attributes or elements
+const XMP_GPS_ATTRIBUTE = /\s[\w.-]+:GPS\w*\s*=\s*("[^"]*"|'[^']*')/g;
+const XMP_GPS_ELEMENT = /<([\w.-]+:GPS\w*)\b[^>]*?(\/>|>[\s\S]*?<\/\1\s*>)/g;
+
+function removeExifGps(input: Buffer): Buffer {
+  const binary = input.toString('binary');
+  const exif = piexif.load(binary);
+  if (!exif.GPS || Object.keys(exif.GPS).length === 0) {
+    return input;
+  }
+  exif.GPS = {};
+  return Buffer.from(piexif.insert(piexif.dump(exif), binary), 'binary');
+}
+
+/**
+ * Drop the GPS properties from a JPEG's XMP packet, and any extended XMP
+ * Extended XMP can only be rewritten along with its checksum, so it's left out altogether.
+ */
+function removeXmpGps(input: Buffer): Buffer {
+  if (input.readUInt16BE(0) !== 0xffd8) {
+    throw new Error('Not a JPEG file');
+  }
+  const segments: Buffer[] = [input.subarray(0, 2)];
+  let position = 2;
+  let changed = false;
+  // Metadata segments all come before the image data, which starts at SOS
+  while (position + 4 <= input.length && input[position] === 0xff && input[position + 1] !== 0xda) {
+    const marker = input[position + 1];
+    const end = position + 2 + input.readUInt16BE(position + 2);
+    if (end > input.length) {
+      throw new Error('Truncated JPEG segment');
+    }
+    const segment = input.subarray(position, end);
+    const payload = segment.subarray(4).toString('latin1');
+
+    if (marker === 0xe1 && payload.startsWith(EXTENDED_XMP_SIGNATURE)) {
+      changed = true;
+    } else if (marker === 0xe1 && payload.startsWith(XMP_SIGNATURE)) {
+      const packet = segment.subarray(4 + XMP_SIGNATURE.length).toString('utf8');
+      const stripped = packet.replace(XMP_GPS_ELEMENT, '').replace(XMP_GPS_ATTRIBUTE, '');
+      if (stripped === packet) {
+        segments.push(segment);
+      } else {
+        const data = Buffer.concat([Buffer.from(XMP_SIGNATURE, 'latin1'), Buffer.from(stripped, 'utf8')]);
+        const header = Buffer.from([0xff, 0xe1, 0, 0]);
+        header.writeUInt16BE(data.length + 2, 2);
+        segments.push(header, data);
+        changed = true;
+      }
+    } else {
+      segments.push(segment);
+    }
+    position = end;
+  }
+
+  return changed ? Buffer.concat([...segments, input.subarray(position)]) : input;
+}
+
+/**
+ * Remove GPS location data from an image
+ * JPEGs are edited losslessly by dropping the GPS IFD from the EXIF block and the GPS
+ * properties from the XMP packet; other formats are re-encoded without any metadata.
+ * @param input The original image bytes
+ * @param mimeType The MIME type of the image
+ * @returns The image bytes without location data
+ */
+export async function stripGpsMetadata(input: Buffer, mimeType: string): Promise<Buffer> {
+  if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+    try {
+      return removeXmpGps(removeExifGps(input));
+    } catch (error) {
+      // Fall back to re-encoding so location data can't slip through
+      logger.warn('Unable to strip GPS data losslessly, re-encoding instead:', error);
+    }
+  } else if (!shouldGenerateVariants(mimeType)) {
+    // GIFs don't carry EXIF location data
+    return input;
+  }
+
+  // Bake the orientation into the pixels, since the EXIF flag is dropped too
+  return sharp(input).rotate().keepIccProfile().toBuffer();
+}
+
+/**
+ * Fingerprint an image for duplicate detection
+ * @param input The image bytes as uploaded
+ * @returns The SHA-256 of the file and, for decodable images, its perceptual hash
+ */
+export async function computeImageHashes(input: Buffer): Promise<{ contentHash: string; perceptualHash: string | null }> {
+  const contentHash = createHash('sha256').update(input).digest('hex');
+
+  let perceptualHash: string | null = null;
+  try {
+    // Browsers shrink to the same size before uploading, see computeFileHashes;
+    // JPEGs are only decoded at a fraction of their size (shrink-on-load)
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize(HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT, { fit: 'fill' })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    perceptualHash = computePerceptualHash(data, info.width, info.height, info.channels);
+  } catch (error) {
+    logger.warn('Unable to compute perceptual hash:', error);
+  }
+
+  return { contentHash, perceptualHash };
+}
+
+/**
+ * Size of the largest centred box with the image's proportions that fits inside it
+ * once rotated by an angle, i.e. what's left after cropping away the uncovered corners
+ */
+function straightenedSize(width: number, height: number, degrees: number): { width: number; height: number } {
+  const radians = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+  return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+}
+
+/**
+ * Apply an edit recipe to an original image
+ * @param input The original image bytes
+ * @returns The edited image, in the original's format where possible
+ * @throws If the image can't be decoded, or is animated
+ */
+export async function renderEditRecipe(input: Buffer, recipe: ImageEditRecipe): Promise<RenderedEdit> {
+  const metadata = await sharp(input).metadata();
+  if ((metadata.pages ?? 1) > 1) {
+    throw new Error('Animated images cannot be edited');
+  }
+  const format: EditOutputFormat = (EDITABLE_OUTPUT_FORMATS as readonly string[]).includes(metadata.format ?? '')
+    ? metadata.format as EditOutputFormat
+    : 'jpeg';
+
+  // Every step works on raw pixels as displayed, so nothing is re-encoded until the end
+  let { data, info } = await sharp(input).rotate().raw().toBuffer({ resolveWithObject: true });
+
+  // Quarter turns and straightening are a single rotation
+  const isQuarterTurned = recipe.rotate % 180 !== 0;
+  const turnedWidth = isQuarterTurned ? info.height : info.width;
+  const turnedHeight = isQuarterTurned ? info.width : info.height;
+  const angle = recipe.rotate + recipe.straighten;
+  if (angle % 360 !== 0) {
+    ({ data, info } = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+      .rotate(angle, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .raw()
+      .toBuffer({ resolveWithObject: true }));
+  }
+
+  const visible = straightenedSize(turnedWidth, turnedHeight, recipe.straighten);
+  const visibleLeft = Math.floor((info.width - visible.width) / 2);
+  const visibleTop = Math.floor((info.height - visible.height) / 2);
+
+  // The crop box is drawn on the flipped image, but cropping happens before flipping
+  const crop = recipe.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const cropX = recipe.flipHorizontal ? 1 - crop.x - crop.width : crop.x;
+  const cropY = recipe.flipVertical ? 1 - crop.y - crop.height : crop.y;
+  const left = Math.min(visible.width - 1, Math.round(cropX * visible.width));
+  const top = Math.min(visible.height - 1, Math.round(cropY * visible.height));
+  const region = {
+    left: visibleLeft + left,
+    top: visibleTop + top,
+    width: Math.max(1, Math.min(visible.width - left, Math.round(crop.width * visible.width))),
+    height: Math.max(1, Math.min(visible.height - top, Math.round(crop.height * visible.height))),
+  };
+
+  // Exposure scales the colour channels; contrast then pivots them around mid-grey
+  const gain = Math.pow(2, recipe.exposure) * (1 + recipe.contrast);
+  const offset = -128 * recipe.contrast;
+  const colourChannels = info.channels === 4 || info.channels === 2 ? info.channels - 1 : info.channels;
+  const multipliers = Array.from({ length: info.channels }, (_, channel) => channel < colourChannels ? gain : 1);
+  const offsets = Array.from({ length: info.channels }, (_, channel) => channel < colourChannels ? offset : 0);
+
+  const result = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .extract(region)
+    .flop(recipe.flipHorizontal)
+    .flip(recipe.flipVertical)
+    .linear(multipliers, offsets)
+    .toFormat(format, { quality: EDIT_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  return { format, width: result.info.width, height: result.info.height, data: result.data };
+}
@@ -0,0 +1,200 @@
+/**
+ * Image versions and non-destructive edits
+ *
+ * Edits are recipes (crop, rotate, flip, straighten, exposure, contrast) that are always
+ * applied to the original upload, so redoing an edit never stacks compression or cropping.
+ * Each edit renders into a new version; version 1 is the original, recorded the first time
+ * the image is edited. The image row keeps its ID, so galleries, covers and tags follow
+ * along, while its url and variants switch to whichever version is current.
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { renderEditRecipe } from '@/lib/imageProcessing';
+import { storeImageVariants } from '@/lib/uploadProcessing';
+import { deleteStoredFiles, getStorage, readStoredFile, resolveStoredFile } from '@/lib/storage';
+import { ImageEditRecipeSchema, type ImageEditRecipe, type ImageVersion } from '@/lib/schemas';
+
+/**
+ * Error thrown when an image can't be edited or reverted, carrying the HTTP status to return
+ */
+export class ImageVersionError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ImageVersionError';
+  }
+}
+
+const EDITABLE_IMAGE_SELECT = {
+  id: true,
+  userId: true,
+  url: true,
+  currentVersion: true,
+  deletedAt: true,
+  variants: { select: { url: true } },
+  metadata: { select: { width: true, height: true } },
+  versions: { orderBy: { version: 'asc' } },
+} as const satisfies Prisma.ImageSelect;
+
+type EditableImage = Prisma.ImageGetPayload<{ select: typeof EDITABLE_IMAGE_SELECT }>;
+type StoredVersion = EditableImage['versions'][number];
+
+function serializeVersion(version: StoredVersion, currentVersion: number | null): ImageVersion {
+  let recipe: ImageEditRecipe | null = null;
+  if (version.recipe) {
+    const parsed = ImageEditRecipeSchema.safeParse(JSON.parse(version.recipe));
+    recipe = parsed.success ? parsed.data : null;
+  }
+  return {
+    id: version.id,
+    imageId: version.imageId,
+    version: version.version,
+    url: version.url,
+    recipe,
+    width: version.width,
+    height: version.height,
+    // Before the first edit, only the original exists
+    isCurrent: version.version === (currentVersion ?? 1),
+    createdAt: version.createdAt,
+  };
+}
+
+async function findEditableImage(imageId: string, userId: string): Promise<EditableImage> {
+  const image = await prisma.image.findUnique({ where: { id: imageId }, select: EDITABLE_IMAGE_SELECT });
+  if (!image || image.deletedAt) {
+    throw new ImageVersionError('Image not found', 404);
+  }
+  if (image.userId !== userId) {
+    throw new ImageVersionError('You can only edit your own images', 403);
+  }
+  return image;
+}
+
+async function readVersionFile(url: string): Promise<Buffer> {
+  const data = await readStoredFile(url);
+  if (!data) {
+    throw new ImageVersionError('The stored file for this image could not be found', 404);
+  }
+  return data;
+}
+
+/**
+ * Storage key prefix for files derived from the original upload
+ */
+function derivedKeyBase(originalUrl: string, imageId: string): string {
+  const key = resolveStoredFile(originalUrl)?.key;
+  return key ? key.replace(/\.[^/.]+$/, '') : imageId;
+}
+
+/**
+ * Point the image at a version: swap its url and regenerate its variants
+ * @param writes Extra writes to commit alongside, e.g. creating the version rows
+ */
+async function makeCurrent(
+  image: EditableImage,
+  version: { version: number; url: string; width: number | null; height: number | null },
+  data: Buffer,
+  writes: Prisma.PrismaPromise<unknown>[] = []
+) {
+  const baseName = `${derivedKeyBase(image.versions[0]?.url ?? image.url, image.id)}-v${version.version}`;
+  const variants = await storeImageVariants(baseName, data);
+
+  await prisma.$transaction([
+    ...writes,
+    prisma.imageVariant.deleteMany({ where: { imageId: image.id } }),
+    prisma.imageVariant.createMany({ data: variants.map(variant => ({ ...variant, imageId: image.id })) }),
+    prisma.image.update({ where: { id: image.id }, data: { url: version.url, currentVersion: version.version } }),
+    ...(version.width && version.height
+      ? [prisma.imageMetadata.updateMany({ where: { imageId: image.id }, data: { width: version.width, height: version.height } })]
+      : []),
+  ]);
+
+  // The previous version's file stays for the history, but its variants can go
+  const replaced = image.variants.map(variant => variant.url).filter(url => !variants.some(variant => variant.url === url));
+  if (replaced.length > 0) {
+    await deleteStoredFiles(replaced);
+  }
+}
+
+/**
+ * Every version of one of the user's images, oldest first
+ * An image that was never edited has no versions yet.
+ */
+export async function listImageVersions(imageId: string, userId: string): Promise<ImageVersion[]> {
+  const image = await findEditableImage(imageId, userId);
+  return image.versions.map(version => serializeVersion(version, image.currentVersion));
+}
+
+/**
+ * Render an edit recipe from the original into a new version and make it current
+ */
+export async function createImageVersion(imageId: string, userId: string, recipe: ImageEditRecipe): Promise<ImageVersion> {
+  const image = await findEditableImage(imageId, userId);
+  const original = image.versions[0];
+  const originalUrl = original?.url ?? image.url;
+  const source = await readVersionFile(originalUrl);
+
+  let rendered;
+  try {
+    rendered = await renderEditRecipe(source, recipe);
+  } catch (error) {
+    logger.error('Error rendering image edit:', error);
+    throw new ImageVersionError('This image cannot be edited', 400);
+  }
+
+  const nextVersion = (image.versions[image.versions.length - 1]?.version ?? 1) + 1;
+  const stored = await getStorage().put(
+    `${derivedKeyBase(originalUrl, image.id)}-v${nextVersion}.${rendered.format}`,
+    rendered.data,
+    { contentType: `image/${rendered.format}` }
+  );
+
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  if (!original) {
+    // Record the upload as version 1 so it can be compared and reverted to
+    writes.push(prisma.imageVersion.create({
+      data: {
+        imageId: image.id,
+        version: 1,
+        url: image.url,
+        recipe: null,
+        width: image.metadata?.width ?? null,
+        height: image.metadata?.height ?? null,
+      },
+    }));
+  }
+  writes.push(prisma.imageVersion.create({
+    data: {
+      imageId: image.id,
+      version: nextVersion,
+      url: stored.url,
+      recipe: JSON.stringify(recipe),
+      width: rendered.width,
+      height: rendered.height,
+    },
+  }));
+
+  const version = { version: nextVersion, url: stored.url, width: rendered.width, height: rendered.height };
+  await makeCurrent(image, version, rendered.data, writes);
+
+  const created = await prisma.imageVersion.findUniqueOrThrow({
+    where: { imageId_version: { imageId: image.id, version: nextVersion } },
+  });
+  return serializeVersion(created, nextVersion);
+}
+
+/**
+ * Make an earlier (or later) version current again
+ * Nothing is deleted, so reverting can itself be undone.
+ */
+export async function revertToVersion(imageId: string, userId: string, versionId: string): Promise<ImageVersion> {
+  const image = await findEditableImage(imageId, userId);
+  const target = image.versions.find(version => version.id === versionId);
+  if (!target) {
+    throw new ImageVersionError('Version not found', 404);
+  }
+  if (target.version !== (image.currentVersion ?? 1)) {
+    await makeCurrent(image, target, await readVersionFile(target.url));
+  }
+  return serializeVersion(target, target.version);
+}
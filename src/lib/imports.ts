@@ -0,0 +1,846 @@
+/**
+ * Bulk imports
+ *
+ * An import job brings a whole photo library in at once: a ZIP archive the user uploads
+ * or, for admins, a folder on the server under `imports.folderRoot`. A manifest.csv or
+ * manifest.json at the top level can give files a title, description, tags, gallery and
+ * caption; without one, titles come from file names and galleries from folder names.
+ *
+ * Jobs run in the background of the server process, one file at a time, and record what
+ * became of every file. A job whose heartbeat stops (the server restarted mid-import) is
+ * picked up again the next time someone looks at it. Files already in the user's library
+ * are skipped, so resuming or re-running an import never creates the same image twice.
+ */
+import { createHash } from 'crypto';
+import { mkdir, open, readdir, realpath, rm, stat } from 'fs/promises';
+import { join, posix, resolve, sep } from 'path';
+import { z } from 'zod';
+import { ImportItemStatus, ImportJobStatus, UserRole } from '@prisma/client';
+import type { ImportJob as ImportJobRecord, ImportJobItem, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { imports as importsConfig, uploads } from '@/lib/config';
+import { processUpload } from '@/lib/uploadProcessing';
+import { deleteStoredFiles } from '@/lib/storage';
+import { ensureTags } from '@/lib/tags';
+import { readZipDirectory, readZipEntry, type ZipDirectoryEntry } from '@/lib/zip';
+import {
+  ImportManifestEntrySchema,
+  ImportOptionsSchema,
+  type CreateImportJob,
+  type ImportItem,
+  type ImportItemQuery,
+  type ImportJob,
+  type ImportManifestEntry,
+  type ImportOptions,
+} from '@/lib/schemas';
+
+/**
+ * Error thrown when an import can't be created, run or changed, carrying the HTTP status to return
+ */
+export class ImportError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const MANIFEST_NAMES = ['manifest.csv', 'manifest.json'];
+
+// What the upload form accepts
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Files that come along with photos without being one: sidecars and operating system clutter
+const IGNORED_EXTENSIONS = ['xmp'];
+const IGNORED_NAMES = ['thumbs.db', 'desktop.ini'];
+
+// Files imported between checks for cancellation
+const BATCH_SIZE = 20;
+// Item rows written per query while planning a job
+const PLAN_CHUNK_SIZE = 500;
+// Running jobs update their heartbeat after every file; one silent for this long has stopped
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const FINISHED_STATUSES: ImportJobStatus[] = [ImportJobStatus.COMPLETED, ImportJobStatus.FAILED, ImportJobStatus.CANCELLED];
+
+// Jobs this process is running, so a job is never run twice side by side
+const runningJobs = new Set<string>();
+
+/**
+ * Files of an archive or folder, by path relative to its top level
+ */
+interface ImportSource {
+  // Forward slashes, in no particular order
+  files: string[];
+  read(path: string): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+/**
+ * A manifest's entries, plus the gallery of a gallery export manifest
+ */
+export interface ImportManifest {
+  entries: ImportManifestEntry[];
+  gallery: string | null;
+}
+
+type PlannedItem = Omit<Prisma.ImportJobItemCreateManyInput, 'jobId'>;
+
+interface ItemResult {
+  status: ImportItemStatus;
+  imageId?: string | null;
+  galleryId?: string | null;
+  message?: string | null;
+}
+
+interface ImportGallery {
+  id: string;
+  nextOrder: number;
+}
+
+const JsonManifestSchema = z.union([
+  z.array(ImportManifestEntrySchema),
+  z.object({
+    gallery: z.object({ title: z.string() }).nullish(),
+    images: z.array(ImportManifestEntrySchema),
+  }),
+]);
+
+function archivePath(jobId: string): string {
+  // Job ids are cuids, so they are safe to use as file names
+  return join(resolve(process.cwd(), importsConfig.workDirectory), `${jobId}.zip`);
+}
+
+function fileExtension(path: string): string {
+  const match = posix.basename(path).match(/\.([^.]+)$/);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function fileStem(path: string): string {
+  return posix.basename(path).replace(/\.[^.]+$/, '') || posix.basename(path);
+}
+
+/**
+ * Clean up a path from an archive or manifest: forward slashes, no leading "./" or "/"
+ * @returns null for paths that climb out of the top level
+ */
+function normalizeImportPath(path: string): string | null {
+  const segments = path.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+  return segments.length === 0 || segments.includes('..') ? null : segments.join('/');
+}
+
+// Hidden files, macOS resource forks and the like, which are never worth a row in the results
+function isIgnoredPath(path: string): boolean {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1].toLowerCase();
+  return segments.some(segment => segment.startsWith('.') || segment === '__MACOSX')
+    || IGNORED_NAMES.includes(name)
+    || IGNORED_EXTENSIONS.includes(fileExtension(name));
+}
+
+async function openZipSource(path: string): Promise<ImportSource> {
+  const file = await open(path, 'r');
+  try {
+    const entries = new Map<string, ZipDirectoryEntry>();
+    for (const entry of await readZipDirectory(file)) {
+      const name = normalizeImportPath(entry.name);
+      if (name && !entry.name.endsWith('/')) {
+        entries.set(name, entry);
+      }
+    }
+    return {
+      files: [...entries.keys()],
+      async read(name) {
+        const entry = entries.get(name);
+        if (!entry) {
+          throw new ImportError('File not found in the archive', 404);
+        }
+        if (entry.size > uploads.maxFileSize) {
+          throw new ImportError('File is too large', 413);
+        }
+        try {
+          return await readZipEntry(file, entry, uploads.maxFileSize);
+        } catch (error) {
+          throw new ImportError(error instanceof Error ? error.message : 'Could not read the file from the archive', 422);
+        }
+      },
+      close: () => file.close(),
+    };
+  } catch (error) {
+    await file.close();
+    throw error;
+  }
+}
+
+// Symbolic links are not followed, so a folder can't pull in files from outside it
+async function listFolder(root: string, directory = '', files: string[] = []): Promise<string[]> {
+  for (const entry of await readdir(join(root, directory), { withFileTypes: true })) {
+    const path = directory ? `${directory}/${entry.name}` : entry.name;
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      await listFolder(root, path, files);
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+    if (files.length > importsConfig.maxFiles) {
+      break;
+    }
+  }
+  return files;
+}
+
+async function openFolderSource(root: string): Promise<ImportSource> {
+  return {
+    files: await listFolder(root),
+    async read(path) {
+      const fullPath = join(root, ...path.split('/'));
+      const { size } = await stat(fullPath);
+      if (size > uploads.maxFileSize) {
+        throw new ImportError('File is too large', 413);
+      }
+      const file = await open(fullPath, 'r');
+      try {
+        return await file.readFile();
+      } finally {
+        await file.close();
+      }
+    },
+    close: async () => {},
+  };
+}
+
+function openImportSource(job: ImportJobRecord): Promise<ImportSource> {
+  return job.source === 'zip' ? openZipSource(archivePath(job.id)) : openFolderSource(job.sourcePath ?? '');
+}
+
+/**
+ * Resolve a folder given by an admin to a directory under the import folder
+ * @throws ImportError when folder imports are off or the folder isn't under the import folder
+ */
+export async function resolveImportFolder(folder: string): Promise<string> {
+  if (!importsConfig.folderRoot) {
+    throw new ImportError('Folder imports are not enabled on this server', 403);
+  }
+  const root = await realpath(resolve(process.cwd(), importsConfig.folderRoot));
+  const target = await realpath(resolve(root, folder)).catch(() => null);
+  if (!target || (target !== root && !target.startsWith(root + sep)) || !(await stat(target)).isDirectory()) {
+    throw new ImportError('Folder not found', 404);
+  }
+  return target;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells can hold delimiters,
+ * doubled quotes and line breaks). Cells are separated by commas, or by semicolons or
+ * tabs when the header row has more of those, as spreadsheets in some locales export.
+ */
+function parseCsv(text: string): string[][] {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Read a manifest.csv or manifest.json
+ * CSV manifests need a header row with a "file" column and can have title, description,
+ * tags, gallery and caption columns. JSON manifests are a list of entries or an object
+ * with an `images` list; a gallery export's manifest.json imports as is, into a gallery
+ * with the exported gallery's title.
+ * @throws ImportError when the manifest can't be read
+ */
+export function parseImportManifest(name: string, text: string): ImportManifest {
+  const content = text.replace(/^\uFEFF/, '');
+
+  if (name.toLowerCase().endsWith('.json')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      throw new ImportError(`${name} is not valid JSON`, 400);
+    }
+    const result = JsonManifestSchema.safeParse(json);
+    if (!result.success) {
+      throw new ImportError(`Invalid ${name}: ${describeIssue(result.error)}`, 400);
+    }
+    return Array.isArray(result.data)
+      ? { entries: result.data, gallery: null }
+      : { entries: result.data.images, gallery: result.data.gallery?.title.trim() || null };
+  }
+
+  const [header = [], ...rows] = parseCsv(content);
+  const columns = header.map(column => column.trim().toLowerCase());
+  if (!columns.includes('file')) {
+    throw new ImportError(`${name} needs a "file" column`, 400);
+  }
+  const entries = rows.map((cells, index) => {
+    const row = Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() || undefined]));
+    const result = ImportManifestEntrySchema.safeParse(row);
+    if (!result.success) {
+      // Rows are numbered as spreadsheets number them, header included
+      throw new ImportError(`Invalid ${name}, row ${index + 2}: ${describeIssue(result.error)}`, 400);
+    }
+    return result.data;
+  });
+  return { entries, gallery: null };
+}
+
+/**
+ * Decide what to do with every file of an import, in natural path order
+ * Images get their details from the manifest, falling back to the file name for the title
+ * and, with `folderGalleries`, the folder for the gallery. Other files are skipped, and
+ * manifest entries without a file are recorded as failed.
+ */
+export function planImportItems(
+  files: string[],
+  manifest: ImportManifest | null,
+  options: Pick<ImportOptions, 'folderGalleries'>
+): PlannedItem[] {
+  const entries = new Map<string, ImportManifestEntry>();
+  for (const entry of manifest?.entries ?? []) {
+    const path = normalizeImportPath(entry.file);
+    if (path && !entries.has(path)) {
+      entries.set(path, entry);
+    }
+  }
+
+  const paths = files
+    .filter(path => !isIgnoredPath(path) && !MANIFEST_NAMES.includes(path.toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const present = new Set(paths);
+
+  const items: PlannedItem[] = paths.map(path => {
+    if (!MIME_TYPES[fileExtension(path)]) {
+      return { path, status: ImportItemStatus.SKIPPED, message: 'Not a supported image type', position: 0 };
+    }
+    const entry = entries.get(path);
+    const folder = posix.dirname(path);
+    return {
+      path,
+      position: 0,
+      title: entry?.title || fileStem(path),
+      description: entry?.description || null,
+      tags: entry?.tags?.length ? JSON.stringify(entry.tags) : null,
+      galleryTitle: entry?.gallery || manifest?.gallery || (options.folderGalleries && folder !== '.' ? folder : null),
+      caption: entry?.caption || null,
+    };
+  });
+
+  for (const [path, entry] of entries) {
+    if (!present.has(path)) {
+      items.push({ path, status: ImportItemStatus.FAILED, message: 'Listed in the manifest but not found', title: entry.title || null, position: 0 });
+    }
+  }
+  return items.map((item, position) => ({ ...item, position }));
+}
+
+function parseImportOptions(value: string | null): ImportOptions {
+  const parsed = value ? ImportOptionsSchema.safeParse(JSON.parse(value)) : null;
+  return parsed?.success ? parsed.data : ImportOptionsSchema.parse({});
+}
+
+function parseTags(value: string | null): string[] {
+  const parsed = value ? z.array(z.string()).safeParse(JSON.parse(value)) : null;
+  return parsed?.success ? parsed.data : [];
+}
+
+/**
+ * Public view of a job, as returned to the client
+ */
+export function serializeImportJob(job: ImportJobRecord): ImportJob {
+  return {
+    id: job.id,
+    source: job.source === 'folder' ? 'folder' : 'zip',
+    folder: job.source === 'folder' ? job.sourcePath : null,
+    status: job.status,
+    options: parseImportOptions(job.options),
+    manifestName: job.manifestName,
+    totalItems: job.totalItems,
+    processedItems: job.processedItems,
+    importedCount: job.importedCount,
+    skippedCount: job.skippedCount,
+    failedCount: job.failedCount,
+    error: job.error,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    createdAt: job.createdAt,
+  };
+}
+
+function serializeImportItem(item: ImportJobItem): ImportItem {
+  return {
+    id: item.id,
+    position: item.position,
+    path: item.path,
+    status: item.status,
+    title: item.title,
+    galleryTitle: item.galleryTitle,
+    imageId: item.imageId,
+    galleryId: item.galleryId,
+    message: item.message,
+    processedAt: item.processedAt,
+  };
+}
+
+/**
+ * List the job's files and write their items; runs once, when the job first starts
+ */
+async function planImportJob(job: ImportJobRecord, source: ImportSource, options: ImportOptions): Promise<void> {
+  if (source.files.length > importsConfig.maxFiles) {
+    throw new ImportError(`Imports can hold at most ${importsConfig.maxFiles} files`, 413);
+  }
+  const manifestName = source.files.find(path => MANIFEST_NAMES.includes(path.toLowerCase())) ?? null;
+  const manifest = manifestName
+    ? parseImportManifest(manifestName, (await source.read(manifestName)).toString('utf8'))
+    : null;
+  const items = planImportItems(source.files, manifest, options);
+
+  // Items from a plan interrupted halfway are replaced
+  await prisma.importJobItem.deleteMany({ where: { jobId: job.id } });
+  for (let start = 0; start < items.length; start += PLAN_CHUNK_SIZE) {
+    await prisma.importJobItem.createMany({
+      data: items.slice(start, start + PLAN_CHUNK_SIZE).map(item => ({ ...item, jobId: job.id })),
+    });
+  }
+
+  const skippedCount = items.filter(item => item.status === ImportItemStatus.SKIPPED).length;
+  const failedCount = items.filter(item => item.status === ImportItemStatus.FAILED).length;
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: {
+      manifestName,
+      totalItems: items.length,
+      processedItems: skippedCount + failedCount,
+      importedCount: 0,
+      skippedCount,
+      failedCount,
+      startedAt: new Date(),
+      heartbeatAt: new Date(),
+    },
+  });
+}
+
+/**
+ * The user's gallery with this title, created (private) if they have none
+ * Galleries are cached for the run so each one is only looked up once.
+ */
+async function findOrCreateGallery(userId: string, title: string, galleries: Map<string, ImportGallery>): Promise<ImportGallery> {
+  const cached = galleries.get(title);
+  if (cached) {
+    return cached;
+  }
+
+  let gallery: ImportGallery;
+  const existing = await prisma.gallery.findFirst({
+    where: { userId, title, deletedAt: null },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  if (existing) {
+    const { _max } = await prisma.imageInGallery.aggregate({ where: { galleryId: existing.id }, _max: { order: true } });
+    gallery = { id: existing.id, nextOrder: (_max.order ?? -1) + 1 };
+  } else {
+    const created = await prisma.gallery.create({ data: { title, userId }, select: { id: true } });
+    gallery = { id: created.id, nextOrder: 0 };
+  }
+  galleries.set(title, gallery);
+  return gallery;
+}
+
+async function importItem(
+  job: ImportJobRecord,
+  options: ImportOptions,
+  source: ImportSource,
+  item: ImportJobItem,
+  galleries: Map<string, ImportGallery>
+): Promise<ItemResult> {
+  const data = await source.read(item.path);
+
+  // Same fingerprint as the upload pipeline's, so earlier uploads are found too
+  const contentHash = createHash('sha256').update(data).digest('hex');
+  const existing = options.skipDuplicates
+    ? await prisma.image.findFirst({ where: { userId: job.userId, contentHash, deletedAt: null }, select: { id: true } })
+    : null;
+
+  let imageId: string;
+  if (existing) {
+    imageId = existing.id;
+  } else {
+    const upload = await processUpload({
+      data,
+      fileName: posix.basename(item.path),
+      mimeType: MIME_TYPES[fileExtension(item.path)],
+      stripGps: options.stripGps,
+    });
+    const tags = parseTags(item.tags);
+    try {
+      const image = await prisma.image.create({
+        data: {
+          title: item.title || fileStem(item.path),
+          description: item.description,
+          url: upload.url,
+          userId: job.userId,
+          tags: tags.length > 0 ? {
+            connect: (await ensureTags(job.userId, tags)).map(tag => ({ id: tag.id })),
+          } : undefined,
+          variants: upload.variants && upload.variants.length > 0 ? { create: upload.variants } : undefined,
+          metadata: upload.metadata ? { create: upload.metadata } : undefined,
+          contentHash: upload.contentHash,
+          perceptualHash: upload.perceptualHash,
+        },
+        select: { id: true },
+      });
+      imageId = image.id;
+    } catch (error) {
+      // Without an image nothing points at the stored files any more
+      await deleteStoredFiles([upload.url, ...(upload.variants ?? []).map(variant => variant.url)]);
+      throw error;
+    }
+  }
+
+  let galleryId: string | null = null;
+  if (item.galleryTitle) {
+    const gallery = await findOrCreateGallery(job.userId, item.galleryTitle, galleries);
+    const linked = await prisma.imageInGallery.findUnique({
+      where: { imageId_galleryId: { imageId, galleryId: gallery.id } },
+      select: { id: true },
+    });
+    if (!linked) {
+      await prisma.imageInGallery.create({
+        data: { imageId, galleryId: gallery.id, order: gallery.nextOrder++, description: item.caption, addedById: job.userId },
+      });
+    }
+    galleryId = gallery.id;
+  }
+
+  return existing
+    ? { status: ImportItemStatus.SKIPPED, imageId, galleryId, message: 'Already in your library' }
+    : { status: ImportItemStatus.IMPORTED, imageId, galleryId };
+}
+
+async function recordItemResult(jobId: string, itemId: string, result: ItemResult): Promise<void> {
+  const counter = result.status === ImportItemStatus.IMPORTED
+    ? 'importedCount'
+    : result.status === ImportItemStatus.SKIPPED ? 'skippedCount' : 'failedCount';
+  await prisma.$transaction([
+    prisma.importJobItem.update({ where: { id: itemId }, data: { ...result, processedAt: new Date() } }),
+    prisma.importJob.update({
+      where: { id: jobId },
+      data: { processedItems: { increment: 1 }, [counter]: { increment: 1 }, heartbeatAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Finish a job that's running, unless it was cancelled in the meantime
+ */
+async function finishImportJob(jobId: string, data: { status: ImportJobStatus; error?: string }): Promise<void> {
+  await prisma.importJob.updateMany({
+    where: { id: jobId, status: ImportJobStatus.RUNNING },
+    data: { ...data, finishedAt: new Date(), heartbeatAt: null },
+  });
+}
+
+async function processImportJob(job: ImportJobRecord): Promise<void> {
+  const options = parseImportOptions(job.options);
+  let source: ImportSource | null = null;
+  try {
+    source = await openImportSource(job);
+    if (!job.startedAt) {
+      await planImportJob(job, source, options);
+    }
+
+    const galleries = new Map<string, ImportGallery>();
+    for (;;) {
+      const current = await prisma.importJob.findUnique({ where: { id: job.id }, select: { status: true } });
+      if (current?.status !== ImportJobStatus.RUNNING) {
+        logger.log(`Import job ${job.id} stopped: ${current?.status ?? 'deleted'}`);
+        return;
+      }
+      const items = await prisma.importJobItem.findMany({
+        where: { jobId: job.id, status: ImportItemStatus.PENDING },
+        orderBy: { position: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (items.length === 0) {
+        break;
+      }
+
+      for (const item of items) {
+        let result: ItemResult;
+        try {
+          result = await importItem(job, options, source, item, galleries);
+        } catch (error) {
+          if (!(error instanceof ImportError)) {
+            logger.error(`Error importing ${item.path} in import job ${job.id}:`, error);
+          }
+          result = {
+            status: ImportItemStatus.FAILED,
+            message: error instanceof ImportError ? error.message : 'Could not import this file',
+          };
+        }
+        await recordItemResult(job.id, item.id, result);
+      }
+    }
+
+    await finishImportJob(job.id, { status: ImportJobStatus.COMPLETED });
+    logger.log(`Import job ${job.id} completed`);
+  } catch (error) {
+    logger.error(`Import job ${job.id} failed:`, error);
+    await finishImportJob(job.id, {
+      status: ImportJobStatus.FAILED,
+      error: error instanceof ImportError ? error.message : 'The import stopped unexpectedly',
+    });
+  } finally {
+    await source?.close();
+    if (job.source === 'zip') {
+      await rm(archivePath(job.id), { force: true });
+    }
+  }
+}
+
+/**
+ * Run a pending job, or resume a stalled one, until it's done or cancelled
+ * Does nothing when the job is already running, here or in another server process.
+ */
+export async function runImportJob(jobId: string): Promise<void> {
+  if (runningJobs.has(jobId)) {
+    return;
+  }
+  runningJobs.add(jobId);
+  try {
+    const { count } = await prisma.importJob.updateMany({
+      where: {
+        id: jobId,
+        status: { in: [ImportJobStatus.PENDING, ImportJobStatus.RUNNING] },
+        OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: new Date(Date.now() - STALE_AFTER_MS) } }],
+      },
+      data: { status: ImportJobStatus.RUNNING, heartbeatAt: new Date() },
+    });
+    if (count === 0) {
+      return;
+    }
+    const job = await prisma.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    await processImportJob(job);
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+/**
+ * Run a job in the background of the server process
+ */
+export function startImportJob(jobId: string): void {
+  runImportJob(jobId).catch(error => logger.error(`Error running import job ${jobId}:`, error));
+}
+
+/**
+ * Create an import job
+ * Folder imports (admins only) start right away; ZIP imports wait for their archive.
+ * @throws ImportError when the user can't import from the folder
+ */
+export async function createImportJob(user: { id: string; role?: UserRole | string }, input: CreateImportJob): Promise<ImportJob> {
+  const options = JSON.stringify(input.options);
+  if (input.source === 'zip') {
+    const job = await prisma.importJob.create({
+      data: { userId: user.id, source: 'zip', options, status: ImportJobStatus.AWAITING_UPLOAD },
+    });
+    return serializeImportJob(job);
+  }
+
+  if (user.role !== UserRole.ADMIN) {
+    throw new ImportError('Only admins can import from server folders', 403);
+  }
+  const folder = await resolveImportFolder(input.folder);
+  const job = await prisma.importJob.create({
+    data: { userId: user.id, source: 'folder', sourcePath: folder, options, status: ImportJobStatus.PENDING },
+  });
+  startImportJob(job.id);
+  return serializeImportJob(job);
+}
+
+/**
+ * Look up a user's job, resuming it if it has stalled
+ * @throws ImportError if the job doesn't exist or belongs to someone else
+ */
+export async function getImportJob(jobId: string, userId: string): Promise<ImportJobRecord> {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || job.userId !== userId) {
+    throw new ImportError('Import not found', 404);
+  }
+
+  const isActive = job.status === ImportJobStatus.PENDING || job.status === ImportJobStatus.RUNNING;
+  const isStale = !job.heartbeatAt || job.heartbeatAt.getTime() < Date.now() - STALE_AFTER_MS;
+  if (isActive && isStale && !runningJobs.has(job.id)) {
+    logger.log(`Resuming stalled import job ${job.id}`);
+    startImportJob(job.id);
+  }
+  return job;
+}
+
+/**
+ * The user's most recent jobs, newest first
+ */
+export async function listImportJobs(userId: string, limit = 20): Promise<ImportJob[]> {
+  const jobs = await prisma.importJob.findMany({ where: { userId }, orderBy: { createdAt: 'desc' }, take: limit });
+  return jobs.map(serializeImportJob);
+}
+
+/**
+ * A page of a job's per-file results, in import order
+ */
+export async function listImportItems(jobId: string, query: ImportItemQuery): Promise<{ items: ImportItem[]; total: number }> {
+  const where: Prisma.ImportJobItemWhereInput = { jobId, ...(query.status && { status: query.status }) };
+  const [items, total] = await prisma.$transaction([
+    prisma.importJobItem.findMany({
+      where,
+      orderBy: { position: 'asc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.importJobItem.count({ where }),
+  ]);
+  return { items: items.map(serializeImportItem), total };
+}
+
+/**
+ * Store the uploaded archive of a ZIP import and start the import
+ * The body is written to disk as it arrives, so archives never have to fit in memory.
+ * @throws ImportError when the job isn't waiting for an archive, or the upload is too big or not a ZIP
+ */
+export async function receiveImportArchive(job: ImportJobRecord, body: ReadableStream<Uint8Array> | null): Promise<ImportJob> {
+  if (job.source !== 'zip' || job.status !== ImportJobStatus.AWAITING_UPLOAD) {
+    throw new ImportError('This import is not waiting for an archive', 409);
+  }
+  if (!body) {
+    throw new ImportError('No archive uploaded', 400);
+  }
+
+  // Claim the job first, so a second upload to the same job can't write over this one
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: job.id, status: ImportJobStatus.AWAITING_UPLOAD },
+    data: { status: ImportJobStatus.RECEIVING_UPLOAD },
+  });
+  if (claimed.count === 0) {
+    throw new ImportError('This import is not waiting for an archive', 409);
+  }
+
+  const path = archivePath(job.id);
+  await mkdir(resolve(process.cwd(), importsConfig.workDirectory), { recursive: true });
+  const file = await open(path, 'w+');
+  try {
+    const reader = body.getReader();
+    let received = 0;
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += value.length;
+      if (received > importsConfig.maxArchiveSize) {
+        await reader.cancel();
+        throw new ImportError('The archive is too large', 413);
+      }
+      await file.write(value);
+    }
+    await readZipDirectory(file).catch(() => {
+      throw new ImportError('The file is not a valid ZIP archive', 400);
+    });
+  } catch (error) {
+    await file.close();
+    await rm(path, { force: true });
+    // Let the user try again with another file
+    await prisma.importJob.updateMany({
+      where: { id: job.id, status: ImportJobStatus.RECEIVING_UPLOAD },
+      data: { status: ImportJobStatus.AWAITING_UPLOAD },
+    });
+    throw error;
+  }
+  await file.close();
+
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: ImportJobStatus.RECEIVING_UPLOAD },
+    data: { status: ImportJobStatus.PENDING },
+  });
+  if (count === 0) {
+    // Cancelled while the archive was arriving
+    await rm(path, { force: true });
+    throw new ImportError('This import is not waiting for an archive', 409);
+  }
+  startImportJob(job.id);
+  return serializeImportJob({ ...job, status: ImportJobStatus.PENDING });
+}
+
+/**
+ * Stop a job; files already imported stay in the library
+ * @throws ImportError when the job has already finished
+ */
+export async function cancelImportJob(job: ImportJobRecord): Promise<ImportJob> {
+  if (FINISHED_STATUSES.includes(job.status)) {
+    throw new ImportError('This import has already finished', 409);
+  }
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: { notIn: FINISHED_STATUSES } },
+    data: { status: ImportJobStatus.CANCELLED, finishedAt: new Date(), heartbeatAt: null },
+  });
+  if (count === 0) {
+    throw new ImportError('This import has already finished', 409);
+  }
+
+  // A running job removes its archive when it notices; one that isn't running can't
+  if (job.source === 'zip' && !runningJobs.has(job.id)) {
+    await rm(archivePath(job.id), { force: true });
+  }
+  logger.log(`Import job ${job.id} cancelled`);
+  return serializeImportJob(await prisma.importJob.findUniqueOrThrow({ where: { id: job.id } }));
+}
@@ -0,0 +1,49 @@
+/**
+ * Login lockout
+ *
+ * Failed password sign-ins are counted per account, whatever address they come from, in
+ * the rate limit store. After `maxLoginFailures` in a row the account is locked for
+ * `lockoutDuration`; a successful sign-in clears the count. Unknown addresses are counted
+ * too, so a lockout doesn't reveal whether an account exists.
+ */
+import { rateLimit as rateLimitConfig } from '@/lib/config';
+import logger from '@/lib/logger';
+import { getRateLimitStore } from '@/lib/rateLimit';
+
+function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function failuresKey(email: string): string {
+  return `login-failures:${accountKey(email)}`;
+}
+
+function lockKey(email: string): string {
+  return `login-lock:${accountKey(email)}`;
+}
+
+export async function isLoginLocked(email: string): Promise<boolean> {
+  return (await getRateLimitStore().get(lockKey(email))) > 0;
+}
+
+/**
+ * Count a failed sign-in, locking the account once there are too many
+ * @returns Whether the account is now locked
+ */
+export async function recordLoginFailure(email: string): Promise<boolean> {
+  const store = getRateLimitStore();
+  const ttlMs = rateLimitConfig.lockoutDuration * 1000;
+  const failures = await store.increment(failuresKey(email), ttlMs);
+  if (failures < rateLimitConfig.maxLoginFailures) {
+    return false;
+  }
+
+  await store.increment(lockKey(email), ttlMs);
+  await store.reset(failuresKey(email));
+  logger.warn(`Locked sign-in for ${accountKey(email)} after ${failures} failed attempts`);
+  return true;
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  await getRateLimitStore().reset(failuresKey(email));
+}
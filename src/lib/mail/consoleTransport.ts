@@ -0,0 +1,13 @@
+import logger from '@/lib/logger';
+import type { MailTransport, SentMail } from './types';
+
+/**
+ * Writes messages to the log instead of sending them; the default during development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: SentMail): Promise<void> {
+    logger.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
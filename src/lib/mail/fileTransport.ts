@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { randomBytes } from 'crypto';
+import type { MailTransport, SentMail } from './types';
+
+/**
+ * Local mail catcher: writes each message to its own JSON file in the outbox directory,
+ * where developers and end-to-end tests can read them back
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = resolve(process.cwd(), options.directory);
+  }
+
+  async send(message: SentMail): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    // Timestamp first so a directory listing is in sending order
+    const fileName = `${message.sentAt.getTime()}-${randomBytes(4).toString('hex')}.json`;
+    await writeFile(join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
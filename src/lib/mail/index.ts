@@ -0,0 +1,56 @@
+/**
+ * Mail entry point
+ * Sends messages through the transport configured in `mail.transport`.
+ */
+import { mail as mailConfig } from '@/lib/config';
+import { ConsoleMailTransport } from './consoleTransport';
+import { FileMailTransport } from './fileTransport';
+import { MemoryMailTransport } from './memoryTransport';
+import { SmtpMailTransport } from './smtpTransport';
+import type { MailMessage, MailTransport, SentMail } from './types';
+
+export type { MailMessage, MailTransport, SentMail } from './types';
+export { ConsoleMailTransport, FileMailTransport, MemoryMailTransport, SmtpMailTransport };
+
+let transport: MailTransport | null = null;
+
+function createTransport(name: typeof mailConfig.transport): MailTransport {
+  switch (name) {
+    case 'smtp':
+      return new SmtpMailTransport(mailConfig.smtp);
+    case 'file':
+      return new FileMailTransport({ directory: mailConfig.outboxDirectory });
+    case 'memory':
+      return new MemoryMailTransport();
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+}
+
+/**
+ * Get the configured transport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransport(mailConfig.transport);
+  }
+  return transport;
+}
+
+/**
+ * Send an email from the configured sender address
+ */
+export async function sendMail(message: MailMessage): Promise<SentMail> {
+  const sent: SentMail = { ...message, from: mailConfig.from, sentAt: new Date() };
+  await getMailTransport().send(sent);
+  return sent;
+}
+
+/**
+ * Absolute link to a page of the app, for use in emails
+ */
+export function appUrl(path: string): string {
+  return `${mailConfig.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
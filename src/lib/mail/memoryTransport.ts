@@ -0,0 +1,17 @@
+import type { MailTransport, SentMail } from './types';
+
+/**
+ * Keeps messages in memory so tests can check what would have been sent
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: SentMail[] = [];
+
+  async send(message: SentMail): Promise<void> {
+    this.messages.push(message);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
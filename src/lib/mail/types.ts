@@ -0,0 +1,26 @@
+/**
+ * Mail transport contract
+ * Every way of delivering email implements this interface, so features that send
+ * mail never depend on where it ends up.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+export interface MailTransport {
+  readonly name: string;
+
+  /**
+   * Deliver a message; throws if it can't be handed over
+   */
+  send(message: SentMail): Promise<void>;
+}
@@ -0,0 +1,221 @@
+/**
+ * Content moderation
+ *
+ * Viewers report public galleries and images; admins review the reports on
+ * /admin/moderation. A moderator can dismiss a report, hide the content (it then only
+ * shows to its owner and, for galleries, members), unpublish a gallery, or restore
+ * content hidden earlier. Hiding and unpublishing carry a reason that's shown to the
+ * owner. Resolving a report resolves every open report of the same content.
+ */
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import type { CreateReport, ModerationAction, Report, ReportQuery, ResolveReport } from '@/lib/schemas';
+
+/**
+ * Error thrown when a report can't be filed or resolved, carrying the HTTP status to return
+ */
+export class ModerationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+const PERSON_SELECT = { id: true, name: true, email: true } as const satisfies Prisma.UserSelect;
+
+const REPORT_INCLUDE = {
+  reporter: { select: PERSON_SELECT },
+  resolvedBy: { select: PERSON_SELECT },
+  gallery: {
+    select: { id: true, title: true, isPublic: true, hiddenAt: true, moderationReason: true, user: { select: PERSON_SELECT } },
+  },
+  image: {
+    select: { id: true, title: true, url: true, hiddenAt: true, moderationReason: true, user: { select: PERSON_SELECT } },
+  },
+} as const satisfies Prisma.ReportInclude;
+
+type StoredReport = Prisma.ReportGetPayload<{ include: typeof REPORT_INCLUDE }>;
+
+/**
+ * Galleries anyone may browse: public and not hidden by a moderator
+ */
+export function publicGalleriesFilter(): Prisma.GalleryWhereInput {
+  return { isPublic: true, hiddenAt: null };
+}
+
+/**
+ * Whether someone may see a gallery, given their role in it
+ * Hidden galleries stay visible to their owner and members, like private ones.
+ */
+export function isGalleryVisible(
+  gallery: { isPublic: boolean; hiddenAt: Date | null },
+  viewerRole: string | null,
+  isAdmin = false
+): boolean {
+  return isAdmin || !!viewerRole || (gallery.isPublic && !gallery.hiddenAt);
+}
+
+/**
+ * Drop the images a moderator hid, except for their owner (and admins)
+ */
+export function withoutHiddenImages<G extends { images: { image: { userId: string; hiddenAt: Date | null } }[] }>(
+  gallery: G,
+  viewerId: string | undefined,
+  isAdmin = false
+): G {
+  if (isAdmin) {
+    return gallery;
+  }
+  return { ...gallery, images: gallery.images.filter(entry => !entry.image.hiddenAt || entry.image.userId === viewerId) };
+}
+
+function serializeReport(report: StoredReport): Report {
+  return {
+    ...report,
+    targetType: report.targetType as Report['targetType'],
+    resolution: report.resolution as ModerationAction | null,
+    // Image reports keep the gallery they came from for context only
+    gallery: report.gallery,
+    image: report.targetType === 'image' ? report.image : null,
+  };
+}
+
+/**
+ * File a report about a public gallery, or an image in one
+ */
+export async function createReport(reporterId: string, input: CreateReport): Promise<Report> {
+  const galleryId = input.targetType === 'gallery' ? input.targetId : input.galleryId!;
+  const gallery = await prisma.gallery.findUnique({
+    where: { id: galleryId },
+    select: { id: true, userId: true, isPublic: true, hiddenAt: true, deletedAt: true, smartRules: true },
+  });
+  if (!gallery || gallery.deletedAt || !isGalleryVisible(gallery, null)) {
+    throw new ModerationError('Gallery not found', 404);
+  }
+
+  let ownerId = gallery.userId;
+  if (input.targetType === 'image') {
+    const image = await prisma.image.findUnique({
+      where: { id: input.targetId },
+      select: { userId: true, hiddenAt: true, deletedAt: true, inGalleries: { where: { galleryId }, select: { id: true } } },
+    });
+    // Smart galleries show their owner's images without a row for each
+    const inGallery = !!image && (image.inGalleries.length > 0 || (!!gallery.smartRules && image.userId === gallery.userId));
+    if (!image || image.hiddenAt || image.deletedAt || !inGallery) {
+      throw new ModerationError('Image not found', 404);
+    }
+    ownerId = image.userId;
+  }
+
+  if (ownerId === reporterId) {
+    throw new ModerationError(`You can't report your own ${input.targetType}`, 400);
+  }
+
+  const target = input.targetType === 'gallery' ? { galleryId } : { galleryId, imageId: input.targetId };
+  const existing = await prisma.report.findFirst({
+    where: { reporterId, targetType: input.targetType, status: 'OPEN', ...target },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ModerationError(`You have already reported this ${input.targetType}`, 409);
+  }
+
+  const report = await prisma.report.create({
+    data: {
+      targetType: input.targetType,
+      ...target,
+      reporterId,
+      reason: input.reason,
+      details: input.details || null,
+    },
+    include: REPORT_INCLUDE,
+  });
+  return serializeReport(report);
+}
+
+/**
+ * A page of reports with the given status; open reports oldest first, resolved ones newest first
+ */
+export async function listReports(query: ReportQuery): Promise<{ reports: Report[]; total: number }> {
+  const where: Prisma.ReportWhereInput = { status: query.status };
+  const [reports, total] = await prisma.$transaction([
+    prisma.report.findMany({
+      where,
+      include: REPORT_INCLUDE,
+      orderBy: query.status === 'OPEN' ? { createdAt: 'asc' } : { resolvedAt: 'desc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.report.count({ where }),
+  ]);
+  return { reports: reports.map(serializeReport), total };
+}
+
+/**
+ * Act on a report: dismiss it, hide or unpublish the content, or restore hidden content
+ * @param req The moderator's request, for the audit log
+ */
+export async function resolveReport(
+  reportId: string,
+  moderator: { id: string; email?: string | null },
+  input: ResolveReport,
+  req?: { headers: Headers }
+): Promise<Report> {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    select: { id: true, targetType: true, galleryId: true, imageId: true, status: true },
+  });
+  if (!report) {
+    throw new ModerationError('Report not found', 404);
+  }
+  if (input.action !== 'restore' && report.status !== 'OPEN') {
+    throw new ModerationError('This report has already been resolved', 409);
+  }
+  if (input.action === 'unpublish' && report.targetType !== 'gallery') {
+    throw new ModerationError('Only galleries can be unpublished', 400);
+  }
+
+  const isImage = report.targetType === 'image';
+  const targetId = (isImage ? report.imageId : report.galleryId)!;
+  const reason = input.reason || null;
+
+  const targetUpdates: Prisma.PrismaPromise<unknown>[] = [];
+  if (input.action === 'unpublish') {
+    targetUpdates.push(prisma.gallery.update({ where: { id: targetId }, data: { isPublic: false, moderationReason: reason } }));
+  } else if (input.action !== 'dismiss') {
+    const data = input.action === 'hide'
+      ? { hiddenAt: new Date(), moderationReason: reason }
+      : { hiddenAt: null, moderationReason: null };
+    targetUpdates.push(isImage
+      ? prisma.image.update({ where: { id: targetId }, data })
+      : prisma.gallery.update({ where: { id: targetId }, data }));
+  }
+
+  const sameTarget: Prisma.ReportWhereInput = isImage
+    ? { targetType: 'image', imageId: targetId }
+    : { targetType: 'gallery', galleryId: targetId };
+  await prisma.$transaction([
+    ...targetUpdates,
+    prisma.report.updateMany({
+      where: { OR: [{ id: report.id }, { ...sameTarget, status: 'OPEN' }] },
+      data: {
+        status: input.action === 'hide' || input.action === 'unpublish' ? 'ACTIONED' : 'DISMISSED',
+        resolution: input.action,
+        resolvedById: moderator.id,
+        resolvedAt: new Date(),
+      },
+    }),
+  ]);
+
+  await recordAuditEvent({
+    action: 'content.moderated',
+    actor: moderator,
+    target: { type: isImage ? 'image' : 'gallery', id: targetId },
+    req,
+    details: { action: input.action, reportId: report.id, ...(reason && { reason }) },
+  });
+
+  const resolved = await prisma.report.findUniqueOrThrow({ where: { id: report.id }, include: REPORT_INCLUDE });
+  return serializeReport(resolved);
+}
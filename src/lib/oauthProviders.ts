@@ -0,0 +1,185 @@
+/**
+ * OAuth sign-in providers
+ *
+ * GitHub, Google and one generic OpenID Connect issuer can be enabled from the environment
+ * (see `oauth` in config). NextAuth links a provider to the signed-in user when they connect
+ * it from their profile; signing in with a provider while logged out can also reach an
+ * existing account with the same email, but only if both the provider and this app verified
+ * that address.
+ */
+import type { Account, Profile, User } from 'next-auth';
+import type { AdapterUser } from 'next-auth/adapters';
+import type { Provider } from 'next-auth/providers/index';
+import GitHubProvider from 'next-auth/providers/github';
+import GoogleProvider from 'next-auth/providers/google';
+import { prisma } from '@/lib/db';
+import { oauth as oauthConfig } from '@/lib/config';
+import type { ConnectedAccounts, OAuthProviderInfo } from '@/lib/schemas';
+
+type OAuthSettings = typeof oauthConfig;
+
+interface OidcProfile extends Profile {
+  sub: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  picture?: string;
+}
+
+/**
+ * Error thrown when an account can't be disconnected, carrying the HTTP status to return
+ */
+export class ConnectedAccountError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ConnectedAccountError';
+  }
+}
+
+/**
+ * The providers with complete settings, as NextAuth provider configs
+ */
+export function buildOAuthProviders(settings: OAuthSettings = oauthConfig): Provider[] {
+  const providers: Provider[] = [];
+  // Email linking is further restricted to addresses verified on both sides by isOAuthSignInAllowed
+  const allowDangerousEmailAccountLinking = settings.linkByEmail;
+
+  if (settings.github.clientId && settings.github.clientSecret) {
+    providers.push(GitHubProvider({ ...settings.github, allowDangerousEmailAccountLinking }));
+  }
+  if (settings.google.clientId && settings.google.clientSecret) {
+    providers.push(GoogleProvider({ ...settings.google, allowDangerousEmailAccountLinking }));
+  }
+  if (settings.oidc.issuer && settings.oidc.clientId && settings.oidc.clientSecret) {
+    providers.push({
+      id: 'oidc',
+      name: settings.oidc.name,
+      type: 'oauth',
+      wellKnown: `${settings.oidc.issuer}/.well-known/openid-configuration`,
+      authorization: { params: { scope: 'openid email profile' } },
+      idToken: true,
+      checks: ['pkce', 'state'],
+      clientId: settings.oidc.clientId,
+      clientSecret: settings.oidc.clientSecret,
+      allowDangerousEmailAccountLinking,
+      profile(profile: OidcProfile) {
+        return {
+          id: profile.sub,
+          name: profile.name ?? profile.preferred_username ?? null,
+          email: profile.email ?? null,
+          image: profile.picture ?? null,
+        };
+      },
+    });
+  }
+  return providers;
+}
+
+/**
+ * Id and label of every enabled provider, for sign-in buttons
+ */
+export function enabledOAuthProviders(settings: OAuthSettings = oauthConfig): OAuthProviderInfo[] {
+  return buildOAuthProviders(settings).map(provider => ({ id: provider.id, name: provider.name }));
+}
+
+/**
+ * Whether the provider vouches for the email address in the profile
+ * GitHub only hands out addresses its users have confirmed; OIDC issuers say so per address.
+ */
+export function isProviderEmailVerified(provider: string, profile: Profile | undefined): boolean {
+  if (!profile?.email) return false;
+  if (provider === 'github') return true;
+  return (profile as OidcProfile).email_verified === true;
+}
+
+// Claims of an id token that came straight from the provider's token endpoint
+function idTokenClaims(idToken: string | undefined): Record<string, unknown> {
+  if (!idToken) return {};
+  try {
+    return JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * NextAuth linkAccount event: mark the user's address verified when the provider they just
+ * connected vouches for it, so they don't need our verification email
+ */
+export async function markEmailVerifiedByProvider(
+  user: User | AdapterUser,
+  account: Account,
+  profile: User | AdapterUser
+): Promise<void> {
+  if (!('emailVerified' in user) || user.emailVerified || !user.email || profile.email !== user.email) {
+    return;
+  }
+  const claims = { ...idTokenClaims(account.id_token), email: profile.email };
+  if (isProviderEmailVerified(account.provider, claims)) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: new Date() },
+    });
+  }
+}
+
+/**
+ * NextAuth signIn check for OAuth sign-ins
+ * Refuses to sign in to an existing account by email unless the provider verified the
+ * address and so did the account's owner. Otherwise anyone could claim the address at a
+ * lax issuer, or register it here first and wait for the real owner to sign in with it.
+ * @param signedInUserId The user connecting the provider from their profile, who it gets linked to
+ */
+export async function isOAuthSignInAllowed(
+  account: { provider: string; providerAccountId: string },
+  profile: Profile | undefined,
+  signedInUserId?: string | null
+): Promise<boolean> {
+  if (!profile?.email || signedInUserId) {
+    return true;
+  }
+
+  const linked = await prisma.account.findUnique({
+    where: { provider_providerAccountId: { provider: account.provider, providerAccountId: account.providerAccountId } },
+    select: { id: true },
+  });
+  if (linked) {
+    return true;
+  }
+  const existing = await prisma.user.findUnique({ where: { email: profile.email }, select: { emailVerified: true } });
+  return !existing || (!!existing.emailVerified && isProviderEmailVerified(account.provider, profile));
+}
+
+/**
+ * Enabled providers, which of them the user connected, and whether they have a password
+ */
+export async function getConnectedAccounts(userId: string): Promise<ConnectedAccounts> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { password: true, accounts: { select: { provider: true } } },
+  });
+
+  return {
+    providers: enabledOAuthProviders(),
+    linked: user?.accounts.map(account => account.provider) ?? [],
+    hasPassword: !!user?.password,
+  };
+}
+
+/**
+ * Disconnect a provider from the user, unless it's their only way to sign in
+ */
+export async function unlinkAccount(userId: string, provider: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { password: true, accounts: { select: { id: true, provider: true } } },
+  });
+  const account = user?.accounts.find(item => item.provider === provider);
+  if (!user || !account) {
+    throw new ConnectedAccountError('This account is not connected', 404);
+  }
+  if (!user.password && user.accounts.length === 1) {
+    throw new ConnectedAccountError('Connect another account or set a password before disconnecting your only way to sign in', 400);
+  }
+
+  await prisma.account.delete({ where: { id: account.id } });
+}
@@ -0,0 +1,123 @@
+/**
+ * Password reset
+ *
+ * Reset links carry a random token that is stored (hashed) as a VerificationToken for
+ * the user's email. A token works once, until it expires; using it removes every reset
+ * token of that user. Requests for unknown addresses look exactly like successful ones,
+ * so the form can't be used to find out who has an account.
+ */
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcrypt';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { auth as authConfig, features, passwordReset as resetConfig } from '@/lib/config';
+import { appUrl, sendMail } from '@/lib/mail';
+
+const IDENTIFIER_PREFIX = 'password-reset:';
+
+/**
+ * Error thrown when a reset isn't possible, carrying the HTTP status to return
+ */
+export class PasswordResetError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+// Only a hash is stored, so the database alone can't be used to reset passwords
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function resetIdentifier(email: string): string {
+  return `${IDENTIFIER_PREFIX}${email}`;
+}
+
+function assertEnabled() {
+  if (!features.enablePasswordReset) {
+    throw new PasswordResetError('Password reset is disabled', 404);
+  }
+}
+
+/**
+ * Email a reset link to the account with this address, if there is one
+ * Addresses that already got `maxRequestsPerEmail` links in the current window are skipped.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  assertEnabled();
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { email: true },
+  });
+  if (!user?.email) {
+    return;
+  }
+
+  const identifier = resetIdentifier(user.email);
+  const now = Date.now();
+  // Tokens don't record when they were issued, but every token expires tokenTtl after it
+  // was issued, so tokens issued within the window expire after (window start + tokenTtl).
+  // Older ones no longer count and are cleaned up.
+  const issuedInWindow = new Date(now - resetConfig.requestWindow * 1000 + resetConfig.tokenTtl * 1000);
+  await prisma.verificationToken.deleteMany({ where: { identifier, expires: { lte: issuedInWindow } } });
+  const recentRequests = await prisma.verificationToken.count({
+    where: { identifier, expires: { gt: issuedInWindow } },
+  });
+  if (recentRequests >= resetConfig.maxRequestsPerEmail) {
+    logger.warn(`Ignoring password reset request for ${user.email}: too many requests`);
+    return;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expires = new Date(now + resetConfig.tokenTtl * 1000);
+  await prisma.verificationToken.create({
+    data: { identifier, token: hashToken(token), expires },
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password of your Pic Gallery account.',
+      '',
+      `Choose a new password: ${appUrl(`/auth/reset-password/${token}`)}`,
+      '',
+      `The link works once, until ${expires.toUTCString()}. If you didn't ask for this, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Set a new password with a reset link, using it up
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  assertEnabled();
+
+  const stored = await prisma.verificationToken.findUnique({ where: { token: hashToken(token) } });
+  if (!stored || !stored.identifier.startsWith(IDENTIFIER_PREFIX)) {
+    throw new PasswordResetError('This reset link is invalid or has already been used', 400);
+  }
+  if (stored.expires <= new Date()) {
+    await prisma.verificationToken.delete({ where: { token: stored.token } });
+    throw new PasswordResetError('This reset link has expired', 410);
+  }
+
+  const email = stored.identifier.slice(IDENTIFIER_PREFIX.length);
+  const hashedPassword = await bcrypt.hash(password, authConfig.saltRounds);
+
+  await prisma.$transaction(async (tx) => {
+    // Deleting the token claims it: a concurrent request using the same link deletes nothing
+    const claimed = await tx.verificationToken.deleteMany({ where: { token: stored.token } });
+    if (claimed.count === 0) {
+      throw new PasswordResetError('This reset link is invalid or has already been used', 400);
+    }
+    await tx.verificationToken.deleteMany({ where: { identifier: stored.identifier } });
+    await tx.user.update({
+      where: { email },
+      data: { password: hashedPassword },
+    });
+  });
+  logger.log(`Password reset for ${email}`);
+}
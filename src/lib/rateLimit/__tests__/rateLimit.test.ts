@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+import { rateLimit as rateLimitConfig } from '@/lib/config';
+import { clearLoginFailures, isLoginLocked, recordLoginFailure } from '@/lib/loginLockout';
+import {
+  clientAddress,
+  consumeRateLimit,
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  setRateLimitStore,
+  withRateLimit,
+  type RateLimitStore,
+} from '@/lib/rateLimit';
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+// 10 requests a minute, as configured for the login policy
+const WINDOW_MS = 60 * 1000;
+const START = 100 * WINDOW_MS;
+
+describe('rate limiting', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = START;
+    setRateLimitStore(new MemoryRateLimitStore(() => now));
+  });
+
+  afterAll(() => {
+    setRateLimitStore(null);
+  });
+
+  it('allows the policy limit and then tells clients when to retry', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect((await consumeRateLimit('login', '1.2.3.4', now)).allowed).toBe(true);
+    }
+
+    const limited = await consumeRateLimit('login', '1.2.3.4', now);
+    expect(limited).toMatchObject({ allowed: false, limit: 10, remaining: 0, resetSeconds: 60 });
+    // 11 requests in this window: the next window starts with them weighing 11, and one
+    // more fits once they weigh at most 9
+    expect(limited.retryAfterSeconds).toBe(60 + 11);
+
+    // Other clients have their own counters
+    expect((await consumeRateLimit('login', '5.6.7.8', now)).allowed).toBe(true);
+  });
+
+  it('weighs the previous window by how much of it the sliding window still covers', async () => {
+    for (let i = 0; i < 10; i++) {
+      await consumeRateLimit('login', '1.2.3.4', now);
+    }
+
+    // A quarter into the next window, the previous 10 requests still count as 7.5
+    now = START + WINDOW_MS + WINDOW_MS / 4;
+    expect(await consumeRateLimit('login', '1.2.3.4', now)).toMatchObject({ allowed: true, remaining: 1 });
+    expect((await consumeRateLimit('login', '1.2.3.4', now)).allowed).toBe(true);
+    const limited = await consumeRateLimit('login', '1.2.3.4', now);
+    expect(limited.allowed).toBe(false);
+    // With 3 requests in this window the previous one has to weigh at most 6: at 40%
+    expect(limited.retryAfterSeconds).toBe(9);
+  });
+
+  describe('clientAddress', () => {
+    const request = (headers: Record<string, string>) => new Request('http://localhost/api/auth/register', { headers });
+
+    const withTrustedProxies = (count: number, check: () => void) => {
+      const trustedProxies = rateLimitConfig.trustedProxies;
+      rateLimitConfig.trustedProxies = count;
+      try {
+        check();
+      } finally {
+        rateLimitConfig.trustedProxies = trustedProxies;
+      }
+    };
+
+    it('uses the address added by the trusted proxy, not what the client sent', () => {
+      withTrustedProxies(1, () => {
+        expect(clientAddress(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }))).toBe('1.2.3.4');
+        expect(clientAddress(request({ 'x-real-ip': '1.2.3.4' }))).toBe('1.2.3.4');
+        expect(clientAddress(request({}))).toBeNull();
+      });
+    });
+
+    it('uses the connection address without trusted proxies', () => {
+      withTrustedProxies(0, () => {
+        expect(clientAddress(request({ 'x-forwarded-for': '6.6.6.6', 'x-real-ip': '1.2.3.4' }))).toBe('1.2.3.4');
+        expect(clientAddress(request({ 'x-forwarded-for': '6.6.6.6' }))).toBeNull();
+      });
+    });
+  });
+
+  describe('withRateLimit', () => {
+    const handler = jest.fn(async () => Response.json({ success: true }));
+    const register = withRateLimit('register', handler);
+    const request = () => new Request('http://localhost/api/auth/register', {
+      method: 'POST',
+      headers: { 'x-real-ip': '1.2.3.4' },
+    });
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('adds RateLimit headers and answers 429 with Retry-After once limited', async () => {
+      const first = await register(request());
+      expect(first.status).toBe(200);
+      expect(first.headers.get('RateLimit-Limit')).toBe('5');
+      expect(first.headers.get('RateLimit-Remaining')).toBe('4');
+      expect(first.headers.get('RateLimit-Policy')).toBe('5;w=3600');
+      expect(first.headers.get('Retry-After')).toBeNull();
+
+      for (let i = 0; i < 4; i++) {
+        await register(request());
+      }
+      const limited = await register(request());
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(handler).toHaveBeenCalledTimes(5);
+    });
+
+    it('never puts requests without an address in one shared bucket', async () => {
+      const anonymous = (userAgent: string) => new Request('http://localhost/api/auth/register', {
+        method: 'POST',
+        headers: { 'user-agent': userAgent },
+      });
+      for (let i = 0; i < 6; i++) {
+        await register(anonymous('attacker'));
+      }
+
+      expect((await register(anonymous('attacker'))).status).toBe(429);
+      expect((await register(anonymous('someone else'))).status).toBe(200);
+    });
+
+    it('lets requests through when the store fails', async () => {
+      const failing: RateLimitStore = {
+        name: 'failing',
+        increment: () => Promise.reject(new Error('unreachable')),
+        get: () => Promise.reject(new Error('unreachable')),
+        reset: () => Promise.reject(new Error('unreachable')),
+      };
+      setRateLimitStore(failing);
+
+      expect((await register(request())).status).toBe(200);
+    });
+  });
+
+  describe('login lockout', () => {
+    it('locks an account after repeated failures until the lockout ends', async () => {
+      for (let i = 1; i < rateLimitConfig.maxLoginFailures; i++) {
+        expect(await recordLoginFailure('Ada@example.com')).toBe(false);
+      }
+      expect(await isLoginLocked('ada@example.com')).toBe(false);
+
+      expect(await recordLoginFailure('ada@example.com')).toBe(true);
+      expect(await isLoginLocked('ADA@example.com')).toBe(true);
+
+      now += rateLimitConfig.lockoutDuration * 1000;
+      expect(await isLoginLocked('ada@example.com')).toBe(false);
+    });
+
+    it('starts counting over after a successful sign-in', async () => {
+      for (let i = 1; i < rateLimitConfig.maxLoginFailures; i++) {
+        await recordLoginFailure('ada@example.com');
+      }
+      await clearLoginFailures('ada@example.com');
+
+      expect(await recordLoginFailure('ada@example.com')).toBe(false);
+    });
+  });
+
+  describe('RedisRateLimitStore', () => {
+    it('creates counters with their expiry before incrementing them', async () => {
+      const fetchFn = jest.fn(async () => Response.json([{ result: 'OK' }, { result: 3 }]));
+      const store = new RedisRateLimitStore({ url: 'https://redis.example.com', token: 'secret' }, fetchFn);
+
+      await expect(store.increment('rate-limit:login:1.2.3.4:100', 120000)).resolves.toBe(3);
+      expect(fetchFn).toHaveBeenCalledWith('https://redis.example.com/pipeline', expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+        body: JSON.stringify([
+          ['SET', 'rate-limit:login:1.2.3.4:100', 0, 'PX', 120000, 'NX'],
+          ['INCR', 'rate-limit:login:1.2.3.4:100'],
+        ]),
+      }));
+    });
+
+    it('reports command errors', async () => {
+      const fetchFn = jest.fn(async () => Response.json([{ error: 'WRONGTYPE' }]));
+      const store = new RedisRateLimitStore({ url: 'https://redis.example.com', token: 'secret' }, fetchFn);
+
+      await expect(store.get('key')).rejects.toThrow('Redis command failed: WRONGTYPE');
+    });
+  });
+});
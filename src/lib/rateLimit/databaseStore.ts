@@ -0,0 +1,62 @@
+import type { PrismaClient } from '@prisma/client';
+import { prisma as defaultClient } from '@/lib/db';
+import type { RateLimitStore } from './types';
+
+// Expired rows are deleted at most this often
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Keeps counters in the RateLimitCounter table, so limits hold across restarts and
+ * every instance that shares the database (SQLite or PostgreSQL)
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+  private lastCleanup = 0;
+
+  constructor(private readonly client: PrismaClient = defaultClient) {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = new Date();
+    await this.cleanup(now);
+
+    const counter = await this.client.rateLimitCounter.upsert({
+      where: { key },
+      create: { key, count: 1, expiresAt: new Date(now.getTime() + ttlMs) },
+      update: { count: { increment: 1 } },
+    });
+    if (counter.expiresAt > now) {
+      return counter.count;
+    }
+
+    // The row outlived its window: start it over, unless a concurrent request already did
+    const { count } = await this.client.rateLimitCounter.updateMany({
+      where: { key, expiresAt: { lte: now } },
+      data: { count: 1, expiresAt: new Date(now.getTime() + ttlMs) },
+    });
+    if (count > 0) {
+      return 1;
+    }
+    const current = await this.client.rateLimitCounter.update({
+      where: { key },
+      data: { count: { increment: 1 } },
+    });
+    return current.count;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = await this.client.rateLimitCounter.findUnique({ where: { key } });
+    return counter && counter.expiresAt > new Date() ? counter.count : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.rateLimitCounter.deleteMany({ where: { key } });
+  }
+
+  private async cleanup(now: Date) {
+    if (now.getTime() - this.lastCleanup < CLEANUP_INTERVAL_MS) {
+      return;
+    }
+    this.lastCleanup = now.getTime();
+    await this.client.rateLimitCounter.deleteMany({ where: { expiresAt: { lte: now } } });
+  }
+}
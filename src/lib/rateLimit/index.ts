@@ -0,0 +1,189 @@
+/**
+ * Rate limiting entry point
+ *
+ * Requests are counted per client address in a sliding window: the count of the current
+ * fixed window plus the previous window's count, weighted by how much of it the sliding
+ * window still covers. Counters live in the store configured in `rateLimit.store`.
+ * Route handlers opt in with withRateLimit() and one of the named policies in config;
+ * their responses carry the standard RateLimit-* headers, plus Retry-After once limited.
+ */
+import { rateLimit as rateLimitConfig } from '@/lib/config';
+import logger from '@/lib/logger';
+import { apiError } from '@/lib/apiResponse';
+import { DatabaseRateLimitStore } from './databaseStore';
+import { MemoryRateLimitStore } from './memoryStore';
+import { RedisRateLimitStore } from './redisStore';
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+
+export type { RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+export { DatabaseRateLimitStore, MemoryRateLimitStore, RedisRateLimitStore };
+
+export type RateLimitPolicyName = keyof typeof rateLimitConfig.policies;
+
+let store: RateLimitStore | null = null;
+
+function createStore(name: typeof rateLimitConfig.store): RateLimitStore {
+  switch (name) {
+    case 'database':
+      return new DatabaseRateLimitStore();
+    case 'redis':
+      if (!rateLimitConfig.redis.url) {
+        throw new Error('RATE_LIMIT_REDIS_URL must be set when RATE_LIMIT_STORE is "redis"');
+      }
+      return new RedisRateLimitStore(rateLimitConfig.redis);
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+}
+
+/**
+ * Get the configured store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createStore(rateLimitConfig.store);
+  }
+  return store;
+}
+
+/**
+ * Replace the store, for tests
+ */
+export function setRateLimitStore(replacement: RateLimitStore | null) {
+  store = replacement;
+}
+
+/**
+ * The address a request came from, as reported by the trusted proxies
+ * Each proxy appends the address it received the request from to X-Forwarded-For, so
+ * the last `trustedProxies` entries are trustworthy and anything before them is whatever
+ * the client chose to send. Without trusted proxies the header is ignored in favour of the
+ * connection address.
+ * @returns The address, or null when the request doesn't say where it came from
+ */
+export function clientAddress(req: { headers: Headers }): string | null {
+  const hops = rateLimitConfig.trustedProxies;
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+
+  // Next.js doesn't expose the socket, so the connection address comes from the platform
+  return req.headers.get('x-real-ip')?.trim() || (req as { ip?: string }).ip || null;
+}
+
+// Requests without an address are counted per browser rather than in one bucket,
+// which would let a single client lock everyone out
+function rateLimitKey(req: Request): string {
+  return clientAddress(req) ?? `unknown:${req.headers.get('user-agent') ?? ''}`;
+}
+
+function getPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const policy = rateLimitConfig.policies[name];
+  // E2E runs sign in, register and upload far more often than people do
+  if (process.env.NEXT_PUBLIC_ENABLE_E2E_TEST_FEATURES === 'true') {
+    return { ...policy, limit: Math.max(policy.limit, rateLimitConfig.e2eLimit) };
+  }
+  return policy;
+}
+
+// Time until one more request fits: first the previous window's share shrinks as the
+// current window goes on, then the current window becomes the previous one
+function msUntilAllowed(previous: number, current: number, limit: number, elapsed: number, windowMs: number): number {
+  if (current + 1 <= limit && previous > 0) {
+    return Math.max(0, windowMs - ((limit - current - 1) * windowMs) / previous - elapsed);
+  }
+  return windowMs - elapsed + Math.max(0, windowMs - ((limit - 1) * windowMs) / current);
+}
+
+/**
+ * Count a request against a policy
+ * @param identifier Who the request is counted for, usually the client address
+ */
+export async function consumeRateLimit(
+  name: RateLimitPolicyName,
+  identifier: string,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const { limit, windowSeconds } = getPolicy(name);
+  const windowMs = windowSeconds * 1000;
+  const window = Math.floor(now / windowMs);
+  const elapsed = now - window * windowMs;
+  const key = `rate-limit:${name}:${identifier}`;
+
+  const rateLimitStore = getRateLimitStore();
+  // Counters must outlive their window by one more, while they count as the previous window
+  const current = await rateLimitStore.increment(`${key}:${window}`, 2 * windowMs);
+  const previous = await rateLimitStore.get(`${key}:${window - 1}`);
+  const used = (previous * (windowMs - elapsed)) / windowMs + current;
+  const allowed = used <= limit;
+
+  return {
+    allowed,
+    limit,
+    windowSeconds,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    resetSeconds: Math.ceil((windowMs - elapsed) / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil(msUntilAllowed(previous, current, limit, elapsed, windowMs) / 1000)),
+  };
+}
+
+/**
+ * The RateLimit-* response headers (and Retry-After for limited requests) describing a result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+interface RateLimitOptions<Req extends Request> {
+  // Requests the policy doesn't apply to
+  skip?: (req: Req) => boolean;
+  // Response for limited requests, for clients that expect something other than an API error
+  limitedResponse?: (req: Req, result: RateLimitResult) => Response;
+}
+
+/**
+ * Wrap a route handler so requests are counted against a policy
+ * When the store can't be reached, requests are let through rather than failing the route.
+ */
+export function withRateLimit<Req extends Request, Args extends unknown[], Res extends Response>(
+  name: RateLimitPolicyName,
+  handler: (req: Req, ...args: Args) => Promise<Res>,
+  options: RateLimitOptions<Req> = {}
+) {
+  return async function (req: Req, ...args: Args): Promise<Res | Response> {
+    if (options.skip?.(req)) {
+      return handler(req, ...args);
+    }
+
+    let result: RateLimitResult;
+    try {
+      result = await consumeRateLimit(name, rateLimitKey(req));
+    } catch (error) {
+      logger.error(`Rate limit check for "${name}" failed; allowing the request:`, error);
+      return handler(req, ...args);
+    }
+
+    const response = result.allowed
+      ? await handler(req, ...args)
+      : options.limitedResponse?.(req, result) ?? apiError('Too many requests, please try again later', 429);
+    for (const [header, value] of Object.entries(rateLimitHeaders(result))) {
+      response.headers.set(header, value);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,48 @@
+import type { RateLimitStore } from './types';
+
+// Expired counters are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in this process; they are lost on restart and not shared between instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweep = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = this.now();
+    this.sweep(now);
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      this.counters.set(key, { count: 1, expiresAt: now + ttlMs });
+      return 1;
+    }
+    counter.count++;
+    return counter.count;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > this.now() ? counter.count : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
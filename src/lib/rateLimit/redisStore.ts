@@ -0,0 +1,62 @@
+import type { RateLimitStore } from './types';
+
+export interface RedisRateLimitStoreOptions {
+  // Base URL of an Upstash-compatible REST endpoint (Upstash, or serverless-redis-http in front of any Redis)
+  url: string;
+  token: string;
+}
+
+type RedisCommand = (string | number)[];
+
+/**
+ * Keeps counters in Redis, talking to it over the REST protocol so no Redis client
+ * library or long-lived connection is needed
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly options: RedisRateLimitStoreOptions,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    // SET NX only creates the counter (with its expiry) when it's missing; INCR keeps the expiry
+    const [, count] = await this.pipeline([
+      ['SET', key, 0, 'PX', ttlMs, 'NX'],
+      ['INCR', key],
+    ]);
+    return Number(count);
+  }
+
+  async get(key: string): Promise<number> {
+    const [count] = await this.pipeline([['GET', key]]);
+    return count ? Number(count) : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.pipeline([['DEL', key]]);
+  }
+
+  private async pipeline(commands: RedisCommand[]): Promise<unknown[]> {
+    const response = await this.fetchFn(`${this.options.url}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!response.ok) {
+      throw new Error(`Redis request failed with status ${response.status}`);
+    }
+
+    const results = await response.json() as { result?: unknown; error?: string }[];
+    return results.map(({ result, error }) => {
+      if (error) {
+        throw new Error(`Redis command failed: ${error}`);
+      }
+      return result;
+    });
+  }
+}
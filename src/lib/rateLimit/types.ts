@@ -0,0 +1,44 @@
+/**
+ * Rate limit store contract
+ * The limiter only needs counters that expire, so any backend with an atomic
+ * increment (a Map, a database table, Redis) can hold them.
+ */
+
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Add one to a counter, creating it if it doesn't exist or has expired
+   * @param ttlMs Lifetime of a newly created counter; incrementing doesn't extend it
+   * @returns The count after incrementing
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
+
+  /**
+   * Read a counter
+   * @returns The count, or 0 if the counter doesn't exist or has expired
+   */
+  get(key: string): Promise<number>;
+
+  /**
+   * Remove a counter
+   */
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  windowSeconds: number;
+  // Requests left in the current window
+  remaining: number;
+  // Seconds until the window is fully replenished
+  resetSeconds: number;
+  // Seconds until the next request would be allowed (0 when allowed)
+  retryAfterSeconds: number;
+}
@@ -30,6 +30,51 @@ export const TagSchema = z.object({
 
 export type Tag = z.infer<typeof TagSchema>;
 
+/**
+ * ImageVariant Schema
+ * A resized rendition of an image generated at upload time
+ */
+export const ImageVariantSchema = z.object({
+  name: z.string(),
+  format: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  size: z.number().int().nonnegative(),
+  url: z.string(),
+});
+
+export type ImageVariant = z.infer<typeof ImageVariantSchema>;
+
+/**
+ * ImageMetadata Schema
+ * Camera and authoring details parsed from EXIF/IPTC/XMP at upload time
+ */
+export const ImageMetadataSchema = z.object({
+  width: z.number().int().nullable().optional(),
+  height: z.number().int().nullable().optional(),
+  cameraMake: z.string().nullable().optional(),
+  cameraModel: z.string().nullable().optional(),
+  lensModel: z.string().nullable().optional(),
+  focalLength: z.number().nullable().optional(),
+  aperture: z.number().nullable().optional(),
+  exposureTime: z.number().nullable().optional(),
+  iso: z.number().int().nullable().optional(),
+  capturedAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date().nullable().optional()
+  ),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  altitude: z.number().nullable().optional(),
+  artist: z.string().nullable().optional(),
+  copyright: z.string().nullable().optional(),
+  caption: z.string().nullable().optional(),
+  keywords: z.string().nullable().optional(),
+  gpsStripped: z.boolean().optional(),
+});
+
+export type ImageMetadata = z.infer<typeof ImageMetadataSchema>;
+
 /**
  * Image Schema
  */
@@ -48,10 +93,81 @@ export const ImageSchema = z.object({
     z.date()
   ),
   tags: z.array(TagSchema).optional(),
+  variants: z.array(ImageVariantSchema).optional(),
+  metadata: ImageMetadataSchema.nullable().optional(),
+  contentHash: z.string().nullable().optional(),
+  perceptualHash: z.string().nullable().optional(),
+  // Set by a moderator; the reason is shown to the owner
+  hiddenAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date().nullable()
+  ).optional(),
+  moderationReason: z.string().nullable().optional(),
+  // Set once the image has been edited; url then points at this version's rendering
+  currentVersion: z.number().int().nullable().optional(),
 });
 
 export type Image = z.infer<typeof ImageSchema>;
 
+/**
+ * Duplicate detection schemas
+ */
+export const DuplicateCheckSchema = z.object({
+  contentHash: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a SHA-256 hex digest'),
+  perceptualHash: z.string().regex(/^[0-9a-f]{16}$/, 'Expected a 64-bit hex hash').nullable().optional(),
+});
+
+export const DuplicateMatchSchema = z.object({
+  image: ImageSchema,
+  exact: z.boolean(), // Same file contents
+  distance: z.number(), // Differing perceptual hash bits; 0 for exact matches
+});
+
+export const DuplicateClusterSchema = z.object({
+  exact: z.boolean(),
+  images: z.array(ImageSchema),
+});
+
+export type DuplicateCheck = z.infer<typeof DuplicateCheckSchema>;
+export type DuplicateMatch = z.infer<typeof DuplicateMatchSchema>;
+export type DuplicateCluster = z.infer<typeof DuplicateClusterSchema>;
+
+/**
+ * Smart gallery schemas
+ */
+
+const SmartGalleryTagsSchema = z.array(z.string().trim().min(1).max(100));
+const SmartGalleryDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a YYYY-MM-DD date');
+
+// Saved search behind a smart gallery; the owner's matching images are added automatically
+export const SmartGalleryRulesSchema = z.object({
+  query: z.string().trim().max(200).optional(), // Full-text search, see parseSearchQuery
+  allTags: SmartGalleryTagsSchema.optional(), // Images must have all of these (or a descendant)
+  anyTags: SmartGalleryTagsSchema.optional(), // ...at least one of these
+  excludeTags: SmartGalleryTagsSchema.optional(), // ...and none of these
+  camera: z.string().trim().max(100).optional(),
+  from: SmartGalleryDateSchema.optional(), // Inclusive capture date range
+  to: SmartGalleryDateSchema.optional(),
+  sortBy: z.enum(['capturedAt', 'createdAt', 'title', 'relevance']).optional(), // Defaults to capturedAt
+  sortDir: z.enum(['asc', 'desc']).optional(), // Defaults to desc
+  limit: z.number().int().positive().optional(), // Capped by SMART_GALLERY_MAX_IMAGES
+});
+
+export type SmartGalleryRules = z.infer<typeof SmartGalleryRulesSchema>;
+
+/**
+ * Gallery role schemas
+ */
+
+// Role of a gallery member; the owner isn't a member
+export const GalleryRoleSchema = z.enum(['VIEWER', 'CONTRIBUTOR', 'EDITOR']);
+
+// What the current user may do with a gallery, including ownership
+export const GalleryAccessRoleSchema = z.enum(['VIEWER', 'CONTRIBUTOR', 'EDITOR', 'OWNER']);
+
+export type GalleryRole = z.infer<typeof GalleryRoleSchema>;
+export type GalleryAccessRole = z.infer<typeof GalleryAccessRoleSchema>;
+
 /**
  * Gallery Schema
  */
@@ -79,6 +195,19 @@ export const GallerySchema = z.object({
   fontFamily: z.string().nullable().optional(),
   displayMode: z.string().nullable().optional(),
   layoutType: z.string().nullable().optional(),
+
+  // Rules for smart galleries, stored as JSON; null for galleries curated by hand
+  smartRules: z.preprocess(
+    (val) => (typeof val === 'string' ? JSON.parse(val) : val),
+    SmartGalleryRulesSchema.nullable()
+  ).optional(),
+
+  // Set by a moderator who hid or unpublished the gallery; the reason is shown to the owner
+  hiddenAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date().nullable()
+  ).optional(),
+  moderationReason: z.string().nullable().optional(),
 });
 
 export type Gallery = z.infer<typeof GallerySchema>;
@@ -98,6 +227,14 @@ export const ImageInGallerySchema = z.object({
   ),
   image: ImageSchema.optional(),
   gallery: GallerySchema.optional(),
+  // Smart galleries only: true for hand-picked images, false for rule matches
+  isPinned: z.boolean().optional(),
+  // Who put the image in the gallery, shown in collaborative galleries
+  addedById: z.string().nullable().optional(),
+  addedBy: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+  }).nullable().optional(),
 });
 
 export type ImageInGallery = z.infer<typeof ImageInGallerySchema>;
@@ -126,11 +263,94 @@ export const FullGallerySchema = GallerySchema.extend({
     name: z.string().nullable(),
     image: z.string().nullable()
   }),
-  coverImage: ImageSchema.nullable().optional()
+  coverImage: ImageSchema.nullable().optional(),
+  // Set by GET /api/galleries/[id] for the current user; null for visitors without a role
+  viewerRole: GalleryAccessRoleSchema.nullable().optional(),
 });
 
 export type FullGallery = z.infer<typeof FullGallerySchema>;
 
+/**
+ * Gallery listing schemas
+ */
+export const GallerySortSchema = z.enum(['newest', 'oldest', 'updated', 'title']);
+
+// public: public galleries; accessible: also the private ones the user owns or is a member of;
+// owned and shared: only the user's own galleries, or only the ones they're a member of
+export const GalleryListScopeSchema = z.enum(['public', 'accessible', 'owned', 'shared']);
+
+export const GalleryListQuerySchema = z.object({
+  scope: GalleryListScopeSchema.default('public'),
+  sort: GallerySortSchema.default('newest'),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+// A gallery in listings: its details, image count and cover, without the images themselves
+export const GallerySummarySchema = GallerySchema.omit({
+  themeColor: true,
+  backgroundColor: true,
+  backgroundImageUrl: true,
+  accentColor: true,
+  fontFamily: true,
+  displayMode: true,
+  layoutType: true,
+}).extend({
+  imageCount: z.number().int().nonnegative(),
+  // The cover image, or the first image when none is set
+  coverImage: z.object({
+    id: z.string(),
+    title: z.string(),
+    url: z.string(),
+    thumbnailUrl: z.string(),
+  }).nullable(),
+  user: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    image: z.string().nullable(),
+  }),
+});
+
+/**
+ * Gallery export schemas
+ * An export is a ZIP of the gallery's images in order, with a manifest.json describing them.
+ */
+export const GalleryExportQuerySchema = z.object({
+  // Add an XMP sidecar with the title, description, caption and tags next to each image
+  xmp: z.enum(['true', 'false', '1', '0']).optional().transform(value => value === 'true' || value === '1'),
+});
+
+export const GalleryExportManifestSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().datetime(),
+  gallery: z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+  }),
+  images: z.array(z.object({
+    file: z.string(),
+    xmpFile: z.string().optional(),
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    // The gallery's own caption for the image
+    caption: z.string().nullable(),
+    tags: z.array(z.string()),
+    order: z.number().int(),
+    capturedAt: z.string().datetime().nullable(),
+    width: z.number().int().nullable(),
+    height: z.number().int().nullable(),
+  })),
+});
+
+export type GallerySort = z.infer<typeof GallerySortSchema>;
+export type GalleryListScope = z.infer<typeof GalleryListScopeSchema>;
+export type GalleryListQuery = z.infer<typeof GalleryListQuerySchema>;
+export type GallerySummary = z.infer<typeof GallerySummarySchema>;
+export type GalleryExportQuery = z.infer<typeof GalleryExportQuerySchema>;
+export type GalleryExportManifest = z.infer<typeof GalleryExportManifestSchema>;
+
 /**
  * API Request Schemas
  */
@@ -153,6 +373,8 @@ export const CreateGallerySchema = z.object({
   fontFamily: z.string().optional().nullable(),
   displayMode: z.string().optional().nullable(),
   layoutType: z.string().optional().nullable(),
+  // Set to make a smart gallery (images become pinned images), null to go back to manual
+  smartRules: SmartGalleryRulesSchema.nullable().optional(),
 });
 
 export const UpdateGallerySchema = CreateGallerySchema.extend({
@@ -184,7 +406,7 @@ export const UpdateGallerySchema = CreateGallerySchema.extend({
 export const CreateImageSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
-  url: z.string(), // Accept any string for URL, including relative paths like /uploads/filename.jpg
+  url: z.string(), // URL returned by /api/upload; its variants, metadata and fingerprints come along
   tags: z.array(z.string()).optional(),
 });
 
@@ -195,6 +417,600 @@ export const UpdateImageSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+/**
+ * Image edit schemas
+ * Edits are stored as a recipe applied to the original upload, never to an earlier edit.
+ * Steps run in a fixed order: quarter turns and straightening, crop, flips, then exposure and contrast.
+ */
+const CropFractionSchema = z.number().min(0).max(1);
+
+// Crop box as fractions of the rotated and straightened image
+export const CropBoxSchema = z.object({
+  x: CropFractionSchema,
+  y: CropFractionSchema,
+  width: CropFractionSchema.positive(),
+  height: CropFractionSchema.positive(),
+}).refine(box => box.x + box.width <= 1.0001 && box.y + box.height <= 1.0001, {
+  message: 'Crop box must lie within the image',
+});
+
+export const ImageEditRecipeSchema = z.object({
+  rotate: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).default(0),
+  // Fine rotation in degrees; the uncovered corners are cropped away
+  straighten: z.number().min(-45).max(45).default(0),
+  crop: CropBoxSchema.nullable().default(null),
+  flipHorizontal: z.boolean().default(false),
+  flipVertical: z.boolean().default(false),
+  // In stops: +1 doubles the brightness
+  exposure: z.number().min(-2).max(2).default(0),
+  // -1 flattens to grey, +1 doubles the contrast
+  contrast: z.number().min(-1).max(1).default(0),
+});
+
+export const ImageVersionSchema = z.object({
+  id: z.string(),
+  imageId: z.string(),
+  version: z.number().int().positive(),
+  url: z.string(),
+  recipe: ImageEditRecipeSchema.nullable(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  isCurrent: z.boolean(),
+  createdAt: z.coerce.date(),
+});
+
+export type CropBox = z.infer<typeof CropBoxSchema>;
+export type ImageEditRecipe = z.infer<typeof ImageEditRecipeSchema>;
+export type ImageVersion = z.infer<typeof ImageVersionSchema>;
+
+/**
+ * Trash schemas
+ * Deleted images and galleries stay restorable for the retention period, then get purged.
+ */
+export const TrashTargetTypeSchema = z.enum(['image', 'gallery']);
+
+export const TrashTargetSchema = z.object({
+  targetType: TrashTargetTypeSchema,
+  id: z.string().min(1),
+});
+
+export const TrashItemSchema = z.object({
+  targetType: TrashTargetTypeSchema,
+  id: z.string(),
+  title: z.string(),
+  thumbnailUrl: z.string().nullable(),
+  deletedAt: z.coerce.date(),
+  purgeAt: z.coerce.date(),
+  // Images: galleries they'll rejoin; galleries: images they hold
+  count: z.number().int().nonnegative(),
+});
+
+export const TrashSchema = z.object({
+  items: z.array(TrashItemSchema),
+  retentionDays: z.number().int(),
+});
+
+export const RestoreResultSchema = z.object({
+  targetType: TrashTargetTypeSchema,
+  id: z.string(),
+  // For images: the galleries they were put back in, and how many of those got them back as cover
+  galleriesRestored: z.number().int().nonnegative(),
+  coversRestored: z.number().int().nonnegative(),
+});
+
+export type TrashTargetType = z.infer<typeof TrashTargetTypeSchema>;
+export type TrashTarget = z.infer<typeof TrashTargetSchema>;
+export type TrashItem = z.infer<typeof TrashItemSchema>;
+export type Trash = z.infer<typeof TrashSchema>;
+export type RestoreResult = z.infer<typeof RestoreResultSchema>;
+
+/**
+ * Bulk image operation schemas
+ */
+
+const BulkTagNamesSchema = z.array(z.string().trim().min(1).max(100)).min(1, 'At least one tag is required');
+
+// One action applied to every image in a bulk request
+export const BulkImageActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('addTags'), tags: BulkTagNamesSchema }),
+  z.object({ action: z.literal('removeTags'), tags: BulkTagNamesSchema }),
+  z.object({ action: z.literal('delete') }),
+  z.object({ action: z.literal('addToGallery'), galleryId: z.string().min(1) }),
+  z.object({ action: z.literal('setDescription'), description: z.string().max(2000).nullable() }),
+]);
+
+export const BulkImageOperationSchema = z.object({
+  imageIds: z.array(z.string().min(1)).min(1, 'No images specified').max(500),
+  operation: BulkImageActionSchema,
+});
+
+export const BulkImageResultStatusSchema = z.enum(['updated', 'unchanged', 'deleted', 'not_found']);
+
+export const BulkImageResultSchema = z.object({
+  id: z.string(),
+  status: BulkImageResultStatusSchema,
+  error: z.string().optional(),
+});
+
+export const BulkImageResponseSchema = z.object({
+  results: z.array(BulkImageResultSchema),
+  images: z.array(ImageSchema), // Updated images, empty for deletions
+});
+
+export type BulkImageAction = z.infer<typeof BulkImageActionSchema>;
+export type BulkImageResult = z.infer<typeof BulkImageResultSchema>;
+
+/**
+ * Tag management schemas
+ */
+
+// A tag as listed by /api/tags, with its place in the hierarchy and its aliases
+export const TagDetailsSchema = TagSchema.extend({
+  parentId: z.string().nullable(),
+  isShared: z.boolean(), // Shared tags are available to everyone and managed by admins
+  aliases: z.array(z.string()),
+  _count: z.object({
+    images: z.number(),
+  }).optional(),
+});
+
+export const CreateTagSchema = z.object({
+  name: z.string().trim().min(1, 'Tag name is required').max(100),
+  shared: z.boolean().optional(), // Admins only
+});
+
+// Renaming to a path ("travel/japan") also moves the tag under that parent
+export const UpdateTagSchema = z.object({
+  name: z.string().trim().min(1, 'Tag name is required').max(100).optional(),
+  aliases: z.array(z.string().trim().min(1).max(100)).optional(),
+});
+
+export const MergeTagSchema = z.object({
+  targetId: z.string().min(1),
+});
+
+export type TagDetails = z.infer<typeof TagDetailsSchema>;
+
+/**
+ * Upload schemas
+ */
+
+// Result of storing an uploaded file, returned by /api/upload and completed upload sessions
+export const UploadResultSchema = z.object({
+  url: z.string(),
+  variants: z.array(ImageVariantSchema).optional(),
+  metadata: ImageMetadataSchema.nullable().optional(),
+  contentHash: z.string().optional(),
+  perceptualHash: z.string().nullable().optional(),
+});
+
+export const CreateUploadSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().regex(/^image\//, 'Only images can be uploaded'),
+  size: z.number().int().positive(),
+  fingerprint: z.string().min(1).max(512),
+  stripGps: z.boolean().optional().default(false),
+});
+
+export const UploadSessionSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  chunkSize: z.number(),
+  receivedBytes: z.number(),
+  fingerprint: z.string(),
+  expiresAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date()
+  ),
+});
+
+export type UploadResult = z.infer<typeof UploadResultSchema>;
+export type UploadSession = z.infer<typeof UploadSessionSchema>;
+
+/**
+ * Bulk import schemas
+ * An import job brings in every image of a ZIP archive or server folder, with titles,
+ * tags and galleries from an optional manifest.csv or manifest.json at its top level.
+ */
+export const ImportSourceSchema = z.enum(['zip', 'folder']);
+export const ImportJobStatusSchema = z.enum(['AWAITING_UPLOAD', 'RECEIVING_UPLOAD', 'PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED']);
+export const ImportItemStatusSchema = z.enum(['PENDING', 'IMPORTED', 'SKIPPED', 'FAILED']);
+
+export const ImportOptionsSchema = z.object({
+  stripGps: z.boolean().default(false),
+  // Put images without a gallery in the manifest into a gallery named after their folder
+  folderGalleries: z.boolean().default(true),
+  // Skip files already in the library (same content), only adding them to their gallery
+  skipDuplicates: z.boolean().default(true),
+});
+
+export const CreateImportJobSchema = z.discriminatedUnion('source', [
+  // The archive is uploaded afterwards with PUT /api/imports/[id]/archive
+  z.object({ source: z.literal('zip'), options: ImportOptionsSchema.default({}) }),
+  // Admins only; relative to the configured import folder
+  z.object({ source: z.literal('folder'), folder: z.string().trim().min(1).max(1000), options: ImportOptionsSchema.default({}) }),
+]);
+
+// One row of a manifest. Gallery export manifests are valid import manifests.
+export const ImportManifestEntrySchema = z.object({
+  file: z.string().trim().min(1),
+  title: z.string().trim().max(200).nullish(),
+  description: z.string().trim().max(5000).nullish(),
+  // A list, or one string separated with ";" or "|" as spreadsheets have it
+  tags: z.preprocess(
+    value => typeof value === 'string' ? value.split(/[;|]/) : value,
+    z.array(z.string().trim().max(100)).transform(tags => tags.filter(Boolean))
+  ).optional(),
+  gallery: z.string().trim().max(200).nullish(),
+  // The image's caption in its gallery
+  caption: z.string().trim().max(1000).nullish(),
+});
+
+export const ImportJobSchema = z.object({
+  id: z.string(),
+  source: ImportSourceSchema,
+  // The server folder imported from, for folder imports
+  folder: z.string().nullable(),
+  status: ImportJobStatusSchema,
+  options: ImportOptionsSchema,
+  manifestName: z.string().nullable(),
+  totalItems: z.number().int().nonnegative(),
+  processedItems: z.number().int().nonnegative(),
+  importedCount: z.number().int().nonnegative(),
+  skippedCount: z.number().int().nonnegative(),
+  failedCount: z.number().int().nonnegative(),
+  error: z.string().nullable(),
+  startedAt: z.coerce.date().nullable(),
+  finishedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+export const ImportItemSchema = z.object({
+  id: z.string(),
+  position: z.number().int(),
+  path: z.string(),
+  status: ImportItemStatusSchema,
+  title: z.string().nullable(),
+  galleryTitle: z.string().nullable(),
+  imageId: z.string().nullable(),
+  galleryId: z.string().nullable(),
+  // Why the file was skipped or failed
+  message: z.string().nullable(),
+  processedAt: z.coerce.date().nullable(),
+});
+
+export const ImportItemQuerySchema = z.object({
+  status: ImportItemStatusSchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ImportSource = z.infer<typeof ImportSourceSchema>;
+export type ImportJobStatus = z.infer<typeof ImportJobStatusSchema>;
+export type ImportItemStatus = z.infer<typeof ImportItemStatusSchema>;
+export type ImportOptions = z.infer<typeof ImportOptionsSchema>;
+export type CreateImportJob = z.infer<typeof CreateImportJobSchema>;
+export type ImportManifestEntry = z.infer<typeof ImportManifestEntrySchema>;
+export type ImportJob = z.infer<typeof ImportJobSchema>;
+export type ImportItem = z.infer<typeof ImportItemSchema>;
+export type ImportItemQuery = z.infer<typeof ImportItemQuerySchema>;
+
+/**
+ * Gallery share link schemas
+ */
+
+const OptionalDateSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? new Date(val) : val),
+  z.date().nullable()
+);
+
+export const CreateShareLinkSchema = z.object({
+  label: z.string().trim().max(100).nullable().optional(),
+  password: z.string().min(4, 'Password must be at least 4 characters').max(100).nullable().optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional()
+    .refine(val => !val || new Date(val) > new Date(), 'Expiry date must be in the future'),
+  maxViews: z.number().int().positive().max(100000).nullable().optional(),
+});
+
+export const UnlockShareLinkSchema = z.object({
+  password: z.string().max(100).optional(),
+});
+
+export const ShareLinkStatusSchema = z.enum(['active', 'expired', 'revoked', 'exhausted']);
+
+// A share link as shown to the gallery owner; the password itself is never returned
+export const GalleryShareLinkSchema = z.object({
+  id: z.string(),
+  galleryId: z.string(),
+  token: z.string(),
+  url: z.string(),
+  label: z.string().nullable(),
+  hasPassword: z.boolean(),
+  expiresAt: OptionalDateSchema,
+  maxViews: z.number().nullable(),
+  viewCount: z.number(),
+  revokedAt: OptionalDateSchema,
+  lastViewedAt: OptionalDateSchema,
+  createdAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date()
+  ),
+  status: ShareLinkStatusSchema,
+});
+
+export type CreateShareLink = z.infer<typeof CreateShareLinkSchema>;
+export type ShareLinkStatus = z.infer<typeof ShareLinkStatusSchema>;
+export type GalleryShareLink = z.infer<typeof GalleryShareLinkSchema>;
+
+/**
+ * Gallery member schemas
+ */
+
+const DateSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? new Date(val) : val),
+  z.date()
+);
+
+export const InviteGalleryMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  role: GalleryRoleSchema,
+});
+
+export const UpdateGalleryMemberSchema = z.object({
+  role: GalleryRoleSchema,
+});
+
+export const GalleryMemberSchema = z.object({
+  id: z.string(),
+  galleryId: z.string(),
+  userId: z.string(),
+  role: GalleryRoleSchema,
+  createdAt: DateSchema,
+  user: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string(),
+    image: z.string().nullable(),
+  }),
+});
+
+// Pending invitations are listed for the owner; the token is only ever emailed
+export const GalleryInvitationSchema = z.object({
+  id: z.string(),
+  galleryId: z.string(),
+  email: z.string(),
+  role: GalleryRoleSchema,
+  expiresAt: DateSchema,
+  createdAt: DateSchema,
+});
+
+export const GalleryMembersResponseSchema = z.object({
+  members: z.array(GalleryMemberSchema),
+  invitations: z.array(GalleryInvitationSchema),
+});
+
+export type InviteGalleryMember = z.infer<typeof InviteGalleryMemberSchema>;
+export type GalleryMember = z.infer<typeof GalleryMemberSchema>;
+export type GalleryInvitation = z.infer<typeof GalleryInvitationSchema>;
+export type GalleryMembersResponse = z.infer<typeof GalleryMembersResponseSchema>;
+
+/**
+ * Password reset
+ */
+export const ForgotPasswordSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+});
+
+// Same rules as registration
+export const ResetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+});
+
+/**
+ * Connected (OAuth) accounts
+ */
+export const OAuthProviderInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const ConnectedAccountsSchema = z.object({
+  // Providers enabled on this server
+  providers: z.array(OAuthProviderInfoSchema),
+  // Ids of the providers the user connected
+  linked: z.array(z.string()),
+  hasPassword: z.boolean(),
+});
+
+export type OAuthProviderInfo = z.infer<typeof OAuthProviderInfoSchema>;
+export type ConnectedAccounts = z.infer<typeof ConnectedAccountsSchema>;
+
+/**
+ * Two-factor authentication
+ */
+// A code from the authenticator app or a recovery code
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the code from your authenticator app').max(20),
+});
+
+export const TwoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  enabledAt: z.coerce.date().nullable(),
+  recoveryCodesLeft: z.number(),
+  required: z.boolean(),
+});
+
+export const TwoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCode: z.string(),
+});
+
+export const RecoveryCodesSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+
+export type TwoFactorStatus = z.infer<typeof TwoFactorStatusSchema>;
+export type TwoFactorSetup = z.infer<typeof TwoFactorSetupSchema>;
+
+/**
+ * Personal API tokens
+ */
+// images:read also covers reading tags and galleries; tags are written with images:write
+export const ApiTokenScopeSchema = z.enum(['images:read', 'images:write', 'galleries:write']);
+
+export const CreateApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(ApiTokenScopeSchema).min(1, 'Pick at least one scope'),
+  // Days until the token stops working; never expires when left out
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export const ApiTokenSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(ApiTokenScopeSchema),
+  lastUsedAt: z.coerce.date().nullable(),
+  expiresAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// Only the response creating a token contains the token itself
+export const CreatedApiTokenSchema = ApiTokenSchema.extend({
+  token: z.string(),
+});
+
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+export type CreateApiToken = z.infer<typeof CreateApiTokenSchema>;
+export type ApiToken = z.infer<typeof ApiTokenSchema>;
+export type CreatedApiToken = z.infer<typeof CreatedApiTokenSchema>;
+
+/**
+ * Audit log
+ */
+export const AuditActionSchema = z.enum([
+  'auth.login',
+  'auth.login_failed',
+  'user.role_changed',
+  'user.deleted',
+  'gallery.visibility_changed',
+  'gallery.deleted',
+  'image.deleted',
+  'image.restored',
+  'gallery.restored',
+  'content.moderated',
+]);
+
+export const AuditEventSchema = z.object({
+  id: z.string(),
+  action: AuditActionSchema,
+  actorId: z.string().nullable(),
+  actorEmail: z.string().nullable(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  ip: z.string().nullable(),
+  details: z.record(z.unknown()).nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// Filters of the admin audit page; dates are whole UTC days, both ends included
+export const AuditEventQuerySchema = z.object({
+  actor: z.string().trim().max(200).optional(),
+  action: AuditActionSchema.optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+export type AuditEventQuery = z.infer<typeof AuditEventQuerySchema>;
+
+/**
+ * Content moderation schemas
+ */
+export const ReportReasonSchema = z.enum(['SPAM', 'INAPPROPRIATE', 'COPYRIGHT', 'HARASSMENT', 'OTHER']);
+export const ReportStatusSchema = z.enum(['OPEN', 'DISMISSED', 'ACTIONED']);
+export const ReportTargetTypeSchema = z.enum(['gallery', 'image']);
+// unpublish only applies to galleries; restore undoes hide and unpublish reasons
+export const ModerationActionSchema = z.enum(['dismiss', 'hide', 'unpublish', 'restore']);
+
+export const CreateReportSchema = z.object({
+  targetType: ReportTargetTypeSchema,
+  targetId: z.string().min(1),
+  // The public gallery an image was reported from
+  galleryId: z.string().min(1).optional(),
+  reason: ReportReasonSchema,
+  details: z.string().trim().max(1000).optional(),
+}).refine(data => data.targetType === 'gallery' || !!data.galleryId, {
+  message: 'Images are reported from the gallery they were seen in',
+  path: ['galleryId'],
+});
+
+export const ResolveReportSchema = z.object({
+  action: ModerationActionSchema,
+  // Shown to the owner of the content
+  reason: z.string().trim().max(500).optional(),
+}).refine(data => data.action === 'dismiss' || data.action === 'restore' || !!data.reason, {
+  message: 'Give the owner a reason',
+  path: ['reason'],
+});
+
+export const ReportQuerySchema = z.object({
+  status: ReportStatusSchema.default('OPEN'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const NullableDateSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? new Date(val) : val),
+  z.date().nullable()
+);
+
+export const ReportSchema = z.object({
+  id: z.string(),
+  targetType: ReportTargetTypeSchema,
+  reason: ReportReasonSchema,
+  details: z.string().nullable(),
+  status: ReportStatusSchema,
+  resolution: ModerationActionSchema.nullable(),
+  createdAt: z.preprocess(
+    (val) => (typeof val === 'string' ? new Date(val) : val),
+    z.date()
+  ),
+  resolvedAt: NullableDateSchema,
+  reporter: z.object({ id: z.string(), name: z.string().nullable(), email: z.string() }).nullable(),
+  resolvedBy: z.object({ id: z.string(), name: z.string().nullable(), email: z.string() }).nullable(),
+  gallery: z.object({
+    id: z.string(),
+    title: z.string(),
+    isPublic: z.boolean(),
+    hiddenAt: NullableDateSchema,
+    moderationReason: z.string().nullable(),
+    user: z.object({ id: z.string(), name: z.string().nullable(), email: z.string() }),
+  }).nullable(),
+  image: z.object({
+    id: z.string(),
+    title: z.string(),
+    url: z.string(),
+    hiddenAt: NullableDateSchema,
+    moderationReason: z.string().nullable(),
+    user: z.object({ id: z.string(), name: z.string().nullable(), email: z.string() }),
+  }).nullable(),
+});
+
+export type ReportReason = z.infer<typeof ReportReasonSchema>;
+export type ReportStatus = z.infer<typeof ReportStatusSchema>;
+export type ModerationAction = z.infer<typeof ModerationActionSchema>;
+export type CreateReport = z.infer<typeof CreateReportSchema>;
+export type ResolveReport = z.infer<typeof ResolveReportSchema>;
+export type ReportQuery = z.infer<typeof ReportQuerySchema>;
+export type Report = z.infer<typeof ReportSchema>;
+
 /**
  * API Response Schemas
  */
@@ -249,13 +1065,43 @@ export const createPaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema
     meta: PaginationMetaSchema,
   });
 
+// Metadata of a page fetched with a cursor; pass nextCursor back as `cursor` for the next page
+export const CursorPaginationMetaSchema = z.object({
+  perPage: z.number().int().positive(),
+  hasNextPage: z.boolean(),
+  nextCursor: z.string().nullable(),
+});
+
+export const createCursorPaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  z.object({
+    data: z.array(itemSchema),
+    meta: CursorPaginationMetaSchema,
+  });
+
+// Facet counts returned alongside image search results
+export const FacetCountSchema = z.object({
+  value: z.string(),
+  count: z.number().int().nonnegative(),
+});
+
+export const SearchFacetsSchema = z.object({
+  tags: z.array(FacetCountSchema),
+  years: z.array(FacetCountSchema),
+  cameras: z.array(FacetCountSchema),
+});
+
+export type FacetCount = z.infer<typeof FacetCountSchema>;
+export type SearchFacets = z.infer<typeof SearchFacetsSchema>;
+
 // Helper to create typed API success response schemas
 export const GalleryResponseSchema = createApiSuccessSchema(GallerySchema);
 export const FullGalleryResponseSchema = createApiSuccessSchema(FullGallerySchema);
 export const ImageResponseSchema = createApiSuccessSchema(ImageSchema);
 export const UserResponseSchema = createApiSuccessSchema(UserSchema);
 export const PaginatedImagesResponseSchema = createApiSuccessSchema(
-  createPaginatedResponseSchema(ImageSchema)
+  createPaginatedResponseSchema(ImageSchema).extend({
+    facets: SearchFacetsSchema.optional(),
+  })
 );
 export const PaginatedUsersResponseSchema = createApiSuccessSchema(
   createPaginatedResponseSchema(UserSchema)
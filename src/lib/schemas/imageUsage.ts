@@ -13,7 +13,9 @@ export const GalleryReferenceSchema = z.object({
 
 // Schema for image usage response
 export const ImageUsageSchema = z.object({
-  galleries: z.array(GalleryReferenceSchema).default([])
+  galleries: z.array(GalleryReferenceSchema).default([]),
+  // How long the image stays restorable in the trash once deleted
+  retentionDays: z.number().int().optional()
 });
 
 // Schema for API response with image usage data
@@ -0,0 +1,295 @@
+/**
+ * Full-text image search backed by SQLite FTS5
+ *
+ * The ImageSearch virtual table holds one document per image with its title,
+ * description, tag names, gallery titles/descriptions and EXIF text. Triggers
+ * keep it in sync with every write Prisma makes, so no application code has to
+ * remember to reindex. The same statements ship as a migration; they are also
+ * applied on first use because `prisma db push` skips raw SQL.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { search as searchConfig } from '@/lib/config';
+import logger from '@/lib/logger';
+import { parseSearchQuery } from '@/lib/utils/searchQuery';
+import { resolveTagNames, tagOrDescendantsFilter } from '@/lib/tags';
+
+// Document text for the images selected by the WHERE clause appended to this query
+const SELECT_DOCUMENTS = `
+  SELECT
+    i."id",
+    i."userId",
+    i."title",
+    COALESCE(i."description", ''),
+    COALESCE((
+      SELECT group_concat(t."name", ' ')
+      FROM "_ImageToTag" it JOIN "Tag" t ON t."id" = it."B"
+      WHERE it."A" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT group_concat(COALESCE(g."title", '') || ' ' || COALESCE(g."description", '') || ' ' || COALESCE(ig."description", ''), ' ')
+      FROM "ImageInGallery" ig JOIN "Gallery" g ON g."id" = ig."galleryId"
+      WHERE ig."imageId" = i."id"
+    ), ''),
+    COALESCE((
+      SELECT COALESCE(m."cameraMake", '') || ' ' || COALESCE(m."cameraModel", '') || ' ' || COALESCE(m."lensModel", '') || ' ' ||
+        COALESCE(m."caption", '') || ' ' || COALESCE(m."keywords", '') || ' ' || COALESCE(m."artist", '') || ' ' || COALESCE(m."copyright", '')
+      FROM "ImageMetadata" m
+      WHERE m."imageId" = i."id"
+    ), '')
+  FROM "Image" i`;
+
+const INSERT_DOCUMENTS = `INSERT INTO "ImageSearch" ("imageId", "userId", "title", "description", "tags", "galleries", "exif")${SELECT_DOCUMENTS}`;
+
+// Rebuild the documents of the images whose ids the given subquery returns
+function refresh(imageIds: string): string {
+  return `DELETE FROM "ImageSearch" WHERE "imageId" IN (${imageIds});
+    ${INSERT_DOCUMENTS} WHERE i."id" IN (${imageIds});`;
+}
+
+function trigger(name: string, event: string, body: string): string {
+  return `CREATE TRIGGER IF NOT EXISTS "${name}" ${event} BEGIN
+    ${body}
+  END`;
+}
+
+/**
+ * Statements that create and maintain the search index
+ * Keep in sync with prisma/migrations/20250616090000_image_search/migration.sql
+ */
+export const SEARCH_INDEX_STATEMENTS = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS "ImageSearch" USING fts5(
+    "imageId" UNINDEXED,
+    "userId" UNINDEXED,
+    "title",
+    "description",
+    "tags",
+    "galleries",
+    "exif",
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  )`,
+  trigger('ImageSearch_image_insert', 'AFTER INSERT ON "Image"', refresh('NEW."id"')),
+  trigger('ImageSearch_image_update', 'AFTER UPDATE OF "title", "description", "userId" ON "Image"', refresh('NEW."id"')),
+  trigger('ImageSearch_image_delete', 'AFTER DELETE ON "Image"', `DELETE FROM "ImageSearch" WHERE "imageId" = OLD."id";`),
+  trigger('ImageSearch_tag_link', 'AFTER INSERT ON "_ImageToTag"', refresh('NEW."A"')),
+  trigger('ImageSearch_tag_unlink', 'AFTER DELETE ON "_ImageToTag"', refresh('OLD."A"')),
+  trigger('ImageSearch_tag_rename', 'AFTER UPDATE OF "name" ON "Tag"', refresh('SELECT "A" FROM "_ImageToTag" WHERE "B" = NEW."id"')),
+  trigger('ImageSearch_gallery_link', 'AFTER INSERT ON "ImageInGallery"', refresh('NEW."imageId"')),
+  trigger('ImageSearch_gallery_link_update', 'AFTER UPDATE OF "description" ON "ImageInGallery"', refresh('NEW."imageId"')),
+  trigger('ImageSearch_gallery_unlink', 'AFTER DELETE ON "ImageInGallery"', refresh('OLD."imageId"')),
+  trigger('ImageSearch_gallery_update', 'AFTER UPDATE OF "title", "description" ON "Gallery"', refresh('SELECT "imageId" FROM "ImageInGallery" WHERE "galleryId" = NEW."id"')),
+  trigger('ImageSearch_metadata_insert', 'AFTER INSERT ON "ImageMetadata"', refresh('NEW."imageId"')),
+  trigger('ImageSearch_metadata_update', 'AFTER UPDATE ON "ImageMetadata"', refresh('NEW."imageId"')),
+  trigger('ImageSearch_metadata_delete', 'AFTER DELETE ON "ImageMetadata"', refresh('OLD."imageId"')),
+];
+
+// Index every existing image; only needed when the index is first created
+export const SEARCH_INDEX_BACKFILL = INSERT_DOCUMENTS;
+
+let searchIndexReady: Promise<boolean> | null = null;
+
+/**
+ * Make sure the search index exists, creating and filling it if needed
+ * @returns false if full-text search is unavailable (e.g., SQLite built without FTS5)
+ */
+export function ensureSearchIndex(): Promise<boolean> {
+  if (!searchIndexReady) {
+    searchIndexReady = (async () => {
+      try {
+        const existing = await prisma.$queryRaw<{ name: string }[]>`
+          SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'ImageSearch'
+        `;
+        if (existing.length > 0) {
+          return true;
+        }
+        await prisma.$transaction([
+          ...SEARCH_INDEX_STATEMENTS.map(statement => prisma.$executeRawUnsafe(statement)),
+          prisma.$executeRawUnsafe(SEARCH_INDEX_BACKFILL),
+        ]);
+        logger.log('Created full-text search index');
+        return true;
+      } catch (error) {
+        logger.error('Full-text search is unavailable, falling back to substring matching:', error);
+        return false;
+      }
+    })();
+  }
+  return searchIndexReady;
+}
+
+/**
+ * Find a user's images matching an FTS5 expression
+ * @returns Image ids mapped to their relevance position (0 = best match)
+ */
+async function matchImageIds(userId: string, expression: string): Promise<Map<string, number>> {
+  // Column weights: title, description, tags, galleries, exif (id columns are unindexed)
+  const rows = await prisma.$queryRaw<{ imageId: string }[]>`
+    SELECT "imageId" FROM "ImageSearch"
+    WHERE "ImageSearch" MATCH ${expression} AND "userId" = ${userId}
+    ORDER BY bm25("ImageSearch", 0, 0, 10.0, 4.0, 6.0, 2.0, 3.0)
+    LIMIT ${searchConfig.maxResults}
+  `;
+  return new Map(rows.map((row, index) => [row.imageId, index]));
+}
+
+export interface ImageSearchParams {
+  query?: string;
+  // Images must have every one of these tags (or a descendant of it)
+  allTags?: string[];
+  // Images must have at least one of these tags
+  anyTags?: string[];
+  // Images must have none of these tags
+  excludeTags?: string[];
+  camera?: string;
+  // Date range applied to the capture date, or the upload date for images without one
+  from?: Date;
+  to?: Date;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ImageSearchFacets {
+  tags: FacetCount[];
+  years: FacetCount[];
+  cameras: FacetCount[];
+}
+
+/**
+ * Build the Prisma filter for a search
+ * @returns The filter, relevance positions when a text query was given, and whether the
+ *   filter narrows the user's images down at all
+ */
+export async function buildImageSearchFilter(
+  userId: string,
+  params: ImageSearchParams
+): Promise<{ where: Prisma.ImageWhereInput; ranks: Map<string, number> | null; filtered: boolean }> {
+  const conditions: Prisma.ImageWhereInput[] = [{ userId, deletedAt: null }];
+  let ranks: Map<string, number> | null = null;
+
+  const { include, exclude } = parseSearchQuery(params.query);
+  if (include || exclude) {
+    if (await ensureSearchIndex()) {
+      if (include) {
+        ranks = await matchImageIds(userId, include);
+        conditions.push({ id: { in: Array.from(ranks.keys()) } });
+      }
+      if (exclude) {
+        conditions.push({ id: { notIn: Array.from((await matchImageIds(userId, exclude)).keys()) } });
+      }
+    } else if (params.query?.trim()) {
+      const text = params.query.trim();
+      conditions.push({
+        OR: [
+          { title: { contains: text } },
+          { description: { contains: text } },
+          { tags: { some: { name: { contains: text } } } },
+        ],
+      });
+    }
+  }
+
+  // Tag filters resolve aliases and match descendants ("travel" includes "travel/japan")
+  for (const tag of await resolveTagNames(userId, params.allTags ?? [])) {
+    conditions.push({ tags: { some: tagOrDescendantsFilter([tag]) } });
+  }
+  const anyTags = await resolveTagNames(userId, params.anyTags ?? []);
+  if (anyTags.length) {
+    conditions.push({ tags: { some: tagOrDescendantsFilter(anyTags) } });
+  }
+  const excludeTags = await resolveTagNames(userId, params.excludeTags ?? []);
+  if (excludeTags.length) {
+    conditions.push({ tags: { none: tagOrDescendantsFilter(excludeTags) } });
+  }
+  if (params.camera) {
+    conditions.push({ metadata: { is: { cameraModel: params.camera } } });
+  }
+  if (params.from || params.to) {
+    const range = { gte: params.from, lte: params.to };
+    conditions.push({
+      OR: [
+        { metadata: { is: { capturedAt: range } } },
+        {
+          createdAt: range,
+          OR: [{ metadata: { is: null } }, { metadata: { is: { capturedAt: null } } }],
+        },
+      ],
+    });
+  }
+
+  return { where: { AND: conditions }, ranks, filtered: conditions.length > 1 };
+}
+
+function toFacetCounts(counts: Map<string, number>, limit: number): FacetCount[] {
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
+
+// Year of an image's capture date, or its upload date when it has none. Prisma stores dates
+// as milliseconds, while rows written by SQL defaults hold text timestamps.
+const IMAGE_YEAR = Prisma.sql`
+  CASE typeof(COALESCE(m."capturedAt", i."createdAt"))
+    WHEN 'text' THEN strftime('%Y', COALESCE(m."capturedAt", i."createdAt"))
+    ELSE strftime('%Y', COALESCE(m."capturedAt", i."createdAt") / 1000, 'unixepoch')
+  END
+`;
+
+/**
+ * Count a user's images per year in the database
+ * @param ids Only count these images; null counts every image outside the trash
+ */
+async function countImagesPerYear(userId: string, ids: string[] | null): Promise<FacetCount[]> {
+  const rows = await prisma.$queryRaw<{ year: string | null; count: bigint | number }[]>`
+    SELECT ${IMAGE_YEAR} AS "year", COUNT(*) AS "count"
+    FROM "Image" i
+    LEFT JOIN "ImageMetadata" m ON m."imageId" = i."id"
+    WHERE i."userId" = ${userId} AND i."deletedAt" IS NULL
+    ${ids ? Prisma.sql`AND i."id" IN (SELECT value FROM json_each(${JSON.stringify(ids)}))` : Prisma.empty}
+    GROUP BY "year"
+    ORDER BY "year" DESC
+  `;
+  return rows
+    .filter((row): row is { year: string; count: bigint | number } => row.year !== null)
+    .map(row => ({ value: row.year, count: Number(row.count) }));
+}
+
+/**
+ * Count matching images per tag, capture year and camera
+ * @param filtered Whether `where` narrows the user's images down beyond leaving out the trash
+ */
+export async function getImageSearchFacets(
+  userId: string,
+  where: Prisma.ImageWhereInput,
+  filtered: boolean
+): Promise<ImageSearchFacets> {
+  // Years are grouped in SQL; searches first narrow the images down to the matching ids
+  const matchingIds = filtered
+    ? (await prisma.image.findMany({ where, select: { id: true } })).map(image => image.id)
+    : null;
+
+  const [tags, cameras, years] = await Promise.all([
+    prisma.tag.findMany({
+      where: { images: { some: where } },
+      select: { name: true, _count: { select: { images: { where } } } },
+    }),
+    prisma.imageMetadata.groupBy({
+      by: ['cameraModel'],
+      where: { cameraModel: { not: null }, image: where },
+      _count: { _all: true },
+    }),
+    countImagesPerYear(userId, matchingIds),
+  ]);
+
+  return {
+    tags: toFacetCounts(new Map(tags.map(tag => [tag.name, tag._count.images])), searchConfig.facetLimit),
+    years,
+    cameras: toFacetCounts(
+      new Map(cameras.map(camera => [camera.cameraModel as string, camera._count._all])),
+      searchConfig.facetLimit
+    ),
+  };
+}
@@ -214,6 +214,26 @@ describe('ImageService', () => {
     );
   });
 
+  it('should apply a bulk operation to several images', async () => {
+    mockFetchApi.mockResolvedValueOnce({
+      success: true,
+      data: { results: [{ id: 'image1', status: 'updated' }], images: [mockImage] }
+    });
+
+    const outcome = await ImageService.bulkUpdateImages(['image1'], { action: 'addTags', tags: ['travel'] });
+
+    expect(mockFetchApi).toHaveBeenCalledWith(
+      '/api/images/bulk',
+      {
+        method: 'POST',
+        body: JSON.stringify({ imageIds: ['image1'], operation: { action: 'addTags', tags: ['travel'] } }),
+        signal: undefined
+      },
+      expect.any(Object)
+    );
+    expect(outcome.results).toEqual([{ id: 'image1', status: 'updated' }]);
+  });
+
   it('should get images for a user', async () => {
     const result = await ImageService.getUserImages('user1');
     
@@ -225,7 +245,33 @@ describe('ImageService', () => {
     expect(Array.isArray(result)).toBeTruthy();
     expect(result.length).toBe(1);
   });
-  
+
+  it('should check a file for duplicates by its hashes', async () => {
+    const hashes = { contentHash: 'a'.repeat(64), perceptualHash: '0123456789abcdef' };
+    mockFetchApi.mockResolvedValueOnce({
+      success: true,
+      data: [{ image: mockImage, exact: true, distance: 0 }]
+    });
+
+    const result = await ImageService.checkDuplicates(hashes);
+
+    expect(mockFetchApi).toHaveBeenCalledWith(
+      '/api/images/duplicates',
+      {
+        method: 'POST',
+        body: JSON.stringify(hashes),
+        signal: undefined
+      },
+      expect.any(Object)
+    );
+    expect(result[0].image.id).toBe('image1');
+  });
+
+  it('should reject malformed hashes before checking for duplicates', async () => {
+    await expect(ImageService.checkDuplicates({ contentHash: 'not-a-hash' })).rejects.toThrow();
+    expect(mockFetchApi).not.toHaveBeenCalled();
+  });
+
   describe('uploadAndCreateImage', () => {
     it('should upload a file and create an image', async () => {
       const file = new File(['dummy content'], 'test.jpg', { type: 'image/jpeg' });
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { UploadSessionService, getFileFingerprint } from '@/lib/services/uploadSessionService';
+
+// Minimal localStorage so pending uploads can be remembered between calls
+const storage = new Map<string, string>();
+Object.defineProperty(global, 'window', {
+  value: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    },
+  },
+  configurable: true,
+});
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+}) as Response;
+
+const session = (receivedBytes: number) => ({
+  id: 'session1',
+  fileName: 'photo.jpg',
+  mimeType: 'image/jpeg',
+  size: 10,
+  chunkSize: 4,
+  receivedBytes,
+  fingerprint: 'photo.jpg:10:1000',
+  expiresAt: new Date(Date.now() + 60_000).toISOString(),
+});
+
+const uploadResult = { url: '/uploads/photo.jpg', variants: [], metadata: null };
+
+describe('UploadSessionService', () => {
+  const file = new File(['0123456789'], 'photo.jpg', { type: 'image/jpeg', lastModified: 1000 });
+
+  beforeEach(() => {
+    storage.clear();
+    mockFetch.mockReset();
+  });
+
+  it('should upload a file in checksummed chunks and report byte progress', async () => {
+    let received = 0;
+    mockFetch.mockImplementation(async (url, init) => {
+      if (url === '/api/upload/sessions') return jsonResponse({ success: true, data: session(0) }, 201);
+      if (init?.method === 'PUT') {
+        received += (init.body as ArrayBuffer).byteLength;
+        return jsonResponse({ success: true, data: session(received) });
+      }
+      return jsonResponse({ success: true, data: uploadResult });
+    });
+    const onProgress = jest.fn();
+
+    const result = await UploadSessionService.uploadFile(file, { onProgress });
+
+    expect(result.url).toBe('/uploads/photo.jpg');
+    const chunkCalls = mockFetch.mock.calls.filter(([, init]) => init?.method === 'PUT');
+    expect(chunkCalls.map(([, init]) => (init!.headers as Record<string, string>)['Upload-Offset'])).toEqual(['0', '4', '8']);
+    expect((chunkCalls[0][1]!.headers as Record<string, string>)['Upload-Checksum'])
+      .toBe(`sha256 ${createHash('sha256').update('0123').digest('hex')}`);
+    expect(onProgress.mock.calls.map(([bytes]) => bytes)).toEqual([0, 4, 8, 10]);
+    expect(UploadSessionService.getPendingUploads()).toEqual([]);
+  });
+
+  it('should resume a remembered session from the bytes the server already has', async () => {
+    UploadSessionService.savePendingUpload({
+      fingerprint: getFileFingerprint(file),
+      sessionId: 'session1',
+      fileName: 'photo.jpg',
+      size: 10,
+      receivedBytes: 8,
+      title: 'Photo',
+      description: '',
+      tags: [],
+    });
+    mockFetch.mockImplementation(async (url, init) => {
+      if (url === '/api/upload/sessions/session1' && !init?.method) return jsonResponse({ success: true, data: session(8) });
+      if (init?.method === 'PUT') return jsonResponse({ success: true, data: session(10) });
+      return jsonResponse({ success: true, data: uploadResult });
+    });
+
+    await UploadSessionService.uploadFile(file);
+
+    expect(mockFetch).not.toHaveBeenCalledWith('/api/upload/sessions', expect.anything());
+    const chunkCalls = mockFetch.mock.calls.filter(([, init]) => init?.method === 'PUT');
+    expect(chunkCalls).toHaveLength(1);
+    expect((chunkCalls[0][1]!.headers as Record<string, string>)['Upload-Offset']).toBe('8');
+  });
+
+  it('should resend a chunk the server rejected and give up after repeated failures', async () => {
+    mockFetch.mockImplementation(async (url, init) => {
+      if (url === '/api/upload/sessions') return jsonResponse({ success: true, data: session(0) }, 201);
+      if (init?.method === 'PUT') {
+        return jsonResponse({ success: false, error: 'Chunk checksum mismatch', details: { receivedBytes: 0 } }, 460);
+      }
+      return jsonResponse({ success: true, data: uploadResult });
+    });
+
+    await expect(UploadSessionService.uploadFile(file)).rejects.toThrow('kept rejecting a chunk');
+    expect(mockFetch.mock.calls.filter(([, init]) => init?.method === 'PUT')).toHaveLength(3);
+    // The session is kept so the upload can be resumed later
+    expect(UploadSessionService.findPendingUpload(file)?.sessionId).toBe('session1');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Audit log service for the admin audit page
+ */
+import { fetchApi } from '@/lib/apiUtils';
+import {
+  AuditEventSchema,
+  createPaginatedResponseSchema,
+  type AuditEvent,
+  type AuditEventQuery,
+} from '@/lib/schemas';
+
+const PaginatedAuditEventsSchema = createPaginatedResponseSchema(AuditEventSchema);
+
+export type AuditEventFilters = Partial<Omit<AuditEventQuery, 'limit'>>;
+
+function toSearchParams(filters: AuditEventFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
+
+export const AuditService = {
+  /**
+   * A page of audit events matching the filters, newest first
+   */
+  async getEvents(filters: AuditEventFilters, signal?: AbortSignal): Promise<{
+    events: AuditEvent[];
+    total: number;
+    lastPage: number;
+  }> {
+    const { data, meta } = await fetchApi(`/api/audit?${toSearchParams(filters)}`, { signal }, PaginatedAuditEventsSchema);
+    return { events: data, total: meta.total, lastPage: meta.lastPage };
+  },
+
+  /**
+   * Download link for every event matching the filters, as CSV
+   */
+  exportUrl(filters: AuditEventFilters): string {
+    const params = toSearchParams({ ...filters, page: undefined });
+    params.set('format', 'csv');
+    return `/api/audit?${params}`;
+  }
+};
@@ -5,30 +5,63 @@
 import { z } from 'zod';
 import { fetchApi } from '@/lib/apiUtils';
 import { 
-  GallerySchema,
   CreateGallerySchema,
   UpdateGallerySchema,
   FullGallerySchema,
-  createPaginatedResponseSchema
+  GalleryShareLinkSchema,
+  createCursorPaginatedResponseSchema,
+  GallerySummarySchema,
+  GalleryMemberSchema,
+  GalleryInvitationSchema,
+  GalleryMembersResponseSchema,
+  type CreateShareLink,
+  type GalleryShareLink,
+  type GalleryListQuery,
+  type GallerySummary,
+  type GalleryInvitation,
+  type GalleryMember,
+  type GalleryMembersResponse,
+  type GalleryRole,
+  type InviteGalleryMember
 } from '@/lib/schemas';
 
 // Types derived from schemas
 type GalleryCreationData = z.infer<typeof CreateGallerySchema>;
 type GalleryUpdateData = z.infer<typeof UpdateGallerySchema>;
 type FullGallery = z.infer<typeof FullGallerySchema>;
-// Schema for paginated gallery responses
-createPaginatedResponseSchema(GallerySchema);
+// Schema for pages of gallery summaries
+const GallerySummaryPageSchema = createCursorPaginatedResponseSchema(GallerySummarySchema);
+export type GallerySummaryPage = z.infer<typeof GallerySummaryPageSchema>;
 
 /**
  * Service for interacting with the gallery API
  */
 export const GalleryService = {
   /**
-   * Get all galleries with optional filtering
+   * Get a page of gallery summaries; pass the previous page's meta.nextCursor for the next one
    */
-  async getGalleries(includePrivate = false): Promise<FullGallery[]> {
-    const url = `/api/galleries${includePrivate ? '?includePrivate=true' : ''}`;
-    return fetchApi(url, {}, z.array(FullGallerySchema));
+  async getGallerySummaries(query: Partial<GalleryListQuery> = {}, signal?: AbortSignal): Promise<GallerySummaryPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+    return fetchApi(`/api/galleries?${params}`, { signal }, GallerySummaryPageSchema);
+  },
+
+  /**
+   * Get every gallery summary in a scope, page by page, e.g. for pickers
+   */
+  async getAllGallerySummaries(query: Partial<Omit<GalleryListQuery, 'cursor' | 'limit'>> = {}): Promise<GallerySummary[]> {
+    const summaries: GallerySummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getGallerySummaries({ ...query, cursor, limit: 100 });
+      summaries.push(...page.data);
+      cursor = page.meta.nextCursor ?? undefined;
+    } while (cursor);
+    return summaries;
   },
 
   /**
@@ -150,4 +183,94 @@ export const GalleryService = {
       images: updatedImages
     });
   },
+
+  /**
+   * List a gallery's share links (owner only)
+   */
+  async getShareLinks(galleryId: string): Promise<GalleryShareLink[]> {
+    return fetchApi(`/api/galleries/${galleryId}/share-links`, {}, z.array(GalleryShareLinkSchema));
+  },
+
+  /**
+   * Create an unlisted share link, optionally with a password, expiry date or view limit
+   */
+  async createShareLink(galleryId: string, data: CreateShareLink): Promise<GalleryShareLink> {
+    return fetchApi(`/api/galleries/${galleryId}/share-links`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    }, GalleryShareLinkSchema);
+  },
+
+  /**
+   * Revoke a share link so it can no longer be opened
+   */
+  async revokeShareLink(galleryId: string, linkId: string): Promise<GalleryShareLink> {
+    return fetchApi(`/api/galleries/${galleryId}/share-links/${linkId}`, {
+      method: 'DELETE'
+    }, GalleryShareLinkSchema);
+  },
+
+  /**
+   * Open a share link as a visitor, which counts a view and grants access to /s/[token]
+   */
+  async openShareLink(token: string, password?: string): Promise<{ url: string }> {
+    return fetchApi(`/api/share/${token}`, {
+      method: 'POST',
+      body: JSON.stringify({ password })
+    }, z.object({ url: z.string() }));
+  },
+
+  /**
+   * Get a gallery's members and pending invitations (owner only)
+   */
+  async getMembers(galleryId: string): Promise<GalleryMembersResponse> {
+    return fetchApi(`/api/galleries/${galleryId}/members`, {}, GalleryMembersResponseSchema);
+  },
+
+  /**
+   * Invite someone to a gallery by email
+   */
+  async inviteMember(galleryId: string, data: InviteGalleryMember): Promise<GalleryInvitation> {
+    return fetchApi(`/api/galleries/${galleryId}/members`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    }, GalleryInvitationSchema);
+  },
+
+  /**
+   * Change a member's role
+   */
+  async updateMember(galleryId: string, memberId: string, role: GalleryRole): Promise<GalleryMember> {
+    return fetchApi(`/api/galleries/${galleryId}/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role })
+    }, GalleryMemberSchema);
+  },
+
+  /**
+   * Remove a member, or leave a gallery when it's the current user's membership
+   */
+  async removeMember(galleryId: string, memberId: string): Promise<void> {
+    await fetchApi(`/api/galleries/${galleryId}/members/${memberId}`, {
+      method: 'DELETE'
+    }, z.object({ id: z.string() }));
+  },
+
+  /**
+   * Cancel a pending invitation
+   */
+  async cancelInvitation(galleryId: string, invitationId: string): Promise<void> {
+    await fetchApi(`/api/galleries/${galleryId}/invitations/${invitationId}`, {
+      method: 'DELETE'
+    }, z.object({ id: z.string() }));
+  },
+
+  /**
+   * Accept an emailed invitation as the logged-in user
+   */
+  async acceptInvitation(token: string): Promise<{ galleryId: string }> {
+    return fetchApi(`/api/invitations/${token}`, {
+      method: 'POST'
+    }, z.object({ galleryId: z.string() }));
+  },
 };
@@ -12,45 +12,72 @@ import { z } from 'zod';
 import { fetchApi } from '@/lib/apiUtils';
 import { 
   ImageSchema,
+  UploadResultSchema,
   CreateImageSchema, 
+  DuplicateCheckSchema,
+  DuplicateMatchSchema,
+  DuplicateClusterSchema,
   UpdateImageSchema,
   PaginatedImagesResponseSchema,
   FlexibleImagesResponseSchema,
-  ImageResponseSchema 
+  ImageResponseSchema,
+  TagSchema,
+  TagDetailsSchema,
+  UpdateTagSchema,
+  BulkImageResponseSchema,
+  ImageVersionSchema,
+  type BulkImageAction,
+  type ImageEditRecipe,
+  type ImageVersion,
+  type TagDetails
 } from '@/lib/schemas';
 
 // Additional tag-related schemas
-const TagSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  _count: z.object({
-    images: z.number()
-  }).optional()
-});
-
 const TagsResponseSchema = z.object({
   success: z.literal(true),
-  data: z.array(TagSchema)
+  data: z.array(TagDetailsSchema)
 });
 
 const TagResponseSchema = z.object({
+  success: z.literal(true),
+  data: TagDetailsSchema
+});
+
+const MergedTagResponseSchema = z.object({
   success: z.literal(true),
   data: TagSchema
 });
 
+const TagDeletedResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ message: z.string() })
+});
+
 // Type definitions derived from schemas
 export type Image = z.infer<typeof ImageSchema>;
 export type CreateImageData = z.infer<typeof CreateImageSchema>;
 export type UpdateImageData = z.infer<typeof UpdateImageSchema>;
 export type PaginatedImages = z.infer<typeof PaginatedImagesResponseSchema>['data'];
-export type Tag = z.infer<typeof TagSchema>;
+export type Tag = TagDetails;
+export type BulkImageOutcome = z.infer<typeof BulkImageResponseSchema>;
+export type DuplicateCheck = z.infer<typeof DuplicateCheckSchema>;
+export type DuplicateMatch = z.infer<typeof DuplicateMatchSchema>;
+export type DuplicateCluster = z.infer<typeof DuplicateClusterSchema>;
 
 // Upload response schema
 const UploadResponseSchema = z.object({
   success: z.boolean(),
-  data: z.object({
-    url: z.string()
-  })
+  data: UploadResultSchema
+});
+
+const DuplicateMatchesResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(DuplicateMatchSchema)
+});
+
+const DuplicateClustersResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(DuplicateClusterSchema)
 });
 
 // User images response schema - ensures the API response
@@ -60,8 +87,28 @@ const UserImagesResponseSchema = z.object({
   data: z.array(ImageSchema)
 });
 
+const BulkImageOperationResponseSchema = z.object({
+  success: z.literal(true),
+  data: BulkImageResponseSchema
+});
+
+const ImageVersionsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(ImageVersionSchema)
+});
+
+const ImageVersionResponseSchema = z.object({
+  success: z.literal(true),
+  data: ImageVersionSchema
+});
+
 export type UploadResponse = z.infer<typeof UploadResponseSchema>;
 
+export interface UploadOptions {
+  // Remove GPS location data from the stored file
+  stripGps?: boolean;
+}
+
 /**
  * Service for interacting with the image API
  */
@@ -73,12 +120,30 @@ export const ImageService = {
   async getImages(params?: { 
     searchQuery?: string; 
     tag?: string; 
+    // Tag filters: all of `tags`, at least one of `anyTags`, none of `excludeTags`
+    tags?: string[];
+    anyTags?: string[];
+    excludeTags?: string[];
+    camera?: string;
+    // Inclusive capture date range as YYYY-MM-DD
+    from?: string;
+    to?: string;
+    sortBy?: 'relevance' | 'createdAt' | 'title' | 'updatedAt';
+    sortDir?: 'asc' | 'desc';
     page?: number;
     limit?: number;
   }, signal?: AbortSignal): Promise<PaginatedImages> {
     const queryParams = new URLSearchParams();
     if (params?.searchQuery) queryParams.set('searchQuery', params.searchQuery);
     if (params?.tag) queryParams.set('tag', params.tag);
+    if (params?.tags?.length) queryParams.set('tags', params.tags.join(','));
+    if (params?.anyTags?.length) queryParams.set('anyTags', params.anyTags.join(','));
+    if (params?.excludeTags?.length) queryParams.set('excludeTags', params.excludeTags.join(','));
+    if (params?.camera) queryParams.set('camera', params.camera);
+    if (params?.from) queryParams.set('from', params.from);
+    if (params?.to) queryParams.set('to', params.to);
+    if (params?.sortBy) queryParams.set('sortBy', params.sortBy);
+    if (params?.sortDir) queryParams.set('sortDir', params.sortDir);
     if (params?.page) queryParams.set('page', params.page.toString());
     if (params?.limit) queryParams.set('limit', params.limit.toString());
 
@@ -110,17 +175,21 @@ export const ImageService = {
   /**
    * Upload a file and create an image record
    * This is a two-step process:
-   * 1. Upload the file to get a URL
-   * 2. Create an image record with the URL
+   * 1. Upload the file to get a URL (the server keeps its generated variants and metadata)
+   * 2. Create an image record from the URL
    */
   async uploadAndCreateImage(
     file: File, 
     imageData: Omit<CreateImageData, 'url'>,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: UploadOptions = {}
   ): Promise<Image> {
     // Step 1: Upload file
     const formData = new FormData();
     formData.append('file', file);
+    if (options.stripGps) {
+      formData.append('stripGps', 'true');
+    }
     
     const uploadResponse = await fetch('/api/upload', {
       method: 'POST',
@@ -143,6 +212,30 @@ export const ImageService = {
     }, signal);
   },
 
+  /**
+   * Find images in the library that match a file about to be uploaded
+   * @param hashes Fingerprints computed in the browser with computeFileHashes
+   * @returns Exact matches first, then near-duplicates ordered by similarity
+   */
+  async checkDuplicates(hashes: DuplicateCheck, signal?: AbortSignal): Promise<DuplicateMatch[]> {
+    DuplicateCheckSchema.parse(hashes);
+
+    const response = await fetchApi('/api/images/duplicates', {
+      method: 'POST',
+      body: JSON.stringify(hashes),
+      signal
+    }, DuplicateMatchesResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Get clusters of identical or near-identical images in the library
+   */
+  async getDuplicateClusters(signal?: AbortSignal): Promise<DuplicateCluster[]> {
+    const response = await fetchApi('/api/images/duplicates', { signal }, DuplicateClustersResponseSchema);
+    return response.data;
+  },
+
   /**
    * Create a new image
    */
@@ -185,6 +278,50 @@ export const ImageService = {
     });
   },
 
+  /**
+   * Get an image's version history, oldest first; empty until the image is first edited
+   */
+  async getImageVersions(id: string, signal?: AbortSignal): Promise<ImageVersion[]> {
+    const response = await fetchApi(`/api/images/${id}/versions`, { signal }, ImageVersionsResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Apply an edit recipe to the original image, rendering a new current version
+   */
+  async editImage(id: string, recipe: ImageEditRecipe, signal?: AbortSignal): Promise<ImageVersion> {
+    const response = await fetchApi(`/api/images/${id}/versions`, {
+      method: 'POST',
+      body: JSON.stringify(recipe),
+      signal
+    }, ImageVersionResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Make an earlier version the one the image shows
+   */
+  async revertImageVersion(id: string, versionId: string, signal?: AbortSignal): Promise<ImageVersion> {
+    const response = await fetchApi(`/api/images/${id}/versions/${versionId}/revert`, {
+      method: 'POST',
+      signal
+    }, ImageVersionResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Apply one action (add/remove tags, set description, add to gallery, delete) to several images
+   * Changes are all-or-nothing; images that don't exist or aren't the user's come back as not_found.
+   */
+  async bulkUpdateImages(imageIds: string[], operation: BulkImageAction, signal?: AbortSignal): Promise<BulkImageOutcome> {
+    const response = await fetchApi('/api/images/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ imageIds, operation }),
+      signal
+    }, BulkImageOperationResponseSchema);
+    return response.data;
+  },
+
   /**
    * Get user images by user ID (requires auth)
    */
@@ -194,7 +331,8 @@ export const ImageService = {
   },
 
   /**
-   * Get all tags used by the current user
+   * Get the current user's tags plus shared tags
+   * Image counts only include the current user's images.
    */
   async getTags(signal?: AbortSignal): Promise<Tag[]> {
     const response = await fetchApi('/api/tags', { signal }, TagsResponseSchema);
@@ -202,25 +340,51 @@ export const ImageService = {
   },
 
   /**
-   * Create a new tag
+   * Create a new tag in the current user's namespace
+   * Admins can pass `shared: true` to create a tag available to everyone.
    */
-  async createTag(name: string, signal?: AbortSignal): Promise<Tag> {
+  async createTag(name: string, options: { shared?: boolean } = {}, signal?: AbortSignal): Promise<Tag> {
     const response = await fetchApi('/api/tags', {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, shared: options.shared }),
+      signal
+    }, TagResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Rename or move a tag ("travel/japan") and/or replace its aliases
+   */
+  async updateTag(id: string, data: z.infer<typeof UpdateTagSchema>, signal?: AbortSignal): Promise<Tag> {
+    const response = await fetchApi(`/api/tags/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
       signal
     }, TagResponseSchema);
     return response.data;
   },
 
   /**
-   * Delete a tag
+   * Merge a tag into another; the source tag's name becomes an alias of the target
+   */
+  async mergeTags(sourceId: string, targetId: string, signal?: AbortSignal): Promise<z.infer<typeof TagSchema>> {
+    const response = await fetchApi(`/api/tags/${sourceId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+      signal
+    }, MergedTagResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Delete one of the current user's tags (or a shared tag, for admins)
+   * Tags with child tags can't be deleted until the children are removed or merged
    */
   async deleteTag(id: string, signal?: AbortSignal): Promise<void> {
-    await fetch(`/api/tags/${id}`, {
+    await fetchApi(`/api/tags/${id}`, {
       method: 'DELETE',
       signal
-    });
+    }, TagDeletedResponseSchema);
   },
 
   /**
@@ -0,0 +1,73 @@
+/**
+ * Import service: bulk imports from ZIP archives and server folders
+ */
+import { z } from 'zod';
+import { fetchApi } from '@/lib/apiUtils';
+import {
+  createPaginatedResponseSchema,
+  ImportItemSchema,
+  ImportJobSchema,
+  type CreateImportJob,
+  type ImportItem,
+  type ImportItemStatus,
+  type ImportJob,
+} from '@/lib/schemas';
+
+const PaginatedImportItemsSchema = createPaginatedResponseSchema(ImportItemSchema);
+
+export const ImportService = {
+  /**
+   * The user's most recent imports
+   */
+  async getJobs(signal?: AbortSignal): Promise<ImportJob[]> {
+    return fetchApi('/api/imports', { signal }, z.array(ImportJobSchema));
+  },
+
+  /**
+   * Create an import; ZIP imports start once their archive is uploaded
+   */
+  async create(data: CreateImportJob): Promise<ImportJob> {
+    return fetchApi('/api/imports', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    }, ImportJobSchema);
+  },
+
+  /**
+   * Upload the archive of a ZIP import, which starts it
+   */
+  async uploadArchive(jobId: string, archive: Blob): Promise<ImportJob> {
+    return fetchApi(`/api/imports/${jobId}/archive`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/zip' },
+      body: archive
+    }, ImportJobSchema);
+  },
+
+  /**
+   * The progress of an import
+   */
+  async getJob(jobId: string, signal?: AbortSignal): Promise<ImportJob> {
+    return fetchApi(`/api/imports/${jobId}`, { signal }, ImportJobSchema);
+  },
+
+  /**
+   * A page of per-file results, optionally only those with one status
+   */
+  async getItems(jobId: string, { status, page = 1 }: { status?: ImportItemStatus; page?: number } = {}, signal?: AbortSignal): Promise<{
+    items: ImportItem[];
+    total: number;
+    lastPage: number;
+  }> {
+    const params = new URLSearchParams({ page: String(page), ...(status && { status }) });
+    const { data, meta } = await fetchApi(`/api/imports/${jobId}/items?${params}`, { signal }, PaginatedImportItemsSchema);
+    return { items: data, total: meta.total, lastPage: meta.lastPage };
+  },
+
+  /**
+   * Stop an import; images imported so far are kept
+   */
+  async cancel(jobId: string): Promise<ImportJob> {
+    return fetchApi(`/api/imports/${jobId}`, { method: 'DELETE' }, ImportJobSchema);
+  }
+};
@@ -0,0 +1,51 @@
+/**
+ * Content moderation service: reporting content and the admin moderation queue
+ */
+import { z } from 'zod';
+import { fetchApi } from '@/lib/apiUtils';
+import {
+  createPaginatedResponseSchema,
+  ReportSchema,
+  ReportStatusSchema,
+  type CreateReport,
+  type Report,
+  type ReportStatus,
+  type ResolveReport,
+} from '@/lib/schemas';
+
+const PaginatedReportsSchema = createPaginatedResponseSchema(ReportSchema);
+
+export const ModerationService = {
+  /**
+   * Report a public gallery, or an image in one
+   */
+  async report(data: CreateReport): Promise<{ id: string; status: ReportStatus }> {
+    return fetchApi('/api/reports', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    }, z.object({ id: z.string(), status: ReportStatusSchema }));
+  },
+
+  /**
+   * A page of reports with a status, for the moderation queue (admin only)
+   */
+  async getReports(status: ReportStatus, page = 1, signal?: AbortSignal): Promise<{
+    reports: Report[];
+    total: number;
+    lastPage: number;
+  }> {
+    const params = new URLSearchParams({ status, page: String(page) });
+    const { data, meta } = await fetchApi(`/api/reports?${params}`, { signal }, PaginatedReportsSchema);
+    return { reports: data, total: meta.total, lastPage: meta.lastPage };
+  },
+
+  /**
+   * Dismiss a report, hide or unpublish the content, or restore hidden content (admin only)
+   */
+  async resolveReport(reportId: string, data: ResolveReport): Promise<Report> {
+    return fetchApi(`/api/reports/${reportId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    }, ReportSchema);
+  }
+};
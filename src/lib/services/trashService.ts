@@ -0,0 +1,38 @@
+/**
+ * Trash service: deleted images and galleries waiting to be purged
+ */
+import { z } from 'zod';
+import { fetchApi } from '@/lib/apiUtils';
+import {
+  RestoreResultSchema,
+  TrashSchema,
+  type RestoreResult,
+  type Trash,
+  type TrashTarget,
+} from '@/lib/schemas';
+
+export const TrashService = {
+  /**
+   * The user's trash, most recently deleted first
+   */
+  async getTrash(signal?: AbortSignal): Promise<Trash> {
+    return fetchApi('/api/trash', { signal }, TrashSchema);
+  },
+
+  /**
+   * Take an image or gallery out of the trash
+   */
+  async restore(target: TrashTarget): Promise<RestoreResult> {
+    return fetchApi('/api/trash/restore', {
+      method: 'POST',
+      body: JSON.stringify(target)
+    }, RestoreResultSchema);
+  },
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async empty(): Promise<{ images: number; galleries: number }> {
+    return fetchApi('/api/trash', { method: 'DELETE' }, z.object({ images: z.number(), galleries: z.number() }));
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * Upload session service for resumable chunked uploads
+ *
+ * Files are sent in chunks to /api/upload/sessions, each with a SHA-256 checksum.
+ * The session id is remembered in localStorage under a fingerprint of the file,
+ * so selecting the same file again after a reload continues where it stopped.
+ */
+import { z } from 'zod';
+import { fetchApi } from '@/lib/apiUtils';
+import logger from '@/lib/logger';
+import {
+  UploadResultSchema,
+  UploadSessionSchema,
+  type UploadResult,
+  type UploadSession,
+} from '@/lib/schemas';
+
+const UploadSessionResponseSchema = z.object({
+  success: z.literal(true),
+  data: UploadSessionSchema
+});
+
+const UploadResultResponseSchema = z.object({
+  success: z.literal(true),
+  data: UploadResultSchema
+});
+
+const PENDING_UPLOADS_KEY = 'pic-gallery:pending-uploads';
+// Checksum mismatches are usually transient corruption; retry a chunk a few times
+const MAX_CHUNK_ATTEMPTS = 3;
+
+/**
+ * Details entered for a file, kept so they can be restored when the upload is resumed
+ */
+export interface PendingUploadDetails {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export interface PendingUpload extends PendingUploadDetails {
+  fingerprint: string;
+  sessionId: string;
+  fileName: string;
+  size: number;
+  receivedBytes: number;
+}
+
+export interface ChunkedUploadOptions {
+  stripGps?: boolean;
+  // Saved alongside the session so they survive a reload
+  details?: PendingUploadDetails;
+  // Called with the number of bytes the server has confirmed
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Identify a file across page reloads
+ */
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPendingUploads(): PendingUpload[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PENDING_UPLOADS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePendingUploads(pending: PendingUpload[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(pending));
+  } catch (error) {
+    // Storage may be full or disabled; uploads still work, they just can't resume
+    logger.warn('Unable to save pending uploads:', error);
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Service for resumable chunked uploads
+ */
+export const UploadSessionService = {
+  /**
+   * Uploads that were interrupted and can be resumed by selecting the same file
+   */
+  getPendingUploads(): PendingUpload[] {
+    return readPendingUploads();
+  },
+
+  /**
+   * Find the pending upload for a file, if any
+   */
+  findPendingUpload(file: File): PendingUpload | undefined {
+    const fingerprint = getFileFingerprint(file);
+    return readPendingUploads().find(pending => pending.fingerprint === fingerprint);
+  },
+
+  savePendingUpload(pending: PendingUpload): void {
+    writePendingUploads([
+      ...readPendingUploads().filter(item => item.fingerprint !== pending.fingerprint),
+      pending
+    ]);
+  },
+
+  removePendingUpload(fingerprint: string): void {
+    writePendingUploads(readPendingUploads().filter(item => item.fingerprint !== fingerprint));
+  },
+
+  /**
+   * Start a new upload session
+   */
+  async createSession(file: File, options: { stripGps?: boolean } = {}, signal?: AbortSignal): Promise<UploadSession> {
+    const response = await fetchApi('/api/upload/sessions', {
+      method: 'POST',
+      body: JSON.stringify({
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        fingerprint: getFileFingerprint(file),
+        stripGps: !!options.stripGps
+      }),
+      signal
+    }, UploadSessionResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Get the current state of a session
+   */
+  async getSession(id: string, signal?: AbortSignal): Promise<UploadSession> {
+    const response = await fetchApi(`/api/upload/sessions/${id}`, { signal }, UploadSessionResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Send one chunk
+   * @returns The number of bytes the server has received after this chunk
+   */
+  async appendChunk(id: string, offset: number, chunk: Blob, signal?: AbortSignal): Promise<number> {
+    const data = await chunk.arrayBuffer();
+    const response = await fetch(`/api/upload/sessions/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Upload-Offset': String(offset),
+        'Upload-Checksum': `sha256 ${await sha256Hex(data)}`
+      },
+      body: data,
+      signal
+    });
+
+    const result = await response.json();
+    if (response.ok && result.success) {
+      return UploadSessionSchema.parse(result.data).receivedBytes;
+    }
+
+    // The server tells us where it actually is on offset conflicts and checksum failures
+    const receivedBytes = result?.details?.receivedBytes;
+    if ((response.status === 409 || response.status === 460) && typeof receivedBytes === 'number') {
+      return receivedBytes;
+    }
+    throw new Error(result?.error || `Chunk upload failed with status ${response.status}`);
+  },
+
+  /**
+   * Finish a session once every byte has been received
+   */
+  async completeSession(id: string, signal?: AbortSignal): Promise<UploadResult> {
+    const response = await fetchApi(`/api/upload/sessions/${id}/complete`, {
+      method: 'POST',
+      signal
+    }, UploadResultResponseSchema);
+    return response.data;
+  },
+
+  /**
+   * Abandon a session and discard its data
+   */
+  async cancelSession(id: string, signal?: AbortSignal): Promise<void> {
+    await fetch(`/api/upload/sessions/${id}`, {
+      method: 'DELETE',
+      signal
+    });
+  },
+
+  /**
+   * Upload a file in chunks, resuming a previous session for the same file when possible
+   * @returns The stored file, ready to be turned into an image record
+   */
+  async uploadFile(file: File, options: ChunkedUploadOptions = {}): Promise<UploadResult> {
+    const { signal, onProgress } = options;
+    const fingerprint = getFileFingerprint(file);
+
+    let session: UploadSession | null = null;
+    const pending = this.findPendingUpload(file);
+    if (pending) {
+      try {
+        session = await this.getSession(pending.sessionId, signal);
+      } catch (error) {
+        // Expired or unknown sessions just mean starting over
+        logger.warn(`Could not resume upload of ${file.name}, starting over:`, error);
+        this.removePendingUpload(fingerprint);
+      }
+    }
+    if (!session) {
+      session = await this.createSession(file, { stripGps: options.stripGps }, signal);
+    }
+
+    const remember = (receivedBytes: number) => this.savePendingUpload({
+      fingerprint,
+      sessionId: session!.id,
+      fileName: file.name,
+      size: file.size,
+      receivedBytes,
+      title: options.details?.title ?? '',
+      description: options.details?.description ?? '',
+      tags: options.details?.tags ?? []
+    });
+
+    let offset = session.receivedBytes;
+    remember(offset);
+    onProgress?.(offset, file.size);
+
+    let failedAttempts = 0;
+    while (offset < file.size) {
+      const end = Math.min(offset + session.chunkSize, file.size);
+      const receivedBytes = await this.appendChunk(session.id, offset, file.slice(offset, end), signal);
+
+      if (receivedBytes <= offset) {
+        failedAttempts++;
+        if (failedAttempts >= MAX_CHUNK_ATTEMPTS) {
+          throw new Error(`Upload of ${file.name} failed: the server kept rejecting a chunk`);
+        }
+      } else {
+        failedAttempts = 0;
+      }
+
+      offset = receivedBytes;
+      remember(offset);
+      onProgress?.(offset, file.size);
+    }
+
+    const result = await this.completeSession(session.id, signal);
+    this.removePendingUpload(fingerprint);
+    return result;
+  }
+};
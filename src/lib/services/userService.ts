@@ -6,7 +6,19 @@ import { z } from 'zod';
 import { fetchApi } from '@/lib/apiUtils';
 import { 
   UserSchema,
-  PaginatedUsersResponseSchema
+  PaginatedUsersResponseSchema,
+  ConnectedAccountsSchema,
+  TwoFactorStatusSchema,
+  TwoFactorSetupSchema,
+  RecoveryCodesSchema,
+  ApiTokenSchema,
+  CreatedApiTokenSchema,
+  type ConnectedAccounts,
+  type TwoFactorStatus,
+  type TwoFactorSetup,
+  type ApiToken,
+  type CreateApiToken,
+  type CreatedApiToken
 } from '@/lib/schemas';
 
 // Type definitions derived from schemas
@@ -91,5 +103,95 @@ export const UserService = {
       body: JSON.stringify({ role }),
       signal
     }, UserSchema);
+  },
+
+  /**
+   * Sign-in providers and which of them the current user connected
+   */
+  async getConnectedAccounts(signal?: AbortSignal): Promise<ConnectedAccounts> {
+    return fetchApi('/api/auth/accounts', { signal }, ConnectedAccountsSchema);
+  },
+
+  /**
+   * Disconnect a sign-in provider from the current user
+   */
+  async unlinkAccount(provider: string): Promise<void> {
+    await fetchApi(`/api/auth/accounts/${encodeURIComponent(provider)}`, {
+      method: 'DELETE'
+    }, z.object({ provider: z.string() }));
+  },
+
+  /**
+   * Two-factor status of the current user
+   */
+  async getTwoFactorStatus(signal?: AbortSignal): Promise<TwoFactorStatus> {
+    return fetchApi('/api/auth/two-factor', { signal }, TwoFactorStatusSchema);
+  },
+
+  /**
+   * Start setting up two-factor authentication with a new secret
+   */
+  async startTwoFactorSetup(): Promise<TwoFactorSetup> {
+    return fetchApi('/api/auth/two-factor', { method: 'POST' }, TwoFactorSetupSchema);
+  },
+
+  /**
+   * Confirm the setup with a code from the authenticator app
+   * @returns The recovery codes, shown only this once
+   */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const { recoveryCodes } = await fetchApi('/api/auth/two-factor/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    }, RecoveryCodesSchema);
+    return recoveryCodes;
+  },
+
+  /**
+   * Turn two-factor authentication off with a current code
+   */
+  async disableTwoFactor(code: string): Promise<TwoFactorStatus> {
+    return fetchApi('/api/auth/two-factor/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    }, TwoFactorStatusSchema);
+  },
+
+  /**
+   * Replace the recovery codes, confirmed with a current code
+   */
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const { recoveryCodes } = await fetchApi('/api/auth/two-factor/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    }, RecoveryCodesSchema);
+    return recoveryCodes;
+  },
+
+  /**
+   * Personal API tokens of the current user
+   */
+  async getApiTokens(signal?: AbortSignal): Promise<ApiToken[]> {
+    return fetchApi('/api/auth/tokens', { signal }, z.array(ApiTokenSchema));
+  },
+
+  /**
+   * Create a personal API token
+   * @returns The new token, including the token itself, which is shown only this once
+   */
+  async createApiToken(data: CreateApiToken): Promise<CreatedApiToken> {
+    return fetchApi('/api/auth/tokens', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    }, CreatedApiTokenSchema);
+  },
+
+  /**
+   * Revoke a personal API token
+   */
+  async revokeApiToken(tokenId: string): Promise<void> {
+    await fetchApi(`/api/auth/tokens/${encodeURIComponent(tokenId)}`, {
+      method: 'DELETE'
+    }, z.object({ id: z.string() }));
   }
 };
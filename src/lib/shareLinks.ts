@@ -0,0 +1,141 @@
+/**
+ * Gallery share links
+ *
+ * A share link is an unlisted URL (/s/<token>) that lets anyone holding it view a gallery
+ * without logging in, optionally behind a password, until it expires, runs out of views or
+ * is revoked. Opening a link counts one view and gives the visitor a signed access cookie
+ * scoped to that link, so reloading the page doesn't use up more views.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcrypt';
+import type { GalleryShareLink as GalleryShareLinkRecord } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { auth as authConfig, shareLinks as shareLinkConfig } from '@/lib/config';
+import type { CreateShareLink, GalleryShareLink, ShareLinkStatus } from '@/lib/schemas';
+
+export const SHARE_ACCESS_COOKIE = 'gallery_share_access';
+
+/**
+ * Error thrown when a share link can't be created or opened, carrying the HTTP status to return
+ */
+export class ShareLinkError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export function shareLinkPath(token: string): string {
+  return `/s/${token}`;
+}
+
+/**
+ * Whether a link can still be opened; revocation wins over expiry, expiry over the view limit
+ */
+export function getShareLinkStatus(
+  link: Pick<GalleryShareLinkRecord, 'revokedAt' | 'expiresAt' | 'maxViews' | 'viewCount'>,
+  now = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.maxViews !== null && link.viewCount >= link.maxViews) return 'exhausted';
+  return 'active';
+}
+
+/**
+ * Shape a stored link for its owner, hiding the password hash
+ */
+export function toShareLinkResponse(link: GalleryShareLinkRecord): GalleryShareLink {
+  const { passwordHash, ...rest } = link;
+  return {
+    ...rest,
+    url: shareLinkPath(link.token),
+    hasPassword: passwordHash !== null,
+    status: getShareLinkStatus(link),
+  };
+}
+
+export async function createShareLink(galleryId: string, input: CreateShareLink): Promise<GalleryShareLinkRecord> {
+  return prisma.galleryShareLink.create({
+    data: {
+      galleryId,
+      // 24 random bytes make a 32 character token that can't be guessed
+      token: randomBytes(24).toString('base64url'),
+      label: input.label || null,
+      passwordHash: input.password ? await bcrypt.hash(input.password, authConfig.saltRounds) : null,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+      maxViews: input.maxViews ?? null,
+    },
+  });
+}
+
+function accessSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new ShareLinkError('Share links require NEXTAUTH_SECRET to be set', 500);
+  }
+  return secret;
+}
+
+// Changing the password (or recreating the link) invalidates existing cookies
+function signAccess(link: GalleryShareLinkRecord, expires: number): string {
+  return createHmac('sha256', accessSecret())
+    .update(`${link.id}:${link.passwordHash ?? ''}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Check an access cookie previously issued by openShareLink
+ */
+export function hasShareAccess(link: GalleryShareLinkRecord, cookieValue: string | undefined, now = Date.now()): boolean {
+  if (!cookieValue) return false;
+  const [expiresPart, signature] = cookieValue.split('.');
+  const expires = Number(expiresPart);
+  if (!signature || !Number.isFinite(expires) || expires * 1000 <= now) return false;
+
+  const expected = Buffer.from(signAccess(link, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Open a share link: check the password, count the view and issue an access cookie
+ * @returns The cookie value and how long it stays valid (in seconds)
+ */
+export async function openShareLink(token: string, password?: string): Promise<{ value: string; maxAge: number }> {
+  const link = await prisma.galleryShareLink.findUnique({ where: { token, gallery: { deletedAt: null } } });
+  if (!link) {
+    throw new ShareLinkError('Share link not found', 404);
+  }
+
+  const status = getShareLinkStatus(link);
+  if (status !== 'active') {
+    throw new ShareLinkError(`This share link is ${status === 'exhausted' ? 'no longer available' : status}`, 410);
+  }
+
+  if (link.passwordHash && !(password && await bcrypt.compare(password, link.passwordHash))) {
+    throw new ShareLinkError(password ? 'Incorrect password' : 'Password required', 401);
+  }
+
+  // Conditional increment so concurrent visitors can't go past the view limit
+  const now = new Date();
+  const { count } = await prisma.galleryShareLink.updateMany({
+    where: {
+      id: link.id,
+      revokedAt: null,
+      ...(link.maxViews !== null ? { viewCount: { lt: link.maxViews } } : {}),
+    },
+    data: { viewCount: { increment: 1 }, lastViewedAt: now },
+  });
+  if (count === 0) {
+    throw new ShareLinkError('This share link is no longer available', 410);
+  }
+
+  // Access never outlives the link itself
+  let maxAge = shareLinkConfig.accessTtl;
+  if (link.expiresAt) {
+    maxAge = Math.min(maxAge, Math.floor((link.expiresAt.getTime() - now.getTime()) / 1000));
+  }
+  const expires = Math.floor(now.getTime() / 1000) + maxAge;
+  return { value: `${expires}.${signAccess(link, expires)}`, maxAge };
+}
@@ -0,0 +1,170 @@
+/**
+ * Smart (rule-based) galleries
+ *
+ * A smart gallery stores a saved search instead of relying only on hand-picked images.
+ * Its contents are resolved whenever it's read: the gallery's own ImageInGallery rows
+ * come first as pinned images, followed by the owner's images that match the rules.
+ * Rule matches are returned in the same shape as ImageInGallery rows so every gallery
+ * view renders both kinds of gallery the same way.
+ */
+import type { ImageInGallery, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { search as searchConfig, smartGalleries as smartGalleryConfig } from '@/lib/config';
+import { buildImageSearchFilter, type ImageSearchParams } from '@/lib/search';
+import { SmartGalleryRulesSchema, type SmartGalleryRules } from '@/lib/schemas';
+import { LOCATION_METADATA_OMIT } from '@/lib/utils/imageMetadata';
+
+// Image relations loaded for gallery views
+export const GALLERY_IMAGE_INCLUDE = {
+  tags: true,
+  variants: true,
+  metadata: { omit: LOCATION_METADATA_OMIT },
+} as const satisfies Prisma.ImageInclude;
+
+// ImageInGallery relations loaded for gallery views
+export const GALLERY_ENTRY_INCLUDE = {
+  image: { include: GALLERY_IMAGE_INCLUDE },
+  addedBy: { select: { id: true, name: true } },
+} as const satisfies Prisma.ImageInGalleryInclude;
+
+type GalleryImage = Prisma.ImageGetPayload<{ include: typeof GALLERY_IMAGE_INCLUDE }>;
+type GalleryEntry = ImageInGallery & { image: GalleryImage; addedBy?: { id: string; name: string | null } | null };
+
+/**
+ * Parse the rules stored on a gallery
+ * @returns null for manual galleries (and for unreadable rules, which are logged)
+ */
+export function parseSmartRules(stored: string | null): SmartGalleryRules | null {
+  if (!stored) return null;
+  try {
+    const result = SmartGalleryRulesSchema.safeParse(JSON.parse(stored));
+    if (result.success) return result.data;
+    logger.warn('Ignoring invalid smart gallery rules:', result.error.errors);
+  } catch (error) {
+    logger.warn('Ignoring unreadable smart gallery rules:', error);
+  }
+  return null;
+}
+
+/**
+ * Convert rules from a request body for storage; undefined leaves the stored value alone
+ */
+export function serializeSmartRules(rules: SmartGalleryRules | null | undefined): string | null | undefined {
+  if (rules === undefined) return undefined;
+  return rules ? JSON.stringify(rules) : null;
+}
+
+// Capture time, falling back to upload time for images without EXIF dates
+function capturedTime(image: GalleryImage): number {
+  return (image.metadata?.capturedAt ?? image.createdAt).getTime();
+}
+
+// The image search a gallery's rules stand for
+function ruleSearchParams(rules: SmartGalleryRules): ImageSearchParams {
+  return {
+    query: rules.query,
+    allTags: rules.allTags,
+    anyTags: rules.anyTags,
+    excludeTags: rules.excludeTags,
+    camera: rules.camera,
+    from: rules.from ? new Date(rules.from) : undefined,
+    // A date includes the whole day
+    to: rules.to ? new Date(`${rules.to}T23:59:59.999Z`) : undefined,
+  };
+}
+
+function ruleLimit(rules: SmartGalleryRules): number {
+  return Math.min(rules.limit ?? smartGalleryConfig.maxImages, smartGalleryConfig.maxImages);
+}
+
+/**
+ * Find the owner's images matching a gallery's rules, in the rules' order
+ * @param extraWhere Additional filter, e.g. a search within the gallery
+ */
+export async function findSmartGalleryImages(
+  userId: string,
+  rules: SmartGalleryRules,
+  extraWhere?: Prisma.ImageWhereInput
+): Promise<GalleryImage[]> {
+  const { where: ruleWhere, ranks } = await buildImageSearchFilter(userId, ruleSearchParams(rules));
+  const where = extraWhere ? { AND: [ruleWhere, extraWhere] } : ruleWhere;
+  const limit = ruleLimit(rules);
+  const { sortBy = 'capturedAt', sortDir = 'desc' } = rules;
+
+  if (sortBy === 'createdAt' || sortBy === 'title') {
+    return prisma.image.findMany({
+      where,
+      include: GALLERY_IMAGE_INCLUDE,
+      orderBy: { [sortBy]: sortDir },
+      take: limit,
+    });
+  }
+
+  // Capture date (with its fallback) and relevance can't be expressed as an orderBy
+  const images = await prisma.image.findMany({
+    where,
+    include: GALLERY_IMAGE_INCLUDE,
+    take: searchConfig.maxResults,
+  });
+  const direction = sortDir === 'asc' ? 1 : -1;
+  if (sortBy === 'relevance' && ranks) {
+    // Best match first regardless of direction
+    images.sort((a, b) => (ranks.get(a.id) ?? Infinity) - (ranks.get(b.id) ?? Infinity));
+  } else {
+    images.sort((a, b) => direction * (capturedTime(a) - capturedTime(b)));
+  }
+  return images.slice(0, limit);
+}
+
+/**
+ * Count a smart gallery's images without loading them, for gallery listings
+ * Pinned images count once even when they also match. When the rules' limit cuts off
+ * matches, pinned images may have taken some of those places, so this can overcount.
+ * @param pinnedIds The images in the gallery's ImageInGallery rows
+ */
+export async function countSmartGalleryImages(
+  userId: string,
+  rules: SmartGalleryRules,
+  pinnedIds: string[]
+): Promise<number> {
+  const { where } = await buildImageSearchFilter(userId, ruleSearchParams(rules));
+  const matches = await prisma.image.count({ where: { AND: [where, { id: { notIn: pinnedIds } }] } });
+  return pinnedIds.length + Math.min(matches, ruleLimit(rules));
+}
+
+/**
+ * Resolve the images of a gallery loaded with its ImageInGallery rows
+ * Manual galleries are returned as they are. For smart galleries, the rows become pinned
+ * images and rule matches are appended after them.
+ * @param extraWhere Additional filter for rule matches, e.g. a search within the gallery
+ */
+export async function resolveGalleryImages<G extends { id: string; userId: string; smartRules: string | null; images: GalleryEntry[] }>(
+  gallery: G,
+  extraWhere?: Prisma.ImageWhereInput
+): Promise<Omit<G, 'smartRules' | 'images'> & { smartRules: SmartGalleryRules | null; images: (GalleryEntry & { isPinned?: boolean })[] }> {
+  const rules = parseSmartRules(gallery.smartRules);
+  if (!rules) {
+    return { ...gallery, smartRules: null };
+  }
+
+  const pinned = gallery.images.map(entry => ({ ...entry, isPinned: true }));
+  const pinnedIds = new Set(pinned.map(entry => entry.imageId));
+  const matches = (await findSmartGalleryImages(gallery.userId, rules, extraWhere))
+    .filter(image => !pinnedIds.has(image.id))
+    .map((image, index) => ({
+      // Synthetic id: matches have no ImageInGallery row of their own
+      id: `smart-${image.id}`,
+      imageId: image.id,
+      galleryId: gallery.id,
+      description: null,
+      order: pinned.length + index,
+      createdAt: image.createdAt,
+      addedById: null,
+      addedBy: null,
+      image,
+      isPinned: false,
+    }));
+
+  return { ...gallery, smartRules: rules, images: [...pinned, ...matches] };
+}
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { existsSync } from 'fs';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { prisma } from '@/lib/db';
+import { deleteStoredFiles, getStorage } from '@/lib/storage';
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    image: { findMany: jest.fn() },
+    imageVariant: { findMany: jest.fn() },
+    imageVersion: { findMany: jest.fn() },
+    upload: { findMany: jest.fn() },
+  },
+}));
+jest.mock('@/lib/config', () => ({
+  storage: {
+    driver: 'local',
+    signedUrlExpiry: 3600,
+    local: {
+      directory: jest.requireActual('path').join(jest.requireActual('os').tmpdir(), 'pic-gallery-storage-test'),
+      publicPath: '/uploads',
+    },
+    s3: { bucket: '' },
+    uploadthing: {},
+  },
+}));
+
+const mockedPrisma = prisma as unknown as {
+  image: { findMany: jest.Mock };
+  imageVariant: { findMany: jest.Mock };
+  imageVersion: { findMany: jest.Mock };
+  upload: { findMany: jest.Mock };
+};
+
+const directory = join(tmpdir(), 'pic-gallery-storage-test');
+
+describe('deleteStoredFiles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.image.findMany.mockResolvedValue([]);
+    mockedPrisma.imageVariant.findMany.mockResolvedValue([]);
+    mockedPrisma.imageVersion.findMany.mockResolvedValue([]);
+    mockedPrisma.upload.findMany.mockResolvedValue([]);
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps files another image still points at', async () => {
+    const storage = getStorage();
+    const mine = await storage.put('mine.jpg', Buffer.from('mine'));
+    const theirs = await storage.put('theirs.jpg', Buffer.from('theirs'));
+    mockedPrisma.imageVariant.findMany.mockResolvedValue([{ url: theirs.url }]);
+
+    expect(await deleteStoredFiles([mine.url, theirs.url])).toBe(1);
+    expect(mockedPrisma.image.findMany).toHaveBeenCalledWith({
+      where: { url: { in: [mine.url, theirs.url] } },
+      select: { url: true },
+    });
+    expect(existsSync(join(directory, 'mine.jpg'))).toBe(false);
+    expect(existsSync(join(directory, 'theirs.jpg'))).toBe(true);
+  });
+
+  it('keeps the original and variants of uploads that are not images yet', async () => {
+    const storage = getStorage();
+    const original = await storage.put('pending.jpg', Buffer.from('original'));
+    const variant = await storage.put('pending-640w.webp', Buffer.from('variant'));
+    mockedPrisma.upload.findMany.mockResolvedValue([{
+      url: original.url,
+      result: JSON.stringify({ url: original.url, variants: [{ url: variant.url, width: 640 }] }),
+    }]);
+
+    expect(await deleteStoredFiles([original.url, variant.url])).toBe(0);
+    expect(existsSync(join(directory, 'pending.jpg'))).toBe(true);
+    expect(existsSync(join(directory, 'pending-640w.webp'))).toBe(true);
+  });
+
+  it('skips URLs with malformed escapes without giving up on the rest', async () => {
+    const storage = getStorage();
+    const stored = await storage.put('other.jpg', Buffer.from('other'));
+
+    expect(await deleteStoredFiles(['/uploads/%E0%A4%A.jpg', stored.url])).toBe(1);
+    expect(existsSync(join(directory, 'other.jpg'))).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { LocalStorageProvider } from '../localStorage';
+import { S3StorageProvider } from '../s3Storage';
+
+/**
+ * Minimal in-memory stand-in for an S3-compatible server such as MinIO
+ */
+function createFakeS3Client() {
+  const objects = new Map<string, { body: Buffer; lastModified: Date }>();
+  const send = jest.fn(async (command: unknown) => {
+    if (command instanceof PutObjectCommand) {
+      objects.set(command.input.Key!, { body: command.input.Body as Buffer, lastModified: new Date() });
+      return {};
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = objects.get(command.input.Key!);
+      if (!object) throw new NoSuchKey({ message: 'Not found', $metadata: {} });
+      return { Body: { transformToByteArray: async () => new Uint8Array(object.body) } };
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(command.input.Key!);
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      const prefix = command.input.Prefix ?? '';
+      return {
+        Contents: Array.from(objects.entries())
+          .filter(([key]) => key.startsWith(prefix))
+          .map(([key, object]) => ({ Key: key, Size: object.body.length, LastModified: object.lastModified })),
+        IsTruncated: false,
+      };
+    }
+    throw new Error('Unsupported command');
+  });
+  return { client: { send } as unknown as S3Client, send };
+}
+
+describe('LocalStorageProvider', () => {
+  let directory: string;
+  let provider: LocalStorageProvider;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'storage-test-'));
+    provider = new LocalStorageProvider({ directory, publicPath: '/uploads' });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store, read, list and delete files', async () => {
+    const stored = await provider.put('photo.jpg', Buffer.from('image-bytes'));
+
+    expect(stored).toEqual({ key: 'photo.jpg', url: '/uploads/photo.jpg' });
+    expect((await provider.get('photo.jpg'))?.toString()).toBe('image-bytes');
+    expect((await provider.list('photo')).map(({ key, size }) => ({ key, size }))).toEqual([
+      { key: 'photo.jpg', size: 11 },
+    ]);
+
+    await provider.delete('photo.jpg');
+    expect(await provider.get('photo.jpg')).toBeNull();
+    // Deleting twice is not an error
+    await expect(provider.delete('photo.jpg')).resolves.toBeUndefined();
+  });
+
+  it('should map public URLs back to keys', () => {
+    expect(provider.keyFromUrl('/uploads/photo.jpg')).toBe('photo.jpg');
+    expect(provider.keyFromUrl('https://example.com/photo.jpg')).toBeNull();
+    expect(provider.keyFromUrl('/uploads/100%.jpg')).toBeNull();
+  });
+
+  it('should reject keys that escape the storage directory', async () => {
+    await expect(provider.put('../outside.jpg', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('S3StorageProvider', () => {
+  const options = {
+    bucket: 'gallery',
+    region: 'us-east-1',
+    endpoint: 'http://localhost:9000',
+    forcePathStyle: true,
+    signedUrlExpiry: 3600,
+  };
+
+  it('should store, read, list and delete objects', async () => {
+    const { client } = createFakeS3Client();
+    const provider = new S3StorageProvider(options, client);
+
+    const stored = await provider.put('photo.jpg', Buffer.from('image-bytes'), { contentType: 'image/jpeg' });
+
+    expect(stored).toEqual({ key: 'photo.jpg', url: 'http://localhost:9000/gallery/photo.jpg' });
+    expect((await provider.get('photo.jpg'))?.toString()).toBe('image-bytes');
+    expect((await provider.list()).map(object => object.key)).toEqual(['photo.jpg']);
+
+    await provider.delete('photo.jpg');
+    expect(await provider.get('photo.jpg')).toBeNull();
+  });
+
+  it('should map object URLs back to keys', () => {
+    const provider = new S3StorageProvider(options, createFakeS3Client().client);
+
+    expect(provider.keyFromUrl('http://localhost:9000/gallery/2024/photo%201.jpg')).toBe('2024/photo 1.jpg');
+    expect(provider.keyFromUrl('/uploads/photo.jpg')).toBeNull();
+    expect(provider.keyFromUrl('http://localhost:9000/gallery/%E0%A4%A.jpg')).toBeNull();
+  });
+
+  it('should prefer a configured public URL', async () => {
+    const provider = new S3StorageProvider({ ...options, publicUrl: 'https://cdn.example.com/' }, createFakeS3Client().client);
+
+    expect((await provider.put('photo.jpg', Buffer.from('x'))).url).toBe('https://cdn.example.com/photo.jpg');
+  });
+});
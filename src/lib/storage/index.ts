@@ -0,0 +1,141 @@
+/**
+ * Storage entry point
+ * Picks the provider configured in `storage.driver` and resolves stored URLs
+ * back to whichever provider holds them, so files written before a driver
+ * change can still be deleted.
+ */
+import { storage as storageConfig } from '@/lib/config';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { LocalStorageProvider } from './localStorage';
+import { S3StorageProvider } from './s3Storage';
+import { UploadThingStorageProvider } from './uploadThingStorage';
+import type { StorageProvider } from './types';
+
+export type { StorageProvider, StoredObject, StorageObjectInfo, PutOptions } from './types';
+export { LocalStorageProvider, S3StorageProvider, UploadThingStorageProvider };
+
+const providers = new Map<string, StorageProvider>();
+
+function createProvider(driver: typeof storageConfig.driver): StorageProvider {
+  switch (driver) {
+    case 's3':
+      if (!storageConfig.s3.bucket) {
+        throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is "s3"');
+      }
+      return new S3StorageProvider({ ...storageConfig.s3, signedUrlExpiry: storageConfig.signedUrlExpiry });
+    case 'uploadthing':
+      return new UploadThingStorageProvider({
+        token: storageConfig.uploadthing.token,
+        signedUrlExpiry: storageConfig.signedUrlExpiry,
+      });
+    case 'local':
+      return new LocalStorageProvider(storageConfig.local);
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+function getProvider(driver: typeof storageConfig.driver): StorageProvider {
+  let provider = providers.get(driver);
+  if (!provider) {
+    provider = createProvider(driver);
+    providers.set(driver, provider);
+  }
+  return provider;
+}
+
+/**
+ * Get the provider new uploads are written to
+ */
+export function getStorage(): StorageProvider {
+  return getProvider(storageConfig.driver);
+}
+
+// Every backend that could hold files, active one first
+function getConfiguredProviders(): StorageProvider[] {
+  const drivers: (typeof storageConfig.driver)[] = [storageConfig.driver, 'local'];
+  if (storageConfig.s3.bucket) drivers.push('s3');
+  if (storageConfig.uploadthing.token) drivers.push('uploadthing');
+  return [...new Set(drivers)].map(getProvider);
+}
+
+/**
+ * Find the provider and key behind a stored file URL
+ * @returns null for URLs that don't point at any configured backend (e.g., external links)
+ */
+export function resolveStoredFile(url: string): { provider: StorageProvider; key: string } | null {
+  for (const provider of getConfiguredProviders()) {
+    const key = provider.keyFromUrl(url);
+    if (key) {
+      return { provider, key };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read back the file behind a stored URL
+ * @returns The file contents, or null if no provider recognizes the URL or the file is gone
+ */
+export async function readStoredFile(url: string): Promise<Buffer | null> {
+  const stored = resolveStoredFile(url);
+  return stored ? stored.provider.get(stored.key) : null;
+}
+
+// URLs from the list that an image, variant or version still points at, or that belong to
+// an upload that hasn't been turned into an image yet
+async function findReferencedUrls(urls: string[]): Promise<Set<string>> {
+  const where = { url: { in: urls } };
+  const select = { url: true };
+  const [references, uploads] = await Promise.all([
+    Promise.all([
+      prisma.image.findMany({ where, select }),
+      prisma.imageVariant.findMany({ where, select }),
+      prisma.imageVersion.findMany({ where, select }),
+    ]),
+    // Variants of pending uploads only appear in the recorded result
+    prisma.upload.findMany({
+      where: { OR: [where, ...urls.map(url => ({ result: { contains: JSON.stringify(url) } }))] },
+      select: { url: true, result: true },
+    }),
+  ]);
+  return new Set([
+    ...references.flat().map(reference => reference.url),
+    ...urls.filter(url => uploads.some(upload => upload.url === url || upload.result.includes(JSON.stringify(url)))),
+  ]);
+}
+
+/**
+ * Delete the files behind a list of stored URLs
+ * Files another record still points at are left in place, so a row claiming
+ * someone else's file can never take it down with it.
+ * Failures are logged rather than thrown: the database record is the source of truth,
+ * and an orphaned blob is better than a failed request.
+ * @returns The number of files deleted
+ */
+export async function deleteStoredFiles(urls: string[]): Promise<number> {
+  if (urls.length === 0) {
+    return 0;
+  }
+  const referenced = await findReferencedUrls(urls);
+  let deleted = 0;
+  for (const url of urls) {
+    if (referenced.has(url)) {
+      logger.warn(`${url} is still in use; leaving it in place`);
+      continue;
+    }
+    const stored = resolveStoredFile(url);
+    if (!stored) {
+      logger.warn(`No storage provider recognizes ${url}; leaving it in place`);
+      continue;
+    }
+    try {
+      await stored.provider.delete(stored.key);
+      deleted++;
+    } catch (error) {
+      logger.error(`Error deleting ${stored.key} from ${stored.provider.name} storage:`, error);
+    }
+  }
+  return deleted;
+}
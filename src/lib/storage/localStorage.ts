@@ -0,0 +1,99 @@
+import { mkdir, readFile, readdir, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { StorageObjectInfo, StorageProvider, StoredObject } from './types';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Stores files on the local disk, served as static files by Next.js
+ * Files are public, so signed URLs are simply the public URL.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly root: string;
+  private readonly publicPath: string;
+
+  constructor(options: { directory: string; publicPath: string }) {
+    this.root = resolve(process.cwd(), options.directory);
+    this.publicPath = options.publicPath.replace(/\/+$/, '');
+  }
+
+  // Keys come from user-supplied filenames, so never let them escape the storage root
+  private pathFor(key: string): string {
+    const filePath = resolve(this.root, key);
+    const relativePath = relative(this.root, filePath);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private urlFor(key: string): string {
+    return `${this.publicPath}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredObject> {
+    const filePath = this.pathFor(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return { key, url: this.urlFor(key) };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    this.pathFor(key);
+    return this.urlFor(key);
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.root, { recursive: true });
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const objects: StorageObjectInfo[] = [];
+    for (const entry of entries) {
+      const key = entry.split(sep).join('/');
+      if (!key.startsWith(prefix)) continue;
+      const info = await stat(join(this.root, entry));
+      if (info.isFile()) {
+        objects.push({ key, size: info.size, lastModified: info.mtime });
+      }
+    }
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  keyFromUrl(url: string): string | null {
+    const path = url.split(/[?#]/)[0];
+    if (!path.startsWith(`${this.publicPath}/`)) {
+      return null;
+    }
+    try {
+      return decodeURIComponent(path.slice(this.publicPath.length + 1)) || null;
+    } catch {
+      // Malformed escapes can't name a stored file
+      return null;
+    }
+  }
+}
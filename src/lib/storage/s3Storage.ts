@@ -0,0 +1,129 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { PutOptions, StorageObjectInfo, StorageProvider, StoredObject } from './types';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services such as MinIO or R2
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // MinIO and most self-hosted services need path-style URLs (endpoint/bucket/key)
+  forcePathStyle?: boolean;
+  // Public base URL (e.g., a CDN) that files are served from
+  publicUrl?: string;
+  signedUrlExpiry: number;
+}
+
+/**
+ * Stores files in an S3 bucket or any S3-compatible object store
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly baseUrl: string;
+  private readonly signedUrlExpiry: number;
+
+  constructor(options: S3StorageOptions, client?: S3Client) {
+    this.bucket = options.bucket;
+    this.signedUrlExpiry = options.signedUrlExpiry;
+    this.client = client ?? new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+
+    const baseUrl = options.publicUrl
+      ?? (options.endpoint
+        ? options.forcePathStyle
+          ? `${options.endpoint}/${options.bucket}`
+          : options.endpoint.replace('://', `://${options.bucket}.`)
+        : `https://${options.bucket}.s3.${options.region}.amazonaws.com`);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private urlFor(key: string): string {
+    return `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  async put(key: string, data: Buffer, options: PutOptions = {}): Promise<StoredObject> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: options.contentType,
+    }));
+    return { key, url: this.urlFor(key) };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 treats deleting a missing key as success
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async signedUrl(key: string, expiresInSeconds = this.signedUrlExpiry): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  async list(prefix?: string): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const path = url.split(/[?#]/)[0];
+    if (!path.startsWith(`${this.baseUrl}/`)) {
+      return null;
+    }
+    try {
+      return decodeURIComponent(path.slice(this.baseUrl.length + 1)) || null;
+    } catch {
+      // Malformed escapes can't name a stored file
+      return null;
+    }
+  }
+}
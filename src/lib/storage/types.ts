@@ -0,0 +1,57 @@
+/**
+ * Storage provider contract
+ * Every backend that can hold uploaded files implements this interface,
+ * so API routes never touch the filesystem or a cloud SDK directly.
+ */
+
+export interface StoredObject {
+  key: string;
+  // URL the browser can load the file from
+  url: string;
+}
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+export interface StorageProvider {
+  readonly name: string;
+
+  /**
+   * Store a file, replacing any existing file with the same key
+   */
+  put(key: string, data: Buffer, options?: PutOptions): Promise<StoredObject>;
+
+  /**
+   * Read a file back
+   * @returns The file contents, or null if it doesn't exist
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Remove a file; deleting a missing file is not an error
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Create a time-limited URL for a file, for backends that keep files private
+   */
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+
+  /**
+   * List stored files, optionally limited to keys starting with a prefix
+   */
+  list(prefix?: string): Promise<StorageObjectInfo[]>;
+
+  /**
+   * Map a URL previously returned by put() back to its key
+   * @returns The key, or null if the URL doesn't belong to this provider
+   */
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,84 @@
+import { UTApi, UTFile } from 'uploadthing/server';
+import type { PutOptions, StorageObjectInfo, StorageProvider, StoredObject } from './types';
+
+// UploadThing serves files from https://<app>.ufs.sh/f/<key> (or the legacy utfs.io host)
+const UPLOADTHING_HOSTS = ['ufs.sh', 'utfs.io'];
+
+/**
+ * Stores files with UploadThing
+ * UploadThing assigns its own file keys, so the key passed to put() is only used as the file name.
+ */
+export class UploadThingStorageProvider implements StorageProvider {
+  readonly name = 'uploadthing';
+  private readonly api: UTApi;
+  private readonly signedUrlExpiry: number;
+
+  constructor(options: { token?: string; signedUrlExpiry: number }, api?: UTApi) {
+    this.api = api ?? new UTApi({ token: options.token });
+    this.signedUrlExpiry = options.signedUrlExpiry;
+  }
+
+  async put(key: string, data: Buffer, options: PutOptions = {}): Promise<StoredObject> {
+    const result = await this.api.uploadFiles(new UTFile([new Uint8Array(data)], key, { type: options.contentType }));
+    if (result.error) {
+      throw new Error(`UploadThing upload failed: ${result.error.message}`);
+    }
+    return { key: result.data.key, url: result.data.ufsUrl };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await fetch(await this.signedUrl(key));
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`UploadThing download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.api.deleteFiles(key);
+  }
+
+  async signedUrl(key: string, expiresInSeconds = this.signedUrlExpiry): Promise<string> {
+    const { ufsUrl } = await this.api.generateSignedURL(key, { expiresIn: expiresInSeconds });
+    return ufsUrl;
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    const limit = 500;
+    let offset = 0;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.api.listFiles({ limit, offset });
+      for (const file of page.files) {
+        if (file.status !== 'Uploaded' || !file.name.startsWith(prefix)) continue;
+        objects.push({ key: file.key, size: file.size, lastModified: new Date(file.uploadedAt) });
+      }
+      hasMore = page.hasMore;
+      offset += limit;
+    }
+    return objects;
+  }
+
+  keyFromUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    const isUploadThingHost = UPLOADTHING_HOSTS.some(
+      host => parsed.hostname === host || parsed.hostname.endsWith(`.${host}`)
+    );
+    if (!isUploadThingHost || !parsed.pathname.startsWith('/f/')) {
+      return null;
+    }
+    try {
+      return decodeURIComponent(parsed.pathname.slice(3)) || null;
+    } catch {
+      // Malformed escapes can't name a stored file
+      return null;
+    }
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Server-side tag operations: hierarchy, aliases, rename and merge
+ *
+ * A tag's name is its full path ("travel/japan/kyoto") and every ancestor exists as a
+ * tag of its own, linked through parentId. Aliases are alternative names that resolve
+ * to a canonical tag whenever tags are assigned or used as filters.
+ *
+ * Tags belong to the user who created them. Shared tags (no owner) are available to
+ * everyone and can only be managed by admins. Names are unique per owner, and among shared tags.
+ */
+import { Prisma, UserRole, type Tag } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import {
+  TAG_PATH_SEPARATOR,
+  normalizeTagName,
+  getAncestorPaths,
+  getParentPath,
+  isSameOrDescendant,
+  replaceTagPrefix,
+} from '@/lib/utils/tagPaths';
+
+type Db = Prisma.TransactionClient;
+
+// Owner of a tag namespace: a user id, or null for shared tags
+type TagOwner = string | null;
+
+// Stored next to the owner so one unique index covers shared names too (see the Tag model)
+function ownerKey(owner: TagOwner): string {
+  return owner ?? '';
+}
+
+/**
+ * Error thrown when a tag operation can't be performed, carrying the HTTP status to return
+ */
+export class TagOperationError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TagOperationError';
+  }
+}
+
+// Fields returned for tags by the tag management API
+export const TAG_DETAILS_SELECT = {
+  id: true,
+  name: true,
+  parentId: true,
+  userId: true,
+  aliases: { select: { name: true }, orderBy: { name: 'asc' } },
+  _count: { select: { images: { where: { deletedAt: null } } } },
+} as const satisfies Prisma.TagSelect;
+
+/**
+ * Shape a tag selected with TAG_DETAILS_SELECT for API responses
+ */
+export function serializeTagDetails<T extends { userId: string | null; aliases: { name: string }[] }>(tag: T) {
+  const { userId, aliases, ...details } = tag;
+  return { ...details, isShared: userId === null, aliases: aliases.map(alias => alias.name) };
+}
+
+/**
+ * Filter matching the tags a user can see and use: their own plus shared tags
+ */
+export function accessibleTagsFilter(owner: TagOwner): Prisma.TagWhereInput {
+  return owner ? { OR: [{ userId: owner }, { userId: null }] } : { userId: null };
+}
+
+/**
+ * Normalize tag names and replace aliases with the names of their canonical tags
+ * Aliases also apply to the start of a path: with "nihon" an alias of "travel/japan",
+ * "nihon/kyoto" resolves to "travel/japan/kyoto". The owner's aliases win over shared ones.
+ */
+export async function resolveTagNames(owner: TagOwner, names: string[], db: Db = prisma): Promise<string[]> {
+  const normalized = [...new Set(names.map(normalizeTagName).filter(Boolean))];
+  if (normalized.length === 0) return [];
+
+  const paths = [...new Set(normalized.flatMap(name => [...getAncestorPaths(name), name]))];
+  const aliases = await db.tagAlias.findMany({
+    where: { name: { in: paths }, OR: owner ? [{ userId: owner }, { userId: null }] : [{ userId: null }] },
+    select: { name: true, userId: true, tag: { select: { name: true } } },
+  });
+  const canonical = new Map(
+    aliases
+      .sort((a, b) => Number(a.userId !== null) - Number(b.userId !== null))
+      .map(alias => [alias.name, alias.tag.name])
+  );
+
+  return [...new Set(normalized.map(name => {
+    const aliased = [name, ...getAncestorPaths(name).reverse()].find(path => canonical.has(path));
+    return aliased ? replaceTagPrefix(name, aliased, canonical.get(aliased) as string) : name;
+  }))];
+}
+
+/**
+ * Find the tag with a name that an owner can use, preferring their own over a shared one
+ */
+async function findAccessibleTag(db: Db, owner: TagOwner, name: string): Promise<Tag | null> {
+  const tags = await db.tag.findMany({ where: { name, ...accessibleTagsFilter(owner) } });
+  return tags.find(tag => tag.userId === owner) ?? tags[0] ?? null;
+}
+
+/**
+ * Get or create a tag and every ancestor on its path
+ * Missing levels are created in the owner's namespace, even below a shared parent.
+ */
+async function ensureTagPath(owner: TagOwner, name: string, db: Db): Promise<Tag> {
+  let parentId: string | null = null;
+  let tag: Tag | null = null;
+  for (const path of [...getAncestorPaths(name), name]) {
+    tag = await findAccessibleTag(db, owner, path)
+      ?? await db.tag.create({ data: { name: path, userId: owner, ownerKey: ownerKey(owner), parentId } });
+    // Link tags that were created before their parent existed
+    if (parentId && tag.parentId !== parentId && tag.userId === owner) {
+      tag = await db.tag.update({ where: { id: tag.id }, data: { parentId } });
+    }
+    parentId = tag.id;
+  }
+  return tag as Tag;
+}
+
+/**
+ * Resolve aliases and get or create the named tags (with their ancestors)
+ * @param owner The user tagging their images, or null to create shared tags
+ * @returns The canonical tags, ready to be connected to an image
+ */
+export async function ensureTags(owner: TagOwner, names: string[], db: Db = prisma): Promise<Tag[]> {
+  const tags: Tag[] = [];
+  for (const name of await resolveTagNames(owner, names, db)) {
+    tags.push(await ensureTagPath(owner, name, db));
+  }
+  return tags;
+}
+
+/**
+ * Filter matching tags with any of the given names or one of their descendants
+ */
+export function tagOrDescendantsFilter(names: string[]): Prisma.TagWhereInput {
+  return {
+    OR: names.flatMap(name => [
+      { name },
+      { name: { startsWith: name + TAG_PATH_SEPARATOR } },
+    ]),
+  };
+}
+
+/**
+ * Get a tag the user may change: their own, or a shared tag if they are an admin
+ */
+export async function getManageableTag(id: string, user: { id: string; role?: UserRole }): Promise<Tag> {
+  const tag = await prisma.tag.findUnique({ where: { id } });
+  // Other users' tags are reported as missing so their existence isn't revealed
+  if (!tag || (tag.userId !== null && tag.userId !== user.id)) {
+    throw new TagOperationError('Tag not found', 404);
+  }
+  if (tag.userId === null && user.role !== UserRole.ADMIN) {
+    throw new TagOperationError('Only admins can change shared tags', 403);
+  }
+  return tag;
+}
+
+/**
+ * Make sure a name isn't already taken by another tag or alias in the same namespace
+ */
+async function assertNameAvailable(db: Db, owner: TagOwner, names: string[], ignoreTagIds: string[] = []): Promise<void> {
+  const tag = await db.tag.findFirst({
+    where: { userId: owner, name: { in: names }, id: { notIn: ignoreTagIds } },
+    select: { name: true },
+  });
+  if (tag) {
+    throw new TagOperationError(`A tag named "${tag.name}" already exists`, 409);
+  }
+  const alias = await db.tagAlias.findFirst({
+    where: { userId: owner, name: { in: names }, tagId: { notIn: ignoreTagIds } },
+    select: { name: true, tag: { select: { name: true } } },
+  });
+  if (alias) {
+    throw new TagOperationError(`"${alias.name}" is already an alias of "${alias.tag.name}"`, 409);
+  }
+}
+
+/**
+ * Move a tag (and its subtree) to a new path, merging into any tag already there
+ */
+async function relocateTag(db: Db, tag: Tag, name: string, parentId: string | null): Promise<void> {
+  const existing = await db.tag.findFirst({ where: { userId: tag.userId, name } });
+  if (existing && existing.id !== tag.id) {
+    await mergeInto(db, tag, existing);
+    return;
+  }
+
+  const children = await db.tag.findMany({ where: { parentId: tag.id } });
+  await db.tag.update({ where: { id: tag.id }, data: { name, parentId } });
+  for (const child of children) {
+    await relocateTag(db, child, replaceTagPrefix(child.name, tag.name, name), tag.id);
+  }
+}
+
+/**
+ * Re-point everything from `source` to `target` and delete `source`
+ * The source's name is kept as an alias of the target.
+ */
+async function mergeInto(db: Db, source: Tag, target: Tag): Promise<void> {
+  const children = await db.tag.findMany({ where: { parentId: source.id } });
+  for (const child of children) {
+    await relocateTag(db, child, replaceTagPrefix(child.name, source.name, target.name), target.id);
+  }
+
+  const images = await db.image.findMany({
+    where: { tags: { some: { id: source.id } } },
+    select: { id: true },
+  });
+  if (images.length > 0) {
+    await db.tag.update({
+      where: { id: target.id },
+      data: { images: { connect: images } },
+    });
+  }
+
+  await db.tagAlias.updateMany({ where: { tagId: source.id }, data: { tagId: target.id } });
+  await db.tag.delete({ where: { id: source.id } });
+  await db.tagAlias.create({
+    data: { name: source.name, tagId: target.id, userId: target.userId, ownerKey: ownerKey(target.userId) },
+  });
+}
+
+async function findTagOrThrow(db: Db, id: string): Promise<Tag> {
+  const tag = await db.tag.findUnique({ where: { id } });
+  if (!tag) {
+    throw new TagOperationError('Tag not found', 404);
+  }
+  return tag;
+}
+
+/**
+ * Rename a tag, moving its descendants along with it
+ * The new name may place the tag under a different parent ("japan" -> "travel/japan").
+ * @param tx Transaction to run in, so the rename can be combined with other changes
+ */
+export async function renameTag(id: string, newName: string, tx?: Db): Promise<Tag> {
+  const name = normalizeTagName(newName);
+  if (!name) {
+    throw new TagOperationError('Tag name is required', 400);
+  }
+  if (!tx) {
+    return prisma.$transaction(transaction => renameTag(id, name, transaction));
+  }
+
+  const tag = await findTagOrThrow(tx, id);
+  if (name === tag.name) return tag;
+  if (isSameOrDescendant(name, tag.name)) {
+    throw new TagOperationError('A tag cannot be moved under itself', 400);
+  }
+  await assertNameAvailable(tx, tag.userId, [name], [tag.id]);
+
+  const parentPath = getParentPath(name);
+  const parent = parentPath ? await ensureTagPath(tag.userId, parentPath, tx) : null;
+  await relocateTag(tx, tag, name, parent?.id ?? null);
+  return findTagOrThrow(tx, id);
+}
+
+/**
+ * Merge one tag into another: images, aliases and child tags move to the target
+ */
+export async function mergeTags(sourceId: string, targetId: string): Promise<Tag> {
+  if (sourceId === targetId) {
+    throw new TagOperationError('A tag cannot be merged into itself', 400);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const source = await findTagOrThrow(tx, sourceId);
+    const target = await findTagOrThrow(tx, targetId);
+    if (source.userId !== target.userId) {
+      throw new TagOperationError('Only tags with the same owner can be merged', 400);
+    }
+    if (isSameOrDescendant(target.name, source.name)) {
+      throw new TagOperationError('A tag cannot be merged into one of its descendants', 400);
+    }
+    await mergeInto(tx, source, target);
+    return target;
+  });
+}
+
+/**
+ * Replace a tag's aliases
+ * @param tx Transaction to run in, so the aliases can be changed along with the name
+ */
+export async function setTagAliases(id: string, aliases: string[], tx?: Db): Promise<string[]> {
+  if (!tx) {
+    return prisma.$transaction(transaction => setTagAliases(id, aliases, transaction));
+  }
+
+  const tag = await findTagOrThrow(tx, id);
+  const names = [...new Set(aliases.map(normalizeTagName))].filter(name => name && name !== tag.name);
+  await assertNameAvailable(tx, tag.userId, names, [tag.id]);
+
+  await tx.tagAlias.deleteMany({ where: { tagId: tag.id } });
+  await tx.tagAlias.createMany({
+    data: names.map(name => ({ name, tagId: tag.id, userId: tag.userId, ownerKey: ownerKey(tag.userId) })),
+  });
+  return names;
+}
+
+/**
+ * Delete a tag; tags with child tags must be emptied or merged first
+ */
+export async function deleteTag(id: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const tag = await findTagOrThrow(tx, id);
+    const childCount = await tx.tag.count({ where: { parentId: tag.id } });
+    if (childCount > 0) {
+      throw new TagOperationError('Tag has child tags; delete or merge them first', 409);
+    }
+    await tx.tag.delete({ where: { id: tag.id } });
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * Trash bin
+ *
+ * Deleting an image or gallery moves it to the trash (sets deletedAt) instead of removing
+ * it. Trashed images leave every gallery right away, so gallery views need no extra
+ * filtering; the links and cover references they had are kept on the image and rebuilt
+ * when it's restored. Trashed galleries keep their images and members. Anything still in
+ * the trash after the retention period is purged for good, files included, by the
+ * scheduled POST /api/trash/purge and whenever its owner opens the trash.
+ */
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { trash as trashConfig } from '@/lib/config';
+import { recordAuditEvent } from '@/lib/audit';
+import { deleteStoredFiles } from '@/lib/storage';
+import { pickVariantUrl } from '@/lib/utils/imageVariants';
+import type { RestoreResult, Trash, TrashItem, TrashTarget } from '@/lib/schemas';
+
+type Db = Prisma.TransactionClient;
+
+// Width trash thumbnails need
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Error thrown when something can't be restored, carrying the HTTP status to return
+ */
+export class TrashError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+// Where a trashed image was, so restoring can put it back
+const TrashedLinksSchema = z.object({
+  galleries: z.array(z.object({
+    galleryId: z.string(),
+    order: z.number(),
+    description: z.string().nullable(),
+    addedById: z.string().nullable(),
+  })),
+  covers: z.array(z.string()),
+});
+
+type TrashedLinks = z.infer<typeof TrashedLinksSchema>;
+
+function parseTrashedLinks(value: string | null): TrashedLinks {
+  const parsed = value ? TrashedLinksSchema.safeParse(JSON.parse(value)) : null;
+  return parsed?.success ? parsed.data : { galleries: [], covers: [] };
+}
+
+/**
+ * When something deleted at the given time gets purged
+ */
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + trashConfig.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Move images to the trash, taking them out of their galleries and cover slots
+ * Runs inside the caller's transaction so it can join a larger operation.
+ */
+export async function trashImages(tx: Db, imageIds: string[]): Promise<void> {
+  if (imageIds.length === 0) {
+    return;
+  }
+  const [links, covers] = await Promise.all([
+    tx.imageInGallery.findMany({
+      where: { imageId: { in: imageIds } },
+      select: { imageId: true, galleryId: true, order: true, description: true, addedById: true },
+    }),
+    tx.gallery.findMany({ where: { coverImageId: { in: imageIds } }, select: { id: true, coverImageId: true } }),
+  ]);
+
+  await tx.gallery.updateMany({ where: { coverImageId: { in: imageIds } }, data: { coverImageId: null } });
+  await tx.imageInGallery.deleteMany({ where: { imageId: { in: imageIds } } });
+
+  const deletedAt = new Date();
+  for (const imageId of imageIds) {
+    const trashedLinks: TrashedLinks = {
+      galleries: links
+        .filter(link => link.imageId === imageId)
+        .map(link => ({ galleryId: link.galleryId, order: link.order, description: link.description, addedById: link.addedById })),
+      covers: covers.filter(gallery => gallery.coverImageId === imageId).map(gallery => gallery.id),
+    };
+    await tx.image.update({ where: { id: imageId }, data: { deletedAt, trashedLinks: JSON.stringify(trashedLinks) } });
+  }
+}
+
+/**
+ * Move a gallery to the trash; its images, members and share links stay attached
+ */
+export async function trashGallery(galleryId: string): Promise<void> {
+  await prisma.gallery.update({ where: { id: galleryId }, data: { deletedAt: new Date() } });
+}
+
+/**
+ * Everything in a user's trash, most recently deleted first
+ * Items past the retention period are purged first.
+ */
+export async function listTrash(userId: string): Promise<Trash> {
+  await purgeTrash({ userId });
+
+  const [images, galleries] = await Promise.all([
+    prisma.image.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: { id: true, title: true, url: true, variants: true, deletedAt: true, trashedLinks: true },
+    }),
+    prisma.gallery.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        title: true,
+        deletedAt: true,
+        coverImage: { select: { url: true, variants: true } },
+        _count: { select: { images: true } },
+      },
+    }),
+  ]);
+
+  const items: TrashItem[] = [
+    ...images.map(image => ({
+      targetType: 'image' as const,
+      id: image.id,
+      title: image.title,
+      thumbnailUrl: pickVariantUrl(image.variants, THUMBNAIL_WIDTH, image.url),
+      deletedAt: image.deletedAt!,
+      purgeAt: purgeDate(image.deletedAt!),
+      count: parseTrashedLinks(image.trashedLinks).galleries.length,
+    })),
+    ...galleries.map(gallery => ({
+      targetType: 'gallery' as const,
+      id: gallery.id,
+      title: gallery.title,
+      thumbnailUrl: gallery.coverImage ? pickVariantUrl(gallery.coverImage.variants, THUMBNAIL_WIDTH, gallery.coverImage.url) : null,
+      deletedAt: gallery.deletedAt!,
+      purgeAt: purgeDate(gallery.deletedAt!),
+      count: gallery._count.images,
+    })),
+  ];
+  items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  return { items, retentionDays: trashConfig.retentionDays };
+}
+
+async function restoreImage(userId: string, imageId: string): Promise<RestoreResult> {
+  const image = await prisma.image.findFirst({
+    where: { id: imageId, userId, deletedAt: { not: null } },
+    select: { id: true, trashedLinks: true },
+  });
+  if (!image) {
+    throw new TrashError('Image not found in the trash', 404);
+  }
+  const links = parseTrashedLinks(image.trashedLinks);
+
+  return prisma.$transaction(async (tx) => {
+    // Galleries purged in the meantime are skipped, as are people who've since left
+    const galleryIds = [...new Set([...links.galleries.map(link => link.galleryId), ...links.covers])];
+    const galleries = await tx.gallery.findMany({ where: { id: { in: galleryIds } }, select: { id: true, coverImageId: true } });
+    const existingGalleries = new Set(galleries.map(gallery => gallery.id));
+    const adderIds = links.galleries.map(link => link.addedById).filter((id): id is string => !!id);
+    const existingAdders = new Set((await tx.user.findMany({ where: { id: { in: adderIds } }, select: { id: true } })).map(user => user.id));
+
+    const restoredLinks = links.galleries.filter(link => existingGalleries.has(link.galleryId));
+    if (restoredLinks.length > 0) {
+      await tx.imageInGallery.createMany({
+        data: restoredLinks.map(link => ({
+          imageId,
+          galleryId: link.galleryId,
+          order: link.order,
+          description: link.description,
+          addedById: link.addedById && existingAdders.has(link.addedById) ? link.addedById : null,
+        })),
+      });
+    }
+
+    // Only galleries that haven't picked another cover get this one back
+    const coverGalleries = galleries.filter(gallery => links.covers.includes(gallery.id) && !gallery.coverImageId).map(gallery => gallery.id);
+    if (coverGalleries.length > 0) {
+      await tx.gallery.updateMany({ where: { id: { in: coverGalleries } }, data: { coverImageId: imageId } });
+    }
+
+    await tx.image.update({ where: { id: imageId }, data: { deletedAt: null, trashedLinks: null } });
+    return { targetType: 'image' as const, id: imageId, galleriesRestored: restoredLinks.length, coversRestored: coverGalleries.length };
+  });
+}
+
+async function restoreGallery(userId: string, galleryId: string): Promise<RestoreResult> {
+  const { count } = await prisma.gallery.updateMany({
+    where: { id: galleryId, userId, deletedAt: { not: null } },
+    data: { deletedAt: null },
+  });
+  if (count === 0) {
+    throw new TrashError('Gallery not found in the trash', 404);
+  }
+  return { targetType: 'gallery', id: galleryId, galleriesRestored: 0, coversRestored: 0 };
+}
+
+/**
+ * Take an image or gallery out of the trash
+ * @param req The user's request, for the audit log
+ */
+export async function restoreFromTrash(
+  user: { id: string; email?: string | null },
+  target: TrashTarget,
+  req?: { headers: Headers }
+): Promise<RestoreResult> {
+  const result = target.targetType === 'image'
+    ? await restoreImage(user.id, target.id)
+    : await restoreGallery(user.id, target.id);
+
+  await recordAuditEvent({
+    action: target.targetType === 'image' ? 'image.restored' : 'gallery.restored',
+    actor: user,
+    target: { type: target.targetType, id: target.id },
+    req,
+  });
+  return result;
+}
+
+/**
+ * Permanently delete trashed items, along with their stored files
+ * @param options.userId Only purge this user's trash
+ * @param options.before Purge items deleted before this time; defaults to the end of the retention period
+ * @returns How many images and galleries were purged
+ */
+export async function purgeTrash(options: { userId?: string; before?: Date } = {}): Promise<{ images: number; galleries: number }> {
+  const before = options.before ?? new Date(Date.now() - trashConfig.retentionDays * 24 * 60 * 60 * 1000);
+  const where = { deletedAt: { lt: before }, ...(options.userId && { userId: options.userId }) };
+
+  const images = await prisma.image.findMany({
+    where,
+    select: { id: true, url: true, variants: { select: { url: true } }, versions: { select: { url: true } } },
+  });
+  // Image links, members and share links cascade with the rows
+  const [galleries] = await prisma.$transaction([
+    prisma.gallery.deleteMany({ where }),
+    prisma.image.deleteMany({ where: { id: { in: images.map(image => image.id) } } }),
+  ]);
+
+  // Files are only reclaimed once the rows are gone for good
+  await deleteStoredFiles([...new Set(images.flatMap(image => [
+    image.url,
+    ...image.versions.map(version => version.url),
+    ...image.variants.map(variant => variant.url),
+  ]))]);
+
+  if (images.length > 0 || galleries.count > 0) {
+    logger.log(`Purged ${images.length} images and ${galleries.count} galleries from the trash`);
+  }
+  return { images: images.length, galleries: galleries.count };
+}
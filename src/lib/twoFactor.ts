@@ -0,0 +1,313 @@
+/**
+ * Two-factor authentication
+ *
+ * Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30 second steps, 6 digits) from any
+ * authenticator app, plus one-time recovery codes for when the app is lost. The TOTP secret
+ * is stored encrypted with a key derived from NEXTAUTH_SECRET and recovery codes only as
+ * hashes. Setup stores a pending secret that only takes effect once a code from it is confirmed.
+ */
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import { twoFactor as twoFactorConfig } from '@/lib/config';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes from the neighbouring steps, for clocks that are slightly off
+const ALLOWED_DRIFT = 1;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Error thrown when a two-factor change isn't possible, carrying the HTTP status to return
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesLeft: number;
+  // Whether policy keeps this user from turning it off
+  required: boolean;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * The code an authenticator app shows for a secret at a given time
+ */
+export function totpCode(secret: string, time = Date.now()): string {
+  return hotp(secret, Math.floor(time / 1000 / STEP_SECONDS));
+}
+
+// The time step a code belongs to, or null if it doesn't match any allowed step
+function matchTotpStep(secret: string, code: string, time = Date.now()): number | null {
+  const current = Math.floor(time / 1000 / STEP_SECONDS);
+  for (let drift = -ALLOWED_DRIFT; drift <= ALLOWED_DRIFT; drift++) {
+    if (hotp(secret, current + drift) === code) {
+      return current + drift;
+    }
+  }
+  return null;
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new TwoFactorError('Two-factor authentication requires NEXTAUTH_SECRET to be set', 500);
+  }
+  return createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+// Ten random base32 characters, shown as two groups of five
+function generateRecoveryCode(): string {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: twoFactorConfig.recoveryCodeCount }, generateRecoveryCode);
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+  return codes;
+}
+
+/**
+ * Whether policy makes this user set up two-factor authentication
+ */
+export function isTwoFactorRequired(user: { role: UserRole }): boolean {
+  return twoFactorConfig.requireForAdmins && user.role === UserRole.ADMIN;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      twoFactorEnabledAt: true,
+      _count: { select: { twoFactorRecoveryCodes: { where: { usedAt: null } } } },
+    },
+  });
+  if (!user) {
+    throw new TwoFactorError('User not found', 404);
+  }
+  return {
+    enabled: !!user.twoFactorEnabledAt,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesLeft: user._count.twoFactorRecoveryCodes,
+    required: isTwoFactorRequired(user),
+  };
+}
+
+/**
+ * Start setting up two-factor authentication with a new secret
+ * @returns The secret for manual entry, its otpauth:// URL and that URL as a QR code image
+ */
+export async function startTwoFactorSetup(userId: string): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabledAt: true },
+  });
+  if (!user) {
+    throw new TwoFactorError('User not found', 404);
+  }
+  if (user.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+
+  // 160 bits, the HMAC-SHA1 block size recommended by RFC 4226
+  const secret = base32Encode(randomBytes(20));
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  });
+
+  const label = encodeURIComponent(`${twoFactorConfig.issuer}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: twoFactorConfig.issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Finish setting up two-factor authentication with a code from the new secret
+ * @returns The recovery codes, which are only ever shown this once
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+  });
+  if (user?.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+  if (!user?.twoFactorSecret) {
+    throw new TwoFactorError('Start the setup first', 400);
+  }
+
+  const step = matchTotpStep(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    throw new TwoFactorError('That code is not valid. Check the time on your device and try again.', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+  });
+  logger.log(`Two-factor authentication enabled for user ${userId}`);
+  return issueRecoveryCodes(userId);
+}
+
+/**
+ * Check a second factor at sign-in: a current TOTP code or an unused recovery code
+ * Each code works only once.
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+  });
+  if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const normalized = code.replace(/\s/g, '');
+  if (/^\d+$/.test(normalized)) {
+    const step = matchTotpStep(decryptSecret(user.twoFactorSecret), normalized);
+    if (step === null) return false;
+    // Claim the step: a replayed code (or a concurrent sign-in with it) updates nothing
+    const claimed = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+      data: { twoFactorLastStep: step },
+    });
+    return claimed.count === 1;
+  }
+
+  const used = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(normalized), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (used.count === 1) {
+    logger.log(`Recovery code used by user ${userId}`);
+  }
+  return used.count === 1;
+}
+
+async function assertEnabledWithCode(userId: string, code: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { twoFactorEnabledAt: true } });
+  if (!user?.twoFactorEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is not enabled', 400);
+  }
+  if (!await verifyTwoFactorCode(userId, code)) {
+    throw new TwoFactorError('That code is not valid', 400);
+  }
+}
+
+/**
+ * Replace the recovery codes, after confirming a current code
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  await assertEnabledWithCode(userId, code);
+  return issueRecoveryCodes(userId);
+}
+
+/**
+ * Turn two-factor authentication off, after confirming a current code
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+  if (user && isTwoFactorRequired(user)) {
+    throw new TwoFactorError('Administrators must keep two-factor authentication enabled', 403);
+  }
+  await assertEnabledWithCode(userId, code);
+  await resetTwoFactor(userId);
+}
+
+/**
+ * Remove a user's second factor entirely (also used by admins for locked-out users)
+ */
+export async function resetTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+    }),
+  ]);
+  logger.log(`Two-factor authentication turned off for user ${userId}`);
+}
@@ -12,7 +12,8 @@ import {
   Image as ZodImage, 
   Gallery as ZodGallery,
   Tag as ZodTag,
-  ImageInGallery as ZodImageInGallery
+  ImageInGallery as ZodImageInGallery,
+  SmartGalleryRules
 } from '@/lib/schemas';
 import { Gallery, ImageInGallery, Tag as PrismaTag, UserRole, Image as PrismaImage } from '@prisma/client';
 
@@ -65,6 +66,7 @@ export interface FullImageInGalleryImage extends PrismaImage {
 // Represents an item in the 'images' array of FullGallery
 export interface FullImageInGallery extends ImageInGallery {
   image: FullImageInGalleryImage;
+  isPinned?: boolean; // Smart galleries: hand-picked (true) or matched by the rules (false)
 }
 
 // Represents the 'user' object within FullGallery
@@ -79,9 +81,10 @@ export interface FullGalleryUser {
 }
 
 // Represents the main gallery object, including theming fields
-export interface FullGallery extends Omit<Gallery, 'user' | 'images'> {
+export interface FullGallery extends Omit<Gallery, 'user' | 'images' | 'smartRules'> {
   images: FullImageInGallery[];
   user: FullGalleryUser;
+  smartRules?: SmartGalleryRules | null; // Parsed from the stored JSON
   
   // Optional: If you fetch the coverImage object separately and add it to FullGallery
   coverImage?: PrismaImage | null; 
@@ -0,0 +1,104 @@
+/**
+ * Upload pipeline shared by single-request and chunked uploads
+ * Extracts metadata, fingerprints the file, optionally strips GPS data,
+ * and stores the original plus its responsive variants.
+ * Uploads are recorded against the uploader until an image is created from them.
+ */
+import { prisma } from '@/lib/db';
+import logger from '@/lib/logger';
+import {
+  computeImageHashes,
+  extractImageMetadata,
+  renderImageVariants,
+  shouldGenerateVariants,
+  stripGpsMetadata,
+} from '@/lib/imageProcessing';
+import { getStorage } from '@/lib/storage';
+import { UploadResultSchema, type ImageMetadata, type ImageVariant, type UploadResult } from '@/lib/schemas';
+
+export interface UploadInput {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  // Opt-in: remove location data from the stored original for privacy
+  stripGps?: boolean;
+}
+
+/**
+ * Render and store the responsive variants of an image
+ * @param baseName Storage key prefix; each variant is stored as `<baseName>-<name>.<format>`
+ */
+export async function storeImageVariants(baseName: string, data: Buffer): Promise<ImageVariant[]> {
+  const storage = getStorage();
+  const variants: ImageVariant[] = [];
+  for (const variant of await renderImageVariants(data)) {
+    const stored = await storage.put(
+      `${baseName}-${variant.name}.${variant.format}`,
+      variant.data,
+      { contentType: `image/${variant.format}` }
+    );
+    variants.push({
+      name: variant.name,
+      format: variant.format,
+      width: variant.width,
+      height: variant.height,
+      size: variant.data.length,
+      url: stored.url,
+    });
+  }
+  return variants;
+}
+
+/**
+ * Process and store an uploaded file
+ * @returns The stored URL plus everything needed to create the Image record
+ */
+export async function processUpload({ data, fileName, mimeType, stripGps = false }: UploadInput): Promise<UploadResult> {
+  // Metadata is read before GPS stripping so the rest of the EXIF survives re-encoding
+  let metadata: ImageMetadata | null = null;
+  if (mimeType.startsWith('image/')) {
+    metadata = await extractImageMetadata(data);
+  }
+  if (metadata && stripGps) {
+    metadata = { ...metadata, latitude: null, longitude: null, altitude: null, gpsStripped: true };
+  }
+
+  // Hash the file as the user has it, so re-uploads match even when GPS data was stripped
+  const hashes = await computeImageHashes(data);
+
+  const buffer = stripGps ? await stripGpsMetadata(data, mimeType) : data;
+  const storage = getStorage();
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const filename = uniqueSuffix + '-' + fileName.replace(/[^a-zA-Z0-9.-]/g, '');
+  const original = await storage.put(filename, buffer, { contentType: mimeType });
+
+  // Generate responsive variants; a failure here shouldn't fail the upload itself
+  let variants: ImageVariant[] = [];
+  if (shouldGenerateVariants(mimeType)) {
+    try {
+      variants = await storeImageVariants(filename.replace(/\.[^/.]+$/, ''), buffer);
+    } catch (variantError) {
+      logger.error('Variant generation error:', variantError);
+    }
+  }
+
+  return { url: original.url, variants, metadata, ...hashes };
+}
+
+/**
+ * Remember that a user was given this upload, so they can create an image from it
+ */
+export async function recordUpload(userId: string, result: UploadResult): Promise<void> {
+  await prisma.upload.create({
+    data: { userId, url: result.url, result: JSON.stringify(result) },
+  });
+}
+
+/**
+ * Find an upload the user was given and hasn't used for an image yet
+ * @returns The upload's id and pipeline result, or null if the URL wasn't issued to this user
+ */
+export async function findUpload(userId: string, url: string): Promise<{ id: string; result: UploadResult } | null> {
+  const upload = await prisma.upload.findFirst({ where: { userId, url } });
+  return upload ? { id: upload.id, result: UploadResultSchema.parse(JSON.parse(upload.result)) } : null;
+}
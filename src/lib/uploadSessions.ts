@@ -0,0 +1,177 @@
+/**
+ * Server-side storage for resumable chunked uploads
+ * Session state lives in the UploadSession table; the bytes received so far
+ * are written to a temporary file until the upload is completed.
+ */
+import { createHash } from 'crypto';
+import { mkdir, open, readFile, rm } from 'fs/promises';
+import { join, resolve } from 'path';
+import { prisma } from '@/lib/db';
+import { uploads } from '@/lib/config';
+import logger from '@/lib/logger';
+import type { UploadSession } from '@prisma/client';
+
+export class UploadSessionError extends Error {
+  constructor(message: string, public readonly status: number, public readonly receivedBytes?: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+function getSessionDirectory(): string {
+  return resolve(process.cwd(), uploads.sessionDirectory);
+}
+
+// Session ids are cuids, so they are safe to use as file names
+function getSessionFilePath(sessionId: string): string {
+  return join(getSessionDirectory(), `${sessionId}.part`);
+}
+
+/**
+ * Parse an `Upload-Checksum: sha256 <hex>` header
+ * @returns The expected hex digest, or null if the header is missing or uses another algorithm
+ */
+export function parseChecksumHeader(header: string | null): string | null {
+  const match = header?.trim().match(/^sha256\s+([0-9a-f]{64})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Public view of a session, as returned to the client
+ */
+export function serializeUploadSession(session: UploadSession) {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    mimeType: session.mimeType,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    receivedBytes: session.receivedBytes,
+    fingerprint: session.fingerprint,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Start a new upload session with an empty temporary file
+ */
+export async function createUploadSession(
+  userId: string,
+  input: { fileName: string; mimeType: string; size: number; fingerprint: string; stripGps: boolean }
+): Promise<UploadSession> {
+  if (input.size > uploads.maxFileSize) {
+    throw new UploadSessionError('File is too large', 413);
+  }
+
+  await purgeExpiredUploadSessions();
+
+  const session = await prisma.uploadSession.create({
+    data: {
+      ...input,
+      userId,
+      chunkSize: uploads.chunkSize,
+      expiresAt: new Date(Date.now() + uploads.sessionTtl * 1000),
+    },
+  });
+
+  await mkdir(getSessionDirectory(), { recursive: true });
+  await (await open(getSessionFilePath(session.id), 'w')).close();
+  return session;
+}
+
+/**
+ * Look up an active session owned by a user
+ * @throws UploadSessionError if the session doesn't exist, belongs to someone else or has expired
+ */
+export async function getUploadSession(sessionId: string, userId: string): Promise<UploadSession> {
+  const session = await prisma.uploadSession.findUnique({ where: { id: sessionId } });
+  if (!session || session.userId !== userId) {
+    throw new UploadSessionError('Upload session not found', 404);
+  }
+  if (session.expiresAt < new Date()) {
+    await deleteUploadSession(session.id);
+    throw new UploadSessionError('Upload session has expired', 410);
+  }
+  return session;
+}
+
+/**
+ * Write a chunk at the given offset
+ * Offsets must match the bytes received so far; re-sending the last chunk is harmless
+ * because it is written to the same position.
+ * @returns The updated session
+ */
+export async function appendUploadChunk(
+  session: UploadSession,
+  offset: number,
+  chunk: Buffer,
+  expectedChecksum: string | null
+): Promise<UploadSession> {
+  if (offset !== session.receivedBytes) {
+    throw new UploadSessionError('Offset does not match the bytes received', 409, session.receivedBytes);
+  }
+  if (chunk.length === 0 || chunk.length > session.chunkSize || offset + chunk.length > session.size) {
+    throw new UploadSessionError('Invalid chunk size', 400, session.receivedBytes);
+  }
+  if (!expectedChecksum) {
+    throw new UploadSessionError('Missing or unsupported Upload-Checksum header', 400, session.receivedBytes);
+  }
+  const actualChecksum = createHash('sha256').update(chunk).digest('hex');
+  if (actualChecksum !== expectedChecksum) {
+    throw new UploadSessionError('Chunk checksum mismatch', 460, session.receivedBytes);
+  }
+
+  const file = await open(getSessionFilePath(session.id), 'r+');
+  try {
+    await file.write(chunk, 0, chunk.length, offset);
+  } finally {
+    await file.close();
+  }
+
+  // Only advance from the offset we validated, so concurrent appends can't skip bytes
+  const { count } = await prisma.uploadSession.updateMany({
+    where: { id: session.id, receivedBytes: offset },
+    data: { receivedBytes: offset + chunk.length },
+  });
+  if (count === 0) {
+    const current = await prisma.uploadSession.findUnique({ where: { id: session.id } });
+    throw new UploadSessionError('Offset does not match the bytes received', 409, current?.receivedBytes);
+  }
+
+  return { ...session, receivedBytes: offset + chunk.length };
+}
+
+/**
+ * Read the assembled file of a fully received session
+ */
+export async function readCompletedUpload(session: UploadSession): Promise<Buffer> {
+  if (session.receivedBytes !== session.size) {
+    throw new UploadSessionError('Upload is incomplete', 409, session.receivedBytes);
+  }
+  return readFile(getSessionFilePath(session.id));
+}
+
+/**
+ * Remove a session and its temporary file
+ */
+export async function deleteUploadSession(sessionId: string): Promise<void> {
+  await prisma.uploadSession.deleteMany({ where: { id: sessionId } });
+  await rm(getSessionFilePath(sessionId), { force: true });
+}
+
+/**
+ * Remove sessions that can no longer be resumed
+ */
+export async function purgeExpiredUploadSessions(): Promise<void> {
+  const expired = await prisma.uploadSession.findMany({
+    where: { expiresAt: { lt: new Date() } },
+    select: { id: true },
+  });
+  for (const { id } of expired) {
+    try {
+      await deleteUploadSession(id);
+    } catch (error) {
+      logger.error(`Failed to purge upload session ${id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { canInGallery, canRemoveGalleryImage } from '../galleryRoles';
+
+describe('galleryRoles', () => {
+  it('should give each role the permissions of the roles below it', () => {
+    expect(canInGallery('VIEWER', 'view')).toBe(true);
+    expect(canInGallery('VIEWER', 'addImages')).toBe(false);
+    expect(canInGallery('CONTRIBUTOR', 'addImages')).toBe(true);
+    expect(canInGallery('CONTRIBUTOR', 'editImages')).toBe(false);
+    expect(canInGallery('EDITOR', 'editDetails')).toBe(true);
+    expect(canInGallery('EDITOR', 'manage')).toBe(false);
+    expect(canInGallery('OWNER', 'manage')).toBe(true);
+  });
+
+  it('should allow nothing without a role', () => {
+    expect(canInGallery(null, 'view')).toBe(false);
+    expect(canInGallery(undefined, 'view')).toBe(false);
+  });
+
+  it('should let contributors remove only the images they added', () => {
+    expect(canRemoveGalleryImage('CONTRIBUTOR', 'user-1', { addedById: 'user-1' })).toBe(true);
+    expect(canRemoveGalleryImage('CONTRIBUTOR', 'user-1', { addedById: 'user-2' })).toBe(false);
+    expect(canRemoveGalleryImage('CONTRIBUTOR', 'user-1', { addedById: null })).toBe(false);
+    expect(canRemoveGalleryImage('VIEWER', 'user-1', { addedById: 'user-1' })).toBe(false);
+    expect(canRemoveGalleryImage('EDITOR', 'user-1', { addedById: 'user-2' })).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { computeDifferenceHash, computePerceptualHash, hammingDistance, clusterDuplicates, DHASH_WIDTH, DHASH_HEIGHT } from '../imageHashing';
+
+// Horizontal gradient: every pixel is darker than its right neighbour
+const gradient = Array.from({ length: DHASH_WIDTH * DHASH_HEIGHT }, (_, i) => i % DHASH_WIDTH);
+
+describe('imageHashing', () => {
+  describe('computeDifferenceHash', () => {
+    it('should produce a 64-bit hex hash', () => {
+      expect(computeDifferenceHash(gradient)).toBe('0000000000000000');
+      expect(computeDifferenceHash(gradient.map(value => -value))).toBe('ffffffffffffffff');
+    });
+
+    it('should reject thumbnails of the wrong size', () => {
+      expect(() => computeDifferenceHash([1, 2, 3])).toThrow();
+    });
+  });
+
+  describe('computePerceptualHash', () => {
+    // RGBA pixels whose brightness depends on the column only
+    const image = (width: number, height: number, brightness: (x: number) => number) =>
+      Array.from({ length: width * height }, (_, i) => {
+        const value = brightness(i % width);
+        return [value, value, value, 255];
+      }).flat();
+
+    it('should average the area each cell covers at any scale', () => {
+      expect(computePerceptualHash(image(31, 17, x => 255 - x * 8), 31, 17, 4)).toBe('ffffffffffffffff');
+      expect(computePerceptualHash(image(5, 3, x => x * 50), 5, 3, 4)).toBe('0000000000000000');
+    });
+
+    it('should reject truncated pixel data', () => {
+      expect(() => computePerceptualHash([0, 0, 0], 2, 2, 3)).toThrow();
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    });
+
+    it('should treat mismatched hashes as incomparable', () => {
+      expect(hammingDistance('00', '0000000000000000')).toBe(Infinity);
+      expect(hammingDistance('zzzzzzzzzzzzzzzz', '0000000000000000')).toBe(Infinity);
+    });
+  });
+
+  describe('clusterDuplicates', () => {
+    it('should group exact and near duplicates transitively', () => {
+      const clusters = clusterDuplicates([
+        { id: 'a', contentHash: 'x', perceptualHash: '0000000000000000' },
+        { id: 'b', contentHash: 'y', perceptualHash: '0000000000000003' },
+        { id: 'c', contentHash: 'z', perceptualHash: '000000000000000f' },
+        { id: 'd', contentHash: 'w', perceptualHash: 'ffffffffffffffff' },
+        { id: 'e', contentHash: 'w', perceptualHash: null },
+      ], 2);
+
+      expect(clusters).toEqual([
+        { exact: false, items: [expect.objectContaining({ id: 'a' }), expect.objectContaining({ id: 'b' }), expect.objectContaining({ id: 'c' })] },
+        { exact: true, items: [expect.objectContaining({ id: 'd' }), expect.objectContaining({ id: 'e' })] },
+      ]);
+    });
+
+    it('should ignore items without matches', () => {
+      expect(clusterDuplicates([
+        { id: 'a', perceptualHash: '0000000000000000' },
+        { id: 'b', perceptualHash: 'ffffffffffffffff' },
+      ], 6)).toEqual([]);
+    });
+  });
+});
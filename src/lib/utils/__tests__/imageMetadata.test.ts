@@ -0,0 +1,93 @@
+import { normalizeImageMetadata, formatExposureTime, getMetadataDisplayRows } from '../imageMetadata';
+
+describe('imageMetadata', () => {
+  describe('normalizeImageMetadata', () => {
+    it('should map EXIF tags to metadata fields', () => {
+      const capturedAt = new Date('2024-05-01T10:20:30Z');
+      const metadata = normalizeImageMetadata({
+        Make: 'Canon',
+        Model: 'EOS R5',
+        LensModel: 'RF 50mm F1.8 STM',
+        FocalLength: 50,
+        FNumber: 2.8,
+        ExposureTime: 0.004,
+        ISO: 400,
+        DateTimeOriginal: capturedAt,
+        latitude: 35.0116,
+        longitude: 135.7681,
+        Artist: 'Jane Doe',
+      }, { width: 6000, height: 4000 });
+
+      expect(metadata).toMatchObject({
+        width: 6000,
+        height: 4000,
+        cameraMake: 'Canon',
+        cameraModel: 'EOS R5',
+        lensModel: 'RF 50mm F1.8 STM',
+        focalLength: 50,
+        aperture: 2.8,
+        exposureTime: 0.004,
+        iso: 400,
+        capturedAt,
+        latitude: 35.0116,
+        longitude: 135.7681,
+        artist: 'Jane Doe',
+      });
+    });
+
+    it('should read IPTC and XMP fields including language-tagged values', () => {
+      const metadata = normalizeImageMetadata({
+        Keywords: ['kyoto', 'temple'],
+        CopyrightNotice: '© Jane Doe',
+        description: { lang: 'x-default', value: 'Fushimi Inari at dawn' },
+      });
+
+      expect(metadata.keywords).toBe('kyoto, temple');
+      expect(metadata.copyright).toBe('© Jane Doe');
+      expect(metadata.caption).toBe('Fushimi Inari at dawn');
+    });
+
+    it('should return empty fields when no tags were parsed', () => {
+      const metadata = normalizeImageMetadata(undefined, { width: 800, height: 600 });
+
+      expect(metadata.width).toBe(800);
+      expect(metadata.cameraModel).toBeNull();
+      expect(metadata.capturedAt).toBeNull();
+    });
+  });
+
+  describe('formatExposureTime', () => {
+    it('should format fast shutter speeds as fractions', () => {
+      expect(formatExposureTime(0.004)).toBe('1/250 s');
+    });
+
+    it('should format long exposures in seconds', () => {
+      expect(formatExposureTime(2.5)).toBe('2.5 s');
+    });
+  });
+
+  describe('getMetadataDisplayRows', () => {
+    it('should combine camera and exposure details into rows', () => {
+      const rows = getMetadataDisplayRows({
+        cameraMake: 'Canon',
+        cameraModel: 'EOS R5',
+        focalLength: 50,
+        aperture: 2.8,
+        exposureTime: 0.004,
+        iso: 400,
+        width: 6000,
+        height: 4000,
+      });
+
+      expect(rows).toEqual([
+        { label: 'Camera', value: 'Canon EOS R5' },
+        { label: 'Exposure', value: '50 mm · f/2.8 · 1/250 s · ISO 400' },
+        { label: 'Dimensions', value: '6000 × 4000' },
+      ]);
+    });
+
+    it('should return no rows without metadata', () => {
+      expect(getMetadataDisplayRows(null)).toEqual([]);
+    });
+  });
+});
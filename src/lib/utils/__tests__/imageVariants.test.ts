@@ -0,0 +1,62 @@
+import { buildSrcSet, getVariantSources, pickVariantUrl } from '../imageVariants';
+import type { ImageVariant } from '@/lib/schemas';
+
+const variant = (name: string, format: string, width: number): ImageVariant => ({
+  name,
+  format,
+  width,
+  height: Math.round(width * 0.75),
+  size: width * 10,
+  url: `/uploads/photo-${name}.${format}`,
+});
+
+const variants: ImageVariant[] = [
+  variant('large', 'webp', 1920),
+  variant('thumb', 'webp', 320),
+  variant('medium', 'webp', 960),
+  variant('thumb', 'avif', 320),
+  variant('medium', 'avif', 960),
+];
+
+describe('imageVariants', () => {
+  describe('buildSrcSet', () => {
+    it('should list variants of one format from smallest to largest', () => {
+      expect(buildSrcSet(variants, 'webp')).toBe(
+        '/uploads/photo-thumb.webp 320w, /uploads/photo-medium.webp 960w, /uploads/photo-large.webp 1920w'
+      );
+    });
+
+    it('should return an empty string when there are no variants', () => {
+      expect(buildSrcSet(undefined, 'webp')).toBe('');
+      expect(buildSrcSet(variants, 'jpeg')).toBe('');
+    });
+  });
+
+  describe('getVariantSources', () => {
+    it('should order sources by format preference', () => {
+      const sources = getVariantSources(variants);
+
+      expect(sources.map(source => source.type)).toEqual(['image/avif', 'image/webp']);
+      expect(sources[0].srcSet).toBe('/uploads/photo-thumb.avif 320w, /uploads/photo-medium.avif 960w');
+    });
+
+    it('should return no sources for images without variants', () => {
+      expect(getVariantSources([])).toEqual([]);
+      expect(getVariantSources(null)).toEqual([]);
+    });
+  });
+
+  describe('pickVariantUrl', () => {
+    it('should pick the smallest preferred variant that is wide enough', () => {
+      expect(pickVariantUrl(variants, 500, '/uploads/photo.jpg')).toBe('/uploads/photo-medium.avif');
+    });
+
+    it('should fall back to the largest variant when none is wide enough', () => {
+      expect(pickVariantUrl(variants, 4000, '/uploads/photo.jpg')).toBe('/uploads/photo-medium.avif');
+    });
+
+    it('should fall back to the original when there are no variants', () => {
+      expect(pickVariantUrl(undefined, 320, '/uploads/photo.jpg')).toBe('/uploads/photo.jpg');
+    });
+  });
+});
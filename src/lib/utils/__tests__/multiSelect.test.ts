@@ -0,0 +1,31 @@
+import { getRangeIds, toggleId, rectFromPoints, rectsIntersect } from '../multiSelect';
+
+describe('multiSelect', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should select ranges in display order in either direction', () => {
+    expect(getRangeIds(ids, 'b', 'd')).toEqual(['b', 'c', 'd']);
+    expect(getRangeIds(ids, 'd', 'b')).toEqual(['b', 'c', 'd']);
+    expect(getRangeIds(ids, 'c', 'c')).toEqual(['c']);
+  });
+
+  it('should fall back to the target without a usable anchor', () => {
+    expect(getRangeIds(ids, null, 'c')).toEqual(['c']);
+    expect(getRangeIds(ids, 'gone', 'c')).toEqual(['c']);
+    expect(getRangeIds(ids, 'a', 'gone')).toEqual([]);
+  });
+
+  it('should toggle ids without mutating the selection', () => {
+    const selection = new Set(['a']);
+    expect([...toggleId(selection, 'b')]).toEqual(['a', 'b']);
+    expect([...toggleId(selection, 'a')]).toEqual([]);
+    expect([...selection]).toEqual(['a']);
+  });
+
+  it('should hit-test lasso rectangles drawn in any direction', () => {
+    const lasso = rectFromPoints({ x: 100, y: 100 }, { x: 10, y: 20 });
+    expect(lasso).toEqual({ left: 10, top: 20, right: 100, bottom: 100 });
+    expect(rectsIntersect(lasso, { left: 90, top: 90, right: 200, bottom: 200 })).toBe(true);
+    expect(rectsIntersect(lasso, { left: 100, top: 0, right: 200, bottom: 50 })).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { parseSearchQuery, parseListParam } from '../searchQuery';
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('should match every word by prefix', () => {
+      expect(parseSearchQuery('sun beach')).toEqual({
+        include: '("sun"* AND "beach"*)',
+        exclude: null,
+      });
+    });
+
+    it('should match quoted phrases exactly', () => {
+      expect(parseSearchQuery('"golden hour" kyoto').include).toBe('("golden hour" AND "kyoto"*)');
+    });
+
+    it('should combine groups separated by OR', () => {
+      expect(parseSearchQuery('cat OR dog puppy').include).toBe('"cat"* OR ("dog"* AND "puppy"*)');
+    });
+
+    it('should collect negated terms separately', () => {
+      expect(parseSearchQuery('beach -night -"blue hour"')).toEqual({
+        include: '"beach"*',
+        exclude: '"night"* OR "blue hour"',
+      });
+    });
+
+    it('should neutralize FTS syntax in user input', () => {
+      expect(parseSearchQuery('title:foo* NEAR(')).toEqual({
+        include: '("title:foo"* AND "NEAR"*)',
+        exclude: null,
+      });
+      expect(parseSearchQuery('say "hi""').include).toBe('("say"* AND "hi")');
+    });
+
+    it('should return nothing for empty input', () => {
+      expect(parseSearchQuery('  ')).toEqual({ include: null, exclude: null });
+      expect(parseSearchQuery(undefined)).toEqual({ include: null, exclude: null });
+    });
+  });
+
+  describe('parseListParam', () => {
+    it('should split, trim and deduplicate values', () => {
+      expect(parseListParam(' nature, travel,,nature ')).toEqual(['nature', 'travel']);
+      expect(parseListParam(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  normalizeTagName,
+  getAncestorPaths,
+  getParentPath,
+  getTagLabel,
+  isSameOrDescendant,
+  replaceTagPrefix,
+  buildTagTree,
+  flattenTagTree,
+} from '../tagPaths';
+
+describe('tagPaths', () => {
+  it('should normalize separators and whitespace', () => {
+    expect(normalizeTagName(' travel / /japan  /kyoto ')).toBe('travel/japan/kyoto');
+    expect(normalizeTagName('street   art')).toBe('street art');
+    expect(normalizeTagName(' / ')).toBe('');
+  });
+
+  it('should list ancestors outermost first', () => {
+    expect(getAncestorPaths('travel/japan/kyoto')).toEqual(['travel', 'travel/japan']);
+    expect(getAncestorPaths('travel')).toEqual([]);
+    expect(getParentPath('travel/japan/kyoto')).toBe('travel/japan');
+    expect(getParentPath('travel')).toBeNull();
+    expect(getTagLabel('travel/japan')).toBe('japan');
+  });
+
+  it('should match descendants without matching siblings sharing a prefix', () => {
+    expect(isSameOrDescendant('travel/japan', 'travel')).toBe(true);
+    expect(isSameOrDescendant('travel', 'travel')).toBe(true);
+    expect(isSameOrDescendant('travelling', 'travel')).toBe(false);
+    expect(replaceTagPrefix('travel/japan/kyoto', 'travel/japan', 'trips/nihon')).toBe('trips/nihon/kyoto');
+  });
+
+  it('should build a sorted tree and flatten it in display order', () => {
+    const tree = buildTagTree([
+      { name: 'travel/japan' },
+      { name: 'nature' },
+      { name: 'travel' },
+      { name: 'travel/italy' },
+      { name: 'orphan/child' },
+    ]);
+
+    expect(tree.map(node => node.name)).toEqual(['nature', 'orphan/child', 'travel']);
+    expect(flattenTagTree(tree).map(node => [node.name, node.depth])).toEqual([
+      ['nature', 0],
+      ['orphan/child', 0],
+      ['travel', 0],
+      ['travel/italy', 1],
+      ['travel/japan', 1],
+    ]);
+  });
+});
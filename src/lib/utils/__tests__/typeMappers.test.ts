@@ -4,6 +4,7 @@ import {
   mapGalleryImagesToDisplayImages,
   findImageInGallery,
   findImageInGalleryIndex,
+  hasOtherContributors,
   DisplayGallery
 } from '@/lib/utils/typeMappers';
 import { z } from 'zod';
@@ -96,6 +97,27 @@ describe('Type Mapper Utils', () => {
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe('image-1');
     });
+
+    it('should credit who added each image when asked', () => {
+      const added = { ...sampleImageInGallery, addedById: 'user-2', addedBy: { id: 'user-2', name: 'Robin' } };
+
+      expect(mapGalleryImagesToDisplayImages([added])[0].addedBy).toBeUndefined();
+      expect(mapGalleryImagesToDisplayImages([added], { includeAddedBy: true })[0].addedBy).toBe('Robin');
+    });
+  });
+
+  describe('hasOtherContributors', () => {
+    it('should only be true when someone besides the owner added images', () => {
+      expect(hasOtherContributors(sampleGallery)).toBe(false);
+      expect(hasOtherContributors({
+        ...sampleGallery,
+        images: [{ ...sampleImageInGallery, addedById: 'user-1' }],
+      })).toBe(false);
+      expect(hasOtherContributors({
+        ...sampleGallery,
+        images: [sampleImageInGallery, { ...sampleImageInGallery, addedById: 'user-2' }],
+      })).toBe(true);
+    });
   });
 
   describe('findImageInGallery', () => {
@@ -11,7 +11,8 @@ export interface FileValidationOptions {
 }
 
 export class FileValidator {
-  private static readonly DEFAULT_MAX_SIZE = 4 * 1024 * 1024; // 4MB
+  // Matches the server's UPLOAD_MAX_FILE_SIZE default; large files are uploaded in chunks
+  static readonly DEFAULT_MAX_SIZE = 128 * 1024 * 1024; // 128MB
   private static readonly DEFAULT_ALLOWED_TYPES = [
     'image/jpeg',
     'image/jpg', 
@@ -0,0 +1,60 @@
+/**
+ * Permission rules for collaborative galleries
+ *
+ * Each role includes everything the roles below it can do: viewers see a gallery,
+ * contributors also add their own images (and remove the ones they added), editors also
+ * arrange and describe every image and change the gallery's details and theme, and only
+ * the owner changes visibility, smart rules, members, share links or deletes the gallery.
+ * Safe to use on both the client and the server.
+ */
+import type { GalleryAccessRole, GalleryRole } from '@/lib/schemas';
+
+const ROLE_RANK: Record<GalleryAccessRole, number> = {
+  VIEWER: 1,
+  CONTRIBUTOR: 2,
+  EDITOR: 3,
+  OWNER: 4,
+};
+
+export type GalleryPermission = 'view' | 'addImages' | 'editImages' | 'editDetails' | 'manage';
+
+const REQUIRED_ROLE: Record<GalleryPermission, GalleryAccessRole> = {
+  view: 'VIEWER',
+  addImages: 'CONTRIBUTOR',
+  editImages: 'EDITOR', // Reorder, describe and remove any image, set the cover
+  editDetails: 'EDITOR', // Title, description and theme
+  manage: 'OWNER', // Visibility, smart rules, members, share links and deletion
+};
+
+export const GALLERY_ROLE_LABELS: Record<GalleryAccessRole, string> = {
+  VIEWER: 'Viewer',
+  CONTRIBUTOR: 'Contributor',
+  EDITOR: 'Editor',
+  OWNER: 'Owner',
+};
+
+export const GALLERY_ROLE_DESCRIPTIONS: Record<GalleryRole, string> = {
+  VIEWER: 'Can see the gallery, even while it is private',
+  CONTRIBUTOR: 'Can also add their own images',
+  EDITOR: 'Can also arrange images and change the details and theme',
+};
+
+/**
+ * Whether a role allows an action; null (no access) allows nothing
+ */
+export function canInGallery(role: GalleryAccessRole | null | undefined, permission: GalleryPermission): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[permission]];
+}
+
+/**
+ * Whether a user may take an image out of a gallery: editors can remove any image,
+ * contributors only the ones they added
+ */
+export function canRemoveGalleryImage(
+  role: GalleryAccessRole | null | undefined,
+  userId: string | undefined,
+  entry: { addedById?: string | null }
+): boolean {
+  if (canInGallery(role, 'editImages')) return true;
+  return canInGallery(role, 'addImages') && !!userId && entry.addedById === userId;
+}
@@ -0,0 +1,231 @@
+/**
+ * Helpers for content-based duplicate detection
+ * The hash math is shared by the server (sharp) and the browser (canvas),
+ * so both sides produce comparable perceptual hashes.
+ * Each side shrinks the image to HASH_SOURCE_WIDTH x HASH_SOURCE_HEIGHT with its own resizer
+ * and the rest happens here: averaging 32x32 blocks of that evens out the differences between
+ * libvips and canvas resampling, which flip a good share of the bits when they go straight to 9x8.
+ */
+
+// Difference hash works on a 9x8 greyscale thumbnail, yielding 8x8 = 64 bits
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+// Size images are shrunk to before hashing, whatever their proportions, so hashing
+// costs the same for every upload
+export const HASH_SOURCE_WIDTH = DHASH_WIDTH * 32;
+export const HASH_SOURCE_HEIGHT = DHASH_HEIGHT * 32;
+
+/**
+ * Compute a 64-bit difference hash from greyscale pixels
+ * Each bit records whether a pixel is brighter than its right-hand neighbour.
+ * @param pixels Row-major greyscale values of a DHASH_WIDTH x DHASH_HEIGHT image
+ * @returns The hash as a 16 character hex string
+ */
+export function computeDifferenceHash(pixels: ArrayLike<number>): string {
+  if (pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`Expected ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hex = '';
+  let nibble = 0;
+  let bitCount = 0;
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const index = y * DHASH_WIDTH + x;
+      nibble = (nibble << 1) | (pixels[index] > pixels[index + 1] ? 1 : 0);
+      bitCount++;
+      if (bitCount % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+// Pairs of [thumbnail cell, fraction of the source pixel inside it] for each pixel along one axis
+function cellCoverage(sourceSize: number, cells: number): [number, number][][] {
+  const cellSize = sourceSize / cells;
+  return Array.from({ length: sourceSize }, (_, position) => {
+    const coverage: [number, number][] = [];
+    const last = Math.min(cells - 1, Math.floor((position + 1) / cellSize));
+    for (let cell = Math.floor(position / cellSize); cell <= last; cell++) {
+      const overlap = Math.min(position + 1, (cell + 1) * cellSize) - Math.max(position, cell * cellSize);
+      if (overlap > 0) {
+        coverage.push([cell, overlap]);
+      }
+    }
+    return coverage;
+  });
+}
+
+/**
+ * Compute the perceptual hash of a decoded image
+ * The image is converted to greyscale and shrunk to DHASH_WIDTH x DHASH_HEIGHT by averaging
+ * the area each thumbnail cell covers. Pass it images already shrunk to HASH_SOURCE_WIDTH x
+ * HASH_SOURCE_HEIGHT; every pixel is visited here.
+ * @param pixels Row-major pixel values, `channels` per pixel (RGB or RGBA; alpha is ignored)
+ * @returns The hash as a 16 character hex string
+ */
+export function computePerceptualHash(pixels: ArrayLike<number>, width: number, height: number, channels: number): string {
+  if (width < 1 || height < 1 || channels < 3 || pixels.length < width * height * channels) {
+    throw new Error(`Expected ${width}x${height} pixels with at least 3 channels`);
+  }
+
+  const columns = cellCoverage(width, DHASH_WIDTH);
+  const rows = cellCoverage(height, DHASH_HEIGHT);
+  const sums = new Float64Array(DHASH_WIDTH * DHASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * channels;
+      const grey = 0.299 * pixels[index] + 0.587 * pixels[index + 1] + 0.114 * pixels[index + 2];
+      for (const [row, rowShare] of rows[y]) {
+        for (const [column, columnShare] of columns[x]) {
+          sums[row * DHASH_WIDTH + column] += grey * rowShare * columnShare;
+        }
+      }
+    }
+  }
+
+  // Every cell covers the same area, so the sums compare just like the averages
+  return computeDifferenceHash(sums);
+}
+
+function popCount32(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Count the differing bits between two perceptual hashes of equal length
+ * @returns The Hamming distance, or Infinity if the hashes aren't comparable
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length || a.length % 8 !== 0) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    const left = parseInt(a.slice(i, i + 8), 16);
+    const right = parseInt(b.slice(i, i + 8), 16);
+    if (Number.isNaN(left) || Number.isNaN(right)) {
+      return Infinity;
+    }
+    distance += popCount32((left ^ right) >>> 0);
+  }
+  return distance;
+}
+
+export interface HashedItem {
+  id: string;
+  contentHash?: string | null;
+  perceptualHash?: string | null;
+}
+
+export interface DuplicateCluster<T extends HashedItem> {
+  /** True when every image in the cluster has the same file contents */
+  exact: boolean;
+  items: T[];
+}
+
+/**
+ * Group items whose files are identical or look nearly the same
+ * Matches are transitive: if A ~ B and B ~ C, all three end up in one cluster.
+ * @param items Items with content and/or perceptual hashes
+ * @param threshold Maximum Hamming distance for two perceptual hashes to match
+ * @returns Clusters with at least two items, in input order
+ */
+export function clusterDuplicates<T extends HashedItem>(items: T[], threshold: number): DuplicateCluster<T>[] {
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    }
+  };
+
+  // Exact matches are cheap to find by grouping on the content hash
+  const byContentHash = new Map<string, number>();
+  items.forEach((item, index) => {
+    if (!item.contentHash) return;
+    const first = byContentHash.get(item.contentHash);
+    if (first === undefined) {
+      byContentHash.set(item.contentHash, index);
+    } else {
+      union(first, index);
+    }
+  });
+
+  for (let i = 0; i < items.length; i++) {
+    const hashA = items[i].perceptualHash;
+    if (!hashA) continue;
+    for (let j = i + 1; j < items.length; j++) {
+      const hashB = items[j].perceptualHash;
+      if (hashB && hammingDistance(hashA, hashB) <= threshold) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({
+      exact: !!group[0].contentHash && group.every(item => item.contentHash === group[0].contentHash),
+      items: group,
+    }));
+}
+
+/**
+ * Hash an image file in the browser before it is uploaded
+ * Uses the same algorithms as the server so results can be checked against stored images.
+ * @returns The SHA-256 content hash and, when the image can be decoded, its perceptual hash
+ */
+export async function computeFileHashes(file: File): Promise<{ contentHash: string; perceptualHash: string | null }> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const contentHash = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  let perceptualHash: string | null = null;
+  try {
+    const bitmap = await createImageBitmap(file, {
+      resizeWidth: HASH_SOURCE_WIDTH,
+      resizeHeight: HASH_SOURCE_HEIGHT,
+      resizeQuality: 'high',
+    });
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_SOURCE_WIDTH;
+      canvas.height = HASH_SOURCE_HEIGHT;
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.drawImage(bitmap, 0, 0);
+        const { data } = context.getImageData(0, 0, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT);
+        perceptualHash = computePerceptualHash(data, HASH_SOURCE_WIDTH, HASH_SOURCE_HEIGHT, 4);
+      }
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    // Formats the browser can't decode still get exact-match detection
+  }
+
+  return { contentHash, perceptualHash };
+}
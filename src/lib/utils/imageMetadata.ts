@@ -0,0 +1,124 @@
+/**
+ * Helpers for normalizing and displaying image metadata (EXIF/IPTC/XMP)
+ * Safe to use on both the client and the server
+ */
+import type { ImageMetadata } from '@/lib/schemas';
+
+/**
+ * Prisma `omit` clause that hides location fields
+ * Use it wherever metadata may be shown to someone other than the owner.
+ */
+export const LOCATION_METADATA_OMIT = {
+  latitude: true,
+  longitude: true,
+  altitude: true,
+} as const;
+
+// Parsed XMP values can be plain strings, arrays, or language-tagged objects
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter((part): part is string => !!part);
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+  if (typeof value === 'object' && 'value' in value) {
+    return toText((value as { value: unknown }).value);
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (Array.isArray(value) && value.length > 0) return toNumber(value[0]);
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date && !isNaN(value.getTime())) return value;
+  return null;
+}
+
+/**
+ * Convert the flat output of the EXIF parser into our stored metadata shape
+ * @param raw Merged EXIF/IPTC/XMP tags as returned by exifr
+ * @param dimensions Pixel dimensions of the image as displayed (after orientation)
+ */
+export function normalizeImageMetadata(
+  raw: Record<string, unknown> | null | undefined,
+  dimensions: { width?: number; height?: number } = {}
+): ImageMetadata {
+  const tags = raw ?? {};
+  const iso = toNumber(tags.ISO ?? tags.ISOSpeedRatings);
+  const keywords = toText(tags.Keywords ?? tags.subject);
+
+  return {
+    width: dimensions.width ?? toNumber(tags.ExifImageWidth),
+    height: dimensions.height ?? toNumber(tags.ExifImageHeight),
+    cameraMake: toText(tags.Make),
+    cameraModel: toText(tags.Model),
+    lensModel: toText(tags.LensModel ?? tags.Lens),
+    focalLength: toNumber(tags.FocalLength),
+    aperture: toNumber(tags.FNumber ?? tags.ApertureValue),
+    exposureTime: toNumber(tags.ExposureTime),
+    iso: iso !== null ? Math.round(iso) : null,
+    capturedAt: toDate(tags.DateTimeOriginal ?? tags.CreateDate ?? tags.DateCreated),
+    latitude: toNumber(tags.latitude),
+    longitude: toNumber(tags.longitude),
+    altitude: toNumber(tags.GPSAltitude),
+    artist: toText(tags.Artist ?? tags.Byline ?? tags.creator),
+    copyright: toText(tags.Copyright ?? tags.CopyrightNotice ?? tags.rights),
+    caption: toText(tags.ImageDescription ?? tags.Caption ?? tags.description),
+    keywords,
+  };
+}
+
+/**
+ * Format an exposure time in seconds the way cameras display it (e.g., "1/250 s")
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) {
+    return `${Number(seconds.toFixed(1))} s`;
+  }
+  return `1/${Math.round(1 / seconds)} s`;
+}
+
+/**
+ * Build the label/value rows shown in image info panels
+ * Empty fields are skipped so images without EXIF data produce no rows.
+ */
+export function getMetadataDisplayRows(metadata: ImageMetadata | null | undefined): { label: string; value: string }[] {
+  if (!metadata) return [];
+
+  const rows: { label: string; value: string }[] = [];
+  const camera = [metadata.cameraMake, metadata.cameraModel]
+    .filter(Boolean)
+    .join(' ');
+
+  if (camera) rows.push({ label: 'Camera', value: camera });
+  if (metadata.lensModel) rows.push({ label: 'Lens', value: metadata.lensModel });
+
+  const exposure = [
+    metadata.focalLength ? `${Number(metadata.focalLength.toFixed(1))} mm` : null,
+    metadata.aperture ? `f/${Number(metadata.aperture.toFixed(1))}` : null,
+    metadata.exposureTime ? formatExposureTime(metadata.exposureTime) : null,
+    metadata.iso ? `ISO ${metadata.iso}` : null,
+  ].filter(Boolean).join(' · ');
+  if (exposure) rows.push({ label: 'Exposure', value: exposure });
+
+  if (metadata.capturedAt) {
+    rows.push({ label: 'Taken', value: new Date(metadata.capturedAt).toLocaleString() });
+  }
+  if (metadata.width && metadata.height) {
+    rows.push({ label: 'Dimensions', value: `${metadata.width} × ${metadata.height}` });
+  }
+  if (metadata.latitude != null && metadata.longitude != null) {
+    rows.push({ label: 'Location', value: `${metadata.latitude.toFixed(5)}, ${metadata.longitude.toFixed(5)}` });
+  }
+  if (metadata.artist) rows.push({ label: 'Artist', value: metadata.artist });
+  if (metadata.copyright) rows.push({ label: 'Copyright', value: metadata.copyright });
+  if (metadata.keywords) rows.push({ label: 'Keywords', value: metadata.keywords });
+
+  return rows;
+}
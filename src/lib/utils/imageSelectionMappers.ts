@@ -2,7 +2,7 @@
  * Utility functions for mapping between schema-derived types for image selection
  */
 import { z } from 'zod';
-import { ImageSchema, TagSchema } from '@/lib/schemas';
+import { ImageSchema, TagSchema, SearchFacetsSchema } from '@/lib/schemas';
 
 /**
  * Schema for image selection in UI
@@ -67,7 +67,8 @@ export const SelectableImageResponseSchema = ApiResponseWrapperSchema(
       hasPrevPage: z.boolean(),
       nextPage: z.number().nullable(),
       prevPage: z.number().nullable()
-    })
+    }),
+    facets: SearchFacetsSchema.optional()
   })
 );
 
@@ -0,0 +1,73 @@
+/**
+ * Helpers for choosing between the responsive variants of an image
+ * Safe to use on both the client and the server
+ */
+import type { ImageVariant } from '@/lib/schemas';
+
+// Browser preference order: the first matching <source> wins
+const FORMAT_PREFERENCE = ['avif', 'webp', 'jpeg'];
+
+export interface VariantSource {
+  type: string;
+  srcSet: string;
+}
+
+/**
+ * Build a `srcset` attribute value from the variants of a single format
+ * @param variants All variants of an image
+ * @param format The format to include (e.g., "webp")
+ * @returns A srcset string ordered from smallest to largest, or an empty string
+ */
+export function buildSrcSet(variants: ImageVariant[] | null | undefined, format: string): string {
+  if (!variants) return '';
+
+  return variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * Build the <source> entries for a <picture> element, ordered by format preference
+ * @param variants All variants of an image
+ * @returns One source per available format
+ */
+export function getVariantSources(variants: ImageVariant[] | null | undefined): VariantSource[] {
+  if (!variants || variants.length === 0) return [];
+
+  const formats = Array.from(new Set(variants.map(variant => variant.format)));
+  formats.sort((a, b) => {
+    const rankA = FORMAT_PREFERENCE.indexOf(a);
+    const rankB = FORMAT_PREFERENCE.indexOf(b);
+    return (rankA === -1 ? FORMAT_PREFERENCE.length : rankA) - (rankB === -1 ? FORMAT_PREFERENCE.length : rankB);
+  });
+
+  return formats.map(format => ({
+    type: `image/${format}`,
+    srcSet: buildSrcSet(variants, format),
+  }));
+}
+
+/**
+ * Pick a single variant URL for places that can't use srcset (e.g., dimension probes)
+ * Prefers the smallest variant at least `minWidth` wide, then the largest available one.
+ * @param variants All variants of an image
+ * @param minWidth The minimum width needed, in pixels
+ * @param fallbackUrl URL returned when the image has no variants (usually the original)
+ */
+export function pickVariantUrl(
+  variants: ImageVariant[] | null | undefined,
+  minWidth: number,
+  fallbackUrl: string
+): string {
+  if (!variants || variants.length === 0) return fallbackUrl;
+
+  const preferredFormat = getVariantSources(variants)[0].type.replace('image/', '');
+  const candidates = variants
+    .filter(variant => variant.format === preferredFormat)
+    .sort((a, b) => a.width - b.width);
+
+  const match = candidates.find(variant => variant.width >= minWidth) ?? candidates[candidates.length - 1];
+  return match.url;
+}
@@ -0,0 +1,54 @@
+/**
+ * Helpers for multi-selecting items in a grid with shift-click ranges and a drag lasso
+ */
+
+export interface SelectionRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Ids between the anchor and the target (inclusive), in display order
+ * Falls back to just the target when the anchor isn't among the items (e.g. filtered out).
+ */
+export function getRangeIds(orderedIds: string[], anchorId: string | null, targetId: string): string[] {
+  const to = orderedIds.indexOf(targetId);
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  if (to === -1) return [];
+  if (from === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+/**
+ * Toggle an id in a selection, returning a new set
+ */
+export function toggleId(selection: ReadonlySet<string>, id: string): Set<string> {
+  const next = new Set(selection);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+}
+
+/**
+ * Normalize the rectangle dragged between two points, whichever direction it was drawn in
+ */
+export function rectFromPoints(a: { x: number; y: number }, b: { x: number; y: number }): SelectionRect {
+  return {
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    right: Math.max(a.x, b.x),
+    bottom: Math.max(a.y, b.y),
+  };
+}
+
+/**
+ * Whether two rectangles overlap (touching edges don't count)
+ */
+export function rectsIntersect(a: SelectionRect, b: SelectionRect): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+}
@@ -0,0 +1,80 @@
+/**
+ * Helpers for turning user search input into SQLite FTS5 queries
+ * Safe to use on both the client and the server
+ */
+
+export interface ParsedSearchQuery {
+  // FTS5 expression images must match, or null when there are no positive terms
+  include: string | null;
+  // FTS5 expression for terms prefixed with "-" that images must not match
+  exclude: string | null;
+}
+
+// Quote a term so FTS5 syntax characters in user input are treated literally
+function quoteTerm(term: string, prefix: boolean): string {
+  const quoted = `"${term.replace(/"/g, '""')}"`;
+  return prefix ? `${quoted}*` : quoted;
+}
+
+/**
+ * Split input into words and "quoted phrases", keeping a leading "-" as negation
+ */
+function tokenize(input: string): { text: string; negated: boolean; phrase: boolean }[] {
+  const tokens: { text: string; negated: boolean; phrase: boolean }[] = [];
+  const pattern = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    if (match[2] !== undefined) {
+      const text = match[2].trim();
+      if (text) tokens.push({ text, negated: match[1] === '-', phrase: true });
+    } else {
+      const word = match[3];
+      const negated = word.startsWith('-') && word.length > 1;
+      const text = (negated ? word.slice(1) : word).replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+      if (text) tokens.push({ text, negated, phrase: false });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse free-text search input
+ * - Words match by prefix ("sun" finds "sunset")
+ * - "Quoted phrases" match exactly
+ * - Terms are combined with AND; write OR between terms to match either
+ * - A leading "-" excludes a term ("beach -night")
+ */
+export function parseSearchQuery(input: string | null | undefined): ParsedSearchQuery {
+  const groups: string[][] = [[]];
+  const excluded: string[] = [];
+
+  for (const token of tokenize(input ?? '')) {
+    if (!token.phrase && !token.negated && token.text === 'OR') {
+      if (groups[groups.length - 1].length > 0) groups.push([]);
+      continue;
+    }
+    const term = quoteTerm(token.text, !token.phrase);
+    if (token.negated) {
+      excluded.push(term);
+    } else {
+      groups[groups.length - 1].push(term);
+    }
+  }
+
+  const alternatives = groups
+    .filter(group => group.length > 0)
+    .map(group => (group.length > 1 ? `(${group.join(' AND ')})` : group[0]));
+
+  return {
+    include: alternatives.length > 0 ? alternatives.join(' OR ') : null,
+    exclude: excluded.length > 0 ? excluded.join(' OR ') : null,
+  };
+}
+
+/**
+ * Parse a comma-separated list parameter, dropping blanks and duplicates
+ */
+export function parseListParam(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+}
@@ -0,0 +1,7 @@
+/**
+ * Sign-in throttling errors, shared by the server and the login page
+ */
+// Too many sign-in attempts from this address
+export const SIGN_IN_RATE_LIMITED = 'TooManySignInAttempts';
+// Too many failed sign-ins for this account in a row
+export const ACCOUNT_LOCKED = 'AccountLocked';
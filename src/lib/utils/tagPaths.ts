@@ -0,0 +1,88 @@
+/**
+ * Helpers for hierarchical tag names
+ *
+ * A tag's name is its full path, with levels separated by "/" (e.g., "travel/japan/kyoto").
+ * Safe to use on both the client and the server.
+ */
+
+export const TAG_PATH_SEPARATOR = '/';
+
+/**
+ * Clean up user input: trim each level and drop empty levels ("travel / /japan" -> "travel/japan")
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .split(TAG_PATH_SEPARATOR)
+    .map(segment => segment.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(TAG_PATH_SEPARATOR);
+}
+
+/**
+ * Paths of every ancestor of a tag, outermost first ("a/b/c" -> ["a", "a/b"])
+ */
+export function getAncestorPaths(name: string): string[] {
+  const segments = name.split(TAG_PATH_SEPARATOR);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(TAG_PATH_SEPARATOR));
+}
+
+/**
+ * Path of a tag's parent, or null for top-level tags
+ */
+export function getParentPath(name: string): string | null {
+  const index = name.lastIndexOf(TAG_PATH_SEPARATOR);
+  return index === -1 ? null : name.slice(0, index);
+}
+
+/**
+ * The last level of a tag path, used as its display label ("travel/japan" -> "japan")
+ */
+export function getTagLabel(name: string): string {
+  return name.slice(name.lastIndexOf(TAG_PATH_SEPARATOR) + 1);
+}
+
+/**
+ * Whether `name` is `ancestor` itself or one of its descendants
+ */
+export function isSameOrDescendant(name: string, ancestor: string): boolean {
+  return name === ancestor || name.startsWith(ancestor + TAG_PATH_SEPARATOR);
+}
+
+/**
+ * Replace the `from` prefix of a tag path with `to` ("a/b/c", "a/b", "x" -> "x/c")
+ */
+export function replaceTagPrefix(name: string, from: string, to: string): string {
+  return to + name.slice(from.length);
+}
+
+export type TagTreeNode<T extends { name: string }> = T & {
+  depth: number;
+  children: TagTreeNode<T>[];
+};
+
+/**
+ * Arrange tags into a tree by their paths, sorted by name at every level
+ * Tags whose parent is missing from the list are treated as roots.
+ */
+export function buildTagTree<T extends { name: string }>(tags: T[]): TagTreeNode<T>[] {
+  const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+  const nodes = new Map<string, TagTreeNode<T>>();
+  const roots: TagTreeNode<T>[] = [];
+
+  for (const tag of sorted) {
+    // Ancestors sort before descendants, so a present parent is already in the map
+    const parent = getAncestorPaths(tag.name).reverse().map(path => nodes.get(path)).find(Boolean);
+    const node: TagTreeNode<T> = { ...tag, depth: parent ? parent.depth + 1 : 0, children: [] };
+    nodes.set(tag.name, node);
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Flatten a tag tree in display order (each node followed by its descendants)
+ */
+export function flattenTagTree<T extends { name: string }>(nodes: TagTreeNode<T>[]): TagTreeNode<T>[] {
+  return nodes.flatMap(node => [node, ...flattenTagTree(node.children)]);
+}
@@ -0,0 +1,6 @@
+/**
+ * Two-factor sign-in errors, shared by the credentials provider and the login page
+ * NextAuth passes the message of an error thrown in authorize() back to signIn().
+ */
+export const TWO_FACTOR_REQUIRED = 'TwoFactorRequired';
+export const TWO_FACTOR_INVALID = 'TwoFactorInvalid';
@@ -6,6 +6,8 @@ import { z } from 'zod';
 import { 
   ImageSchema, 
   ImageInGallerySchema,
+  ImageVariantSchema,
+  ImageMetadataSchema,
   GallerySchema
 } from '@/lib/schemas';
 
@@ -22,16 +24,24 @@ export const DisplayImageSchema = z.object({
     id: z.string(),
     name: z.string()
   })).optional(),
+  variants: z.array(ImageVariantSchema).optional(),
+  metadata: ImageMetadataSchema.nullable().optional(),
+  addedBy: z.string().optional(), // Member who added the image to a collaborative gallery
 });
 
 export type DisplayImage = z.infer<typeof DisplayImageSchema>;
 
+interface DisplayImageOptions {
+  includeAddedBy?: boolean; // Credit the member who added each image
+}
+
 /**
  * Maps an ImageInGallery to a DisplayImage, using the gallery-specific description
  * Handles possible undefined image values safely
  */
 export function mapGalleryImageToDisplayImage(
-  imageInGallery: z.infer<typeof ImageInGallerySchema>
+  imageInGallery: z.infer<typeof ImageInGallerySchema>,
+  { includeAddedBy = false }: DisplayImageOptions = {}
 ): DisplayImage {
   if (!imageInGallery.image) {
     // Create a safe fallback if image is undefined
@@ -48,6 +58,9 @@ export function mapGalleryImageToDisplayImage(
     title: imageInGallery.image.title,
     description: imageInGallery.description || undefined, // Convert null to undefined
     tags: imageInGallery.image.tags,
+    variants: imageInGallery.image.variants,
+    metadata: imageInGallery.image.metadata,
+    ...(includeAddedBy && { addedBy: imageInGallery.addedBy?.name || undefined }),
   };
 }
 
@@ -55,17 +68,19 @@ export function mapGalleryImageToDisplayImage(
  * Maps an array of ImageInGallery objects to component-compatible DisplayImage objects
  */
 export function mapGalleryImagesToDisplayImages(
-  imagesInGallery: z.infer<typeof ImageInGallerySchema>[]
+  imagesInGallery: z.infer<typeof ImageInGallerySchema>[],
+  options: DisplayImageOptions = {}
 ): DisplayImage[] {
   return imagesInGallery
     .filter(img => img.image) // Filter out any with undefined image
-    .map(img => ({
-      id: img.image!.id, 
-      url: img.image!.url,
-      title: img.image!.title,
-      description: img.description || undefined, // Convert null to undefined for component compatibility
-      tags: img.image!.tags
-    }));
+    .map(img => mapGalleryImageToDisplayImage(img, options));
+}
+
+/**
+ * Whether anyone besides the owner added images, in which case views credit who added each one
+ */
+export function hasOtherContributors(gallery: Pick<DisplayGallery, 'userId' | 'images'>): boolean {
+  return gallery.images.some(img => !!img.addedById && img.addedById !== gallery.userId);
 }
 
 /**
@@ -0,0 +1,325 @@
+/**
+ * Streaming ZIP writer and reader
+ *
+ * Writes entries one at a time as they're produced, so an archive never has to fit in
+ * memory. Entries are stored as they are unless they ask to be compressed: images are
+ * already compressed, and deflating them only costs CPU. Archives are limited to the
+ * classic ZIP format (65,535 entries, 4 GiB), which every unzip tool reads.
+ *
+ * The reader works on an archive on disk through its central directory, reading one
+ * entry at a time. It also reads ZIP64 archives, which is what operating systems write
+ * for big photo libraries.
+ */
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+import type { FileHandle } from 'fs/promises';
+
+export interface ZipEntry {
+  // Path inside the archive, using forward slashes
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: Date;
+  // Deflate the entry (kept only when that makes it smaller)
+  compress?: boolean;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+// Bit 0: the entry is encrypted
+const ENCRYPTED_FLAG = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+interface WrittenEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// MS-DOS timestamps have two-second precision and start in 1980
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4); // Version needed to extract
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28); // Extra field length
+  return Buffer.concat([header, entry.name]);
+}
+
+function centralHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(20, 4); // Version made by
+  header.writeUInt16LE(20, 6); // Version needed to extract
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(entry.method, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // Extra field, comment, disk number, internal and external attributes stay zero
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(entryCount: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(entryCount, 8);
+  record.writeUInt16LE(entryCount, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+/**
+ * The chunks of a ZIP archive holding the given entries, in order
+ */
+export async function* zipChunks(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (written.length === MAX_ENTRIES) {
+      throw new Error(`ZIP archives can hold at most ${MAX_ENTRIES} entries`);
+    }
+    const deflated = entry.compress ? deflateRawSync(entry.data) : null;
+    const useDeflate = !!deflated && deflated.length < entry.data.length;
+    const data = useDeflate ? deflated : entry.data;
+
+    const record: WrittenEntry = {
+      name: Buffer.from(entry.name, 'utf8'),
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+      ...dosDateTime(entry.modifiedAt ?? new Date()),
+      crc: crc32(entry.data),
+      compressedSize: data.length,
+      size: entry.data.length,
+      offset,
+    };
+    const header = localHeader(record);
+    if (offset + header.length + data.length > MAX_OFFSET) {
+      throw new Error('ZIP archives are limited to 4 GiB');
+    }
+
+    yield header;
+    yield Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    written.push(record);
+    offset += header.length + data.length;
+  }
+
+  const directory = Buffer.concat(written.map(centralHeader));
+  yield directory;
+  yield endOfCentralDirectory(written.length, directory.length, offset);
+}
+
+/**
+ * A ZIP archive as a web stream, e.g. for a route handler's Response
+ * Entries are only pulled from the iterable as the client reads, so slow downloads
+ * don't pile up files in memory.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * An entry listed in an archive's central directory
+ */
+export interface ZipDirectoryEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  // Where the entry's local header starts
+  offset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+// The end record is 22 bytes, followed by a comment of up to 65,535
+const MAX_END_SEARCH = 22 + 0xffff;
+// Smallest central directory header, with an empty name, extra field and comment
+const CENTRAL_HEADER_SIZE = 46;
+
+async function readAt(file: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new Error('Unexpected end of ZIP archive');
+  }
+  return buffer;
+}
+
+// Sizes and offsets too big for their 32-bit fields are in the ZIP64 extra field, in this order
+function applyZip64Extra(entry: ZipDirectoryEntry, extra: Buffer): void {
+  for (let position = 0; position + 4 <= extra.length;) {
+    const id = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let field = position + 4;
+      for (const key of ['size', 'compressedSize', 'offset'] as const) {
+        if (entry[key] === MAX_OFFSET && field + 8 <= position + 4 + length) {
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
+
+/**
+ * List the entries of a ZIP archive, folders included (their names end with "/")
+ * @throws Error when the file isn't a ZIP archive
+ */
+export async function readZipDirectory(file: FileHandle): Promise<ZipDirectoryEntry[]> {
+  const { size } = await file.stat();
+  const tailLength = Math.min(size, MAX_END_SEARCH);
+  const tail = await readAt(file, size - tailLength, tailLength);
+  let end = -1;
+  for (let position = tail.length - 22; position >= 0; position--) {
+    if (tail.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY) {
+      end = position;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  let entryCount = tail.readUInt16LE(end + 10);
+  let directorySize = tail.readUInt32LE(end + 12);
+  let directoryOffset = tail.readUInt32LE(end + 16);
+  const locator = end - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR) {
+    const record = await readAt(file, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('Invalid ZIP64 end of central directory');
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  // Sizes come from the archive itself: check them before allocating anything
+  if (
+    !Number.isSafeInteger(directoryOffset + directorySize)
+    || directoryOffset + directorySize > size
+    || entryCount * CENTRAL_HEADER_SIZE > directorySize
+  ) {
+    throw new Error('Invalid ZIP central directory');
+  }
+  const directory = await readAt(file, directoryOffset, directorySize);
+  const entries: ZipDirectoryEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (position + CENTRAL_HEADER_SIZE > directory.length || directory.readUInt32LE(position) !== 0x02014b50) {
+      throw new Error('Invalid ZIP central directory');
+    }
+    const flags = directory.readUInt16LE(position + 8);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    const nameBytes = directory.subarray(position + 46, position + 46 + nameLength);
+    const entry: ZipDirectoryEntry = {
+      // Names without the UTF-8 flag are in the DOS code page; latin1 keeps ASCII intact
+      name: nameBytes.toString(flags & UTF8_FLAG ? 'utf8' : 'latin1'),
+      method: directory.readUInt16LE(position + 10),
+      flags,
+      crc: directory.readUInt32LE(position + 16),
+      compressedSize: directory.readUInt32LE(position + 20),
+      size: directory.readUInt32LE(position + 24),
+      offset: directory.readUInt32LE(position + 42),
+    };
+    const extraStart = position + 46 + nameLength;
+    applyZip64Extra(entry, directory.subarray(extraStart, extraStart + extraLength));
+    entries.push(entry);
+    position = extraStart + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Read and decompress one entry, checking its CRC
+ * Inflating stops at the size the entry declares, so an entry lying about its size
+ * can't expand past it.
+ * @param maxSize Largest entry accepted, checked before anything is read
+ * @throws Error for oversized and encrypted entries, unsupported compression methods and corrupt data
+ */
+export async function readZipEntry(file: FileHandle, entry: ZipDirectoryEntry, maxSize = Infinity): Promise<Buffer> {
+  if (entry.size > maxSize) {
+    throw new Error('ZIP entry is too large');
+  }
+  if (entry.flags & ENCRYPTED_FLAG) {
+    throw new Error('Encrypted ZIP entries are not supported');
+  }
+  if (entry.method !== METHOD_STORE && entry.method !== METHOD_DEFLATE) {
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  }
+
+  // The local header's name and extra field can differ in length from the central directory's
+  const header = await readAt(file, entry.offset, 30);
+  if (header.readUInt32LE(0) !== 0x04034b50) {
+    throw new Error('Invalid ZIP local header');
+  }
+  const dataStart = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (dataStart + entry.compressedSize > (await file.stat()).size) {
+    throw new Error('ZIP entry is corrupt');
+  }
+  const raw = await readAt(file, dataStart, entry.compressedSize);
+  let data: Buffer;
+  try {
+    data = entry.method === METHOD_DEFLATE ? inflateRawSync(raw, { maxOutputLength: Math.max(entry.size, 1) }) : raw;
+  } catch {
+    throw new Error('ZIP entry is corrupt');
+  }
+
+  if (data.length !== entry.size || crc32(data) !== entry.crc) {
+    throw new Error('ZIP entry is corrupt');
+  }
+  return data;
+}
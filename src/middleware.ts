@@ -2,24 +2,12 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getToken } from 'next-auth/jwt';
 import { UserRole } from '@prisma/client';
-import { e2eRateLimiter } from '@/lib/rateLimit';
+import { twoFactor } from '@/lib/config';
 
 export async function middleware(request: NextRequest) {
   // Get the pathname of the request
   const path = request.nextUrl.pathname;
 
-  // Apply rate limiting to auth routes and E2E endpoints
-  if (path.startsWith('/api/auth') || 
-      path.startsWith('/auth') ||
-      path.startsWith('/api/e2e/')) {
-    
-    // Check if this is an E2E test and apply appropriate rate limiting
-    const rateLimitResponse = e2eRateLimiter(request);
-    if (rateLimitResponse) {
-      return rateLimitResponse;
-    }
-  }
-
   // Get the token
   const session = await getToken({ req: request });
   const userId = session?.sub;
@@ -57,6 +45,13 @@ export async function middleware(request: NextRequest) {
           new URL('/?error=admin_access_required', request.url)
         );
       }
+
+      // Policy can require admins to set up two-factor authentication first
+      if (twoFactor.requireForAdmins && !session.twoFactorEnabled) {
+        return NextResponse.redirect(
+          new URL('/profile/two-factor?required=true', request.url)
+        );
+      }
     } catch (error) {
       // If there's an error checking admin status, redirect to home
       console.error('Admin access check failed:', error);
@@ -72,8 +67,5 @@ export async function middleware(request: NextRequest) {
 export const config = {
   matcher: [
     '/admin/:path*',
-    '/api/auth/:path*',
-    '/auth/:path*',
-    '/api/e2e/:path*',
   ],
 };